@@ -19,15 +19,24 @@ import { PersonalRecordsPage } from "./pages/PersonalRecordsPage";
 import { WeightLogPage } from "./pages/WeightLogPage";
 import { ProfilePage } from "./pages/ProfilePage";
 import { AnalyticsPage } from "./pages/AnalyticsPage";
+import { SyncIssuesPage } from "./pages/SyncIssuesPage";
+import { TrainingMaxesPage } from "./pages/TrainingMaxesPage";
+import { HistoryImportPage } from "./pages/HistoryImportPage";
+import { HealthPage } from "./pages/HealthPage";
+import { EquipmentPage } from "./pages/EquipmentPage";
 import { ProtectedRoute } from "./components/ProtectedRoute";
 import { InstallPrompt } from "./components/InstallPrompt";
+import { UpdatePrompt } from "./components/UpdatePrompt";
 import { SyncStatusIndicator } from "./components/SyncStatusIndicator";
+import { SessionExpiredSheet } from "./components/SessionExpiredSheet";
 
 export function App() {
   return (
     <>
       <InstallPrompt />
+      <UpdatePrompt />
       <SyncStatusIndicator />
+      <SessionExpiredSheet />
       <Routes>
       <Route path="/" element={<Navigate to="/dashboard" replace />} />
       <Route path="/login" element={<LoginPage />} />
@@ -177,6 +186,46 @@ export function App() {
           </ProtectedRoute>
         }
       />
+      <Route
+        path="/training-maxes"
+        element={
+          <ProtectedRoute>
+            <TrainingMaxesPage />
+          </ProtectedRoute>
+        }
+      />
+      <Route
+        path="/equipment"
+        element={
+          <ProtectedRoute>
+            <EquipmentPage />
+          </ProtectedRoute>
+        }
+      />
+      <Route
+        path="/import-history"
+        element={
+          <ProtectedRoute>
+            <HistoryImportPage />
+          </ProtectedRoute>
+        }
+      />
+      <Route
+        path="/health"
+        element={
+          <ProtectedRoute>
+            <HealthPage />
+          </ProtectedRoute>
+        }
+      />
+      <Route
+        path="/sync-issues"
+        element={
+          <ProtectedRoute>
+            <SyncIssuesPage />
+          </ProtectedRoute>
+        }
+      />
     </Routes>
     </>
   );
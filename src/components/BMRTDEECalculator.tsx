@@ -1,19 +1,5 @@
 import { useState, useEffect } from "react";
-import { api } from "../services/api";
-
-type ActivityLevel = "sedentary" | "lightly_active" | "moderately_active" | "very_active" | "extremely_active";
-
-interface BMRTDEEData {
-  bmr: number;
-  tdee: Record<ActivityLevel, number>;
-  calorie_targets: {
-    maintain: number;
-    cut: number;
-    bulk: number;
-  };
-  activity_level_used: ActivityLevel;
-  primary_tdee: number;
-}
+import { usersApi, type ActivityLevel, type BmrTdee } from "../services/api";
 
 const ACTIVITY_LEVELS: Record<ActivityLevel, { label: string; description: string }> = {
   sedentary: { label: "Sedentary", description: "Little to no exercise" },
@@ -25,7 +11,7 @@ const ACTIVITY_LEVELS: Record<ActivityLevel, { label: string; description: strin
 
 export function BMRTDEECalculator() {
   const [activityLevel, setActivityLevel] = useState<ActivityLevel>("moderately_active");
-  const [data, setData] = useState<BMRTDEEData | null>(null);
+  const [data, setData] = useState<BmrTdee | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
@@ -33,8 +19,7 @@ export function BMRTDEECalculator() {
     try {
       setLoading(true);
       setError(null);
-      const response = await api.get<BMRTDEEData>(`/users/bmr-tdee?activity_level=${level}`);
-      setData(response.data);
+      setData(await usersApi.getBmrTdee(level));
     } catch (err: any) {
       const errorMsg = err.response?.data?.detail || err.message || "Failed to calculate BMR/TDEE";
       setError(errorMsg);
@@ -0,0 +1,135 @@
+import { useState, useEffect, useRef } from "react";
+import { formatDuration } from "../services/trackingModes";
+
+interface DurationInputProps {
+  label: string;
+  seconds: number;
+  onChange: (seconds: number) => void;
+}
+
+type TimerMode = "stopwatch" | "countdown";
+
+// A set's time, typed with +/- or taken from a stopwatch, or from a countdown for holds with a target
+// The countdown starts from the current value; stopping it early records the time actually held
+export function DurationInput({ label, seconds, onChange }: DurationInputProps) {
+  const [mode, setMode] = useState<TimerMode>("stopwatch");
+  const [running, setRunning] = useState(false);
+  const [remaining, setRemaining] = useState(0);
+  const startRef = useRef<{ at: number; from: number } | null>(null);
+  const onChangeRef = useRef(onChange);
+  onChangeRef.current = onChange;
+
+  useEffect(() => {
+    if (!running || !startRef.current) return;
+    const { at, from } = startRef.current;
+
+    // Elapsed time comes from the clock rather than counting ticks, which drift in background tabs
+    const interval = setInterval(() => {
+      const elapsed = Math.floor((Date.now() - at) / 1000);
+      if (mode === "stopwatch") {
+        onChangeRef.current(from + elapsed);
+        return;
+      }
+      const left = Math.max(0, from - elapsed);
+      setRemaining(left);
+      if (left === 0) {
+        clearInterval(interval);
+        setRunning(false);
+        onChangeRef.current(from);
+        if ("vibrate" in navigator) {
+          navigator.vibrate([200, 100, 200]);
+        }
+      }
+    }, 250);
+
+    return () => clearInterval(interval);
+  }, [running, mode]);
+
+  const handleStart = () => {
+    if (mode === "countdown" && seconds <= 0) return;
+    startRef.current = { at: Date.now(), from: seconds };
+    setRemaining(seconds);
+    setRunning(true);
+  };
+
+  const handleStop = () => {
+    setRunning(false);
+    const start = startRef.current;
+    if (mode === "countdown" && start) {
+      onChange(Math.min(start.from, Math.floor((Date.now() - start.at) / 1000)));
+    }
+  };
+
+  const adjust = (delta: number) => onChange(Math.max(0, seconds + delta));
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2 md:mb-3">
+        <label className="text-sm font-medium text-gray-300">{label}</label>
+        <div className="flex gap-1">
+          {(["stopwatch", "countdown"] as const).map((option) => (
+            <button
+              key={option}
+              onClick={() => setMode(option)}
+              disabled={running}
+              className={`px-2 py-0.5 rounded-md text-[11px] capitalize ${
+                mode === option ? "bg-gold-500/20 text-gold-500" : "bg-white/5 text-gray-400"
+              }`}
+            >
+              {option}
+            </button>
+          ))}
+        </div>
+      </div>
+      <div className="flex items-center gap-3 md:gap-4">
+        <button onClick={() => adjust(-5)} disabled={running} className="touch-number-btn">
+          −
+        </button>
+        <div className="flex-1 text-center py-2">
+          <div className="text-4xl md:text-5xl font-bold mb-0.5 text-white tabular-nums">
+            {formatDuration(running && mode === "countdown" ? remaining : seconds)}
+          </div>
+          <div className="text-xs md:text-sm text-gray-400">
+            {running && mode === "countdown" ? "left" : "min:sec"}
+          </div>
+        </div>
+        <button onClick={() => adjust(5)} disabled={running} className="touch-number-btn">
+          +
+        </button>
+      </div>
+      <div className="flex gap-1.5 md:gap-2 mt-2 md:mt-3">
+        {[-15, 15, 30, 60].map((delta) => (
+          <button
+            key={delta}
+            onClick={() => adjust(delta)}
+            disabled={running}
+            className="flex-1 py-2 text-xs bg-white/5 active:bg-gold-500/20 rounded-lg text-gray-400 active:text-gold-500 transition-colors disabled:opacity-50"
+          >
+            {delta > 0 ? "+" : ""}
+            {delta}s
+          </button>
+        ))}
+      </div>
+      <div className="flex gap-2 mt-2">
+        <button
+          onClick={running ? handleStop : handleStart}
+          className={`flex-1 h-11 rounded-xl text-sm font-semibold ${
+            running
+              ? "bg-red-500/20 text-red-400 border border-red-500/40"
+              : "bg-gradient-to-r from-gold-600 to-gold-500 text-black"
+          }`}
+        >
+          {running ? "Stop" : mode === "stopwatch" ? "Start Stopwatch" : "Start Countdown"}
+        </button>
+        {!running && seconds > 0 && (
+          <button
+            onClick={() => onChange(0)}
+            className="px-4 h-11 bg-white/5 border border-white/10 text-gray-400 rounded-xl text-sm"
+          >
+            Reset
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
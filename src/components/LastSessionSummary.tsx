@@ -1,34 +1,6 @@
 import { useState, useEffect } from "react";
-import { sessionsApi } from "../services/api";
-
-interface SetDetail {
-  set_number: number;
-  weight_kg: number;
-  reps: number;
-  rpe: number | null;
-  is_warmup: boolean;
-}
-
-interface ExerciseSummary {
-  exercise_id: string;
-  exercise_name: string;
-  muscle_group: string | null;
-  total_sets: number;
-  sets: SetDetail[];
-}
-
-interface LastSessionData {
-  found: boolean;
-  workout_name: string;
-  session_date?: string;
-  completed_at?: string;
-  duration_minutes?: number;
-  overall_rpe?: number;
-  total_sets?: number;
-  total_volume?: number;
-  exercises?: ExerciseSummary[];
-  message?: string;
-}
+import { sessionsApi, type LastSession } from "../services/api";
+import { useUnits } from "../hooks/useUnits";
 
 interface LastSessionSummaryProps {
   workoutId: string;
@@ -36,7 +8,8 @@ interface LastSessionSummaryProps {
 }
 
 export function LastSessionSummary({ workoutId, workoutName }: LastSessionSummaryProps) {
-  const [data, setData] = useState<LastSessionData | null>(null);
+  const units = useUnits();
+  const [data, setData] = useState<LastSession | null>(null);
   const [loading, setLoading] = useState(true);
   const [expanded, setExpanded] = useState(false);
 
@@ -104,7 +77,7 @@ export function LastSessionSummary({ workoutId, workoutName }: LastSessionSummar
           </div>
           <div className="flex gap-3 text-[10px] md:text-xs text-gray-400">
             <span>{data.total_sets} sets</span>
-            <span>{data.total_volume?.toFixed(0)} kg</span>
+            <span>{units.formatWeight(data.total_volume, { decimals: 0 })}</span>
             {data.duration_minutes && <span>{data.duration_minutes} min</span>}
           </div>
         </div>
@@ -150,7 +123,7 @@ export function LastSessionSummary({ workoutId, workoutName }: LastSessionSummar
                 {exercise.sets.filter(s => !s.is_warmup).map((set) => (
                   <>
                     <div key={`${set.set_number}-num`} className="text-gray-400">{set.set_number}</div>
-                    <div key={`${set.set_number}-wt`} className="text-white font-medium">{set.weight_kg} kg</div>
+                    <div key={`${set.set_number}-wt`} className="text-white font-medium">{units.formatWeight(set.weight_kg, { decimals: 1 })}</div>
                     <div key={`${set.set_number}-reps`} className="text-white font-medium">{set.reps}</div>
                     <div key={`${set.set_number}-rpe`} className="text-gray-400">{set.rpe || "-"}</div>
                   </>
@@ -1,14 +1,26 @@
-import { type ExerciseInSession } from "../services/api";
+import { type ExerciseInSession, type LoadType, type TrackingMode } from "../services/api";
+import { formatSetResult, type SetMetrics } from "../services/trackingModes";
+import { useUnits } from "../hooks/useUnits";
+
+type SetSummary = SetMetrics & { rpe?: number };
 
 interface PreviousPerformanceProps {
   lastSession: {
     date: string;
-    sets: Array<{ weight_kg: number; reps: number; rpe?: number }>;
+    sets: SetSummary[];
   };
-  onQuickFill?: (data: { weight_kg: number; reps: number; rpe?: number }) => void;
+  loadType?: LoadType;
+  mode?: TrackingMode;
+  onQuickFill?: (data: SetSummary) => void;
 }
 
-export function PreviousPerformance({ lastSession, onQuickFill }: PreviousPerformanceProps) {
+export function PreviousPerformance({
+  lastSession,
+  loadType = "external",
+  mode = "reps",
+  onQuickFill,
+}: PreviousPerformanceProps) {
+  const units = useUnits();
   if (!lastSession || !lastSession.sets || lastSession.sets.length === 0) {
     return null;
   }
@@ -43,12 +55,7 @@ export function PreviousPerformance({ lastSession, onQuickFill }: PreviousPerfor
         {onQuickFill && (
           <button
             onClick={() => {
-              const lastSet = lastSession.sets[lastSession.sets.length - 1];
-              onQuickFill({
-                weight_kg: lastSet.weight_kg,
-                reps: lastSet.reps,
-                rpe: lastSet.rpe,
-              });
+              onQuickFill(lastSession.sets[lastSession.sets.length - 1]);
             }}
             className="px-3 py-1.5 bg-gold-500/20 hover:bg-gold-500/30 border border-gold-500/30 text-gold-500 rounded-lg text-xs font-medium transition-all"
           >
@@ -65,7 +72,7 @@ export function PreviousPerformance({ lastSession, onQuickFill }: PreviousPerfor
             className="w-full flex justify-between items-center text-sm p-2 rounded-lg hover:bg-white/5 transition-colors text-left"
           >
             <span className="text-gray-400">
-              Set {idx + 1}: {set.weight_kg}kg × {set.reps}
+              Set {idx + 1}: {formatSetResult(mode, loadType, set, units)}
             </span>
             <div className="flex items-center gap-2">
               {set.rpe && (
@@ -79,12 +86,15 @@ export function PreviousPerformance({ lastSession, onQuickFill }: PreviousPerfor
         ))}
       </div>
 
-      <div className="mt-3 pt-3 border-t border-white/10">
-        <div className="flex justify-between text-xs">
-          <span className="text-gray-400">Total Volume</span>
-          <span className="text-white font-medium">{totalVolume.toFixed(0)} kg</span>
+      {/* Volume is weight × reps, so only for exercises that count reps */}
+      {mode === "reps" && (
+        <div className="mt-3 pt-3 border-t border-white/10">
+          <div className="flex justify-between text-xs">
+            <span className="text-gray-400">Total Volume</span>
+            <span className="text-white font-medium">{units.formatWeight(totalVolume, { decimals: 0 })}</span>
+          </div>
         </div>
-      </div>
+      )}
     </div>
   );
 }
@@ -1,29 +1,21 @@
 import { useState, useEffect } from "react";
-import { analyticsApi } from "../services/api";
-
-interface Suggestion {
-  recommendation: "increase_weight" | "increase_reps" | "maintain" | "deload";
-  confidence: "needs_more_data" | "confident";
-  reasoning: string;
-  suggested_weight_kg: number | null;
-  suggested_reps: number | null;
-  current_avg_weight: number | null;
-  current_avg_reps: number | null;
-  current_avg_rpe: number | null;
-  session_count: number;
-}
+import { analyticsApi, type ProgressiveOverloadSuggestion as Suggestion } from "../services/api";
+import { useUnits } from "../hooks/useUnits";
 
 interface ProgressiveOverloadSuggestionProps {
   exerciseId: string;
+  roundLoad?: (kg: number) => number; // Rounds the suggested weight to one the user can load
   onAccept?: (suggestion: Suggestion) => void;
   onDismiss?: () => void;
 }
 
 export function ProgressiveOverloadSuggestion({
   exerciseId,
+  roundLoad,
   onAccept,
   onDismiss,
 }: ProgressiveOverloadSuggestionProps) {
+  const units = useUnits();
   const [suggestion, setSuggestion] = useState<Suggestion | null>(null);
   const [loading, setLoading] = useState(true);
   const [dismissed, setDismissed] = useState(false);
@@ -45,9 +37,14 @@ export function ProgressiveOverloadSuggestion({
     }
   };
 
+  const suggestedWeight =
+    suggestion?.suggested_weight_kg && roundLoad
+      ? roundLoad(suggestion.suggested_weight_kg)
+      : suggestion?.suggested_weight_kg ?? null;
+
   const handleAccept = () => {
     if (suggestion && onAccept) {
-      onAccept(suggestion);
+      onAccept({ ...suggestion, suggested_weight_kg: suggestedWeight });
     }
   };
 
@@ -157,8 +154,13 @@ export function ProgressiveOverloadSuggestion({
             <div className="flex items-center gap-2">
               <span className="text-xs text-gray-400">Suggested Weight:</span>
               <span className="text-sm font-semibold text-white">
-                {suggestion.suggested_weight_kg} kg
+                {units.formatWeight(suggestedWeight, { decimals: 1 })}
               </span>
+              {suggestedWeight !== suggestion.suggested_weight_kg && (
+                <span className="text-xs text-gray-500">
+                  ({units.formatWeight(suggestion.suggested_weight_kg, { decimals: 1 })}, rounded to your equipment)
+                </span>
+              )}
             </div>
           )}
           {suggestion.suggested_reps && (
@@ -1,9 +1,11 @@
 import { useState } from "react";
 import { useNavigate } from "react-router-dom";
 import { weightLogsApi } from "../services/api";
+import { useUnits } from "../hooks/useUnits";
 
 export function QuickWeightLog() {
   const navigate = useNavigate();
+  const units = useUnits();
   const [weight, setWeight] = useState<string>("");
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -23,7 +25,7 @@ export function QuickWeightLog() {
 
     try {
       await weightLogsApi.create({
-        weight_kg: parseFloat(weight),
+        weight_kg: units.toKg(parseFloat(weight)),
         logged_date: new Date().toISOString().split('T')[0],
         time_of_day: "morning",
         notes: null,
@@ -84,7 +86,7 @@ export function QuickWeightLog() {
               className="w-full h-12 px-4 pr-12 bg-black/40 border border-white/10 rounded-xl text-white text-sm placeholder-gray-500 focus:outline-none focus:border-gold-500/50 transition-colors"
               required
             />
-            <span className="absolute right-4 top-1/2 -translate-y-1/2 text-gray-500 text-sm">kg</span>
+            <span className="absolute right-4 top-1/2 -translate-y-1/2 text-gray-500 text-sm">{units.weightUnit}</span>
           </div>
           <button
             type="submit"
@@ -1,22 +1,6 @@
 import { useState, useEffect } from "react";
 import { useNavigate } from "react-router-dom";
-import { analyticsApi } from "../services/api";
-
-interface RecentExercise {
-  exercise_id: string;
-  exercise: {
-    id: string;
-    name: string;
-    muscle_group?: {
-      id: string;
-      name: string;
-    };
-    equipment: string;
-    is_compound?: boolean;
-  };
-  last_session_date: string;
-  set_count: number;
-}
+import { analyticsApi, type RecentExercise } from "../services/api";
 
 export function RecentExercises() {
   const navigate = useNavigate();
@@ -33,7 +17,7 @@ export function RecentExercises() {
       setLoading(true);
       setError(null);
       const response = await analyticsApi.getRecentExercises(5, 30); // Show only 5 on dashboard
-      setExercises(response.data || []);
+      setExercises(response.data);
     } catch (err: any) {
       setError(err.response?.data?.detail || err.message || "Failed to load recent exercises");
     } finally {
@@ -0,0 +1,122 @@
+import { useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { supabase } from "../lib/supabase";
+import { sessionExpiry } from "../services/api";
+import { useAuth } from "../hooks/useAuth";
+
+// Asks the same account to sign in again when its session expires, on top of whatever page is open,
+// so a workout in progress carries on where it was once the user is back in
+export function SessionExpiredSheet() {
+  const navigate = useNavigate();
+  const { sessionExpired, signOut } = useAuth();
+  const [password, setPassword] = useState("");
+  const [email, setEmail] = useState("");
+  const [minimized, setMinimized] = useState(false);
+  const [signingIn, setSigningIn] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  if (!sessionExpired) {
+    return null;
+  }
+
+  const account = sessionExpiry.getAccount();
+  const accountEmail = account?.email ?? email;
+
+  const handleSignIn = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setSigningIn(true);
+
+    try {
+      const { error } = await supabase.auth.signInWithPassword({ email: accountEmail, password });
+      if (error) throw error;
+      setPassword("");
+      setMinimized(false);
+    } catch (err: any) {
+      setError(err.message || "Failed to sign in");
+    } finally {
+      setSigningIn(false);
+    }
+  };
+
+  const handleSignOut = async () => {
+    if (!confirm("Sign out? Anything not yet sent stays on this device until you sign in again.")) return;
+    await signOut();
+    navigate("/login");
+  };
+
+  if (minimized) {
+    return (
+      <button
+        onClick={() => setMinimized(false)}
+        className="fixed top-4 left-1/2 -translate-x-1/2 z-[60] px-4 py-2 bg-red-500/20 border border-red-500/30 rounded-full text-red-400 text-xs font-medium backdrop-blur-sm safe-top"
+      >
+        Session expired · Sign in
+      </button>
+    );
+  }
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-end md:items-center justify-center bg-black/80 backdrop-blur-sm">
+      <div className="glass-card rounded-t-3xl md:rounded-3xl w-full max-w-md safe-bottom">
+        <div className="p-4 border-b border-white/5 flex justify-between items-center">
+          <h2 className="text-white font-semibold text-base">Session Expired</h2>
+          <button onClick={() => setMinimized(true)} className="text-gray-400 active:text-white">
+            <svg className="w-6 h-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <form onSubmit={handleSignIn} className="p-4 space-y-4">
+          <p className="text-gray-400 text-sm">
+            Sign in again to keep saving to your account. Anything you log meanwhile is kept on this device and sent
+            once you're back.
+          </p>
+
+          {error && (
+            <p className="p-3 bg-red-500/10 border border-red-500/20 rounded-xl text-red-400 text-xs">{error}</p>
+          )}
+
+          <div>
+            <label className="block text-xs text-gray-400 mb-2">Email</label>
+            <input
+              type="email"
+              value={accountEmail}
+              onChange={(e) => setEmail(e.target.value)}
+              readOnly={!!account?.email}
+              className="w-full h-11 px-4 bg-black/40 border border-white/10 rounded-xl text-white text-sm focus:outline-none focus:border-gold-500/50 read-only:text-gray-400"
+              required
+            />
+          </div>
+          <div>
+            <label className="block text-xs text-gray-400 mb-2">Password</label>
+            <input
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              autoFocus
+              className="w-full h-11 px-4 bg-black/40 border border-white/10 rounded-xl text-white text-sm focus:outline-none focus:border-gold-500/50"
+              required
+            />
+          </div>
+
+          <button
+            type="submit"
+            disabled={signingIn}
+            className="w-full h-12 bg-gradient-to-r from-gold-500 to-gold-600 text-black font-semibold rounded-xl text-sm disabled:opacity-50"
+          >
+            {signingIn ? "Signing in..." : "Sign In"}
+          </button>
+          <button
+            type="button"
+            onClick={handleSignOut}
+            className="w-full py-2 text-gray-500 text-xs font-medium"
+          >
+            Sign out instead
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+}
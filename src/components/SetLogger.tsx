@@ -1,12 +1,50 @@
 import { useState, useEffect, useImperativeHandle, forwardRef } from "react";
-import { type ExerciseInSession, type Set } from "../services/api";
+import { type EquipmentProfile, type ExerciseInSession, type Set, type TrackingMode } from "../services/api";
+import { SET_TYPE_LABELS, type PlannedSet } from "../services/prescriptions";
+import { defaultBar, loadStep, plateBreakdown, roundToEquipment } from "../services/equipment";
+import {
+  LOAD_INPUT_LABELS,
+  countsBodyweight,
+  effectiveLoad,
+  enteredLoad,
+  formatLoad,
+  loadTypeOf,
+} from "../services/loadTypes";
+import { distanceUnits, hasResult, trackedFields, trackingModeOf, type SetMetrics } from "../services/trackingModes";
+import { useUnits } from "../hooks/useUnits";
+import { DurationInput } from "./DurationInput";
+
+// Competition plate colours, so the breakdown reads like the plates on the rack
+const PLATE_COLORS: Record<number, string> = {
+  25: "bg-red-500/20 text-red-400 border-red-500/40",
+  20: "bg-blue-500/20 text-blue-400 border-blue-500/40",
+  15: "bg-yellow-500/20 text-yellow-400 border-yellow-500/40",
+  10: "bg-green-500/20 text-green-400 border-green-500/40",
+  5: "bg-white/10 text-white border-white/30",
+};
+
+// What's missing when a set can't be logged yet, by what the exercise tracks
+const MISSING_RESULT: Record<TrackingMode, string> = {
+  reps: "Please set reps",
+  time: "Please set a time",
+  distance: "Please set a distance",
+  weight_distance: "Please set a distance",
+  weight_time: "Please set a time",
+  calories: "Please set calories",
+};
+
+type SetSummary = SetMetrics & { rpe?: number };
 
 interface SetLoggerProps {
   exercise: ExerciseInSession;
-  previousSets: Array<{ weight_kg: number; reps: number; rpe?: number }>;
+  previousSets: SetSummary[];
   onLogSet: (setData: {
     weight_kg: number;
+    bodyweight_kg?: number | null;
     reps: number;
+    duration_seconds?: number;
+    distance_m?: number;
+    calories?: number;
     rpe?: number;
     is_warmup?: boolean;
     is_failure?: boolean;
@@ -15,10 +53,14 @@ interface SetLoggerProps {
     notes?: string;
   }) => Promise<void>;
   defaultRestSeconds: number;
+  plan?: PlannedSet[]; // Prescribed sets for this exercise, used to pre-fill each set
+  loggedCount?: number; // Sets of this exercise logged so far this session
+  equipment?: EquipmentProfile; // What the user can load, for the plate breakdown and +/- steps
+  bodyweightKg?: number | null; // Latest body weight, counted into bodyweight exercises' loads
 }
 
 export interface SetLoggerRef {
-  quickFill: (data: { weight_kg: number; reps: number; rpe?: number }) => void;
+  quickFill: (data: SetSummary) => void;
 }
 
 export const SetLogger = forwardRef<SetLoggerRef, SetLoggerProps>(({
@@ -26,13 +68,29 @@ export const SetLogger = forwardRef<SetLoggerRef, SetLoggerProps>(({
   previousSets,
   onLogSet,
   defaultRestSeconds,
+  plan = [],
+  loggedCount = 0,
+  equipment,
+  bodyweightKg = null,
 }, ref) => {
-  // Initialize weight from previous session or default to 20kg
+  const loadType = loadTypeOf(exercise.exercise);
+  const isExternal = !countsBodyweight(loadType);
+  const isBarbell = isExternal && exercise.exercise.equipment === "barbell";
+  const mode = trackingModeOf(exercise.exercise);
+  const fields = trackedFields(mode);
+  const units = useUnits();
+  const [shortDistance, longDistance] = distanceUnits(units);
+
+  // Weight is held in kg like everything else; only the display and the +/- steps are in the user's unit
+  // For bodyweight exercises it's what the user enters - the added or assisting weight - not the total load
+  // Initialize weight from previous session or default to the empty bar (20kg or 45lb without an equipment profile)
   const getInitialWeight = () => {
     if (previousSets.length > 0) {
-      return previousSets[previousSets.length - 1].weight_kg;
+      return enteredLoad(loadType, previousSets[previousSets.length - 1]);
     }
-    return 20; // Default starting weight
+    if (!isExternal) return 0;
+    if (isBarbell && equipment) return defaultBar(equipment);
+    return units.toKg(units.system === "imperial" ? 45 : 20); // Default starting weight
   };
 
   const [weight, setWeight] = useState(getInitialWeight());
@@ -44,27 +102,52 @@ export const SetLogger = forwardRef<SetLoggerRef, SetLoggerProps>(({
   const [notes, setNotes] = useState("");
   const [justLogged, setJustLogged] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [barKg, setBarKg] = useState(() => (equipment ? defaultBar(equipment) : 20));
+  const [durationSeconds, setDurationSeconds] = useState(0);
+  const [distanceM, setDistanceM] = useState(0);
+  const [calories, setCalories] = useState(0);
+  // Runs and rows are entered in km or miles, carries and sleds in metres or yards
+  const [distanceUnit, setDistanceUnit] = useState(mode === "distance" ? longDistance : shortDistance);
+
+  useEffect(() => {
+    setDistanceUnit(mode === "distance" ? longDistance : shortDistance);
+  }, [exercise.id, units.system]);
+
+  // Everything a set measured, for pre-filling from a past set
+  const fillFrom = (set: SetSummary) => {
+    setWeight(enteredLoad(loadType, set));
+    setReps(set.reps);
+    setDurationSeconds(set.duration_seconds ?? 0);
+    setDistanceM(set.distance_m ?? 0);
+    setCalories(set.calories ?? 0);
+    if (set.rpe) {
+      setRpe(set.rpe);
+    }
+  };
 
   // Update weight when previous sets change
   useEffect(() => {
     if (previousSets.length > 0) {
-      const lastSet = previousSets[previousSets.length - 1];
-      setWeight(lastSet.weight_kg);
-      setReps(lastSet.reps);
-      if (lastSet.rpe) {
-        setRpe(lastSet.rpe);
-      }
+      fillFrom(previousSets[previousSets.length - 1]);
     }
   }, [previousSets]);
 
-  const handleQuickFill = (data?: { weight_kg: number; reps: number; rpe?: number }) => {
+  // Pre-fill from the prescription for the next set (after last session's numbers, so it wins)
+  const nextSet: PlannedSet | undefined = plan[loggedCount];
+  useEffect(() => {
+    if (!nextSet) return;
+    if (nextSet.weight_kg !== undefined) {
+      setWeight(enteredLoad(loadType, { weight_kg: nextSet.weight_kg, bodyweight_kg: bodyweightKg }));
+    }
+    setReps(nextSet.reps);
+    setRpe(nextSet.rpe);
+    setIsWarmup(nextSet.type === "warmup");
+  }, [exercise.id, loggedCount, nextSet?.type, nextSet?.weight_kg, nextSet?.reps, nextSet?.rpe]);
+
+  const handleQuickFill = (data?: SetSummary) => {
     const fillData = data || (previousSets.length > 0 ? previousSets[previousSets.length - 1] : null);
     if (fillData) {
-      setWeight(fillData.weight_kg);
-      setReps(fillData.reps);
-      if (fillData.rpe) {
-        setRpe(fillData.rpe);
-      }
+      fillFrom(fillData);
     }
   };
 
@@ -73,20 +156,31 @@ export const SetLogger = forwardRef<SetLoggerRef, SetLoggerProps>(({
     quickFill: handleQuickFill,
   }));
 
-  // Get previous set for comparison
+  // Get previous set for comparison, by the load actually moved
+  const load = effectiveLoad(loadType, weight, bodyweightKg);
   const lastPreviousSet = previousSets.length > 0 ? previousSets[previousSets.length - 1] : null;
-  const exceedsWeight = lastPreviousSet && weight > lastPreviousSet.weight_kg;
-  const exceedsReps = lastPreviousSet && reps > lastPreviousSet.reps;
-  const exceedsVolume = lastPreviousSet && (weight * reps) > (lastPreviousSet.weight_kg * lastPreviousSet.reps);
+  const exceedsWeight = fields.weight && lastPreviousSet && load > lastPreviousSet.weight_kg;
+  const exceedsReps = fields.reps && lastPreviousSet && reps > lastPreviousSet.reps;
+  const exceedsVolume =
+    fields.reps && lastPreviousSet && load * reps > lastPreviousSet.weight_kg * lastPreviousSet.reps;
+  // Bodyweight sets can be logged with nothing added
+  const missingWeight = fields.weight && isExternal && weight <= 0;
+  const result = {
+    reps: fields.reps ? reps : 0,
+    duration_seconds: fields.duration && durationSeconds > 0 ? durationSeconds : undefined,
+    distance_m: fields.distance && distanceM > 0 ? distanceM : undefined,
+    calories: fields.calories && calories > 0 ? calories : undefined,
+  };
+  const missingResult = !hasResult(mode, result);
 
   const handleLogSet = async () => {
-    if (weight <= 0) {
+    if (missingWeight) {
       setError("Please set a weight");
       setTimeout(() => setError(null), 3000);
       return;
     }
-    if (reps <= 0) {
-      setError("Please set reps");
+    if (missingResult) {
+      setError(MISSING_RESULT[mode]);
       setTimeout(() => setError(null), 3000);
       return;
     }
@@ -95,20 +189,24 @@ export const SetLogger = forwardRef<SetLoggerRef, SetLoggerProps>(({
     
     try {
       await onLogSet({
-        weight_kg: weight,
-        reps,
+        weight_kg: fields.weight ? load : 0,
+        bodyweight_kg: fields.weight && !isExternal ? bodyweightKg : undefined,
+        ...result,
         rpe,
         is_warmup: isWarmup,
         is_failure: isFailure,
         is_dropset: isDropset,
-        rest_seconds: defaultRestSeconds,
+        rest_seconds: nextSet?.rest_seconds ?? defaultRestSeconds,
         notes: notes || undefined,
       });
 
       // Reset for next set (keep weight, increment reps slightly or keep same)
-      setReps(exercise.target_reps_min);
+      // With a prescription the next set is pre-filled from it instead
+      if (plan.length === 0) {
+        setReps(exercise.target_reps_min);
+        setIsWarmup(false);
+      }
       setNotes("");
-      setIsWarmup(false);
       setIsFailure(false);
       setIsDropset(false);
 
@@ -121,14 +219,29 @@ export const SetLogger = forwardRef<SetLoggerRef, SetLoggerProps>(({
     }
   };
 
+  // Steps are in the user's unit, so 225lb + 5 is 230lb rather than a rounded conversion of it
   const adjustWeight = (delta: number) => {
-    setWeight(Math.max(0, weight + delta));
+    setWeight(Math.max(0, units.toKg(units.fromKg(weight) + delta)));
   };
 
+  // What the user's equipment makes of the weight: plates per side for a barbell, the nearest loadable weight
+  const step =
+    equipment && isExternal ? units.fromKg(loadStep(equipment, exercise.exercise.equipment)) : units.weightStep;
+  const plates = equipment && isBarbell ? plateBreakdown(weight, equipment, barKg) : null;
+  const loadable =
+    equipment && isExternal ? roundToEquipment(weight, equipment, exercise.exercise.equipment, barKg) : weight;
+  const displayWeight = units.fromKg(weight);
+
   const adjustReps = (delta: number) => {
     setReps(Math.max(0, reps + delta));
   };
 
+  // Distance steps are in the unit shown; metres are kept to a tenth
+  const adjustDistance = (delta: number) => {
+    setDistanceM(Math.max(0, Math.round((distanceM + delta * distanceUnit.metres) * 10) / 10));
+  };
+  const distanceSteps = distanceUnit === longDistance ? [-1, -0.5, 0.5, 1] : [-25, -10, 10, 25];
+
   const RPE_DESCRIPTIONS: Record<number, string> = {
     1: "Very Easy",
     2: "Easy",
@@ -144,87 +257,292 @@ export const SetLogger = forwardRef<SetLoggerRef, SetLoggerProps>(({
 
   return (
     <div className="space-y-5 md:space-y-6">
+      {/* Prescribed sets */}
+      {plan.length > 0 && (
+        <div>
+          <div className="flex items-center justify-between mb-2">
+            <span className="text-sm font-medium text-gray-300">
+              {nextSet ? `Set ${loggedCount + 1} of ${plan.length}` : "All prescribed sets done"}
+            </span>
+            {nextSet && <span className="text-xs text-gold-500">{SET_TYPE_LABELS[nextSet.type]}</span>}
+          </div>
+          <div className="flex gap-1.5 overflow-x-auto pb-1 scrollbar-hide">
+            {plan.map((planned, index) => (
+              <div
+                key={index}
+                className={`flex-shrink-0 px-2 py-1 rounded-lg text-[11px] whitespace-nowrap ${
+                  index === loggedCount
+                    ? "bg-gold-500/20 text-gold-500 border border-gold-500/40"
+                    : index < loggedCount
+                    ? "bg-white/5 text-gray-500 line-through"
+                    : planned.type === "warmup"
+                    ? "bg-blue-500/10 text-blue-400"
+                    : "bg-white/5 text-gray-300"
+                }`}
+              >
+                {fields.reps ? (
+                  <>
+                    {planned.weight_kg !== undefined && isExternal ? `${units.fromKg(planned.weight_kg)}×` : ""}
+                    {planned.reps}
+                    {planned.rpe ? ` @${planned.rpe}` : ""}
+                  </>
+                ) : (
+                  `Set ${index + 1}`
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Body weight, for exercises that count it */}
+      {fields.weight && !isExternal && (
+        <div className="p-3 bg-white/5 rounded-xl border border-white/5 flex items-center justify-between">
+          <span className="text-xs text-gray-400">Body weight</span>
+          {bodyweightKg !== null ? (
+            <span className="text-sm text-white font-medium">
+              {units.formatWeight(bodyweightKg, { decimals: 1 })}
+              {loadType !== "bodyweight" && (
+                <span className="text-gray-500 font-normal">
+                  {" "}· total {units.formatWeight(load, { decimals: 1 })}
+                </span>
+              )}
+            </span>
+          ) : (
+            <span className="text-xs text-yellow-400">Log your weight to count it in volume and 1RM</span>
+          )}
+        </div>
+      )}
+
       {/* Weight Control - Large touch targets */}
-      <div>
-        <label className="block text-sm font-medium text-gray-300 mb-2 md:mb-3">Weight (kg)</label>
-        <div className="flex items-center gap-3 md:gap-4">
-          <button
-            onClick={() => adjustWeight(-2.5)}
-            className="touch-number-btn"
-          >
-            −
-          </button>
-          <div className="flex-1 text-center py-2">
-            <div className={`text-4xl md:text-5xl font-bold mb-0.5 transition-colors ${
-              exceedsWeight ? "text-green-400" : "text-white"
-            }`}>
-              {weight.toFixed(1)}
-              {exceedsWeight && (
-                <span className="ml-1 text-xl md:text-2xl">↑</span>
+      {fields.weight && loadType !== "bodyweight" && (
+        <div>
+          <label className="block text-sm font-medium text-gray-300 mb-2 md:mb-3">
+            {LOAD_INPUT_LABELS[loadType]} ({units.weightUnit})
+          </label>
+          <div className="flex items-center gap-3 md:gap-4">
+            <button
+              onClick={() => adjustWeight(-step)}
+              className="touch-number-btn"
+            >
+              −
+            </button>
+            <div className="flex-1 text-center py-2">
+              <div className={`text-4xl md:text-5xl font-bold mb-0.5 transition-colors ${
+                exceedsWeight ? "text-green-400" : "text-white"
+              }`}>
+                {displayWeight.toFixed(1)}
+                {exceedsWeight && (
+                  <span className="ml-1 text-xl md:text-2xl">↑</span>
+                )}
+              </div>
+              <div className="text-xs md:text-sm text-gray-400">{units.weightUnit}</div>
+              {lastPreviousSet && (
+                <div className="text-[10px] md:text-xs text-gray-500 mt-0.5">
+                  Last: {formatLoad(loadType, lastPreviousSet, units)}
+                </div>
               )}
             </div>
-            <div className="text-xs md:text-sm text-gray-400">kg</div>
-            {lastPreviousSet && (
-              <div className="text-[10px] md:text-xs text-gray-500 mt-0.5">
-                Last: {lastPreviousSet.weight_kg}kg
-              </div>
-            )}
+            <button
+              onClick={() => adjustWeight(step)}
+              className="touch-number-btn"
+            >
+              +
+            </button>
           </div>
-          <button
-            onClick={() => adjustWeight(2.5)}
-            className="touch-number-btn"
-          >
-            +
-          </button>
-        </div>
-        {/* Quick adjust buttons */}
-        <div className="flex gap-1.5 md:gap-2 mt-2 md:mt-3 justify-center">
-          {[-5, -1, 1, 5].map((delta) => (
+          {/* Quick adjust buttons */}
+          <div className="flex gap-1.5 md:gap-2 mt-2 md:mt-3 justify-center">
+            {units.weightSteps.map((delta) => (
+              <button
+                key={delta}
+                onClick={() => adjustWeight(delta)}
+                className="flex-1 max-w-[60px] py-2 text-xs bg-white/5 active:bg-gold-500/20 rounded-lg text-gray-400 active:text-gold-500 transition-colors"
+              >
+                {delta > 0 ? '+' : ''}{delta}{units.weightUnit}
+              </button>
+            ))}
+          </div>
+
+          {/* Plate breakdown */}
+          {plates && (
+            <div className="mt-3 p-3 bg-white/5 rounded-xl border border-white/5">
+              <div className="flex items-center justify-between mb-2">
+                <span className="text-xs text-gray-400">
+                  Each side{units.weightUnit === "kg" ? "" : " (kg plates)"}
+                </span>
+                {equipment && equipment.bar_weights_kg.length > 1 ? (
+                  <div className="flex gap-1">
+                    {equipment.bar_weights_kg.map((bar) => (
+                      <button
+                        key={bar}
+                        onClick={() => setBarKg(bar)}
+                        className={`px-2 py-0.5 rounded-md text-[11px] ${
+                          barKg === bar ? "bg-gold-500/20 text-gold-500" : "bg-white/5 text-gray-400"
+                        }`}
+                      >
+                        {units.formatWeight(bar, { decimals: 1 })} bar
+                      </button>
+                    ))}
+                  </div>
+                ) : (
+                  <span className="text-[11px] text-gray-500">{units.formatWeight(barKg, { decimals: 1 })} bar</span>
+                )}
+              </div>
+              {plates.per_side.length > 0 ? (
+                <div className="flex flex-wrap gap-1.5">
+                  {plates.per_side.map((plate, index) => (
+                    <span
+                      key={index}
+                      className={`px-2 py-1 rounded-md border text-xs font-semibold ${
+                        PLATE_COLORS[plate] ?? "bg-gray-500/10 text-gray-300 border-gray-500/30"
+                      }`}
+                    >
+                      {plate}
+                    </span>
+                  ))}
+                </div>
+              ) : (
+                <p className="text-xs text-gray-500">Empty bar</p>
+              )}
+            </div>
+          )}
+          {units.fromKg(loadable) !== displayWeight && (
             <button
-              key={delta}
-              onClick={() => adjustWeight(delta)}
-              className="flex-1 max-w-[60px] py-2 text-xs bg-white/5 active:bg-gold-500/20 rounded-lg text-gray-400 active:text-gold-500 transition-colors"
+              onClick={() => setWeight(loadable)}
+              className="w-full mt-2 py-2 text-xs bg-yellow-500/10 border border-yellow-500/30 text-yellow-400 rounded-lg"
             >
-              {delta > 0 ? '+' : ''}{delta}kg
+              {units.formatWeight(weight, { decimals: 1 })} can't be loaded with your equipment · Use{" "}
+              {units.formatWeight(loadable, { decimals: 1 })}
             </button>
-          ))}
+          )}
         </div>
-      </div>
+      )}
 
       {/* Reps Control - Large touch targets */}
-      <div>
-        <label className="block text-sm font-medium text-gray-300 mb-2 md:mb-3">Reps</label>
-        <div className="flex items-center gap-3 md:gap-4">
-          <button
-            onClick={() => adjustReps(-1)}
-            className="touch-number-btn"
-          >
-            −
-          </button>
-          <div className="flex-1 text-center py-2">
-            <div className={`text-4xl md:text-5xl font-bold mb-0.5 transition-colors ${
-              exceedsReps ? "text-green-400" : "text-white"
-            }`}>
-              {reps}
-              {exceedsReps && (
-                <span className="ml-1 text-xl md:text-2xl">↑</span>
+      {fields.reps && (
+        <div>
+          <label className="block text-sm font-medium text-gray-300 mb-2 md:mb-3">Reps</label>
+          <div className="flex items-center gap-3 md:gap-4">
+            <button
+              onClick={() => adjustReps(-1)}
+              className="touch-number-btn"
+            >
+              −
+            </button>
+            <div className="flex-1 text-center py-2">
+              <div className={`text-4xl md:text-5xl font-bold mb-0.5 transition-colors ${
+                exceedsReps ? "text-green-400" : "text-white"
+              }`}>
+                {reps}
+                {exceedsReps && (
+                  <span className="ml-1 text-xl md:text-2xl">↑</span>
+                )}
+              </div>
+              <div className="text-xs md:text-sm text-gray-400">reps</div>
+              {lastPreviousSet && (
+                <div className="text-[10px] md:text-xs text-gray-500 mt-0.5">
+                  Last: {lastPreviousSet.reps}
+                </div>
               )}
             </div>
-            <div className="text-xs md:text-sm text-gray-400">reps</div>
-            {lastPreviousSet && (
-              <div className="text-[10px] md:text-xs text-gray-500 mt-0.5">
-                Last: {lastPreviousSet.reps}
+            <button
+              onClick={() => adjustReps(1)}
+              className="touch-number-btn"
+            >
+              +
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Time, with a stopwatch or countdown */}
+      {fields.duration && (
+        <DurationInput
+          label={fields.weight || mode === "time" ? "Time" : "Time (optional)"}
+          seconds={durationSeconds}
+          onChange={setDurationSeconds}
+        />
+      )}
+
+      {/* Distance */}
+      {fields.distance && (
+        <div>
+          <div className="flex items-center justify-between mb-2 md:mb-3">
+            <label className="text-sm font-medium text-gray-300">Distance ({distanceUnit.label})</label>
+            <div className="flex gap-1">
+              {[shortDistance, longDistance].map((option) => (
+                <button
+                  key={option.label}
+                  onClick={() => setDistanceUnit(option)}
+                  className={`px-2 py-0.5 rounded-md text-[11px] ${
+                    distanceUnit === option ? "bg-gold-500/20 text-gold-500" : "bg-white/5 text-gray-400"
+                  }`}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+          </div>
+          <div className="flex items-center gap-3 md:gap-4">
+            <button onClick={() => adjustDistance(-distanceSteps[2])} className="touch-number-btn">
+              −
+            </button>
+            <div className="flex-1 text-center py-2">
+              <div className="text-4xl md:text-5xl font-bold mb-0.5 text-white">
+                {Number((distanceM / distanceUnit.metres).toFixed(2))}
               </div>
-            )}
+              <div className="text-xs md:text-sm text-gray-400">{distanceUnit.label}</div>
+            </div>
+            <button onClick={() => adjustDistance(distanceSteps[2])} className="touch-number-btn">
+              +
+            </button>
+          </div>
+          <div className="flex gap-1.5 md:gap-2 mt-2 md:mt-3 justify-center">
+            {distanceSteps.map((delta) => (
+              <button
+                key={delta}
+                onClick={() => adjustDistance(delta)}
+                className="flex-1 max-w-[60px] py-2 text-xs bg-white/5 active:bg-gold-500/20 rounded-lg text-gray-400 active:text-gold-500 transition-colors"
+              >
+                {delta > 0 ? "+" : ""}
+                {delta}
+                {distanceUnit.label}
+              </button>
+            ))}
           </div>
-          <button
-            onClick={() => adjustReps(1)}
-            className="touch-number-btn"
-          >
-            +
-          </button>
         </div>
-      </div>
+      )}
+
+      {/* Calories */}
+      {fields.calories && (
+        <div>
+          <label className="block text-sm font-medium text-gray-300 mb-2 md:mb-3">Calories</label>
+          <div className="flex items-center gap-3 md:gap-4">
+            <button onClick={() => setCalories(Math.max(0, calories - 1))} className="touch-number-btn">
+              −
+            </button>
+            <div className="flex-1 text-center py-2">
+              <div className="text-4xl md:text-5xl font-bold mb-0.5 text-white">{calories}</div>
+              <div className="text-xs md:text-sm text-gray-400">cal</div>
+            </div>
+            <button onClick={() => setCalories(calories + 1)} className="touch-number-btn">
+              +
+            </button>
+          </div>
+          <div className="flex gap-1.5 md:gap-2 mt-2 md:mt-3 justify-center">
+            {[-10, -5, 5, 10].map((delta) => (
+              <button
+                key={delta}
+                onClick={() => setCalories(Math.max(0, calories + delta))}
+                className="flex-1 max-w-[60px] py-2 text-xs bg-white/5 active:bg-gold-500/20 rounded-lg text-gray-400 active:text-gold-500 transition-colors"
+              >
+                {delta > 0 ? "+" : ""}
+                {delta}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
 
       {/* RPE Selector - Touch friendly */}
       <div>
@@ -326,16 +644,22 @@ export const SetLogger = forwardRef<SetLoggerRef, SetLoggerProps>(({
       {/* Log Set Button - Extra large for mobile */}
       <button
         onClick={handleLogSet}
-        disabled={weight <= 0 || reps <= 0}
+        disabled={missingWeight || missingResult}
         className={`w-full py-4 md:py-5 rounded-2xl font-bold text-lg transition-all active:scale-[0.98] ${
           justLogged
             ? "bg-green-500 text-white shadow-lg shadow-green-500/30"
-            : weight <= 0 || reps <= 0
+            : missingWeight || missingResult
             ? "bg-gray-800 text-gray-500 cursor-not-allowed"
             : "btn-primary"
         }`}
       >
-        {justLogged ? "✓ Set Logged!" : weight <= 0 || reps <= 0 ? "Set Weight & Reps" : "LOG SET"}
+        {justLogged
+          ? "✓ Set Logged!"
+          : missingWeight || missingResult
+          ? fields.reps
+            ? "Set Weight & Reps"
+            : MISSING_RESULT[mode].replace("Please set", "Set")
+          : "LOG SET"}
       </button>
     </div>
   );
@@ -1,28 +1,15 @@
 import { useState, useEffect } from "react";
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from "recharts";
-import { analyticsApi, exercisesApi, type Exercise } from "../services/api";
+import { analyticsApi, type OneRepMaxHistory, type RecentExercise } from "../services/api";
+import { useUnits } from "../hooks/useUnits";
 
-interface HistoryPoint {
-  date: string;
-  estimated_1rm: number;
-  weight_kg: number;
-  reps: number;
-}
-
-interface HistoryData {
-  exercise_id: string;
-  exercise_name: string;
-  period_days: number;
-  start_date: string;
-  end_date: string;
-  data: HistoryPoint[];
-  trend: "improving" | "maintaining" | "declining" | null;
-  trend_percentage: number | null;
-}
+type RecentExerciseSummary = RecentExercise["exercise"];
 
 export function StrengthProgressionChart() {
-  const [historyData, setHistoryData] = useState<HistoryData | null>(null);
-  const [exercises, setExercises] = useState<Exercise[]>([]);
+  const units = useUnits();
+  const oneRepMaxKey = `1RM (${units.weightUnit})`;
+  const [historyData, setHistoryData] = useState<OneRepMaxHistory | null>(null);
+  const [exercises, setExercises] = useState<RecentExerciseSummary[]>([]);
   const [selectedExerciseId, setSelectedExerciseId] = useState<string>("");
   const [periodDays, setPeriodDays] = useState(90);
   const [loading, setLoading] = useState(false);
@@ -45,11 +32,11 @@ export function StrengthProgressionChart() {
     try {
       setLoadingExercises(true);
       const response = await analyticsApi.getRecentExercises(50, 365); // Get exercises from last year
-      const exerciseList = response.data || [];
+      const exerciseList = response.data;
       
       // Extract unique exercises from the response
       // Response format: [{ exercise_id, exercise: { id, name, ... }, last_session_date, set_count }, ...]
-      const uniqueExercisesMap = new Map<string, Exercise>();
+      const uniqueExercisesMap = new Map<string, RecentExerciseSummary>();
       
       for (const item of exerciseList) {
         if (item.exercise && item.exercise.id) {
@@ -129,12 +116,12 @@ export function StrengthProgressionChart() {
     }
   };
 
-  // Prepare chart data
+  // Prepare chart data, in the user's unit
   const chartData = historyData?.data.map(point => ({
     date: formatDate(point.date),
     dateFull: point.date,
-    "1RM (kg)": point.estimated_1rm,
-    weight: point.weight_kg,
+    [oneRepMaxKey]: units.fromKg(point.estimated_1rm),
+    weight: units.fromKg(point.weight_kg),
     reps: point.reps,
   })) || [];
 
@@ -149,10 +136,10 @@ export function StrengthProgressionChart() {
             <p className="text-white font-semibold mb-2">{data.dateFull}</p>
             <div className="space-y-1">
               <p className="text-gold-400 text-lg font-bold">
-                {data["1RM (kg)"].toFixed(1)} <span className="text-sm font-normal text-gray-400">kg (1RM)</span>
+                {data[oneRepMaxKey].toFixed(1)} <span className="text-sm font-normal text-gray-400">{units.weightUnit} (1RM)</span>
               </p>
               <div className="flex gap-3 text-xs text-gray-400 pt-2 border-t border-white/10">
-                <span>Best Set: {data.weight}kg × {data.reps}</span>
+                <span>Best Set: {data.weight}{units.weightUnit} × {data.reps}</span>
               </div>
             </div>
           </div>
@@ -334,13 +321,13 @@ export function StrengthProgressionChart() {
                     tick={{ fill: "#9CA3AF", fontSize: 11 }}
                     axisLine={{ stroke: "#ffffff10" }}
                     tickLine={{ stroke: "#ffffff10" }}
-                    label={{ value: "1RM (kg)", angle: -90, position: "insideLeft", fill: "#9CA3AF" }}
+                    label={{ value: oneRepMaxKey, angle: -90, position: "insideLeft", fill: "#9CA3AF" }}
                     tickFormatter={(value) => `${value.toFixed(0)}`}
                   />
                   <Tooltip content={<CustomTooltip />} />
                   <Line
                     type="monotone"
-                    dataKey="1RM (kg)"
+                    dataKey={oneRepMaxKey}
                     stroke="#FFD700"
                     strokeWidth={3}
                     dot={{ fill: "#FFD700", r: 4, strokeWidth: 2, stroke: "#000" }}
@@ -357,13 +344,15 @@ export function StrengthProgressionChart() {
                 <div className="text-center p-3 bg-black/30 rounded-xl">
                   <p className="text-[10px] uppercase tracking-wider text-gray-500 mb-1">Starting 1RM</p>
                   <p className="text-2xl font-bold text-gray-400">
-                    {historyData.data[0].estimated_1rm.toFixed(1)} <span className="text-sm text-gray-500">kg</span>
+                    {units.fromKg(historyData.data[0].estimated_1rm).toFixed(1)}{" "}
+                    <span className="text-sm text-gray-500">{units.weightUnit}</span>
                   </p>
                 </div>
                 <div className="text-center p-3 bg-black/30 rounded-xl">
                   <p className="text-[10px] uppercase tracking-wider text-gray-500 mb-1">Current 1RM</p>
                   <p className="text-2xl font-bold text-gold-400">
-                    {historyData.data[historyData.data.length - 1].estimated_1rm.toFixed(1)} <span className="text-sm text-gray-500">kg</span>
+                    {units.fromKg(historyData.data[historyData.data.length - 1].estimated_1rm).toFixed(1)}{" "}
+                    <span className="text-sm text-gray-500">{units.weightUnit}</span>
                   </p>
                 </div>
                 <div className="text-center p-3 bg-black/30 rounded-xl">
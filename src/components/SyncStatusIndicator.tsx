@@ -1,10 +1,14 @@
 import { useState, useEffect } from "react";
-import { syncService } from "../services/api";
+import { useNavigate } from "react-router-dom";
+import { syncService, type SyncStatus } from "../services/api";
 
 export function SyncStatusIndicator() {
-  const [status, setStatus] = useState<{ isSyncing: boolean; pendingCount: number }>({
+  const navigate = useNavigate();
+  const [status, setStatus] = useState<SyncStatus>({
     isSyncing: false,
     pendingCount: 0,
+    failedCount: 0,
+    unclaimedCount: 0,
   });
   const [isOnline, setIsOnline] = useState(navigator.onLine);
 
@@ -39,7 +43,9 @@ export function SyncStatusIndicator() {
   }, []);
 
   // Don't show if everything is synced and online
-  if (isOnline && !status.isSyncing && status.pendingCount === 0) {
+  // Unclaimed items need the user as much as failed ones do
+  const issueCount = status.failedCount + status.unclaimedCount;
+  if (isOnline && !status.isSyncing && status.pendingCount === 0 && issueCount === 0) {
     return null;
   }
 
@@ -55,7 +61,9 @@ export function SyncStatusIndicator() {
           ) : status.isSyncing ? (
             <>
               <div className="w-4 h-4 border-2 border-gold-500 border-t-transparent rounded-full animate-spin" />
-              <span className="text-sm text-gold-400">Syncing...</span>
+              <span className="text-sm text-gold-400">
+                Syncing{status.progress && status.progress.total > 0 ? ` ${status.progress.done}/${status.progress.total}` : ""}...
+              </span>
             </>
           ) : status.pendingCount > 0 ? (
             <>
@@ -71,6 +79,15 @@ export function SyncStatusIndicator() {
               </button>
             </>
           ) : null}
+          {issueCount > 0 && (
+            <button
+              onClick={() => navigate("/sync-issues")}
+              className="flex items-center gap-2 text-xs px-2 py-1 bg-red-500/10 text-red-400 rounded hover:bg-red-500/20 transition-colors"
+            >
+              <div className="w-2 h-2 rounded-full bg-red-500" />
+              {issueCount} issue{issueCount > 1 ? "s" : ""}
+            </button>
+          )}
         </div>
       </div>
     </div>
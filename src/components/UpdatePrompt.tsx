@@ -0,0 +1,36 @@
+import { useServiceWorkerUpdate } from "../hooks/useServiceWorkerUpdate";
+
+export function UpdatePrompt() {
+  const { updateAvailable, applyUpdate, dismiss } = useServiceWorkerUpdate();
+
+  if (!updateAvailable) {
+    return null;
+  }
+
+  return (
+    <div className="fixed top-4 left-4 right-4 z-[60] md:left-auto md:right-4 md:w-96 safe-top">
+      <div className="glass-card rounded-2xl p-4 border border-gold-500/30 shadow-lg shadow-gold-500/20">
+        <div className="flex items-center gap-3">
+          <div className="flex-1 min-w-0">
+            <h3 className="font-bold text-white text-sm">New version available</h3>
+            <p className="text-xs text-gray-400">Reload to get the latest FitForge. Logged sets are kept.</p>
+          </div>
+          <button
+            onClick={applyUpdate}
+            className="px-4 py-2 bg-gradient-to-r from-gold-500 to-gold-600 text-black font-bold rounded-lg text-sm hover:from-gold-400 hover:to-gold-500 transition-all"
+          >
+            Reload
+          </button>
+          <button
+            onClick={dismiss}
+            className="text-gray-500 hover:text-gray-300 transition-colors flex-shrink-0"
+          >
+            <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,21 +1,9 @@
 import { useState, useEffect } from "react";
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Cell, RadialBarChart, RadialBar, Legend } from "recharts";
-import { analyticsApi } from "../services/api";
+import { analyticsApi, type VolumePerMuscleGroup } from "../services/api";
+import { useUnits } from "../hooks/useUnits";
 
-interface MuscleGroupVolume {
-  muscle_group_id: string;
-  muscle_group_name: string;
-  total_volume: number;
-  set_count: number;
-  exercise_count: number;
-}
-
-interface VolumeData {
-  period_days: number;
-  start_date: string;
-  end_date: string;
-  data: MuscleGroupVolume[];
-}
+type MuscleGroupVolume = VolumePerMuscleGroup["data"][number];
 
 // Futuristic neon color palette
 const NEON_COLORS = [
@@ -32,7 +20,8 @@ const NEON_COLORS = [
 ];
 
 export function VolumePerMuscleGroupChart() {
-  const [data, setData] = useState<VolumeData | null>(null);
+  const units = useUnits();
+  const [data, setData] = useState<VolumePerMuscleGroup | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [periodDays, setPeriodDays] = useState(7);
@@ -141,10 +130,10 @@ export function VolumePerMuscleGroupChart() {
     );
   }
 
-  // Prepare chart data
+  // Prepare chart data; volume is weight × reps, so it converts like a weight
   const chartData = data.data.map((item, index) => ({
     name: item.muscle_group_name,
-    volume: item.total_volume,
+    volume: units.fromKg(item.total_volume),
     sets: item.set_count,
     exercises: item.exercise_count,
     fullData: item,
@@ -179,7 +168,7 @@ export function VolumePerMuscleGroupChart() {
             </div>
             <div className="space-y-1">
               <p className="text-gold-400 text-lg font-bold">
-                {data.volume.toFixed(1)} <span className="text-sm font-normal text-gray-400">kg volume</span>
+                {data.volume.toFixed(1)} <span className="text-sm font-normal text-gray-400">{units.weightUnit} volume</span>
               </p>
               <div className="flex gap-3 text-xs text-gray-400">
                 <span>{data.sets} sets</span>
@@ -380,8 +369,8 @@ export function VolumePerMuscleGroupChart() {
               <div className="grid grid-cols-3 gap-4">
                 <StatCard
                   label="Total Volume"
-                  value={`${(selectedBar.total_volume / 1000).toFixed(1)}k`}
-                  unit="kg"
+                  value={`${(units.fromKg(selectedBar.total_volume) / 1000).toFixed(1)}k`}
+                  unit={units.weightUnit}
                   color="gold"
                 />
                 <StatCard
@@ -1,27 +1,13 @@
 import { useState, useEffect } from "react";
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine, Legend } from "recharts";
-import { analyticsApi } from "../services/api";
-
-interface WeightDataPoint {
-  date: string;
-  weight_kg: number;
-  moving_average: number | null;
-}
-
-interface WeightTrendData {
-  period_days: number;
-  start_date: string;
-  end_date: string;
-  data: WeightDataPoint[];
-  start_weight: number | null;
-  current_weight: number | null;
-  weight_change: number | null;
-  rate_of_change_kg_per_week: number | null;
-  goal_weight: number | null;
-}
+import { analyticsApi, type WeightTrend } from "../services/api";
+import { useUnits } from "../hooks/useUnits";
 
 export function WeightTrendChart() {
-  const [data, setData] = useState<WeightTrendData | null>(null);
+  const units = useUnits();
+  const unit = units.weightUnit;
+  const weightKey = `Weight (${unit})`;
+  const [data, setData] = useState<WeightTrend | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [periodDays, setPeriodDays] = useState(90);
@@ -48,13 +34,19 @@ export function WeightTrendChart() {
     return date.toLocaleDateString("en-US", { month: "short", day: "numeric" });
   };
 
-  // Prepare chart data
+  // Prepare chart data, in the user's unit
+  const convert = (kg: number | null | undefined) => (kg === null || kg === undefined ? kg : units.fromKg(kg));
   const chartData = data?.data.map(point => ({
     date: formatDate(point.date),
     dateFull: point.date,
-    "Weight (kg)": point.weight_kg,
-    "7-Day Avg": point.moving_average,
+    [weightKey]: convert(point.weight_kg),
+    "7-Day Avg": convert(point.moving_average),
   })) || [];
+  const startWeight = convert(data?.start_weight);
+  const currentWeight = convert(data?.current_weight);
+  const weightChange = convert(data?.weight_change);
+  const ratePerWeek = convert(data?.rate_of_change_kg_per_week);
+  const goalWeight = convert(data?.goal_weight);
 
   // Custom tooltip
   const CustomTooltip = ({ active, payload }: any) => {
@@ -68,7 +60,7 @@ export function WeightTrendChart() {
             <div className="space-y-1">
               {payload.map((entry: any, idx: number) => (
                 <p key={idx} className={`text-lg font-bold ${entry.color === "#FFD700" ? "text-gold-400" : "text-cyan-400"}`}>
-                  {entry.value?.toFixed(1) || "N/A"} <span className="text-sm font-normal text-gray-400">kg</span>
+                  {entry.value?.toFixed(1) || "N/A"} <span className="text-sm font-normal text-gray-400">{unit}</span>
                   <span className="text-xs text-gray-500 ml-2">({entry.name})</span>
                 </p>
               ))}
@@ -188,13 +180,13 @@ export function WeightTrendChart() {
               <div className="p-4 bg-black/30 rounded-xl border border-white/5">
                 <p className="text-[10px] uppercase tracking-wider text-gray-500 mb-1">Start Weight</p>
                 <p className="text-2xl font-bold text-white">
-                  {data.start_weight?.toFixed(1) || "N/A"} <span className="text-sm text-gray-500">kg</span>
+                  {startWeight?.toFixed(1) || "N/A"} <span className="text-sm text-gray-500">{unit}</span>
                 </p>
               </div>
               <div className="p-4 bg-black/30 rounded-xl border border-white/5">
                 <p className="text-[10px] uppercase tracking-wider text-gray-500 mb-1">Current Weight</p>
                 <p className="text-2xl font-bold text-cyan-400">
-                  {data.current_weight?.toFixed(1) || "N/A"} <span className="text-sm text-gray-500">kg</span>
+                  {currentWeight?.toFixed(1) || "N/A"} <span className="text-sm text-gray-500">{unit}</span>
                 </p>
               </div>
               <div className="p-4 bg-black/30 rounded-xl border border-white/5">
@@ -202,14 +194,14 @@ export function WeightTrendChart() {
                 <div className="flex items-center gap-2">
                   {getChangeIcon(data.weight_change)}
                   <p className={`text-2xl font-bold ${getChangeColor(data.weight_change)}`}>
-                    {data.weight_change !== null ? (data.weight_change > 0 ? "+" : "") + data.weight_change.toFixed(1) : "N/A"} <span className="text-sm text-gray-500">kg</span>
+                    {weightChange != null ? (weightChange > 0 ? "+" : "") + weightChange.toFixed(1) : "N/A"} <span className="text-sm text-gray-500">{unit}</span>
                   </p>
                 </div>
               </div>
               <div className="p-4 bg-black/30 rounded-xl border border-white/5">
                 <p className="text-[10px] uppercase tracking-wider text-gray-500 mb-1">Rate of Change</p>
                 <p className={`text-2xl font-bold ${getChangeColor(data.rate_of_change_kg_per_week)}`}>
-                  {data.rate_of_change_kg_per_week !== null ? (data.rate_of_change_kg_per_week > 0 ? "+" : "") + data.rate_of_change_kg_per_week.toFixed(2) : "N/A"} <span className="text-sm text-gray-500">kg/wk</span>
+                  {ratePerWeek != null ? (ratePerWeek > 0 ? "+" : "") + ratePerWeek.toFixed(2) : "N/A"} <span className="text-sm text-gray-500">{unit}/wk</span>
                 </p>
               </div>
             </div>
@@ -245,13 +237,13 @@ export function WeightTrendChart() {
                     tick={{ fill: "#9CA3AF", fontSize: 11 }}
                     axisLine={{ stroke: "#ffffff10" }}
                     tickLine={{ stroke: "#ffffff10" }}
-                    label={{ value: "Weight (kg)", angle: -90, position: "insideLeft", fill: "#9CA3AF" }}
+                    label={{ value: weightKey, angle: -90, position: "insideLeft", fill: "#9CA3AF" }}
                     tickFormatter={(value) => `${value.toFixed(1)}`}
                   />
                   <Tooltip content={<CustomTooltip />} />
-                  {data.goal_weight && (
+                  {goalWeight && (
                     <ReferenceLine
-                      y={data.goal_weight}
+                      y={goalWeight}
                       stroke="#10B981"
                       strokeWidth={2}
                       strokeDasharray="5 5"
@@ -270,7 +262,7 @@ export function WeightTrendChart() {
                   />
                   <Line
                     type="monotone"
-                    dataKey="Weight (kg)"
+                    dataKey={weightKey}
                     stroke="#06B6D4"
                     strokeWidth={2}
                     dot={{ fill: "#06B6D4", r: 3, strokeWidth: 1, stroke: "#000" }}
@@ -289,18 +281,18 @@ export function WeightTrendChart() {
             </div>
 
             {/* Goal Weight Info */}
-            {data.goal_weight && (
+            {goalWeight && currentWeight !== undefined && (
               <div className="mt-4 p-3 bg-green-500/10 rounded-xl border border-green-500/20">
                 <div className="flex items-center gap-2">
                   <svg className="w-4 h-4 text-green-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12l2 2 4-4m6 2a9 9 0 11-18 0 9 9 0 0118 0z" />
                   </svg>
                   <p className="text-sm text-gray-300">
-                    Goal Weight: <span className="font-semibold text-green-400">{data.goal_weight.toFixed(1)} kg</span>
-                    {data.current_weight && (
+                    Goal Weight: <span className="font-semibold text-green-400">{goalWeight.toFixed(1)} {unit}</span>
+                    {currentWeight && (
                       <span className="ml-2">
-                        ({data.current_weight > data.goal_weight ? "↓ " : "↑ "}
-                        {Math.abs(data.current_weight - data.goal_weight).toFixed(1)} kg {data.current_weight > data.goal_weight ? "to go" : "above"})
+                        ({currentWeight > goalWeight ? "↓ " : "↑ "}
+                        {Math.abs(currentWeight - goalWeight).toFixed(1)} {unit} {currentWeight > goalWeight ? "to go" : "above"})
                       </span>
                     )}
                   </p>
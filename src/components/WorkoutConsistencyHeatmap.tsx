@@ -1,26 +1,12 @@
 import { useState, useEffect } from "react";
-import { analyticsApi } from "../services/api";
+import { analyticsApi, type WorkoutConsistency } from "../services/api";
+import { useUnits } from "../hooks/useUnits";
 
-interface HeatmapDay {
-  date: string;
-  workout_count: number;
-  total_volume: number;
-  session_ids: string[];
-}
-
-interface ConsistencyData {
-  period_days: number;
-  start_date: string;
-  end_date: string;
-  days: HeatmapDay[];
-  current_streak: number;
-  longest_streak: number;
-  weekly_average: number;
-  total_workouts: number;
-}
+type HeatmapDay = WorkoutConsistency["days"][number];
 
 export function WorkoutConsistencyHeatmap() {
-  const [data, setData] = useState<ConsistencyData | null>(null);
+  const units = useUnits();
+  const [data, setData] = useState<WorkoutConsistency | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [selectedDay, setSelectedDay] = useState<HeatmapDay | null>(null);
@@ -278,7 +264,7 @@ export function WorkoutConsistencyHeatmap() {
                         className={`w-3 h-3 rounded-sm border transition-all hover:scale-125 hover:z-10 relative flex-shrink-0 ${colorClass} ${
                           isSelected ? "ring-2 ring-gold-500 ring-offset-1 ring-offset-black scale-125" : ""
                         }`}
-                        title={`${formatDate(day.date)}: ${day.workout_count} workout(s), ${day.total_volume.toFixed(0)}kg volume`}
+                        title={`${formatDate(day.date)}: ${day.workout_count} workout(s), ${units.formatWeight(day.total_volume, { decimals: 0 })} volume`}
                       />
                     );
                   })}
@@ -323,7 +309,7 @@ export function WorkoutConsistencyHeatmap() {
               </div>
               <div>
                 <p className="text-xs text-gray-500 mb-1">Total Volume</p>
-                <p className="text-lg font-bold text-gold-400">{selectedDay.total_volume.toFixed(0)} kg</p>
+                <p className="text-lg font-bold text-gold-400">{units.formatWeight(selectedDay.total_volume, { decimals: 0 })}</p>
               </div>
             </div>
           </div>
@@ -1,11 +1,16 @@
 import { useEffect, useState } from "react";
 import { User, Session } from "@supabase/supabase-js";
 import { supabase } from "../lib/supabase";
+import { offlineService, purgeApiCache } from "../services/offline";
+import { sessionExpiry } from "../services/api";
+import { resetUnits } from "./useUnits";
 
 export function useAuth() {
   const [user, setUser] = useState<User | null>(null);
   const [session, setSession] = useState<Session | null>(null);
   const [loading, setLoading] = useState(true);
+  // The session ran out without the user signing out; pages stay up until they sign in again
+  const [sessionExpired, setSessionExpired] = useState(sessionExpiry.isExpired());
 
   useEffect(() => {
     // Get initial session
@@ -19,18 +24,38 @@ export function useAuth() {
     const {
       data: { subscription },
     } = supabase.auth.onAuthStateChange((_event, session) => {
+      // Read alongside the session so a page is never rendered signed out but not expired
+      setSessionExpired(sessionExpiry.isExpired());
       setSession(session);
       setUser(session?.user ?? null);
       setLoading(false);
     });
+    const unsubscribeExpiry = sessionExpiry.onChange(setSessionExpired);
 
-    return () => subscription.unsubscribe();
+    return () => {
+      subscription.unsubscribe();
+      unsubscribeExpiry();
+    };
   }, []);
 
   return {
     user,
     session,
     loading,
-    signOut: () => supabase.auth.signOut(),
+    sessionExpired,
+    // Remove this account's cached data from the device before the session goes away
+    // (queued offline changes stay and are sent after the account signs in again)
+    signOut: async () => {
+      const userId = session?.user.id ?? sessionExpiry.getAccount()?.userId;
+      try {
+        if (userId) await purgeApiCache(userId);
+        await offlineService.clearUserData();
+      } catch (err) {
+        console.warn("[Auth] Failed to clear cached data:", err);
+      }
+      resetUnits();
+      sessionExpiry.beginSignOut();
+      return supabase.auth.signOut();
+    },
   };
 }
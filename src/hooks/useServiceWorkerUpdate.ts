@@ -0,0 +1,72 @@
+import { useState, useEffect, useRef } from "react";
+
+// How often an open app checks for a new deploy
+const UPDATE_CHECK_INTERVAL = 60 * 60 * 1000;
+
+export function useServiceWorkerUpdate() {
+  const [waitingWorker, setWaitingWorker] = useState<ServiceWorker | null>(null);
+  const [dismissed, setDismissed] = useState(false);
+  const updateRequested = useRef(false);
+
+  useEffect(() => {
+    if (!("serviceWorker" in navigator)) return;
+
+    let registration: ServiceWorkerRegistration | null = null;
+
+    // A new worker has finished installing while an older one still controls the page
+    const trackInstalling = (worker: ServiceWorker) => {
+      worker.addEventListener("statechange", () => {
+        if (worker.state === "installed" && navigator.serviceWorker.controller) {
+          setWaitingWorker(worker);
+          setDismissed(false);
+        }
+      });
+    };
+
+    const handleUpdateFound = () => {
+      if (registration?.installing) {
+        trackInstalling(registration.installing);
+      }
+    };
+
+    navigator.serviceWorker.ready.then((reg) => {
+      registration = reg;
+      if (reg.waiting && navigator.serviceWorker.controller) {
+        setWaitingWorker(reg.waiting);
+      }
+      reg.addEventListener("updatefound", handleUpdateFound);
+    });
+
+    // Reload once the new worker takes over, but only when the user asked for it
+    // (the very first install also fires controllerchange via clients.claim)
+    const handleControllerChange = () => {
+      if (!updateRequested.current) return;
+      updateRequested.current = false;
+      window.location.reload();
+    };
+
+    navigator.serviceWorker.addEventListener("controllerchange", handleControllerChange);
+
+    const interval = setInterval(() => {
+      registration?.update().catch(() => {});
+    }, UPDATE_CHECK_INTERVAL);
+
+    return () => {
+      registration?.removeEventListener("updatefound", handleUpdateFound);
+      navigator.serviceWorker.removeEventListener("controllerchange", handleControllerChange);
+      clearInterval(interval);
+    };
+  }, []);
+
+  const applyUpdate = () => {
+    if (!waitingWorker) return;
+    updateRequested.current = true;
+    waitingWorker.postMessage({ type: "SKIP_WAITING" });
+  };
+
+  return {
+    updateAvailable: waitingWorker !== null && !dismissed,
+    applyUpdate,
+    dismiss: () => setDismissed(true),
+  };
+}
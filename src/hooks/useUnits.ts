@@ -0,0 +1,32 @@
+import { useEffect, useMemo, useState } from "react";
+import { usersApi } from "../services/api";
+import { queryCache } from "../services/queryCache";
+import { unitsFor, type UnitSystem, type Units } from "../services/units";
+
+// Last preference seen, so screens opened later start in the right units instead of flashing kg
+let lastKnownSystem: UnitSystem = "metric";
+
+// Forget the signed-out account's preference, so the next account doesn't start in its units
+export function resetUnits(): void {
+  lastKnownSystem = "metric";
+}
+
+// The signed-in user's units, following changes to their profile
+export function useUnits(): Units {
+  const [system, setSystem] = useState<UnitSystem>(lastKnownSystem);
+
+  useEffect(() => {
+    const load = () =>
+      usersApi
+        .getMe()
+        .then((profile) => {
+          lastKnownSystem = profile.unit_preference;
+          setSystem(profile.unit_preference);
+        })
+        .catch(() => {});
+    load();
+    return queryCache.subscribe("/users", load);
+  }, []);
+
+  return useMemo(() => unitsFor(system), [system]);
+}
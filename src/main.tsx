@@ -10,8 +10,18 @@ if ("serviceWorker" in navigator) {
   window.addEventListener("load", () => {
     navigator.serviceWorker
       .register("/sw.js")
-      .then((registration) => {
+      .then(async (registration) => {
         console.log("[SW] Service Worker registered:", registration.scope);
+        // Periodic sync is a fallback for queued writes when the app is never reopened online
+        if ("periodicSync" in registration) {
+          try {
+            await (registration as ServiceWorkerRegistration & {
+              periodicSync: { register(tag: string, options: { minInterval: number }): Promise<void> };
+            }).periodicSync.register("fitforge-periodic-sync", { minInterval: 12 * 60 * 60 * 1000 });
+          } catch (error) {
+            console.log("[SW] Periodic sync not granted:", error);
+          }
+        }
       })
       .catch((error) => {
         console.error("[SW] Service Worker registration failed:", error);
@@ -1,11 +1,19 @@
 import { useState, useEffect, useRef } from "react";
 import { useParams, useNavigate, useSearchParams } from "react-router-dom";
-import { sessionsApi, setsApi, workoutsApi, exercisesApi, type Session, type ExerciseInSession, type Set, type Exercise } from "../services/api";
+import { sessionsApi, setsApi, workoutsApi, exercisesApi, analyticsApi, trainingMaxesApi, usersApi, programsApi, syncService, type Session, type ExerciseInSession, type Set, type SetCreate, type Exercise, type TrainingMax, type ProgramWeek, type UserProfile } from "../services/api";
 import { SetLogger, type SetLoggerRef } from "../components/SetLogger";
 import { RestTimer } from "../components/RestTimer";
 import { PreviousPerformance } from "../components/PreviousPerformance";
 import { ProgressiveOverloadSuggestion } from "../components/ProgressiveOverloadSuggestion";
 import { offlineService } from "../services/offline";
+import { GROUP_TYPE_LABELS, nextAfterSet, toBlocks } from "../services/exerciseGroups";
+import { getPrescriptions, planSets } from "../services/prescriptions";
+import { effectiveTrainingMax, trainingMaxFromEstimate } from "../services/trainingMaxes";
+import { defaultBar, loadIncrementFor, loadRounder } from "../services/equipment";
+import { sessionWeek, weekPlan } from "../services/periodization";
+import { LOAD_INPUT_LABELS, effectiveLoad, enteredLoad, latestBodyweight, loadTypeOf } from "../services/loadTypes";
+import { distanceUnits, formatSetResult, trackedFields, trackingModeOf } from "../services/trackingModes";
+import { useUnits } from "../hooks/useUnits";
 
 interface LoggedSet extends Set {
   workout_exercise_id: string;
@@ -15,6 +23,7 @@ export function ActiveWorkoutPage() {
   const { sessionId } = useParams<{ sessionId: string }>();
   const navigate = useNavigate();
   const [searchParams, setSearchParams] = useSearchParams();
+  const units = useUnits();
 
   const [session, setSession] = useState<Session | null>(null);
   const [loggedSets, setLoggedSets] = useState<LoggedSet[]>([]);
@@ -28,6 +37,11 @@ export function ActiveWorkoutPage() {
   const [restTimerSeconds, setRestTimerSeconds] = useState(90);
   const [isOnline, setIsOnline] = useState(navigator.onLine);
   const [pendingCount, setPendingCount] = useState(0);
+  const [oneRepMaxes, setOneRepMaxes] = useState<Record<string, number | null>>({});
+  const [trainingMaxes, setTrainingMaxes] = useState<TrainingMax[]>([]);
+  const [profile, setProfile] = useState<UserProfile | null>(null);
+  const [bodyweightKg, setBodyweightKg] = useState<number | null>(null);
+  const [programWeek, setProgramWeek] = useState<{ week: number; plan?: ProgramWeek } | null>(null);
   const setLoggerRef = useRef<SetLoggerRef>(null);
 
   useEffect(() => {
@@ -73,6 +87,60 @@ export function ActiveWorkoutPage() {
     };
   }, []);
 
+  // Training maxes and the equipment profile turn percentage targets into loadable weights;
+  // body weight goes into the load of bodyweight exercises
+  useEffect(() => {
+    trainingMaxesApi
+      .list()
+      .then((response) => setTrainingMaxes(response.data))
+      .catch((err) => console.warn("[ActiveWorkout] Failed to load training maxes:", err));
+    usersApi
+      .getMe()
+      .then(setProfile)
+      .catch(() => {});
+    latestBodyweight().then(setBodyweightKg);
+  }, []);
+
+  // A periodized program scales the workout's sets and loads by the week this session counts towards
+  useEffect(() => {
+    if (!session) return;
+    const loadProgramWeek = async () => {
+      const workout = await workoutsApi.get(session.workout_id);
+      const program = await programsApi.get(workout.program_id);
+      if (!program.weeks?.length) return;
+      const sessions = await sessionsApi.listAll({ since: program.start_date });
+      const week = sessionWeek(program, program.workouts || [], sessions, session);
+      if (week) setProgramWeek({ week, plan: weekPlan(program, week) });
+    };
+    loadProgramWeek().catch((err) => console.warn("[ActiveWorkout] Failed to load program week:", err));
+  }, [session?.id]);
+
+  // Percentage-based prescriptions need the exercise's estimated 1RM
+  // (a %TM target falls back to a training max derived from it when none is stored)
+  const currentExerciseId = session?.exercises[activeExerciseIndex]?.exercise.id;
+  useEffect(() => {
+    const current = session?.exercises[activeExerciseIndex];
+    if (!current || current.exercise.id in oneRepMaxes) return;
+    if (!getPrescriptions(current).some((p) => p.percent_1rm || p.percent_tm)) return;
+
+    analyticsApi
+      .getOneRepMax(current.exercise.id)
+      .then((data) => setOneRepMaxes((maxes) => ({ ...maxes, [current.exercise.id]: data.current_1rm })))
+      .catch(() => setOneRepMaxes((maxes) => ({ ...maxes, [current.exercise.id]: null })));
+  }, [currentExerciseId]);
+
+  // Swap optimistic offline rows for the server rows once they sync
+  useEffect(() => {
+    return syncService.onItemSynced((item) => {
+      if (item.type !== "set" || !item.serverId) return;
+      setLoggedSets((sets) =>
+        sets.map((s) =>
+          s.id === item.clientId ? ({ ...s, ...item.data, id: item.serverId } as LoggedSet) : s
+        )
+      );
+    });
+  }, []);
+
   const loadSession = async () => {
     try {
       setLoading(true);
@@ -104,7 +172,11 @@ export function ActiveWorkoutPage() {
 
   const handleLogSet = async (setData: {
     weight_kg: number;
+    bodyweight_kg?: number | null;
     reps: number;
+    duration_seconds?: number;
+    distance_m?: number;
+    calories?: number;
     rpe?: number;
     is_warmup?: boolean;
     is_failure?: boolean;
@@ -124,19 +196,36 @@ export function ActiveWorkoutPage() {
         session_date: session.session_date,
         set_number: 0, // Auto-calculated
         weight_kg: setData.weight_kg,
+        bodyweight_kg: setData.bodyweight_kg,
         reps: setData.reps,
+        duration_seconds: setData.duration_seconds,
+        distance_m: setData.distance_m,
+        calories: setData.calories,
         rpe: setData.rpe,
         is_warmup: setData.is_warmup || false,
         is_failure: setData.is_failure || false,
         is_dropset: setData.is_dropset || false,
         rest_seconds: setData.rest_seconds || currentExercise.rest_seconds,
         notes: setData.notes,
-      });
-
-      setLoggedSets([...loggedSets, newSet as LoggedSet]);
+      }, session.id);
+
+      const updatedSets = [...loggedSets, newSet as LoggedSet];
+      setLoggedSets(updatedSets);
+
+      // In a superset or circuit, move on to the next exercise of the round
+      // (warm-up sets are done on their own before the rounds start)
+      const next = setData.is_warmup
+        ? { index: activeExerciseIndex, rest: true }
+        : nextAfterSet(
+            session.exercises,
+            activeExerciseIndex,
+            (ex) => updatedSets.filter((s) => s.exercise_id === ex.exercise.id && !s.is_warmup).length,
+            (ex) => skippedExercises.has(ex.id)
+          );
+      setActiveExerciseIndex(next.index);
 
-      // Start rest timer if enabled
-      if (setData.rest_seconds !== undefined && setData.rest_seconds > 0) {
+      // Start rest timer if enabled (in a group, only once the round is done)
+      if (next.rest && setData.rest_seconds !== undefined && setData.rest_seconds > 0) {
         setRestTimerSeconds(setData.rest_seconds);
         setRestTimerActive(true);
       }
@@ -174,8 +263,7 @@ export function ActiveWorkoutPage() {
       setAddingExercise(true);
       
       // Fetch exercise details for optimistic update
-      const allExercises = await exercisesApi.list();
-      const exerciseData = allExercises.data?.find((e: Exercise) => e.id === exerciseId);
+      const exerciseData = await exercisesApi.get(exerciseId);
       
       if (exerciseData) {
         // Create optimistic exercise entry
@@ -272,10 +360,11 @@ export function ActiveWorkoutPage() {
     }
   };
 
-  const handleEditSet = async (setId: string, updates: Partial<Set>) => {
+  const handleEditSet = async (setId: string, updates: Partial<SetCreate>) => {
     try {
       const updated = await setsApi.update(setId, updates);
-      setLoggedSets(loggedSets.map((s) => (s.id === setId ? (updated as LoggedSet) : s)));
+      // Offline edits only return the changed fields, so merge over the existing row
+      setLoggedSets(loggedSets.map((s) => (s.id === setId ? ({ ...s, ...updated } as LoggedSet) : s)));
       setEditingSet(null);
     } catch (err: any) {
       alert(err.response?.data?.detail || err.message || "Failed to update set");
@@ -327,6 +416,44 @@ export function ActiveWorkoutPage() {
     (s) => s.exercise_id === currentExercise?.exercise.id
   );
 
+  // Concrete targets for each prescribed set of the current exercise
+  const storedTrainingMax = trainingMaxes.find((tm) => tm.exercise_id === currentExercise?.exercise.id);
+  const estimatedOneRepMax = currentExercise && oneRepMaxes[currentExercise.exercise.id];
+  const trainingMax = storedTrainingMax
+    ? effectiveTrainingMax(storedTrainingMax).weight_kg
+    : estimatedOneRepMax
+    ? trainingMaxFromEstimate(estimatedOneRepMax, loadIncrementFor(profile))
+    : undefined;
+  const roundLoad = loadRounder(profile, currentExercise?.exercise.equipment);
+  const equipmentBar = profile?.equipment_profile ? defaultBar(profile.equipment_profile) : undefined;
+  const plan = currentExercise
+    ? planSets(currentExercise, {
+        oneRepMax: estimatedOneRepMax,
+        trainingMax,
+        round: roundLoad,
+        barWeight: currentExercise.exercise.equipment === "barbell" ? equipmentBar : undefined,
+        lastWorkingWeight: currentExercise.last_session?.sets.length
+          ? Math.max(...currentExercise.last_session.sets.map((s) => s.weight_kg))
+          : undefined,
+        logged: exerciseSets,
+        week: programWeek?.plan,
+      })
+    : [];
+
+  // Superset / circuit labels (A1, A2...) and the round the current group is on
+  const blocks = toBlocks(session.exercises);
+  const groupTags = new Map<string, string>();
+  blocks.forEach((block) =>
+    block.exercises.forEach((ex, i) => block.group && groupTags.set(ex.id, `${block.group.letter}${i + 1}`))
+  );
+  const currentBlock = blocks.find((block) => block.group && block.exercises.includes(currentExercise));
+  const currentRound = currentBlock?.group
+    ? Math.min(
+        currentBlock.group.rounds,
+        loggedSets.filter((s) => s.exercise_id === currentExercise.exercise.id && !s.is_warmup).length + 1
+      )
+    : 0;
+
   return (
     <div className="min-h-dvh bg-black pb-24 md:pb-6">
       {/* Header - Mobile Optimized */}
@@ -336,6 +463,12 @@ export function ActiveWorkoutPage() {
             <h1 className="text-lg md:text-xl font-bold text-white truncate">{session.workout_name}</h1>
             <div className="flex items-center gap-2 text-xs md:text-sm text-gray-400">
               <span>{activeExerciseIndex + 1}/{session.exercises.length}</span>
+              {programWeek && (
+                <span className={programWeek.plan?.is_deload ? "text-sky-400" : "text-violet-400"}>
+                  • Week {programWeek.week}
+                  {programWeek.plan?.is_deload && " · Deload"}
+                </span>
+              )}
               {!isOnline && (
                 <span className="text-yellow-500">• Offline</span>
               )}
@@ -362,6 +495,7 @@ export function ActiveWorkoutPage() {
               const isSkipped = skippedExercises.has(ex.id);
               const setsCount = loggedSets.filter((s) => s.exercise_id === ex.exercise.id).length;
               const isActive = idx === activeExerciseIndex;
+              const groupTag = groupTags.get(ex.id);
 
               return (
                 <button
@@ -375,6 +509,7 @@ export function ActiveWorkoutPage() {
                       : "bg-white/5 text-white border border-white/10"
                   }`}
                 >
+                  {groupTag && <span className="mr-1.5 text-xs font-bold text-violet-400">{groupTag}</span>}
                   {ex.exercise.name}
                   {setsCount > 0 && (
                     <span className={`ml-1.5 px-1.5 py-0.5 rounded-full text-xs ${isActive ? 'bg-gold-500/30' : 'bg-white/10'}`}>
@@ -398,6 +533,12 @@ export function ActiveWorkoutPage() {
           <div className="glass-card rounded-2xl md:rounded-3xl p-4 md:p-6 mb-4 md:mb-6 glow-border">
             <div className="flex justify-between items-start mb-4 md:mb-6">
               <div className="flex-1 min-w-0">
+                {currentBlock?.group && (
+                  <p className="text-violet-400 text-xs font-medium mb-1">
+                    {GROUP_TYPE_LABELS[currentBlock.group.type]} {currentBlock.group.letter} · Round {currentRound}/
+                    {currentBlock.group.rounds}
+                  </p>
+                )}
                 <h2 className="text-xl md:text-2xl font-bold text-white mb-1 md:mb-2 truncate">
                   {currentExercise.exercise.name}
                 </h2>
@@ -407,6 +548,12 @@ export function ActiveWorkoutPage() {
                   {currentExercise.exercise.is_compound && (
                     <span className="bg-gold-500/10 text-gold-500 px-2 py-0.5 rounded-full">Compound</span>
                   )}
+                  {trainingMax && getPrescriptions(currentExercise).some((p) => p.percent_tm) && (
+                    <span className="bg-violet-500/10 text-violet-400 px-2 py-0.5 rounded-full">
+                      TM {units.formatWeight(trainingMax, { decimals: 1 })}
+                      {storedTrainingMax ? ` · Cycle ${effectiveTrainingMax(storedTrainingMax).cycle}` : " (est.)"}
+                    </span>
+                  )}
                 </div>
               </div>
               <button
@@ -420,10 +567,12 @@ export function ActiveWorkoutPage() {
             {/* Progressive Overload Suggestion */}
             <ProgressiveOverloadSuggestion
               exerciseId={currentExercise.exercise.id}
+              roundLoad={roundLoad}
               onAccept={(suggestion) => {
                 if (suggestion.suggested_weight_kg || suggestion.suggested_reps) {
                   setLoggerRef.current?.quickFill({
                     weight_kg: suggestion.suggested_weight_kg || 0,
+                    bodyweight_kg: bodyweightKg,
                     reps: suggestion.suggested_reps || 0,
                   });
                 }
@@ -434,6 +583,8 @@ export function ActiveWorkoutPage() {
             {currentExercise.last_session && (
               <PreviousPerformance
                 lastSession={currentExercise.last_session}
+                loadType={loadTypeOf(currentExercise.exercise)}
+                mode={trackingModeOf(currentExercise.exercise)}
                 onQuickFill={(data) => {
                   setLoggerRef.current?.quickFill(data);
                 }}
@@ -454,7 +605,13 @@ export function ActiveWorkoutPage() {
                       <div className="flex justify-between items-center">
                         <div>
                           <span className="text-white font-medium">
-                            Set {set.set_number}: {set.weight_kg}kg × {set.reps}
+                            Set {set.set_number}:{" "}
+                            {formatSetResult(
+                              trackingModeOf(currentExercise.exercise),
+                              loadTypeOf(currentExercise.exercise),
+                              set,
+                              units
+                            )}
                           </span>
                           {set.rpe && (
                             <span className="text-gray-400 text-sm ml-2">RPE {set.rpe}</span>
@@ -500,6 +657,10 @@ export function ActiveWorkoutPage() {
               previousSets={currentExercise.last_session?.sets || []}
               onLogSet={handleLogSet}
               defaultRestSeconds={currentExercise.rest_seconds}
+              plan={plan}
+              loggedCount={exerciseSets.length}
+              equipment={profile?.equipment_profile ?? undefined}
+              bodyweightKg={bodyweightKg}
             />
           </div>
         )}
@@ -561,6 +722,7 @@ export function ActiveWorkoutPage() {
       {editingSet && (
         <EditSetModal
           set={editingSet}
+          exercise={session.exercises.find((ex) => ex.exercise.id === editingSet.exercise_id)?.exercise}
           onSave={(updates) => handleEditSet(editingSet.id, updates)}
           onClose={() => setEditingSet(null)}
         />
@@ -571,16 +733,27 @@ export function ActiveWorkoutPage() {
 
 function EditSetModal({
   set,
+  exercise,
   onSave,
   onClose,
 }: {
   set: Set;
-  onSave: (updates: Partial<Set>) => void;
+  exercise?: Exercise;
+  onSave: (updates: Partial<SetCreate>) => void;
   onClose: () => void;
 }) {
+  const units = useUnits();
+  const loadType = loadTypeOf(exercise ?? { equipment: "" });
+  const fields = trackedFields(trackingModeOf(exercise ?? {}));
+  const showWeight = fields.weight && loadType !== "bodyweight";
+  const [distanceUnit] = distanceUnits(units);
+  const entered = enteredLoad(loadType, set);
   const [formData, setFormData] = useState({
-    weight_kg: set.weight_kg,
+    weight: units.fromKg(entered), // In the user's unit; the added or assisting weight for bodyweight exercises
     reps: set.reps,
+    duration_seconds: set.duration_seconds ?? 0,
+    distance: Math.round((set.distance_m ?? 0) / distanceUnit.metres), // In metres or yards
+    calories: set.calories ?? 0,
     rpe: set.rpe || 8,
     is_warmup: set.is_warmup,
     is_failure: set.is_failure,
@@ -590,7 +763,23 @@ function EditSetModal({
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    onSave(formData);
+    const { weight, duration_seconds, distance, calories, ...rest } = formData;
+    const updates: Partial<SetCreate> = { ...rest };
+    // A metric set to 0 is cleared with an explicit null, which the PATCH body keeps; unchanged ones aren't sent
+    if (fields.duration && duration_seconds !== (set.duration_seconds ?? 0)) {
+      updates.duration_seconds = duration_seconds || null;
+    }
+    if (fields.calories && calories !== (set.calories ?? 0)) {
+      updates.calories = calories || null;
+    }
+    // Untouched weights and distances keep their stored values rather than converted-back approximations
+    if (fields.distance && distance !== Math.round((set.distance_m ?? 0) / distanceUnit.metres)) {
+      updates.distance_m = distance ? Math.round(distance * distanceUnit.metres * 10) / 10 : null;
+    }
+    if (weight !== units.fromKg(entered)) {
+      updates.weight_kg = effectiveLoad(loadType, units.toKg(weight), set.bodyweight_kg ?? null);
+    }
+    onSave(updates);
   };
 
   return (
@@ -606,30 +795,72 @@ function EditSetModal({
         </div>
 
         <form onSubmit={handleSubmit} className="space-y-4">
-          <div className="grid grid-cols-2 gap-4">
-            <div>
-              <label className="block text-sm text-gray-300 mb-1">Weight (kg)</label>
-              <input
-                type="number"
-                step="0.5"
-                min="0"
-                value={formData.weight_kg}
-                onChange={(e) => setFormData({ ...formData, weight_kg: parseFloat(e.target.value) })}
-                className="input-field"
-                required
-              />
-            </div>
-            <div>
-              <label className="block text-sm text-gray-300 mb-1">Reps</label>
-              <input
-                type="number"
-                min="0"
-                value={formData.reps}
-                onChange={(e) => setFormData({ ...formData, reps: parseInt(e.target.value) })}
-                className="input-field"
-                required
-              />
-            </div>
+          <div className={`grid gap-4 ${showWeight && fields.reps ? "grid-cols-2" : "grid-cols-1"}`}>
+            {showWeight && (
+              <div>
+                <label className="block text-sm text-gray-300 mb-1">
+                  {LOAD_INPUT_LABELS[loadType]} ({units.weightUnit})
+                </label>
+                <input
+                  type="number"
+                  step="any"
+                  min="0"
+                  value={formData.weight}
+                  onChange={(e) => setFormData({ ...formData, weight: parseFloat(e.target.value) })}
+                  className="input-field"
+                  required
+                />
+              </div>
+            )}
+            {fields.reps && (
+              <div>
+                <label className="block text-sm text-gray-300 mb-1">Reps</label>
+                <input
+                  type="number"
+                  min="0"
+                  value={formData.reps}
+                  onChange={(e) => setFormData({ ...formData, reps: parseInt(e.target.value) })}
+                  className="input-field"
+                  required
+                />
+              </div>
+            )}
+            {fields.duration && (
+              <div>
+                <label className="block text-sm text-gray-300 mb-1">Time (seconds)</label>
+                <input
+                  type="number"
+                  min="0"
+                  value={formData.duration_seconds}
+                  onChange={(e) => setFormData({ ...formData, duration_seconds: parseInt(e.target.value) || 0 })}
+                  className="input-field"
+                />
+              </div>
+            )}
+            {fields.distance && (
+              <div>
+                <label className="block text-sm text-gray-300 mb-1">Distance ({distanceUnit.label})</label>
+                <input
+                  type="number"
+                  min="0"
+                  value={formData.distance}
+                  onChange={(e) => setFormData({ ...formData, distance: parseFloat(e.target.value) || 0 })}
+                  className="input-field"
+                />
+              </div>
+            )}
+            {fields.calories && (
+              <div>
+                <label className="block text-sm text-gray-300 mb-1">Calories</label>
+                <input
+                  type="number"
+                  min="0"
+                  value={formData.calories}
+                  onChange={(e) => setFormData({ ...formData, calories: parseInt(e.target.value) || 0 })}
+                  className="input-field"
+                />
+              </div>
+            )}
           </div>
 
           <div>
@@ -4,14 +4,7 @@ import { useNavigate } from "react-router-dom";
 import { useInstallPrompt } from "../hooks/useInstallPrompt";
 import { QuickWeightLog } from "../components/QuickWeightLog";
 import { MobileBottomNav } from "../components/MobileBottomNav";
-import { analyticsApi } from "../services/api";
-
-interface DashboardStats {
-  total_workouts: number;
-  total_volume_kg: number;
-  current_streak_days: number;
-  total_prs: number;
-}
+import { analyticsApi, type DashboardStats } from "../services/api";
 
 export function DashboardPage() {
   const { user, signOut } = useAuth();
@@ -0,0 +1,232 @@
+import { useState, useEffect } from "react";
+import { useNavigate } from "react-router-dom";
+import { usersApi, type EquipmentProfile } from "../services/api";
+import { DEFAULT_EQUIPMENT_PROFILE, loadStep } from "../services/equipment";
+import { PageLayout } from "../components/PageLayout";
+
+const inputClass =
+  "w-full h-11 px-4 bg-black/40 border border-white/10 rounded-xl text-white text-sm focus:outline-none focus:border-gold-500/50";
+
+// Numbers typed as "20, 15" into a list, ignoring anything that isn't a positive number
+function parseList(text: string): number[] {
+  return text
+    .split(/[,\s]+/)
+    .map(Number)
+    .filter((n) => n > 0);
+}
+
+export function EquipmentPage() {
+  const navigate = useNavigate();
+  const [profile, setProfile] = useState<EquipmentProfile>(DEFAULT_EQUIPMENT_PROFILE);
+  const [bars, setBars] = useState(DEFAULT_EQUIPMENT_PROFILE.bar_weights_kg.join(", "));
+  const [isNew, setIsNew] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    usersApi
+      .getMe()
+      .then((user) => {
+        const stored = user.equipment_profile ?? DEFAULT_EQUIPMENT_PROFILE;
+        setIsNew(!user.equipment_profile);
+        setProfile(stored);
+        setBars(stored.bar_weights_kg.join(", "));
+      })
+      .catch((err) => setError(err.message || "Failed to load your equipment"))
+      .finally(() => setLoading(false));
+  }, []);
+
+  const updatePlate = (index: number, changes: Partial<EquipmentProfile["plates"][number]>) => {
+    setProfile({
+      ...profile,
+      plates: profile.plates.map((plate, i) => (i === index ? { ...plate, ...changes } : plate)),
+    });
+  };
+
+  const handleSave = async () => {
+    const barWeights = parseList(bars);
+    if (barWeights.length === 0) {
+      setError("Add at least one bar weight");
+      return;
+    }
+    const saved: EquipmentProfile = {
+      ...profile,
+      bar_weights_kg: barWeights,
+      plates: profile.plates
+        .filter((plate) => plate.weight_kg > 0 && plate.pairs > 0)
+        .sort((a, b) => b.weight_kg - a.weight_kg),
+    };
+    try {
+      setSaving(true);
+      setError(null);
+      // The plain increment is kept in step for anything that still reads it
+      await usersApi.updateMe({ equipment_profile: saved, load_increment_kg: loadStep(saved, "barbell") });
+      navigate(-1);
+    } catch (err: any) {
+      setError(err.response?.data?.detail || err.message || "Failed to save your equipment");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleReset = async () => {
+    if (!confirm("Stop rounding to your equipment? Loads go back to your smallest load jump.")) return;
+    try {
+      setSaving(true);
+      await usersApi.updateMe({ equipment_profile: null });
+      navigate(-1);
+    } catch (err: any) {
+      setError(err.response?.data?.detail || err.message || "Failed to reset your equipment");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <PageLayout title="Equipment" showBackButton>
+        <div className="flex items-center justify-center py-20">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-gold-500"></div>
+        </div>
+      </PageLayout>
+    );
+  }
+
+  return (
+    <PageLayout title="Equipment" showBackButton>
+      <p className="text-gray-500 text-xs mb-4">
+        Suggested and percentage-based loads are rounded to what you can build from this, and the set logger shows
+        the plates for each side of the bar.
+        {isNew && " These are typical gym defaults until you save your own."}
+      </p>
+
+      {error && (
+        <p className="p-3 mb-4 bg-red-500/10 border border-red-500/20 rounded-xl text-red-400 text-xs">{error}</p>
+      )}
+
+      {/* Bars */}
+      <div className="bg-white/5 rounded-2xl border border-white/5 p-4 mb-4">
+        <label className="block text-white font-semibold text-sm mb-1">Bars (kg)</label>
+        <p className="text-gray-500 text-xs mb-3">Separate with commas; the first is the one you usually use</p>
+        <input
+          type="text"
+          value={bars}
+          onChange={(e) => setBars(e.target.value)}
+          placeholder="20, 15"
+          className={inputClass}
+        />
+      </div>
+
+      {/* Plates */}
+      <div className="bg-white/5 rounded-2xl border border-white/5 p-4 mb-4">
+        <p className="text-white font-semibold text-sm mb-1">Plates</p>
+        <p className="text-gray-500 text-xs mb-3">Weight of each plate and how many pairs you have</p>
+        <div className="space-y-2">
+          {profile.plates.map((plate, index) => (
+            <div key={index} className="flex items-center gap-2">
+              <div className="relative flex-1">
+                <input
+                  type="number"
+                  min="0"
+                  step="0.25"
+                  value={plate.weight_kg || ""}
+                  onChange={(e) => updatePlate(index, { weight_kg: parseFloat(e.target.value) || 0 })}
+                  className={inputClass}
+                />
+                <span className="absolute right-4 top-1/2 -translate-y-1/2 text-gray-500 text-xs">kg</span>
+              </div>
+              <span className="text-gray-500 text-xs">×</span>
+              <div className="flex items-center gap-1">
+                <button
+                  onClick={() => updatePlate(index, { pairs: Math.max(0, plate.pairs - 1) })}
+                  className="w-9 h-11 bg-white/5 rounded-lg text-white"
+                >
+                  −
+                </button>
+                <span className="w-14 text-center text-white text-sm">
+                  {plate.pairs} {plate.pairs === 1 ? "pair" : "pairs"}
+                </span>
+                <button
+                  onClick={() => updatePlate(index, { pairs: plate.pairs + 1 })}
+                  className="w-9 h-11 bg-white/5 rounded-lg text-white"
+                >
+                  +
+                </button>
+              </div>
+              <button
+                onClick={() => setProfile({ ...profile, plates: profile.plates.filter((_, i) => i !== index) })}
+                className="w-8 h-11 text-gray-500 active:text-red-400"
+              >
+                ×
+              </button>
+            </div>
+          ))}
+        </div>
+        <button
+          onClick={() => setProfile({ ...profile, plates: [...profile.plates, { weight_kg: 0, pairs: 1 }] })}
+          className="w-full mt-3 h-10 bg-white/5 border border-dashed border-white/10 text-gray-400 rounded-xl text-xs"
+        >
+          + Add Plate
+        </button>
+      </div>
+
+      {/* Dumbbells and machines */}
+      <div className="bg-white/5 rounded-2xl border border-white/5 p-4 mb-4">
+        <p className="text-white font-semibold text-sm mb-3">Dumbbells & Machines</p>
+        <div className="grid grid-cols-2 gap-3 mb-3">
+          <div>
+            <label className="block text-gray-400 text-xs mb-1.5">Dumbbell steps (kg)</label>
+            <input
+              type="number"
+              min="0.5"
+              step="0.5"
+              value={profile.dumbbell_step_kg || ""}
+              onChange={(e) => setProfile({ ...profile, dumbbell_step_kg: parseFloat(e.target.value) || 0 })}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className="block text-gray-400 text-xs mb-1.5">Heaviest dumbbell (kg)</label>
+            <input
+              type="number"
+              min="0"
+              step="0.5"
+              value={profile.dumbbell_max_kg || ""}
+              onChange={(e) => setProfile({ ...profile, dumbbell_max_kg: parseFloat(e.target.value) || 0 })}
+              className={inputClass}
+            />
+          </div>
+        </div>
+        <label className="block text-gray-400 text-xs mb-1.5">Machine and cable stack steps (kg)</label>
+        <input
+          type="number"
+          min="0.5"
+          step="0.5"
+          value={profile.machine_step_kg || ""}
+          onChange={(e) => setProfile({ ...profile, machine_step_kg: parseFloat(e.target.value) || 0 })}
+          className={inputClass}
+        />
+      </div>
+
+      <div className="flex gap-3">
+        {!isNew && (
+          <button
+            onClick={handleReset}
+            disabled={saving}
+            className="flex-1 h-11 bg-white/5 border border-white/10 text-gray-400 rounded-xl text-sm font-medium"
+          >
+            Reset
+          </button>
+        )}
+        <button
+          onClick={handleSave}
+          disabled={saving || profile.dumbbell_step_kg <= 0 || profile.machine_step_kg <= 0}
+          className="flex-1 h-11 bg-gradient-to-r from-gold-600 to-gold-500 text-black rounded-xl text-sm font-semibold disabled:opacity-50"
+        >
+          {saving ? "Saving..." : "Save Equipment"}
+        </button>
+      </div>
+    </PageLayout>
+  );
+}
@@ -1,6 +1,8 @@
 import { useState, useEffect } from "react";
 import { useNavigate, useSearchParams } from "react-router-dom";
-import { exercisesApi, type MuscleGroup } from "../services/api";
+import { exercisesApi, type LoadType, type MuscleGroup, type TrackingMode } from "../services/api";
+import { LOAD_TYPES, LOAD_TYPE_LABELS, defaultLoadType } from "../services/loadTypes";
+import { TRACKING_MODES, TRACKING_MODE_LABELS, trackedFields } from "../services/trackingModes";
 import { PageLayout } from "../components/PageLayout";
 
 interface ExerciseCreateForm {
@@ -8,6 +10,8 @@ interface ExerciseCreateForm {
   muscle_group_id: string;
   secondary_muscle_group_id?: string;
   equipment: string;
+  load_type: LoadType;
+  tracking_mode: TrackingMode;
   is_compound: boolean;
   is_unilateral: boolean;
   instructions?: string;
@@ -26,6 +30,8 @@ export function ExerciseCreatePage() {
     name: "",
     muscle_group_id: "",
     equipment: "dumbbell",
+    load_type: "external",
+    tracking_mode: "reps",
     is_compound: false,
     is_unilateral: false,
     instructions: "",
@@ -69,6 +75,8 @@ export function ExerciseCreatePage() {
         muscle_group_id: createForm.muscle_group_id,
         secondary_muscle_group_id: createForm.secondary_muscle_group_id || undefined,
         equipment: createForm.equipment,
+        load_type: createForm.load_type,
+        tracking_mode: createForm.tracking_mode,
         is_compound: createForm.is_compound,
         is_unilateral: createForm.is_unilateral,
         instructions: createForm.instructions || undefined,
@@ -147,7 +155,9 @@ export function ExerciseCreatePage() {
           <label className="block text-xs text-gray-400 mb-2 font-medium">Equipment *</label>
           <select
             value={createForm.equipment}
-            onChange={(e) => setCreateForm({ ...createForm, equipment: e.target.value })}
+            onChange={(e) =>
+              setCreateForm({ ...createForm, equipment: e.target.value, load_type: defaultLoadType(e.target.value) })
+            }
             className="w-full h-11 px-4 bg-white/5 border border-white/10 rounded-xl text-white text-sm focus:outline-none focus:border-gold-500/50 focus:bg-white/10 transition-all appearance-none"
             required
             style={{ backgroundImage: `url("data:image/svg+xml,%3csvg xmlns='http://www.w3.org/2000/svg' fill='none' viewBox='0 0 20 20'%3e%3cpath stroke='%239ca3af' stroke-linecap='round' stroke-linejoin='round' stroke-width='2' d='M6 8l4 4 4-4'/%3e%3c/svg%3e")`, backgroundPosition: 'right 0.75rem center', backgroundRepeat: 'no-repeat', backgroundSize: '1.5em 1.5em', paddingRight: '2.5rem' }}
@@ -160,6 +170,53 @@ export function ExerciseCreatePage() {
           </select>
         </div>
 
+        {/* Tracking mode */}
+        <div>
+          <label className="block text-xs text-gray-400 mb-2 font-medium">Tracks</label>
+          <div className="grid grid-cols-3 gap-2">
+            {TRACKING_MODES.map((mode) => (
+              <button
+                key={mode}
+                type="button"
+                onClick={() => setCreateForm({ ...createForm, tracking_mode: mode })}
+                className={`h-10 px-1 rounded-xl text-[11px] font-medium border transition-all ${
+                  createForm.tracking_mode === mode
+                    ? "bg-gold-500/20 text-gold-500 border-gold-500/40"
+                    : "bg-white/5 text-gray-400 border-white/10"
+                }`}
+              >
+                {TRACKING_MODE_LABELS[mode]}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {/* Load type */}
+        {trackedFields(createForm.tracking_mode).weight && (
+          <div>
+            <label className="block text-xs text-gray-400 mb-2 font-medium">Load</label>
+            <div className="grid grid-cols-2 gap-2">
+              {LOAD_TYPES.map((loadType) => (
+                <button
+                  key={loadType}
+                  type="button"
+                  onClick={() => setCreateForm({ ...createForm, load_type: loadType })}
+                  className={`h-10 rounded-xl text-xs font-medium border transition-all ${
+                    createForm.load_type === loadType
+                      ? "bg-gold-500/20 text-gold-500 border-gold-500/40"
+                      : "bg-white/5 text-gray-400 border-white/10"
+                  }`}
+                >
+                  {LOAD_TYPE_LABELS[loadType]}
+                </button>
+              ))}
+            </div>
+            <p className="text-[11px] text-gray-500 mt-1.5">
+              Bodyweight loads count your latest logged body weight in volume and 1RM
+            </p>
+          </div>
+        )}
+
         {/* Checkboxes */}
         <div className="flex gap-4 pt-1">
           <label className="flex items-center gap-2 cursor-pointer group">
@@ -1,53 +1,20 @@
 import { useState, useEffect } from "react";
 import { useParams, useNavigate } from "react-router-dom";
-import { analyticsApi, exercisesApi, setsApi, type Exercise } from "../services/api";
+import { analyticsApi, exercisesApi, setsApi, type Exercise, type ExerciseHistory, type OneRepMax } from "../services/api";
 import { PageLayout } from "../components/PageLayout";
-
-interface OneRepMaxData {
-  current_1rm: number | null;
-  pr_1rm: number | null;
-  pr_date: string | null;
-  previous_1rm: number | null;
-  previous_date: string | null;
-  trend: "up" | "down" | "same" | "new" | null;
-}
-
-interface SetData {
-  set_number: number;
-  weight_kg: number;
-  reps: number;
-  rpe: number | null;
-  is_warmup: boolean;
-  is_failure: boolean;
-  is_dropset: boolean;
-}
-
-interface SessionData {
-  date: string;
-  sets: SetData[];
-  working_sets: number;
-  total_volume: number;
-  max_weight: number;
-  max_reps: number;
-}
-
-interface ExerciseHistory {
-  exercise_id: string;
-  period_days: number;
-  total_sessions: number;
-  sessions: SessionData[];
-  best_volume: number;
-  best_weight: number;
-}
+import { useUnits } from "../hooks/useUnits";
+import { loadTypeOf } from "../services/loadTypes";
+import { formatSetResult, personalBests, trackingModeOf } from "../services/trackingModes";
 
 type TabType = "history" | "stats";
 
 export function ExerciseHistoryPage() {
+  const units = useUnits();
   const { exerciseId } = useParams<{ exerciseId: string }>();
   const navigate = useNavigate();
   
   const [exercise, setExercise] = useState<Exercise | null>(null);
-  const [oneRepMax, setOneRepMax] = useState<OneRepMaxData | null>(null);
+  const [oneRepMax, setOneRepMax] = useState<OneRepMax | null>(null);
   const [history, setHistory] = useState<ExerciseHistory | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -65,8 +32,7 @@ export function ExerciseHistoryPage() {
       setLoading(true);
       setError(null);
       
-      const exercises = await exercisesApi.list();
-      const foundExercise = exercises.data?.find((e: Exercise) => e.id === exerciseId);
+      const foundExercise = await exercisesApi.get(exerciseId!);
       
       if (!foundExercise) {
         setError("Exercise not found");
@@ -139,6 +105,14 @@ export function ExerciseHistoryPage() {
     );
   }
 
+  // Exercises tracked by time, distance or calories have bests of their own rather than weight, volume and 1RM
+  const mode = trackingModeOf(exercise);
+  const loadType = loadTypeOf(exercise);
+  const workingSets = (sets: ExerciseHistory["sessions"][number]["sets"]) => sets.filter((set) => !set.is_warmup);
+  const bests = history
+    ? personalBests(mode, history.sessions.flatMap((session) => workingSets(session.sets)), units)
+    : [];
+
   return (
     <PageLayout title={exercise.name} showBackButton>
       {/* Exercise Info */}
@@ -153,24 +127,26 @@ export function ExerciseHistoryPage() {
       </div>
 
       {/* Tabs */}
-      <div className="bg-white/5 rounded-2xl p-1.5 mb-4 flex gap-1">
-        <button
-          onClick={() => setActiveTab("history")}
-          className={`flex-1 py-2.5 px-3 rounded-xl text-xs font-medium transition-all ${
-            activeTab === "history" ? "bg-gold-500 text-black" : "text-gray-400"
-          }`}
-        >
-          📋 Workout History
-        </button>
-        <button
-          onClick={() => setActiveTab("stats")}
-          className={`flex-1 py-2.5 px-3 rounded-xl text-xs font-medium transition-all ${
-            activeTab === "stats" ? "bg-gold-500 text-black" : "text-gray-400"
-          }`}
-        >
-          📊 1RM Stats
-        </button>
-      </div>
+      {mode === "reps" && (
+        <div className="bg-white/5 rounded-2xl p-1.5 mb-4 flex gap-1">
+          <button
+            onClick={() => setActiveTab("history")}
+            className={`flex-1 py-2.5 px-3 rounded-xl text-xs font-medium transition-all ${
+              activeTab === "history" ? "bg-gold-500 text-black" : "text-gray-400"
+            }`}
+          >
+            📋 Workout History
+          </button>
+          <button
+            onClick={() => setActiveTab("stats")}
+            className={`flex-1 py-2.5 px-3 rounded-xl text-xs font-medium transition-all ${
+              activeTab === "stats" ? "bg-gold-500 text-black" : "text-gray-400"
+            }`}
+          >
+            📊 1RM Stats
+          </button>
+        </div>
+      )}
 
       {activeTab === "history" && (
         <>
@@ -196,15 +172,29 @@ export function ExerciseHistoryPage() {
           </div>
 
           {/* Summary Stats */}
-          {history && history.total_sessions > 0 && (
+          {history && history.total_sessions > 0 && mode !== "reps" && (
+            <div className="grid grid-cols-3 gap-2 mb-4">
+              <div className="bg-white/5 rounded-xl p-3 text-center border border-white/5">
+                <p className="text-white font-bold text-lg">{history.total_sessions}</p>
+                <p className="text-gray-500 text-[10px]">Sessions</p>
+              </div>
+              {bests.slice(0, 2).map((best) => (
+                <div key={best.label} className="bg-white/5 rounded-xl p-3 text-center border border-white/5">
+                  <p className="text-gold-500 font-bold text-lg">{best.value}</p>
+                  <p className="text-gray-500 text-[10px]">{best.label}</p>
+                </div>
+              ))}
+            </div>
+          )}
+          {history && history.total_sessions > 0 && mode === "reps" && (
             <div className="grid grid-cols-3 gap-2 mb-4">
               <div className="bg-white/5 rounded-xl p-3 text-center border border-white/5">
                 <p className="text-white font-bold text-lg">{history.total_sessions}</p>
                 <p className="text-gray-500 text-[10px]">Sessions</p>
               </div>
               <div className="bg-white/5 rounded-xl p-3 text-center border border-white/5">
-                <p className="text-gold-500 font-bold text-lg">{history.best_weight}</p>
-                <p className="text-gray-500 text-[10px]">Best kg</p>
+                <p className="text-gold-500 font-bold text-lg">{units.fromKg(history.best_weight)}</p>
+                <p className="text-gray-500 text-[10px]">Best {units.weightUnit}</p>
               </div>
               <div className="bg-white/5 rounded-xl p-3 text-center border border-white/5">
                 <p className="text-cyan-400 font-bold text-lg">{(history.best_volume / 1000).toFixed(1)}k</p>
@@ -231,24 +221,36 @@ export function ExerciseHistoryPage() {
                         </div>
                       </div>
                       <div className="text-right">
-                        <p className="text-white font-semibold text-sm">{session.max_weight} kg</p>
+                        <p className="text-white font-semibold text-sm">
+                          {mode === "reps"
+                            ? units.formatWeight(session.max_weight, { decimals: 1 })
+                            : personalBests(mode, workingSets(session.sets), units)[0]?.value ?? "–"}
+                        </p>
                         <p className="text-gray-500 text-[10px]">{session.working_sets} working sets</p>
                       </div>
                     </div>
                     
                     {/* Quick Stats */}
-                    <div className="flex gap-3 text-[10px]">
-                      <span className="text-gray-400">Vol: {session.total_volume.toFixed(0)} kg</span>
-                      <span className="text-gray-400">Max Reps: {session.max_reps}</span>
-                    </div>
+                    {mode === "reps" && (
+                      <div className="flex gap-3 text-[10px]">
+                        <span className="text-gray-400">Vol: {units.formatWeight(session.total_volume, { decimals: 0 })}</span>
+                        <span className="text-gray-400">Max Reps: {session.max_reps}</span>
+                      </div>
+                    )}
                   </div>
 
                   {/* Sets Table */}
                   <div className="p-3">
                     <div className="grid grid-cols-5 gap-2 text-[10px] text-gray-500 font-medium mb-2 px-2">
                       <span>Set</span>
-                      <span>Weight</span>
-                      <span>Reps</span>
+                      {mode === "reps" ? (
+                        <>
+                          <span>Weight</span>
+                          <span>Reps</span>
+                        </>
+                      ) : (
+                        <span className="col-span-2">Result</span>
+                      )}
                       <span>RPE</span>
                       <span>Type</span>
                     </div>
@@ -263,8 +265,14 @@ export function ExerciseHistoryPage() {
                           }`}
                         >
                           <span className="text-gray-400">{set.set_number}</span>
-                          <span className="font-semibold">{set.weight_kg} kg</span>
-                          <span>{set.reps}</span>
+                          {mode === "reps" ? (
+                            <>
+                              <span className="font-semibold">{units.formatWeight(set.weight_kg, { decimals: 1 })}</span>
+                              <span>{set.reps}</span>
+                            </>
+                          ) : (
+                            <span className="col-span-2 font-semibold">{formatSetResult(mode, loadType, set, units)}</span>
+                          )}
                           <span className="text-gray-400">{set.rpe || "-"}</span>
                           <span className="text-[10px]">
                             {set.is_warmup && <span className="text-blue-400">Warm</span>}
@@ -316,9 +324,9 @@ export function ExerciseHistoryPage() {
               {oneRepMax.current_1rm ? (
                 <div className="flex items-baseline gap-2">
                   <span className="text-4xl font-bold text-gold-400">
-                    {oneRepMax.current_1rm.toFixed(1)}
+                    {units.fromKg(oneRepMax.current_1rm).toFixed(1)}
                   </span>
-                  <span className="text-xl text-gray-400">kg</span>
+                  <span className="text-xl text-gray-400">{units.weightUnit}</span>
                   {oneRepMax.trend === "up" && (
                     <span className="ml-auto text-green-400 text-sm font-medium">↑ Up</span>
                   )}
@@ -335,7 +343,7 @@ export function ExerciseHistoryPage() {
               
               {oneRepMax.previous_1rm && (
                 <div className="mt-3 pt-3 border-t border-white/10 text-xs text-gray-400">
-                  Previous: {oneRepMax.previous_1rm.toFixed(1)} kg 
+                  Previous: {units.formatWeight(oneRepMax.previous_1rm, { decimals: 1 })} 
                   {oneRepMax.previous_date && ` (${formatDate(oneRepMax.previous_date)})`}
                 </div>
               )}
@@ -359,14 +367,14 @@ export function ExerciseHistoryPage() {
               <div className="p-4">
                 <div className="flex items-baseline gap-2">
                   <span className="text-4xl font-bold text-gold-400">
-                    {oneRepMax.pr_1rm.toFixed(1)}
+                    {units.fromKg(oneRepMax.pr_1rm).toFixed(1)}
                   </span>
-                  <span className="text-xl text-gray-400">kg</span>
+                  <span className="text-xl text-gray-400">{units.weightUnit}</span>
                 </div>
                 
                 {oneRepMax.current_1rm && oneRepMax.pr_1rm > oneRepMax.current_1rm && (
                   <div className="mt-3 pt-3 border-t border-gold-500/20 text-xs text-gray-400">
-                    {(oneRepMax.pr_1rm - oneRepMax.current_1rm).toFixed(1)} kg away from PR
+                    {units.formatWeight(oneRepMax.pr_1rm - oneRepMax.current_1rm, { decimals: 1 })} away from PR
                   </div>
                 )}
               </div>
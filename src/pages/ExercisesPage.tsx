@@ -1,24 +1,8 @@
 import { useState, useEffect } from "react";
 import { useNavigate } from "react-router-dom";
-import { analyticsApi, exercisesApi, type Exercise } from "../services/api";
+import { analyticsApi, exercisesApi, type Exercise, type MuscleGroup, type RecentExercise } from "../services/api";
 import { PageLayout } from "../components/PageLayout";
 
-interface RecentExercise {
-  exercise_id: string;
-  exercise: {
-    id: string;
-    name: string;
-    muscle_group?: {
-      id: string;
-      name: string;
-    };
-    equipment: string;
-    is_compound?: boolean;
-  };
-  last_session_date: string;
-  set_count: number;
-}
-
 export function ExercisesPage() {
   const navigate = useNavigate();
   const [exercises, setExercises] = useState<RecentExercise[]>([]);
@@ -28,7 +12,7 @@ export function ExercisesPage() {
   const [viewMode, setViewMode] = useState<"recent" | "all">("recent");
   const [search, setSearch] = useState("");
   const [selectedMuscleGroup, setSelectedMuscleGroup] = useState<string>("");
-  const [muscleGroups, setMuscleGroups] = useState<any[]>([]);
+  const [muscleGroups, setMuscleGroups] = useState<MuscleGroup[]>([]);
 
   useEffect(() => {
     loadData();
@@ -41,14 +25,14 @@ export function ExercisesPage() {
 
       if (viewMode === "recent") {
         const response = await analyticsApi.getRecentExercises(50, 90);
-        setExercises(response.data || []);
+        setExercises(response.data);
       } else {
         const response = await exercisesApi.list();
-        setAllExercises(response.data || []);
+        setAllExercises(response.data);
       }
 
       const mgResponse = await exercisesApi.getMuscleGroups();
-      setMuscleGroups(mgResponse.data || []);
+      setMuscleGroups(mgResponse.data);
     } catch (err: any) {
       setError(err.response?.data?.detail || err.message || "Failed to load exercises");
     } finally {
@@ -0,0 +1,264 @@
+import { useState, useRef } from "react";
+import { collectAccountData, type ExportProgress } from "../services/accountExport";
+import {
+  WEIGHT_IMPORT_SOURCE_LABELS,
+  allWeightLogs,
+  applyWeightImport,
+  parseWeightFile,
+  planWeightImport,
+  sessionsToTcx,
+  weightLogsToHealthKitXml,
+  weightLogsToOpenMHealth,
+  type WeightExportFormat,
+  type WeightImportPlan,
+} from "../services/healthExport";
+import { downloadFile, fileDate } from "../services/files";
+import { toISODate } from "../services/dates";
+import { PageLayout } from "../components/PageLayout";
+
+const WEIGHT_FORMATS: Array<{ value: WeightExportFormat; label: string; hint: string }> = [
+  { value: "healthkit", label: "Apple Health", hint: "HealthKit XML" },
+  { value: "openmhealth", label: "Open mHealth", hint: "JSON" },
+];
+
+export function HealthPage() {
+  const [from, setFrom] = useState(() => {
+    const monthAgo = new Date();
+    monthAgo.setDate(monthAgo.getDate() - 30);
+    return toISODate(monthAgo);
+  });
+  const [to, setTo] = useState(() => toISODate(new Date()));
+  const [weightFormat, setWeightFormat] = useState<WeightExportFormat>("healthkit");
+  const [progress, setProgress] = useState<ExportProgress | null>(null);
+  const [plan, setPlan] = useState<WeightImportPlan | null>(null);
+  const [imported, setImported] = useState<number | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const run = async (task: () => Promise<void>) => {
+    setBusy(true);
+    setError(null);
+    setMessage(null);
+    try {
+      await task();
+    } catch (err: any) {
+      setError(err.message || "Something went wrong");
+      console.error("[Health] Error:", err);
+    } finally {
+      setBusy(false);
+      setProgress(null);
+    }
+  };
+
+  const handleExportWorkouts = () =>
+    run(async () => {
+      const data = await collectAccountData(setProgress, { range: { from: from || undefined, to: to || undefined } });
+      const exerciseNames = new Map(data.exercises.map((exercise) => [exercise.id, exercise.name]));
+      const tcx = sessionsToTcx(data.sessions, exerciseNames);
+      downloadFile(`fitforge-workouts-${fileDate()}.tcx`, tcx, "application/vnd.garmin.tcx+xml");
+      setMessage(`Exported ${data.sessions.length} sessions`);
+    });
+
+  const handleExportWeight = () =>
+    run(async () => {
+      const logs = await allWeightLogs();
+      if (weightFormat === "healthkit") {
+        downloadFile(`fitforge-weight-${fileDate()}.xml`, weightLogsToHealthKitXml(logs), "application/xml");
+      } else {
+        downloadFile(`fitforge-weight-${fileDate()}.json`, weightLogsToOpenMHealth(logs), "application/json");
+      }
+      setMessage(`Exported ${logs.length} weight logs`);
+    });
+
+  const handleFileSelected = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    run(async () => {
+      setPlan(null);
+      setImported(null);
+      const { source, readings } = parseWeightFile(await file.text());
+      setPlan(planWeightImport(source, readings, await allWeightLogs()));
+    });
+  };
+
+  const handleImport = () => {
+    if (!plan) return;
+    run(async () => {
+      setImported(0);
+      await applyWeightImport(plan, setImported);
+      setMessage(`Imported ${plan.toCreate.length} weight logs`);
+      setPlan(null);
+      setImported(null);
+    });
+  };
+
+  const percent = progress?.total ? Math.round((progress.done / progress.total) * 100) : 0;
+
+  return (
+    <PageLayout title="Health Apps" showBackButton backPath="/profile">
+      <p className="text-gray-500 text-xs mb-4">
+        Move workouts and body weight between FitForge and Apple Health, Google Fit or any app that reads TCX,
+        HealthKit XML or Open mHealth files.
+      </p>
+
+      {error && (
+        <p className="p-3 mb-4 bg-red-500/10 border border-red-500/20 rounded-xl text-red-400 text-xs">{error}</p>
+      )}
+      {message && (
+        <p className="p-3 mb-4 bg-green-500/10 border border-green-500/20 rounded-xl text-green-400 text-xs">
+          {message}
+        </p>
+      )}
+
+      {/* Workouts */}
+      <div className="bg-white/5 rounded-2xl border border-white/5 p-4 mb-4">
+        <p className="text-white font-semibold text-sm">Export Workouts</p>
+        <p className="text-gray-500 text-xs mb-3">Sessions as a TCX file, with every set in the activity notes</p>
+        <div className="grid grid-cols-2 gap-2 mb-3">
+          <input
+            type="date"
+            value={from}
+            max={to || undefined}
+            onChange={(e) => setFrom(e.target.value)}
+            className="w-full h-11 px-4 bg-black/40 border border-white/10 rounded-xl text-white text-sm focus:outline-none focus:border-gold-500/50"
+          />
+          <input
+            type="date"
+            value={to}
+            min={from || undefined}
+            onChange={(e) => setTo(e.target.value)}
+            className="w-full h-11 px-4 bg-black/40 border border-white/10 rounded-xl text-white text-sm focus:outline-none focus:border-gold-500/50"
+          />
+        </div>
+        {progress && (
+          <div className="mb-3">
+            <div className="flex items-center justify-between text-xs mb-1">
+              <span className="text-gray-400">{progress.stage}</span>
+              {progress.total > 0 && (
+                <span className="text-gray-500">
+                  {progress.done}/{progress.total}
+                </span>
+              )}
+            </div>
+            <div className="h-2 bg-black/40 rounded-full overflow-hidden">
+              <div className="h-full bg-gold-500 transition-all" style={{ width: `${percent}%` }} />
+            </div>
+          </div>
+        )}
+        <button
+          onClick={handleExportWorkouts}
+          disabled={busy}
+          className="w-full h-11 bg-gradient-to-r from-gold-600 to-gold-500 text-black rounded-xl text-sm font-semibold disabled:opacity-50"
+        >
+          Export Workouts (.tcx)
+        </button>
+      </div>
+
+      {/* Body weight export */}
+      <div className="bg-white/5 rounded-2xl border border-white/5 p-4 mb-4">
+        <p className="text-white font-semibold text-sm">Export Body Weight</p>
+        <p className="text-gray-500 text-xs mb-3">All your weight logs, in kg</p>
+        <div className="flex gap-2 mb-3">
+          {WEIGHT_FORMATS.map((format) => (
+            <button
+              key={format.value}
+              onClick={() => setWeightFormat(format.value)}
+              className={`flex-1 py-2 rounded-xl text-xs font-medium border ${
+                weightFormat === format.value
+                  ? "bg-gold-500/20 text-gold-500 border-gold-500/40"
+                  : "bg-white/5 text-gray-400 border-white/10"
+              }`}
+            >
+              {format.label}
+              <span className="block text-[10px] opacity-70">{format.hint}</span>
+            </button>
+          ))}
+        </div>
+        <button
+          onClick={handleExportWeight}
+          disabled={busy}
+          className="w-full h-11 bg-white/5 border border-white/10 text-white rounded-xl text-sm font-medium disabled:opacity-50"
+        >
+          Export Body Weight
+        </button>
+      </div>
+
+      {/* Body weight import */}
+      <div className="bg-white/5 rounded-2xl border border-white/5 p-4">
+        <p className="text-white font-semibold text-sm">Import Body Weight</p>
+        <p className="text-gray-500 text-xs mb-3">
+          From Apple Health (export.xml), Google Fit (Takeout JSON) or an Open mHealth file. Days and times of day
+          you've already logged are skipped.
+        </p>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".xml,.json,application/xml,application/json"
+          onChange={handleFileSelected}
+          className="hidden"
+        />
+
+        {plan ? (
+          <>
+            <div className="bg-black/20 rounded-xl p-3 mb-3 space-y-1 text-xs">
+              <div className="flex justify-between">
+                <span className="text-gray-400">Source</span>
+                <span className="text-white">{WEIGHT_IMPORT_SOURCE_LABELS[plan.source]}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-gray-400">New weight logs</span>
+                <span className="text-white font-medium">{plan.toCreate.length}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-gray-400">Already logged</span>
+                <span className="text-white">{plan.duplicates}</span>
+              </div>
+              {plan.unreadable > 0 && (
+                <div className="flex justify-between">
+                  <span className="text-gray-400">Unreadable</span>
+                  <span className="text-white">{plan.unreadable}</span>
+                </div>
+              )}
+              {plan.toCreate.length > 0 && (
+                <div className="flex justify-between">
+                  <span className="text-gray-400">Dates</span>
+                  <span className="text-white">
+                    {plan.toCreate[0].logged_date} – {plan.toCreate[plan.toCreate.length - 1].logged_date}
+                  </span>
+                </div>
+              )}
+            </div>
+            <div className="flex gap-3">
+              <button
+                onClick={() => setPlan(null)}
+                disabled={busy}
+                className="flex-1 h-11 bg-white/5 border border-white/10 text-white rounded-xl text-sm font-medium"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleImport}
+                disabled={busy || plan.toCreate.length === 0}
+                className="flex-1 h-11 bg-gradient-to-r from-gold-600 to-gold-500 text-black rounded-xl text-sm font-semibold disabled:opacity-50"
+              >
+                {imported !== null ? `${imported}/${plan.toCreate.length}` : `Import ${plan.toCreate.length}`}
+              </button>
+            </div>
+          </>
+        ) : (
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            disabled={busy}
+            className="w-full h-11 bg-white/5 border border-white/10 text-white rounded-xl text-sm font-medium disabled:opacity-50"
+          >
+            Choose File
+          </button>
+        )}
+      </div>
+    </PageLayout>
+  );
+}
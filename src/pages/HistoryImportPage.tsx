@@ -0,0 +1,460 @@
+import { useState, useEffect, useRef } from "react";
+import { useNavigate } from "react-router-dom";
+import { exercisesApi, usersApi, type Exercise, type MuscleGroup } from "../services/api";
+import { offlineService, type HistoryImport } from "../services/offline";
+import {
+  AUTO_MATCH_SCORE,
+  HISTORY_SOURCE_LABELS,
+  buildSessions,
+  initialMappings,
+  parseHistoryFile,
+  resolveExercises,
+  runHistoryImport,
+  startHistoryImport,
+  suggestMatches,
+  type ExerciseMapping,
+  type HistorySource,
+  type ParsedHistory,
+  type WeightUnit,
+} from "../services/historyImport";
+import { PageLayout } from "../components/PageLayout";
+
+type Step = "file" | "map" | "review" | "run";
+
+const EQUIPMENT_OPTIONS = [
+  { value: "barbell", label: "Barbell" },
+  { value: "dumbbell", label: "Dumbbell" },
+  { value: "cable", label: "Cable" },
+  { value: "machine", label: "Machine" },
+  { value: "bodyweight", label: "Bodyweight" },
+  { value: "kettlebell", label: "Kettlebell" },
+  { value: "resistance_band", label: "Resistance Band" },
+  { value: "other", label: "Other" },
+];
+
+export function HistoryImportPage() {
+  const navigate = useNavigate();
+  const [step, setStep] = useState<Step>("file");
+  const [unfinished, setUnfinished] = useState<HistoryImport[]>([]);
+  const [fileName, setFileName] = useState("");
+  const [parsed, setParsed] = useState<ParsedHistory | null>(null);
+  const [library, setLibrary] = useState<Exercise[]>([]);
+  const [muscleGroups, setMuscleGroups] = useState<MuscleGroup[]>([]);
+  const [mappings, setMappings] = useState<Record<string, ExerciseMapping>>({});
+  const [unit, setUnit] = useState<WeightUnit>("kg");
+  const [job, setJob] = useState<HistoryImport | null>(null);
+  const [running, setRunning] = useState(false);
+  const [progressMessage, setProgressMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [reading, setReading] = useState(false);
+  const pauseRequested = useRef(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    offlineService.getHistoryImports().then(setUnfinished);
+    usersApi
+      .getMe()
+      .then((profile) => setUnit(profile.unit_preference === "imperial" ? "lb" : "kg"))
+      .catch(() => {});
+  }, []);
+
+  const handleFileSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    try {
+      setReading(true);
+      setError(null);
+      const history = parseHistoryFile(await file.text());
+      const [exerciseList, groups] = await Promise.all([exercisesApi.list(), exercisesApi.getMuscleGroups()]);
+      setFileName(file.name);
+      setParsed(history);
+      setLibrary(exerciseList.data);
+      setMuscleGroups(groups.data);
+      setMappings(initialMappings(history.rows, exerciseList.data));
+      setStep("map");
+    } catch (err: any) {
+      setError(err.message || "Failed to read the file");
+    } finally {
+      setReading(false);
+    }
+  };
+
+  // Send batches until done, paused or failed; progress is saved after each batch
+  const run = async (historyImport: HistoryImport) => {
+    pauseRequested.current = false;
+    setJob(historyImport);
+    setStep("run");
+    setRunning(true);
+    setError(null);
+    try {
+      await runHistoryImport(historyImport, setJob, () => pauseRequested.current);
+    } catch (err: any) {
+      setError(err.message || "Import stopped");
+    } finally {
+      setRunning(false);
+      offlineService.getHistoryImports().then(setUnfinished);
+    }
+  };
+
+  const handleStart = async () => {
+    if (!parsed) return;
+    try {
+      setRunning(true);
+      setError(null);
+      const exerciseIds = await resolveExercises(mappings, {
+        onProgress: setProgressMessage,
+        // Exercises already created are not created again if this is retried
+        onCreated: (name, exercise) => {
+          setLibrary((current) => [...current, exercise]);
+          setMappings((current) => ({ ...current, [name]: { kind: "exercise", exerciseId: exercise.id } }));
+        },
+      });
+      const sessions = buildSessions(parsed, exerciseIds, unit);
+      const historyImport = await startHistoryImport(parsed.source, fileName, sessions);
+      setProgressMessage(null);
+      await run(historyImport);
+    } catch (err: any) {
+      setError(err.message || "Failed to start the import");
+      setRunning(false);
+    } finally {
+      setProgressMessage(null);
+    }
+  };
+
+  const handleDiscard = async (historyImport: HistoryImport) => {
+    if (!confirm("Discard this import? Sessions already imported stay in your history.")) return;
+    await offlineService.deleteHistoryImport(historyImport.id);
+    setUnfinished((current) => current.filter((i) => i.id !== historyImport.id));
+  };
+
+  const setMapping = (name: string, mapping: ExerciseMapping) => {
+    setMappings((current) => ({ ...current, [name]: mapping }));
+  };
+
+  const exerciseNames = parsed ? Object.keys(mappings) : [];
+  const setCounts = new Map<string, number>();
+  parsed?.rows.forEach((row) => setCounts.set(row.exerciseName, (setCounts.get(row.exerciseName) ?? 0) + 1));
+  const missingMuscleGroup = exerciseNames.filter((name) => {
+    const mapping = mappings[name];
+    return mapping.kind === "create" && !mapping.muscleGroupId;
+  });
+
+  // What the review step will import
+  const importedRows = parsed?.rows.filter((row) => mappings[row.exerciseName]?.kind !== "skip") ?? [];
+  const sessionCount = new Set(importedRows.map((row) => row.sessionKey)).size;
+  const dates = importedRows.map((row) => row.startedAt.getTime());
+  const formatDate = (time: number) =>
+    new Date(time).toLocaleDateString("en-US", { month: "short", day: "numeric", year: "numeric" });
+
+  const inputClass =
+    "h-9 px-2 bg-black/40 border border-white/10 rounded-lg text-white text-xs focus:outline-none focus:border-gold-500/50";
+
+  return (
+    <PageLayout title="Import History" showBackButton backPath="/profile">
+      {error && (
+        <p className="p-3 mb-4 bg-red-500/10 border border-red-500/20 rounded-xl text-red-400 text-xs">{error}</p>
+      )}
+
+      {step === "file" && (
+        <>
+          {unfinished.map((historyImport) => (
+            <div key={historyImport.id} className="bg-white/5 rounded-2xl border border-gold-500/20 p-4 mb-4">
+              <p className="text-white font-semibold text-sm">Unfinished import</p>
+              <p className="text-gray-500 text-xs mb-3">
+                {HISTORY_SOURCE_LABELS[historyImport.source as HistorySource] ?? historyImport.source} ·{" "}
+                {historyImport.fileName} · {historyImport.nextBatch}/{historyImport.batches.length} batches sent
+                {historyImport.error && ` · stopped: ${historyImport.error}`}
+              </p>
+              <div className="flex gap-2">
+                <button
+                  onClick={() => run(historyImport)}
+                  className="flex-1 h-10 bg-gradient-to-r from-gold-600 to-gold-500 text-black rounded-xl text-xs font-semibold"
+                >
+                  Resume
+                </button>
+                <button
+                  onClick={() => handleDiscard(historyImport)}
+                  className="px-4 h-10 bg-white/5 border border-white/10 text-gray-400 rounded-xl text-xs font-medium"
+                >
+                  Discard
+                </button>
+              </div>
+            </div>
+          ))}
+
+          <div className="bg-white/5 rounded-2xl border border-white/5 p-4">
+            <p className="text-white font-semibold text-sm mb-1">Bring in your history</p>
+            <p className="text-gray-500 text-xs mb-4">
+              Export your workouts as CSV from Strong (Settings → Export Data), Hevy (Settings → Export &
+              Import Data) or FitNotes (Settings → Spreadsheet Export), then choose the file here. Cardio and timed
+              sets are skipped.
+            </p>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".csv,text/csv"
+              onChange={handleFileSelected}
+              className="hidden"
+            />
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              disabled={reading}
+              className="w-full h-11 bg-gradient-to-r from-gold-600 to-gold-500 text-black rounded-xl text-sm font-semibold disabled:opacity-50"
+            >
+              {reading ? "Reading..." : "Choose CSV File"}
+            </button>
+          </div>
+        </>
+      )}
+
+      {step === "map" && parsed && (
+        <>
+          <div className="bg-white/5 rounded-2xl border border-white/5 p-4 mb-4">
+            <p className="text-white font-semibold text-sm">
+              {HISTORY_SOURCE_LABELS[parsed.source]} export · {exerciseNames.length} exercises
+            </p>
+            <p className="text-gray-500 text-xs mt-0.5">
+              Check each exercise is matched to the right one in your library. Unmatched ones can be created as custom
+              exercises or left out.
+            </p>
+          </div>
+
+          <div className="space-y-2 mb-4">
+            {[...exerciseNames]
+              .sort((a, b) => Number(mappings[b].kind !== "exercise") - Number(mappings[a].kind !== "exercise"))
+              .map((name) => {
+                const mapping = mappings[name];
+                const suggestions = suggestMatches(name, library);
+                const value = mapping.kind === "exercise" ? mapping.exerciseId : mapping.kind;
+                return (
+                  <div key={name} className="bg-white/5 rounded-xl border border-white/5 p-3">
+                    <div className="flex items-center justify-between mb-2">
+                      <p className="text-white text-sm font-medium truncate">{name}</p>
+                      <span className="text-gray-500 text-xs flex-shrink-0 ml-2">{setCounts.get(name)} sets</span>
+                    </div>
+                    <select
+                      value={value}
+                      onChange={(e) => {
+                        const choice = e.target.value;
+                        if (choice === "create") setMapping(name, { kind: "create", equipment: "other" });
+                        else if (choice === "skip") setMapping(name, { kind: "skip" });
+                        else setMapping(name, { kind: "exercise", exerciseId: choice });
+                      }}
+                      className={`w-full ${inputClass}`}
+                    >
+                      {suggestions.length > 0 && (
+                        <optgroup label="Suggested">
+                          {suggestions.map((match) => (
+                            <option key={match.exercise.id} value={match.exercise.id} className="bg-black text-white">
+                              {match.exercise.name} ({Math.round(match.score * 100)}%
+                              {match.score >= AUTO_MATCH_SCORE ? ", likely" : ""})
+                            </option>
+                          ))}
+                        </optgroup>
+                      )}
+                      <optgroup label="Other">
+                        <option value="create" className="bg-black text-white">
+                          Create "{name}" as a custom exercise
+                        </option>
+                        <option value="skip" className="bg-black text-white">
+                          Don't import this exercise
+                        </option>
+                      </optgroup>
+                      <optgroup label="All exercises">
+                        {library
+                          .filter((exercise) => !suggestions.some((match) => match.exercise.id === exercise.id))
+                          .sort((a, b) => a.name.localeCompare(b.name))
+                          .map((exercise) => (
+                            <option key={exercise.id} value={exercise.id} className="bg-black text-white">
+                              {exercise.name}
+                            </option>
+                          ))}
+                      </optgroup>
+                    </select>
+
+                    {mapping.kind === "create" && (
+                      <div className="grid grid-cols-2 gap-2 mt-2">
+                        <select
+                          value={mapping.muscleGroupId ?? ""}
+                          onChange={(e) => setMapping(name, { ...mapping, muscleGroupId: e.target.value || undefined })}
+                          className={`${inputClass} ${mapping.muscleGroupId ? "" : "border-gold-500/50 text-gold-500"}`}
+                        >
+                          <option value="">Muscle group...</option>
+                          {muscleGroups.map((group) => (
+                            <option key={group.id} value={group.id} className="bg-black text-white">
+                              {group.name}
+                            </option>
+                          ))}
+                        </select>
+                        <select
+                          value={mapping.equipment}
+                          onChange={(e) => setMapping(name, { ...mapping, equipment: e.target.value })}
+                          className={inputClass}
+                        >
+                          {EQUIPMENT_OPTIONS.map((option) => (
+                            <option key={option.value} value={option.value} className="bg-black text-white">
+                              {option.label}
+                            </option>
+                          ))}
+                        </select>
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+          </div>
+
+          <div className="flex gap-3">
+            <button
+              onClick={() => setStep("file")}
+              className="flex-1 h-11 bg-white/5 border border-white/10 text-white rounded-xl text-sm font-medium"
+            >
+              Back
+            </button>
+            <button
+              onClick={() => setStep("review")}
+              disabled={missingMuscleGroup.length > 0}
+              className="flex-1 h-11 bg-gradient-to-r from-gold-600 to-gold-500 text-black rounded-xl text-sm font-semibold disabled:opacity-50"
+            >
+              {missingMuscleGroup.length > 0 ? `${missingMuscleGroup.length} need a muscle group` : "Next"}
+            </button>
+          </div>
+        </>
+      )}
+
+      {step === "review" && parsed && (
+        <>
+          <div className="bg-white/5 rounded-2xl border border-white/5 p-4 mb-4 space-y-2 text-sm">
+            <div className="flex justify-between">
+              <span className="text-gray-400">Sessions</span>
+              <span className="text-white font-medium">{sessionCount}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-gray-400">Sets</span>
+              <span className="text-white font-medium">{importedRows.length}</span>
+            </div>
+            {dates.length > 0 && (
+              <div className="flex justify-between">
+                <span className="text-gray-400">Dates</span>
+                <span className="text-white font-medium">
+                  {formatDate(Math.min(...dates))} – {formatDate(Math.max(...dates))}
+                </span>
+              </div>
+            )}
+            <div className="flex justify-between">
+              <span className="text-gray-400">New custom exercises</span>
+              <span className="text-white font-medium">
+                {exerciseNames.filter((name) => mappings[name].kind === "create").length}
+              </span>
+            </div>
+            {(parsed.skippedRows > 0 || importedRows.length < parsed.rows.length) && (
+              <p className="text-gray-500 text-xs pt-1">
+                Left out: {parsed.skippedRows} cardio, timed or empty rows
+                {importedRows.length < parsed.rows.length &&
+                  ` and ${parsed.rows.length - importedRows.length} sets of skipped exercises`}
+              </p>
+            )}
+          </div>
+
+          {parsed.needsUnit && (
+            <div className="bg-white/5 rounded-2xl border border-white/5 p-4 mb-4">
+              <p className="text-white font-semibold text-sm mb-1">Weights in the file are in</p>
+              <p className="text-gray-500 text-xs mb-3">
+                {HISTORY_SOURCE_LABELS[parsed.source]} doesn't record the unit; pounds are converted to kg.
+              </p>
+              <div className="flex gap-2">
+                {(["kg", "lb"] as const).map((option) => (
+                  <button
+                    key={option}
+                    onClick={() => setUnit(option)}
+                    className={`flex-1 py-2 rounded-xl text-sm font-medium border ${
+                      unit === option
+                        ? "bg-gold-500/20 text-gold-500 border-gold-500/40"
+                        : "bg-white/5 text-gray-400 border-white/10"
+                    }`}
+                  >
+                    {option}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <p className="text-gray-500 text-xs mb-4">
+            Sessions already imported from this app are skipped, so importing the same file again is safe.
+          </p>
+
+          <div className="flex gap-3">
+            <button
+              onClick={() => setStep("map")}
+              disabled={running}
+              className="flex-1 h-11 bg-white/5 border border-white/10 text-white rounded-xl text-sm font-medium"
+            >
+              Back
+            </button>
+            <button
+              onClick={handleStart}
+              disabled={running || sessionCount === 0}
+              className="flex-1 h-11 bg-gradient-to-r from-gold-600 to-gold-500 text-black rounded-xl text-sm font-semibold disabled:opacity-50"
+            >
+              {running ? progressMessage || "Starting..." : `Import ${sessionCount} Sessions`}
+            </button>
+          </div>
+        </>
+      )}
+
+      {step === "run" && job && (
+        <div className="bg-white/5 rounded-2xl border border-white/5 p-4">
+          {(() => {
+            const done = job.nextBatch >= job.batches.length;
+            const percent = job.batches.length ? Math.round((job.nextBatch / job.batches.length) * 100) : 100;
+            return (
+              <>
+                <p className="text-white font-semibold text-sm mb-1">
+                  {done ? "Import complete" : running ? "Importing..." : "Import paused"}
+                </p>
+                <p className="text-gray-500 text-xs mb-3">
+                  {job.imported} sessions imported
+                  {job.skipped > 0 && ` · ${job.skipped} already there`} · {job.nextBatch}/{job.batches.length} batches
+                </p>
+                <div className="h-2 bg-black/40 rounded-full overflow-hidden mb-4">
+                  <div className="h-full bg-gold-500 transition-all" style={{ width: `${percent}%` }} />
+                </div>
+
+                {done ? (
+                  <button
+                    onClick={() => navigate("/analytics")}
+                    className="w-full h-11 bg-gradient-to-r from-gold-600 to-gold-500 text-black rounded-xl text-sm font-semibold"
+                  >
+                    See Your Progress
+                  </button>
+                ) : running ? (
+                  <button
+                    onClick={() => (pauseRequested.current = true)}
+                    className="w-full h-11 bg-white/5 border border-white/10 text-white rounded-xl text-sm font-medium"
+                  >
+                    Pause After This Batch
+                  </button>
+                ) : (
+                  <button
+                    onClick={() => run(job)}
+                    className="w-full h-11 bg-gradient-to-r from-gold-600 to-gold-500 text-black rounded-xl text-sm font-semibold"
+                  >
+                    Resume
+                  </button>
+                )}
+                {!done && (
+                  <p className="text-gray-500 text-[10px] mt-3 text-center">
+                    Progress is saved on this device; you can leave and resume from Import History later.
+                  </p>
+                )}
+              </>
+            );
+          })()}
+        </div>
+      )}
+    </PageLayout>
+  );
+}
@@ -1,5 +1,5 @@
 import { useState } from "react";
-import { Link, useNavigate } from "react-router-dom";
+import { Link, useLocation, useNavigate } from "react-router-dom";
 import { supabase } from "../lib/supabase";
 
 export function LoginPage() {
@@ -8,6 +8,9 @@ export function LoginPage() {
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const navigate = useNavigate();
+  const location = useLocation();
+  // Page the user was sent here from (e.g. a workout in progress when the app was reopened)
+  const from = (location.state as { from?: { pathname: string; search: string } } | null)?.from;
 
   const handleLogin = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -22,7 +25,7 @@ export function LoginPage() {
 
       if (error) throw error;
 
-      navigate("/dashboard");
+      navigate(from ? `${from.pathname}${from.search}` : "/dashboard", { replace: !!from });
     } catch (err: any) {
       setError(err.message || "Failed to sign in");
     } finally {
@@ -1,22 +1,37 @@
 import { useState, useEffect } from "react";
 import { useNavigate } from "react-router-dom";
-import { analyticsApi } from "../services/api";
+import { analyticsApi, type PersonalRecord } from "../services/api";
 import { PageLayout } from "../components/PageLayout";
-
-interface PersonalRecord {
-  exercise_id: string;
-  exercise_name: string;
-  muscle_group: string;
-  estimated_1rm: number;
-  best_weight: number;
-  best_reps: number;
-  date_achieved: string;
-  is_new_pr: boolean;
-}
+import { useUnits } from "../hooks/useUnits";
+import { formatDistance, formatDuration, formatPace, type PersonalBest } from "../services/trackingModes";
+import type { Units } from "../services/units";
 
 type SortField = "exercise" | "date" | "1rm";
 
+// The bests of an exercise tracked by time, distance or calories, headline first
+function modeBests(record: PersonalRecord, units: Units): PersonalBest[] {
+  const bests: PersonalBest[] = [];
+  if (record.longest_distance_m) {
+    bests.push({ label: "Farthest", value: formatDistance(record.longest_distance_m, units) });
+  }
+  if (record.most_calories) bests.push({ label: "Most calories", value: `${record.most_calories} cal` });
+  if (record.longest_duration_seconds) {
+    bests.push({
+      label: record.tracking_mode === "time" ? "Longest hold" : "Longest",
+      value: formatDuration(record.longest_duration_seconds),
+    });
+  }
+  if (record.best_pace_seconds_per_km) {
+    bests.push({ label: "Best pace", value: formatPace(record.best_pace_seconds_per_km, units) });
+  }
+  if (record.tracking_mode === "weight_distance" || record.tracking_mode === "weight_time") {
+    bests.push({ label: "Heaviest", value: units.formatWeight(record.best_weight, { decimals: 1 }) });
+  }
+  return bests;
+}
+
 export function PersonalRecordsPage() {
+  const units = useUnits();
   const navigate = useNavigate();
   const [records, setRecords] = useState<PersonalRecord[]>([]);
   const [loading, setLoading] = useState(true);
@@ -31,9 +46,7 @@ export function PersonalRecordsPage() {
     try {
       setLoading(true);
       setError(null);
-      const data = await analyticsApi.getPersonalRecords();
-      // Ensure we always set an array
-      setRecords(Array.isArray(data) ? data : (data?.records || []));
+      setRecords(await analyticsApi.getPersonalRecords());
     } catch (err: any) {
       setError(err.response?.data?.detail || err.message || "Failed to load records");
     } finally {
@@ -41,9 +54,7 @@ export function PersonalRecordsPage() {
     }
   };
 
-  // Ensure records is always an array before sorting
-  const recordsArray = Array.isArray(records) ? records : [];
-  const sortedRecords = [...recordsArray].sort((a, b) => {
+  const sortedRecords = [...records].sort((a, b) => {
     switch (sortField) {
       case "exercise":
         return a.exercise_name.localeCompare(b.exercise_name);
@@ -130,38 +141,58 @@ export function PersonalRecordsPage() {
         </div>
       ) : (
         <div className="space-y-3">
-          {sortedRecords.map((record) => (
-            <button
-              key={record.exercise_id}
-              onClick={() => navigate(`/exercises/${record.exercise_id}/history`)}
-              className="w-full bg-white/5 rounded-2xl border border-white/5 overflow-hidden text-left active:bg-white/10 transition-colors"
-            >
-              <div className="p-4 flex items-center gap-4">
-                <div className="w-12 h-12 rounded-xl bg-gradient-to-br from-gold-500/20 to-gold-600/20 flex items-center justify-center flex-shrink-0">
-                  <span className="text-xl">🏆</span>
-                </div>
-                <div className="flex-1 min-w-0">
-                  <div className="flex items-center gap-2 mb-1">
-                    <p className="text-white font-semibold text-sm truncate">{record.exercise_name}</p>
-                    {record.is_new_pr && (
-                      <span className="px-2 py-0.5 bg-green-500/20 text-green-400 rounded-full text-[10px] font-medium flex-shrink-0">
-                        NEW
-                      </span>
-                    )}
+          {sortedRecords.map((record) => {
+            const bests = record.tracking_mode && record.tracking_mode !== "reps" ? modeBests(record, units) : null;
+            return (
+              <button
+                key={record.exercise_id}
+                onClick={() => navigate(`/exercises/${record.exercise_id}/history`)}
+                className="w-full bg-white/5 rounded-2xl border border-white/5 overflow-hidden text-left active:bg-white/10 transition-colors"
+              >
+                <div className="p-4 flex items-center gap-4">
+                  <div className="w-12 h-12 rounded-xl bg-gradient-to-br from-gold-500/20 to-gold-600/20 flex items-center justify-center flex-shrink-0">
+                    <span className="text-xl">🏆</span>
                   </div>
-                  <p className="text-gray-500 text-xs">{record.muscle_group}</p>
-                  <div className="flex gap-3 text-xs mt-1">
-                    <span className="text-gray-400">Best: {record.best_weight}kg × {record.best_reps}</span>
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2 mb-1">
+                      <p className="text-white font-semibold text-sm truncate">{record.exercise_name}</p>
+                      {record.is_new_pr && (
+                        <span className="px-2 py-0.5 bg-green-500/20 text-green-400 rounded-full text-[10px] font-medium flex-shrink-0">
+                          NEW
+                        </span>
+                      )}
+                    </div>
+                    <p className="text-gray-500 text-xs">{record.muscle_group}</p>
+                    <div className="flex gap-3 text-xs mt-1">
+                      {bests ? (
+                        bests.slice(1).map((best) => (
+                          <span key={best.label} className="text-gray-400">
+                            {best.label}: {best.value}
+                          </span>
+                        ))
+                      ) : (
+                        <span className="text-gray-400">Best: {units.formatWeight(record.best_weight, { decimals: 1 })} × {record.best_reps}</span>
+                      )}
+                    </div>
+                  </div>
+                  <div className="text-right flex-shrink-0">
+                    {bests ? (
+                      <>
+                        <p className="text-gold-500 font-bold text-lg">{bests[0]?.value ?? "–"}</p>
+                        <p className="text-gray-500 text-[10px]">{bests[0]?.label}</p>
+                      </>
+                    ) : (
+                      <>
+                        <p className="text-gold-500 font-bold text-lg">{units.fromKg(record.estimated_1rm).toFixed(0)}</p>
+                        <p className="text-gray-500 text-[10px]">Est. 1RM</p>
+                      </>
+                    )}
+                    <p className="text-gray-600 text-[10px]">{formatDate(record.date_achieved)}</p>
                   </div>
                 </div>
-                <div className="text-right flex-shrink-0">
-                  <p className="text-gold-500 font-bold text-lg">{record.estimated_1rm.toFixed(0)}</p>
-                  <p className="text-gray-500 text-[10px]">Est. 1RM</p>
-                  <p className="text-gray-600 text-[10px]">{formatDate(record.date_achieved)}</p>
-                </div>
-              </div>
-            </button>
-          ))}
+              </button>
+            );
+          })}
         </div>
       )}
     </PageLayout>
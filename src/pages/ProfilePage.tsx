@@ -1,22 +1,15 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { useNavigate } from "react-router-dom";
-import { api } from "../services/api";
+import { usersApi, type UserProfile, type UserProfileUpdate } from "../services/api";
+import { accountZip, collectAccountData, trainingLogHtml, type ExportProgress } from "../services/accountExport";
+import { downloadFile, fileDate } from "../services/files";
+import { toISODate } from "../services/dates";
+import { unitsFor, type UnitSystem } from "../services/units";
 import { PageLayout } from "../components/PageLayout";
 
-interface UserProfile {
-  id: string;
-  email: string;
-  name: string | null;
-  height_cm: number | null;
-  current_weight_kg: number | null;
-  body_fat_percent: number | null;
-  bmr: number | null;
-  date_of_birth: string | null;
-  gender: string | null;
-  unit_preference: "metric" | "imperial";
-  created_at: string;
-  updated_at: string;
-}
+// A stored kg or cm value as it's shown in the form, in the form's units
+const shown = (value: number | null | undefined, convert: (stored: number) => number) =>
+  value === null || value === undefined ? "" : convert(value).toString();
 
 export function ProfilePage() {
   const navigate = useNavigate();
@@ -28,13 +21,14 @@ export function ProfilePage() {
 
   const [formData, setFormData] = useState({
     name: "",
-    height_cm: "",
-    current_weight_kg: "",
+    height: "", // In the form's units: cm or inches
+    weight: "", // kg or lb
     body_fat_percent: "",
     date_of_birth: "",
     gender: "",
-    unit_preference: "metric" as "metric" | "imperial",
+    unit_preference: "metric" as UnitSystem,
   });
+  const formUnits = unitsFor(formData.unit_preference);
 
   useEffect(() => {
     loadProfile();
@@ -44,13 +38,13 @@ export function ProfilePage() {
     try {
       setLoading(true);
       setError(null);
-      const response = await api.get<UserProfile>("/users/me");
-      const data = response.data;
+      const data = await usersApi.getMe();
       setProfile(data);
+      const units = unitsFor(data.unit_preference);
       setFormData({
         name: data.name || "",
-        height_cm: data.height_cm?.toString() || "",
-        current_weight_kg: data.current_weight_kg?.toString() || "",
+        height: shown(data.height_cm, units.fromCm),
+        weight: shown(data.current_weight_kg, units.fromKg),
         body_fat_percent: data.body_fat_percent?.toString() || "",
         date_of_birth: data.date_of_birth || "",
         gender: data.gender || "",
@@ -65,6 +59,20 @@ export function ProfilePage() {
     }
   };
 
+  // Switching units converts what's in the form; untouched values convert from what's stored, so they don't drift
+  const handleUnitChange = (system: UnitSystem) => {
+    const next = unitsFor(system);
+    const untouched = (value: string, stored: number | null | undefined, fromStored: (v: number) => number) =>
+      value === shown(stored, fromStored);
+    const height = untouched(formData.height, profile?.height_cm, formUnits.fromCm)
+      ? shown(profile?.height_cm, next.fromCm)
+      : shown(formData.height ? formUnits.toCm(parseFloat(formData.height)) : null, next.fromCm);
+    const weight = untouched(formData.weight, profile?.current_weight_kg, formUnits.fromKg)
+      ? shown(profile?.current_weight_kg, next.fromKg)
+      : shown(formData.weight ? formUnits.toKg(parseFloat(formData.weight)) : null, next.fromKg);
+    setFormData({ ...formData, unit_preference: system, height, weight });
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setSaving(true);
@@ -72,16 +80,16 @@ export function ProfilePage() {
     setSuccess(false);
 
     try {
-      const updateData: any = {};
+      const updateData: UserProfileUpdate = {};
       
       if (formData.name !== (profile?.name || "")) {
         updateData.name = formData.name || null;
       }
-      if (formData.height_cm !== (profile?.height_cm?.toString() || "")) {
-        updateData.height_cm = formData.height_cm ? parseFloat(formData.height_cm) : null;
+      if (formData.height !== shown(profile?.height_cm, formUnits.fromCm)) {
+        updateData.height_cm = formData.height ? formUnits.toCm(parseFloat(formData.height)) : null;
       }
-      if (formData.current_weight_kg !== (profile?.current_weight_kg?.toString() || "")) {
-        updateData.current_weight_kg = formData.current_weight_kg ? parseFloat(formData.current_weight_kg) : null;
+      if (formData.weight !== shown(profile?.current_weight_kg, formUnits.fromKg)) {
+        updateData.current_weight_kg = formData.weight ? formUnits.toKg(parseFloat(formData.weight)) : null;
       }
       if (formData.body_fat_percent !== (profile?.body_fat_percent?.toString() || "")) {
         updateData.body_fat_percent = formData.body_fat_percent ? parseFloat(formData.body_fat_percent) : null;
@@ -103,7 +111,7 @@ export function ProfilePage() {
         return;
       }
 
-      await api.patch("/users/me", updateData);
+      await usersApi.updateMe(updateData);
       setSuccess(true);
       await loadProfile();
       setTimeout(() => setSuccess(false), 3000);
@@ -183,34 +191,34 @@ export function ProfilePage() {
               {/* Height */}
               <div>
                 <label className="block text-[10px] md:text-sm font-medium text-gray-300 mb-1.5">
-                  Height (cm)
+                  Height ({formUnits.lengthUnit})
                 </label>
                 <input
                   type="number"
                   step="0.1"
                   min="0"
-                  max="300"
-                  value={formData.height_cm}
-                  onChange={(e) => setFormData({ ...formData, height_cm: e.target.value })}
+                  max={formUnits.lengthUnit === "in" ? 120 : 300}
+                  value={formData.height}
+                  onChange={(e) => setFormData({ ...formData, height: e.target.value })}
                   className="input-field text-xs md:text-base"
-                  placeholder="175"
+                  placeholder={formUnits.lengthUnit === "in" ? "69" : "175"}
                 />
               </div>
 
               {/* Weight */}
               <div>
                 <label className="block text-[10px] md:text-sm font-medium text-gray-300 mb-1.5">
-                  Weight (kg)
+                  Weight ({formUnits.weightUnit})
                 </label>
                 <input
                   type="number"
                   step="0.1"
                   min="0"
-                  max="1000"
-                  value={formData.current_weight_kg}
-                  onChange={(e) => setFormData({ ...formData, current_weight_kg: e.target.value })}
+                  max={formUnits.weightUnit === "lb" ? 2200 : 1000}
+                  value={formData.weight}
+                  onChange={(e) => setFormData({ ...formData, weight: e.target.value })}
                   className="input-field text-xs md:text-base"
-                  placeholder="75"
+                  placeholder={formUnits.weightUnit === "lb" ? "165" : "75"}
                 />
               </div>
 
@@ -276,12 +284,7 @@ export function ProfilePage() {
                 </label>
                 <select
                   value={formData.unit_preference}
-                  onChange={(e) =>
-                    setFormData({
-                      ...formData,
-                      unit_preference: e.target.value as "metric" | "imperial",
-                    })
-                  }
+                  onChange={(e) => handleUnitChange(e.target.value as UnitSystem)}
                   className="input-field text-xs md:text-base"
                 >
                   <option value="metric">Metric (kg, cm)</option>
@@ -314,6 +317,177 @@ export function ProfilePage() {
           </div>
         </form>
       </div>
+
+      {/* Training */}
+      <button
+        onClick={() => navigate("/training-maxes")}
+        className="w-full mt-4 p-4 glass-card rounded-xl md:rounded-2xl flex items-center justify-between active:bg-white/5"
+      >
+        <div className="text-left">
+          <p className="text-white font-semibold text-sm">Training Maxes</p>
+          <p className="text-gray-500 text-xs">Maxes for percentage-based programs and your load increment</p>
+        </div>
+        <span className="text-gold-500">→</span>
+      </button>
+      <button
+        onClick={() => navigate("/equipment")}
+        className="w-full mt-3 p-4 glass-card rounded-xl md:rounded-2xl flex items-center justify-between active:bg-white/5"
+      >
+        <div className="text-left">
+          <p className="text-white font-semibold text-sm">Equipment</p>
+          <p className="text-gray-500 text-xs">Bars, plates, dumbbells and machine stacks you can load</p>
+        </div>
+        <span className="text-gold-500">→</span>
+      </button>
+      <button
+        onClick={() => navigate("/import-history")}
+        className="w-full mt-3 p-4 glass-card rounded-xl md:rounded-2xl flex items-center justify-between active:bg-white/5"
+      >
+        <div className="text-left">
+          <p className="text-white font-semibold text-sm">Import History</p>
+          <p className="text-gray-500 text-xs">Bring in past workouts from Strong, Hevy or FitNotes</p>
+        </div>
+        <span className="text-gold-500">→</span>
+      </button>
+      <button
+        onClick={() => navigate("/health")}
+        className="w-full mt-3 p-4 glass-card rounded-xl md:rounded-2xl flex items-center justify-between active:bg-white/5"
+      >
+        <div className="text-left">
+          <p className="text-white font-semibold text-sm">Health Apps</p>
+          <p className="text-gray-500 text-xs">Export workouts and body weight, or import weight from Apple Health</p>
+        </div>
+        <span className="text-gold-500">→</span>
+      </button>
+
+      <DataExport />
     </PageLayout>
   );
 }
+
+// Download everything as a zip, or print the sessions in a date range
+function DataExport() {
+  const [progress, setProgress] = useState<ExportProgress | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [from, setFrom] = useState(() => {
+    const monthAgo = new Date();
+    monthAgo.setDate(monthAgo.getDate() - 30);
+    return toISODate(monthAgo);
+  });
+  const [to, setTo] = useState(() => toISODate(new Date()));
+  const cancelRequested = useRef(false);
+
+  const run = async (task: () => Promise<void>) => {
+    cancelRequested.current = false;
+    setError(null);
+    setProgress({ stage: "Starting", done: 0, total: 0 });
+    try {
+      await task();
+    } catch (err: any) {
+      setError(err.message || "Export failed");
+      console.error("[Profile] Error exporting data:", err);
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const handleExportAll = () =>
+    run(async () => {
+      const data = await collectAccountData(setProgress, { shouldStop: () => cancelRequested.current });
+      downloadFile(`fitforge-export-${fileDate()}.zip`, accountZip(data), "application/zip");
+    });
+
+  const handlePrintLog = () => {
+    // Opened now, while the click still allows a popup; filled in once the sessions are fetched
+    const printWindow = window.open("", "_blank");
+    printWindow?.document.write("<p style=\"font-family: system-ui\">Preparing your training log...</p>");
+
+    run(async () => {
+      const range = { from: from || undefined, to: to || undefined };
+      try {
+        const data = await collectAccountData(setProgress, { range, shouldStop: () => cancelRequested.current });
+        const html = trainingLogHtml(data, range);
+        if (!printWindow) {
+          downloadFile(`fitforge-training-log-${fileDate()}.html`, html, "text/html");
+          return;
+        }
+        printWindow.document.open();
+        printWindow.document.write(html);
+        printWindow.document.close();
+        printWindow.focus();
+        printWindow.print();
+      } catch (err) {
+        printWindow?.close();
+        throw err;
+      }
+    });
+  };
+
+  const percent = progress?.total ? Math.round((progress.done / progress.total) * 100) : 0;
+
+  return (
+    <div className="mt-4 p-4 glass-card rounded-xl md:rounded-2xl">
+      <p className="text-white font-semibold text-sm">Your Data</p>
+      <p className="text-gray-500 text-xs mb-4">
+        Download your profile, sessions, sets, weight logs and PRs as CSV files and JSON, or print a training log
+      </p>
+
+      {error && (
+        <p className="p-3 mb-3 bg-red-500/10 border border-red-500/20 rounded-xl text-red-400 text-xs">{error}</p>
+      )}
+
+      {progress ? (
+        <div>
+          <div className="flex items-center justify-between text-xs mb-2">
+            <span className="text-gray-400">{progress.stage}</span>
+            <span className="text-gray-500">
+              {progress.total ? `${progress.done}/${progress.total}` : progress.done || ""}
+            </span>
+          </div>
+          <div className="h-2 bg-black/40 rounded-full overflow-hidden mb-3">
+            <div className="h-full bg-gold-500 transition-all" style={{ width: `${percent}%` }} />
+          </div>
+          <button
+            onClick={() => (cancelRequested.current = true)}
+            className="w-full h-10 bg-white/5 border border-white/10 text-white rounded-xl text-xs font-medium"
+          >
+            Cancel
+          </button>
+        </div>
+      ) : (
+        <>
+          <button
+            onClick={handleExportAll}
+            className="w-full h-11 mb-4 bg-gradient-to-r from-gold-600 to-gold-500 text-black rounded-xl text-sm font-semibold"
+          >
+            Export All Data (.zip)
+          </button>
+
+          <p className="text-gray-400 text-xs font-medium mb-2">Printable training log</p>
+          <div className="grid grid-cols-2 gap-2 mb-2">
+            <input
+              type="date"
+              value={from}
+              max={to || undefined}
+              onChange={(e) => setFrom(e.target.value)}
+              className="w-full h-11 px-4 bg-black/40 border border-white/10 rounded-xl text-white text-sm focus:outline-none focus:border-gold-500/50"
+            />
+            <input
+              type="date"
+              value={to}
+              min={from || undefined}
+              onChange={(e) => setTo(e.target.value)}
+              className="w-full h-11 px-4 bg-black/40 border border-white/10 rounded-xl text-white text-sm focus:outline-none focus:border-gold-500/50"
+            />
+          </div>
+          <button
+            onClick={handlePrintLog}
+            className="w-full h-11 bg-white/5 border border-white/10 text-white rounded-xl text-sm font-medium"
+          >
+            Print Training Log
+          </button>
+        </>
+      )}
+    </div>
+  );
+}
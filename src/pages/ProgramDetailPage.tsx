@@ -1,7 +1,24 @@
 import { useState, useEffect } from "react";
 import { useParams, useNavigate, Link } from "react-router-dom";
-import { programsApi, workoutsApi, type Program, type Workout } from "../services/api";
+import { programsApi, sessionsApi, workoutsApi, type Program, type ProgramWeek, type Workout } from "../services/api";
 import { PageLayout } from "../components/PageLayout";
+import { exportProgram, programToCsv, programToJson } from "../services/programTransfer";
+import { downloadFile, fileDate } from "../services/files";
+import {
+  DEFAULT_WEEK_OPTIONS,
+  generateWeeks,
+  programCalendar,
+  type DayStatus,
+  type SessionRef,
+  type WeekGeneratorOptions,
+} from "../services/periodization";
+
+const DAY_STATUS_CLASSES: Record<DayStatus, string> = {
+  done: "bg-green-500/20 text-green-400 border-green-500/30",
+  next: "bg-gold-500/20 text-gold-500 border-gold-500/50",
+  missed: "bg-white/5 text-gray-600 border-white/5 line-through",
+  upcoming: "bg-white/5 text-gray-400 border-white/10",
+};
 
 export function ProgramDetailPage() {
   const { id } = useParams<{ id: string }>();
@@ -9,6 +26,9 @@ export function ProgramDetailPage() {
 
   const [program, setProgram] = useState<Program | null>(null);
   const [workouts, setWorkouts] = useState<Workout[]>([]);
+  const [sessions, setSessions] = useState<SessionRef[]>([]);
+  const [planningWeeks, setPlanningWeeks] = useState(false);
+  const [exporting, setExporting] = useState(false);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
@@ -22,6 +42,11 @@ export function ProgramDetailPage() {
       const data = await programsApi.get(id!);
       setProgram(data);
       setWorkouts(data.workouts || []);
+      // Completed sessions fill in the calendar; the program still shows without them
+      sessionsApi
+        .list(100)
+        .then((response) => setSessions(response.data))
+        .catch(() => setSessions([]));
     } catch (err: any) {
       setError(err.message || "Failed to load program");
     } finally {
@@ -40,6 +65,33 @@ export function ProgramDetailPage() {
     }
   };
 
+  const handleSaveWeeks = async (weeks: ProgramWeek[] | null) => {
+    try {
+      const updated = await programsApi.update(id!, { weeks });
+      setProgram({ ...program!, ...updated });
+      setPlanningWeeks(false);
+    } catch (err: any) {
+      alert(err.message || "Failed to save the week plan");
+    }
+  };
+
+  const handleExport = async (format: "json" | "csv") => {
+    try {
+      setExporting(true);
+      const file = await exportProgram(id!);
+      const slug = file.program.name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || "program";
+      if (format === "json") {
+        downloadFile(`${slug}-${fileDate()}.json`, programToJson(file), "application/json");
+      } else {
+        downloadFile(`${slug}-${fileDate()}.csv`, programToCsv(file), "text/csv");
+      }
+    } catch (err: any) {
+      alert(err.message || "Failed to export program");
+    } finally {
+      setExporting(false);
+    }
+  };
+
   if (loading) {
     return (
       <PageLayout title="Loading..." showBackButton backPath="/programs">
@@ -95,8 +147,35 @@ export function ProgramDetailPage() {
           <span>{workouts.length} workouts</span>
           <span className="capitalize">{program.type.replace("_", " ")}</span>
         </div>
+
+        <div className="flex gap-2 mt-3 md:mt-4">
+          <button
+            onClick={() => handleExport("json")}
+            disabled={exporting}
+            className="px-2.5 py-1.5 md:px-3 md:py-2 bg-white/5 border border-white/10 text-gray-300 text-[10px] md:text-xs font-medium rounded-lg disabled:opacity-50"
+          >
+            {exporting ? "Exporting..." : "Export JSON"}
+          </button>
+          <button
+            onClick={() => handleExport("csv")}
+            disabled={exporting}
+            className="px-2.5 py-1.5 md:px-3 md:py-2 bg-white/5 border border-white/10 text-gray-300 text-[10px] md:text-xs font-medium rounded-lg disabled:opacity-50"
+          >
+            Export CSV
+          </button>
+        </div>
       </div>
 
+      {/* Calendar */}
+      {workouts.length > 0 && (
+        <ProgramCalendar
+          program={program}
+          workouts={workouts}
+          sessions={sessions}
+          onPlan={() => setPlanningWeeks(true)}
+        />
+      )}
+
       {/* Workouts List */}
       <div className="glass-card rounded-xl md:rounded-2xl p-4 md:p-6">
         <div className="flex justify-between items-center mb-4 md:mb-6">
@@ -159,6 +238,249 @@ export function ProgramDetailPage() {
           </div>
         )}
       </div>
+
+      {planningWeeks && (
+        <ProgramWeeksModal
+          weeks={program.weeks ?? []}
+          onSave={handleSaveWeeks}
+          onClose={() => setPlanningWeeks(false)}
+        />
+      )}
     </PageLayout>
   );
 }
+
+function ProgramCalendar({
+  program,
+  workouts,
+  sessions,
+  onPlan,
+}: {
+  program: Program;
+  workouts: Workout[];
+  sessions: SessionRef[];
+  onPlan: () => void;
+}) {
+  const navigate = useNavigate();
+  const { weeks, position } = programCalendar(program, workouts, sessions);
+
+  return (
+    <div className="glass-card rounded-xl md:rounded-2xl p-4 md:p-6 mb-3 md:mb-6">
+      <div className="flex justify-between items-center mb-4">
+        <div>
+          <h2 className="text-xs md:text-xl font-semibold text-white">Schedule</h2>
+          <p className="text-gray-500 text-[10px] md:text-xs mt-0.5">
+            {position.finished
+              ? "Program complete"
+              : position.workout
+              ? `Up next: Week ${position.week}, Day ${position.workout.day_number}`
+              : `Week ${position.week} done`}
+            {!program.start_date && " · weeks advance as you train"}
+          </p>
+        </div>
+        <button
+          onClick={onPlan}
+          className="px-2.5 py-1.5 md:px-4 md:py-2 bg-white/5 border border-white/10 text-white text-[10px] md:text-sm font-medium rounded-lg"
+        >
+          {program.weeks?.length ? "Edit Weeks" : "Plan Weeks"}
+        </button>
+      </div>
+
+      <div className="space-y-2">
+        {weeks.map(({ week, plan, days }) => {
+          const startsBlock = plan?.block && weeks[week - 2]?.plan?.block !== plan.block;
+          return (
+            <div key={week}>
+              {startsBlock && <p className="text-violet-400 text-[10px] md:text-xs font-medium mb-1 mt-2">{plan!.block}</p>}
+              <div className={`flex items-center gap-2 ${week === position.week ? "" : "opacity-80"}`}>
+                <div className="w-16 md:w-24 flex-shrink-0">
+                  <p className={`text-[10px] md:text-xs font-semibold ${week === position.week ? "text-gold-500" : "text-gray-400"}`}>
+                    Week {week}
+                  </p>
+                  {plan && (
+                    <p className={`text-[8px] md:text-[10px] ${plan.is_deload ? "text-sky-400" : "text-gray-500"}`}>
+                      {plan.is_deload ? "Deload" : `V${plan.volume_percent}% · I${plan.intensity_percent}%`}
+                    </p>
+                  )}
+                </div>
+                <div className="flex gap-1.5 flex-1 overflow-x-auto scrollbar-hide">
+                  {days.map(({ workout, sessionId, status }) => (
+                    <button
+                      key={workout.id}
+                      onClick={() => sessionId && navigate(`/workouts/complete/${sessionId}`)}
+                      disabled={!sessionId}
+                      title={workout.name}
+                      className={`min-w-[2.25rem] h-8 px-2 rounded-lg border text-[10px] md:text-xs font-medium flex-shrink-0 ${DAY_STATUS_CLASSES[status]}`}
+                    >
+                      {status === "done" ? "✓" : `D${workout.day_number}`}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+function ProgramWeeksModal({
+  weeks: initialWeeks,
+  onSave,
+  onClose,
+}: {
+  weeks: ProgramWeek[];
+  onSave: (weeks: ProgramWeek[] | null) => void;
+  onClose: () => void;
+}) {
+  const [options, setOptions] = useState<WeekGeneratorOptions>(DEFAULT_WEEK_OPTIONS);
+  const [weeks, setWeeks] = useState<ProgramWeek[]>(initialWeeks.length ? initialWeeks : generateWeeks(DEFAULT_WEEK_OPTIONS));
+
+  const updateOptions = (changes: Partial<WeekGeneratorOptions>) => {
+    const next = { ...options, ...changes };
+    setOptions(next);
+    setWeeks(generateWeeks(next));
+  };
+
+  const updateWeek = (index: number, changes: Partial<ProgramWeek>) => {
+    setWeeks(weeks.map((w, i) => (i === index ? { ...w, ...changes } : w)));
+  };
+
+  const inputClass =
+    "w-full h-11 px-4 bg-black/40 border border-white/10 rounded-xl text-white text-sm focus:outline-none focus:border-gold-500/50";
+  const cellClass =
+    "w-full h-9 px-2 bg-black/40 border border-white/10 rounded-lg text-white text-xs text-center focus:outline-none focus:border-gold-500/50";
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-end md:items-center justify-center bg-black/80 backdrop-blur-sm">
+      <div className="glass-card rounded-t-3xl md:rounded-3xl w-full max-w-md max-h-[90vh] flex flex-col">
+        <div className="p-4 border-b border-white/5 flex justify-between items-center">
+          <h2 className="text-white font-semibold text-base">Plan Weeks</h2>
+          <button onClick={onClose} className="text-gray-400 active:text-white">
+            <svg className="w-6 h-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-4">
+          <p className="text-gray-400 text-xs">
+            Every week repeats the program's workouts. Volume scales the number of working sets and intensity scales
+            percentage-based loads.
+          </p>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-xs text-gray-400 mb-2">Blocks</label>
+              <input
+                type="number"
+                min="1"
+                value={options.blocks}
+                onChange={(e) => updateOptions({ blocks: Math.max(1, parseInt(e.target.value) || 1) })}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-xs text-gray-400 mb-2">Weeks per block</label>
+              <input
+                type="number"
+                min="1"
+                value={options.weeksPerBlock}
+                onChange={(e) => updateOptions({ weeksPerBlock: Math.max(1, parseInt(e.target.value) || 1) })}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-xs text-gray-400 mb-2">Volume +%/week</label>
+              <input
+                type="number"
+                step="0.5"
+                value={options.volumeRampPercent}
+                onChange={(e) => updateOptions({ volumeRampPercent: parseFloat(e.target.value) || 0 })}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-xs text-gray-400 mb-2">Intensity +%/week</label>
+              <input
+                type="number"
+                step="0.5"
+                value={options.intensityRampPercent}
+                onChange={(e) => updateOptions({ intensityRampPercent: parseFloat(e.target.value) || 0 })}
+                className={inputClass}
+              />
+            </div>
+          </div>
+
+          <label className="flex items-center gap-2 text-sm text-gray-300">
+            <input
+              type="checkbox"
+              checked={options.deload}
+              onChange={(e) => updateOptions({ deload: e.target.checked })}
+              className="accent-gold-500"
+            />
+            Deload in the last week of each block
+          </label>
+
+          <div className="space-y-2">
+            <div className="grid grid-cols-[3rem_1fr_1fr_3.5rem] gap-2 text-[10px] text-gray-500 px-1">
+              <span>Week</span>
+              <span>Volume %</span>
+              <span>Intensity %</span>
+              <span className="text-center">Deload</span>
+            </div>
+            {weeks.map((week, index) => (
+              <div key={week.week} className="grid grid-cols-[3rem_1fr_1fr_3.5rem] gap-2 items-center">
+                <span className="text-white text-xs font-medium px-1">{week.week}</span>
+                <input
+                  type="number"
+                  min="0"
+                  value={week.volume_percent}
+                  onChange={(e) => updateWeek(index, { volume_percent: parseFloat(e.target.value) || 0 })}
+                  className={cellClass}
+                />
+                <input
+                  type="number"
+                  min="0"
+                  step="0.5"
+                  value={week.intensity_percent}
+                  onChange={(e) => updateWeek(index, { intensity_percent: parseFloat(e.target.value) || 0 })}
+                  className={cellClass}
+                />
+                <input
+                  type="checkbox"
+                  checked={week.is_deload}
+                  onChange={(e) => updateWeek(index, { is_deload: e.target.checked })}
+                  className="accent-gold-500 mx-auto"
+                />
+              </div>
+            ))}
+          </div>
+
+          <div className="flex gap-3 pt-2 pb-4">
+            {initialWeeks.length > 0 && (
+              <button
+                type="button"
+                onClick={() => confirm("Remove the week plan? Every week will train the workouts as written.") && onSave(null)}
+                className="h-11 px-4 bg-red-500/10 border border-red-500/20 text-red-400 rounded-xl text-sm font-medium"
+              >
+                Clear
+              </button>
+            )}
+            <button type="button" onClick={onClose} className="flex-1 h-11 bg-white/5 border border-white/10 text-white rounded-xl text-sm font-medium active:bg-white/10">
+              Cancel
+            </button>
+            <button
+              type="button"
+              onClick={() => onSave(weeks)}
+              className="flex-1 h-11 bg-gradient-to-r from-gold-600 to-gold-500 text-black rounded-xl text-sm font-semibold active:opacity-80"
+            >
+              Save
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,13 @@
 import { useState, useEffect } from "react";
 import { useParams, useNavigate } from "react-router-dom";
-import { programsApi, type Program, type ProgramCreate } from "../services/api";
+import { programsApi, workoutsApi, exercisesApi, type Program, type ProgramCreate } from "../services/api";
+import {
+  EXPERIENCE_LEVELS,
+  generateProgram,
+  slotTargets,
+  type ExperienceLevel,
+  type GeneratedWorkout,
+} from "../services/programTemplates";
 
 const PROGRAM_TYPES = [
   { value: "push_pull_legs", label: "Push/Pull/Legs" },
@@ -10,6 +17,21 @@ const PROGRAM_TYPES = [
   { value: "custom", label: "Custom" },
 ] as const;
 
+const EQUIPMENT_OPTIONS = [
+  { value: "barbell", label: "Barbell" },
+  { value: "dumbbell", label: "Dumbbell" },
+  { value: "cable", label: "Cable" },
+  { value: "machine", label: "Machine" },
+  { value: "kettlebell", label: "Kettlebell" },
+  { value: "resistance_band", label: "Resistance Band" },
+];
+
+// Rough session length: each set plus its rest, with a minute per exercise to set up
+function estimateMinutes(workout: GeneratedWorkout): number {
+  const seconds = workout.exercises.reduce((sum, ex) => sum + 60 + ex.target_sets * (45 + ex.rest_seconds), 0);
+  return Math.round(seconds / 60 / 5) * 5;
+}
+
 export function ProgramEditPage() {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
@@ -29,6 +51,19 @@ export function ProgramEditPage() {
   const [saving, setSaving] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
+  // Template generator for the built-in splits (new programs only)
+  const [level, setLevel] = useState<ExperienceLevel>("intermediate");
+  const [equipment, setEquipment] = useState<string[]>(["barbell", "dumbbell", "cable", "machine"]);
+  const [preview, setPreview] = useState<GeneratedWorkout[] | null>(null);
+  const [generating, setGenerating] = useState(false);
+  const [progress, setProgress] = useState<string | null>(null);
+  const canGenerate = isNew && formData.type !== "custom";
+
+  // Options changed since the preview was made
+  useEffect(() => {
+    setPreview(null);
+  }, [formData.type, formData.days_per_week, level, equipment.join()]);
+
   useEffect(() => {
     // Only load if editing an existing program (has id and it's not "new")
     if (id && id !== "new") {
@@ -78,6 +113,14 @@ export function ProgramEditPage() {
 
       if (isNew) {
         const created = await programsApi.create(data);
+        if (preview) {
+          try {
+            await createWorkouts(created.id, preview);
+          } catch (err: any) {
+            // The program exists by now; open it rather than leave a retry to create it twice
+            alert(err.message || "Some workouts could not be created");
+          }
+        }
         navigate(`/programs/${created.id}`);
       } else {
         await programsApi.update(id!, data);
@@ -87,9 +130,71 @@ export function ProgramEditPage() {
       setError(err.message || "Failed to save program");
     } finally {
       setSaving(false);
+      setProgress(null);
+    }
+  };
+
+  const handlePreview = async () => {
+    if (formData.type === "custom") return;
+    try {
+      setGenerating(true);
+      setError(null);
+      const { data: library } = await exercisesApi.list();
+      setPreview(
+        generateProgram({ type: formData.type, daysPerWeek: formData.days_per_week, equipment, level }, library)
+      );
+    } catch (err: any) {
+      setError(err.message || "Failed to load the exercise library");
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  const createWorkouts = async (programId: string, workouts: GeneratedWorkout[]) => {
+    for (const workout of workouts) {
+      setProgress(`Creating ${workout.name}...`);
+      const created = await workoutsApi.create({
+        program_id: programId,
+        name: workout.name,
+        day_number: workout.day_number,
+        estimated_duration_minutes: estimateMinutes(workout),
+      });
+      for (const [index, { exercise, alternatives: _alternatives, ...targets }] of workout.exercises.entries()) {
+        await workoutsApi.addExercise(created.id, { exercise_id: exercise.id, order_index: index, ...targets });
+      }
     }
   };
 
+  // Put the next alternative in an exercise's place
+  const handleSwapExercise = (dayIndex: number, exerciseIndex: number) => {
+    setPreview((days) =>
+      days!.map((day, d) =>
+        d !== dayIndex
+          ? day
+          : {
+              ...day,
+              exercises: day.exercises.map((ex, i) => {
+                if (i !== exerciseIndex || ex.alternatives.length === 0) return ex;
+                const [next, ...rest] = ex.alternatives;
+                return { ...slotTargets(next.is_compound, level), exercise: next, alternatives: [...rest, ex.exercise] };
+              }),
+            }
+      )
+    );
+  };
+
+  const handleRemoveExercise = (dayIndex: number, exerciseIndex: number) => {
+    setPreview((days) =>
+      days!.map((day, d) =>
+        d !== dayIndex ? day : { ...day, exercises: day.exercises.filter((_, i) => i !== exerciseIndex) }
+      )
+    );
+  };
+
+  const toggleEquipment = (value: string) => {
+    setEquipment((current) => (current.includes(value) ? current.filter((e) => e !== value) : [...current, value]));
+  };
+
   if (loading) {
     return (
       <div className="min-h-dvh flex items-center justify-center bg-black">
@@ -188,6 +293,123 @@ export function ProgramEditPage() {
               />
             </div>
 
+            {/* Template Generator */}
+            {canGenerate && (
+              <div className="p-4 bg-white/5 rounded-2xl border border-white/5 space-y-4">
+                <div>
+                  <p className="text-sm font-medium text-white">Generate Workouts</p>
+                  <p className="text-xs text-gray-500 mt-0.5">
+                    Build the {PROGRAM_TYPES.find((t) => t.value === formData.type)?.label} days from your exercise
+                    library. Bodyweight exercises are always included.
+                  </p>
+                </div>
+
+                <div>
+                  <label className="block text-xs text-gray-400 mb-2">Experience</label>
+                  <div className="flex gap-2">
+                    {EXPERIENCE_LEVELS.map((option) => (
+                      <button
+                        key={option.value}
+                        type="button"
+                        onClick={() => setLevel(option.value)}
+                        className={`flex-1 py-2 rounded-xl text-xs font-medium border ${
+                          level === option.value
+                            ? "bg-gold-500/20 text-gold-500 border-gold-500/40"
+                            : "bg-white/5 text-gray-400 border-white/10"
+                        }`}
+                      >
+                        {option.label}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+
+                <div>
+                  <label className="block text-xs text-gray-400 mb-2">Available equipment</label>
+                  <div className="flex flex-wrap gap-2">
+                    {EQUIPMENT_OPTIONS.map((option) => (
+                      <button
+                        key={option.value}
+                        type="button"
+                        onClick={() => toggleEquipment(option.value)}
+                        className={`px-3 py-1.5 rounded-full text-xs font-medium border ${
+                          equipment.includes(option.value)
+                            ? "bg-gold-500/20 text-gold-500 border-gold-500/40"
+                            : "bg-white/5 text-gray-400 border-white/10"
+                        }`}
+                      >
+                        {option.label}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+
+                {!preview ? (
+                  <button
+                    type="button"
+                    onClick={handlePreview}
+                    disabled={generating}
+                    className="w-full h-11 bg-white/5 border border-gold-500/30 text-gold-500 rounded-xl text-sm font-medium disabled:opacity-50"
+                  >
+                    {generating ? "Generating..." : "Preview Workouts"}
+                  </button>
+                ) : (
+                  <div className="space-y-3">
+                    {preview.map((day, dayIndex) => (
+                      <div key={day.day_number} className="bg-black/30 rounded-xl p-3">
+                        <div className="flex justify-between items-center mb-2">
+                          <p className="text-white text-sm font-semibold">
+                            <span className="text-gold-500 mr-2">D{day.day_number}</span>
+                            {day.name}
+                          </p>
+                          <span className="text-gray-500 text-xs">~{estimateMinutes(day)} min</span>
+                        </div>
+                        <div className="space-y-1">
+                          {day.exercises.map((ex, exerciseIndex) => (
+                            <div key={ex.exercise.id} className="flex items-center gap-2 text-xs">
+                              <span className="flex-1 min-w-0 truncate text-gray-300">{ex.exercise.name}</span>
+                              <span className="text-gray-500 whitespace-nowrap">
+                                {ex.target_sets} × {ex.target_reps_min}-{ex.target_reps_max}
+                              </span>
+                              <button
+                                type="button"
+                                onClick={() => handleSwapExercise(dayIndex, exerciseIndex)}
+                                disabled={ex.alternatives.length === 0}
+                                title="Swap for another exercise"
+                                className="w-7 h-7 rounded-lg bg-white/5 text-gray-400 disabled:opacity-30"
+                              >
+                                ↻
+                              </button>
+                              <button
+                                type="button"
+                                onClick={() => handleRemoveExercise(dayIndex, exerciseIndex)}
+                                title="Remove"
+                                className="w-7 h-7 rounded-lg bg-white/5 text-gray-400"
+                              >
+                                ×
+                              </button>
+                            </div>
+                          ))}
+                        </div>
+                        {day.unfilled.length > 0 && (
+                          <p className="text-yellow-500/80 text-[10px] mt-2">
+                            Nothing in your library for: {day.unfilled.join(", ")}
+                          </p>
+                        )}
+                      </div>
+                    ))}
+                    <button
+                      type="button"
+                      onClick={() => setPreview(null)}
+                      className="w-full py-2 text-gray-500 text-xs font-medium"
+                    >
+                      Discard preview
+                    </button>
+                  </div>
+                )}
+              </div>
+            )}
+
             {/* Start Date */}
             <div>
               <label className="block text-sm font-medium text-gray-300 mb-2">
@@ -253,7 +475,13 @@ export function ProgramEditPage() {
                 disabled={saving}
                 className="btn-primary flex-1 disabled:opacity-50"
               >
-                {saving ? "Saving..." : isNew ? "Create Program" : "Save Changes"}
+                {saving
+                  ? progress || "Saving..."
+                  : isNew
+                  ? preview
+                    ? `Create Program & ${preview.length} Workouts`
+                    : "Create Program"
+                  : "Save Changes"}
               </button>
             </div>
           </div>
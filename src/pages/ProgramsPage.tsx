@@ -1,13 +1,24 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { useNavigate } from "react-router-dom";
-import { programsApi, type Program } from "../services/api";
+import { programsApi, exercisesApi, type Program, type MuscleGroup } from "../services/api";
 import { PageLayout } from "../components/PageLayout";
+import {
+  applyImport,
+  exercisesToCreate,
+  parseProgramFile,
+  planImport,
+  type ImportPlan,
+} from "../services/programTransfer";
 
 export function ProgramsPage() {
   const navigate = useNavigate();
   const [programs, setPrograms] = useState<Program[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [importPlan, setImportPlan] = useState<ImportPlan | null>(null);
+  const [muscleGroups, setMuscleGroups] = useState<MuscleGroup[]>([]);
+  const [reading, setReading] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
 
   useEffect(() => {
     loadPrograms();
@@ -26,6 +37,25 @@ export function ProgramsPage() {
     }
   };
 
+  // Read the file and work out what importing it would do; nothing is saved until confirmed
+  const handleFileSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    try {
+      setReading(true);
+      const parsed = parseProgramFile(await file.text(), file.name);
+      const [library, groups] = await Promise.all([exercisesApi.list(), exercisesApi.getMuscleGroups()]);
+      setMuscleGroups(groups.data);
+      setImportPlan(planImport(parsed, library.data, groups.data, programs));
+    } catch (err: any) {
+      alert(err.message || "Failed to read the file");
+    } finally {
+      setReading(false);
+    }
+  };
+
   if (loading) {
     return (
       <PageLayout title="Programs" showBackButton>
@@ -54,16 +84,33 @@ export function ProgramsPage() {
       title="Programs" 
       showBackButton
       rightAction={
-        <button
-          onClick={() => navigate("/programs/new")}
-          className="w-9 h-9 rounded-full bg-gold-500 flex items-center justify-center"
-        >
-          <svg className="w-5 h-5 text-black" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2.5}>
-            <path strokeLinecap="round" strokeLinejoin="round" d="M12 4v16m8-8H4" />
-          </svg>
-        </button>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            disabled={reading}
+            className="px-3 h-9 rounded-full bg-white/5 border border-white/10 text-white text-xs font-medium disabled:opacity-50"
+          >
+            {reading ? "Reading..." : "Import"}
+          </button>
+          <button
+            onClick={() => navigate("/programs/new")}
+            className="w-9 h-9 rounded-full bg-gold-500 flex items-center justify-center"
+          >
+            <svg className="w-5 h-5 text-black" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2.5}>
+              <path strokeLinecap="round" strokeLinejoin="round" d="M12 4v16m8-8H4" />
+            </svg>
+          </button>
+        </div>
       }
     >
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".json,.csv,application/json,text/csv"
+        onChange={handleFileSelected}
+        className="hidden"
+      />
+
       {programs.length === 0 ? (
         <div className="text-center py-16">
           <div className="w-16 h-16 mx-auto rounded-full bg-white/5 flex items-center justify-center mb-4">
@@ -124,6 +171,192 @@ export function ProgramsPage() {
           ))}
         </div>
       )}
+
+      {importPlan && (
+        <ImportPreviewModal
+          plan={importPlan}
+          muscleGroups={muscleGroups}
+          onChange={setImportPlan}
+          onImported={(program) => {
+            setImportPlan(null);
+            navigate(`/programs/${program.id}`);
+          }}
+          onClose={() => setImportPlan(null)}
+        />
+      )}
     </PageLayout>
   );
 }
+
+// Dry run of an import: what would be created, what matched the library, and what needs a decision
+function ImportPreviewModal({
+  plan,
+  muscleGroups,
+  onChange,
+  onImported,
+  onClose,
+}: {
+  plan: ImportPlan;
+  muscleGroups: MuscleGroup[];
+  onChange: (plan: ImportPlan) => void;
+  onImported: (program: Program) => void;
+  onClose: () => void;
+}) {
+  const [importing, setImporting] = useState(false);
+  const [progress, setProgress] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const newExercises = exercisesToCreate(plan);
+  const needsMuscleGroup = newExercises.some((ex) => !ex.muscleGroupId);
+  const matchedCount = plan.workouts.flatMap((w) => w.exercises).filter((ex) => ex.match).length;
+
+  // Every row of the same exercise is created once, so they share the muscle group
+  const setMuscleGroup = (name: string, muscleGroupId: string) => {
+    onChange({
+      ...plan,
+      workouts: plan.workouts.map((workout) => ({
+        ...workout,
+        exercises: workout.exercises.map((ex) => (ex.source.name === name ? { ...ex, muscleGroupId } : ex)),
+      })),
+    });
+  };
+
+  const handleImport = async () => {
+    try {
+      setImporting(true);
+      setError(null);
+      const program = await applyImport(plan, setProgress);
+      onImported(program);
+    } catch (err: any) {
+      setError(err.message || "Failed to import program");
+    } finally {
+      setImporting(false);
+      setProgress(null);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-end md:items-center justify-center bg-black/80 backdrop-blur-sm">
+      <div className="glass-card rounded-t-3xl md:rounded-3xl w-full max-w-md max-h-[90vh] flex flex-col">
+        <div className="p-4 border-b border-white/5 flex justify-between items-center">
+          <h2 className="text-white font-semibold text-base">Import Program</h2>
+          <button onClick={onClose} disabled={importing} className="text-gray-400 active:text-white">
+            <svg className="w-6 h-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-4">
+          <div>
+            <label className="block text-xs text-gray-400 mb-2">Program name</label>
+            <input
+              type="text"
+              value={plan.name}
+              onChange={(e) => onChange({ ...plan, name: e.target.value })}
+              className="w-full h-11 px-4 bg-black/40 border border-white/10 rounded-xl text-white text-sm focus:outline-none focus:border-gold-500/50"
+            />
+            {plan.name !== plan.file.program.name && (
+              <p className="text-gray-500 text-[10px] mt-1">Renamed: you already have "{plan.file.program.name}"</p>
+            )}
+          </div>
+
+          {/* Summary of what will be created */}
+          <div className="p-3 bg-black/30 rounded-xl space-y-1 text-xs">
+            <p className="text-green-400">+ 1 program ({plan.file.program.days_per_week} days/week)</p>
+            <p className="text-green-400">+ {plan.workouts.length} workouts</p>
+            <p className="text-gray-400">= {matchedCount} exercises matched to your library</p>
+            {newExercises.length > 0 && (
+              <p className="text-gold-500">+ {newExercises.length} custom exercises to create</p>
+            )}
+            {plan.file.program.weeks?.length ? (
+              <p className="text-gray-400">+ {plan.file.program.weeks.length}-week plan</p>
+            ) : null}
+          </div>
+
+          {plan.warnings.map((warning) => (
+            <p key={warning} className="p-3 bg-yellow-500/10 border border-yellow-500/20 rounded-xl text-yellow-500 text-xs">
+              {warning}
+            </p>
+          ))}
+
+          {newExercises.length > 0 && (
+            <div>
+              <p className="text-xs text-gray-400 mb-2">New custom exercises</p>
+              <div className="space-y-2">
+                {newExercises.map((ex) => (
+                  <div key={ex.source.name} className="flex items-center gap-2">
+                    <span className="flex-1 min-w-0 truncate text-white text-sm">{ex.source.name}</span>
+                    <select
+                      value={ex.muscleGroupId ?? ""}
+                      onChange={(e) => setMuscleGroup(ex.source.name, e.target.value)}
+                      className={`h-9 px-2 bg-black/40 border rounded-lg text-xs focus:outline-none ${
+                        ex.muscleGroupId ? "border-white/10 text-white" : "border-gold-500/50 text-gold-500"
+                      }`}
+                    >
+                      <option value="">Muscle group...</option>
+                      {muscleGroups.map((group) => (
+                        <option key={group.id} value={group.id} className="bg-black text-white">
+                          {group.name}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Workouts as they will be created */}
+          <div className="space-y-2">
+            {plan.workouts.map((workout) => (
+              <div key={`${workout.source.day_number}-${workout.source.name}`} className="p-3 bg-white/5 rounded-xl">
+                <p className="text-white text-sm font-semibold mb-1.5">
+                  <span className="text-gold-500 mr-2">D{workout.source.day_number}</span>
+                  {workout.source.name}
+                </p>
+                <div className="space-y-0.5">
+                  {workout.exercises.map((ex, i) => (
+                    <div key={i} className="flex items-center gap-2 text-xs">
+                      <span className={ex.match ? "text-green-400" : "text-gold-500"}>{ex.match ? "✓" : "+"}</span>
+                      <span className="flex-1 min-w-0 truncate text-gray-300">
+                        {ex.source.name}
+                        {ex.match && ex.match.name !== ex.source.name && (
+                          <span className="text-gray-500"> → {ex.match.name}</span>
+                        )}
+                      </span>
+                      <span className="text-gray-500 whitespace-nowrap">
+                        {ex.source.target_sets} × {ex.source.target_reps_min}-{ex.source.target_reps_max}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+
+          {error && <p className="p-3 bg-red-500/10 border border-red-500/20 rounded-xl text-red-400 text-xs">{error}</p>}
+
+          <div className="flex gap-3 pt-2 pb-4">
+            <button
+              type="button"
+              onClick={onClose}
+              disabled={importing}
+              className="flex-1 h-11 bg-white/5 border border-white/10 text-white rounded-xl text-sm font-medium active:bg-white/10"
+            >
+              Cancel
+            </button>
+            <button
+              type="button"
+              onClick={handleImport}
+              disabled={importing || needsMuscleGroup || !plan.name.trim()}
+              className="flex-1 h-11 bg-gradient-to-r from-gold-600 to-gold-500 text-black rounded-xl text-sm font-semibold active:opacity-80 disabled:opacity-50"
+            >
+              {importing ? progress || "Importing..." : "Import"}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
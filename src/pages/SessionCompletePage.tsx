@@ -2,8 +2,10 @@ import { useState, useEffect } from "react";
 import { useParams, useNavigate } from "react-router-dom";
 import { sessionsApi, setsApi, type Session } from "../services/api";
 import { PageLayout } from "../components/PageLayout";
+import { useUnits } from "../hooks/useUnits";
 
 export function SessionCompletePage() {
+  const units = useUnits();
   const { sessionId } = useParams<{ sessionId: string }>();
   const navigate = useNavigate();
 
@@ -115,12 +117,12 @@ export function SessionCompletePage() {
           </div>
           <div className="text-center">
             <div className="text-xl md:text-3xl font-bold text-gold-500 mb-0.5 md:mb-1">
-              {summary.total_volume.toFixed(0)}
+              {units.fromKg(summary.total_volume).toFixed(0)}
             </div>
-            <div className="text-[10px] md:text-sm text-gray-400">Volume (kg)</div>
+            <div className="text-[10px] md:text-sm text-gray-400">Volume ({units.weightUnit})</div>
             {lastSession && volumeDiff !== 0 && (
               <div className={`text-[8px] md:text-xs mt-0.5 md:mt-1 ${volumeDiff > 0 ? "text-green-400" : "text-red-400"}`}>
-                {volumeDiff > 0 ? "+" : ""}{volumeDiff.toFixed(0)} vs last
+                {volumeDiff > 0 ? "+" : ""}{units.fromKg(volumeDiff).toFixed(0)} vs last
               </div>
             )}
           </div>
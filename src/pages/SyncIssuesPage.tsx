@@ -0,0 +1,262 @@
+import { useState, useEffect } from "react";
+import { syncService } from "../services/api";
+import { getOperationPayload, isPermanentFailure, type PendingOperation } from "../services/offline";
+import { PageLayout } from "../components/PageLayout";
+
+const KIND_LABELS: Record<PendingOperation["kind"], string> = {
+  set: "Set",
+  session: "Session",
+  weightLog: "Weight log",
+};
+
+const ACTION_LABELS: Record<PendingOperation["action"], string> = {
+  create: "Create",
+  start: "Start",
+  complete: "Complete",
+  update: "Edit",
+  delete: "Delete",
+};
+
+export function SyncIssuesPage() {
+  const [items, setItems] = useState<PendingOperation[]>([]);
+  const [unclaimed, setUnclaimed] = useState<PendingOperation[]>([]);
+  const [claiming, setClaiming] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [editText, setEditText] = useState("");
+  const [editError, setEditError] = useState<string | null>(null);
+  const [busyId, setBusyId] = useState<number | null>(null);
+
+  useEffect(() => {
+    loadItems();
+    return syncService.onStatusChange(() => {
+      loadItems();
+    });
+  }, []);
+
+  const loadItems = async () => {
+    try {
+      const [failed, unowned] = await Promise.all([syncService.getFailedItems(), syncService.getUnclaimedItems()]);
+      setItems(failed);
+      setUnclaimed(unowned);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleEdit = (item: PendingOperation) => {
+    setEditingId(item.id!);
+    setEditText(JSON.stringify(getOperationPayload(item) ?? {}, null, 2));
+    setEditError(null);
+  };
+
+  const handleRetry = async (item: PendingOperation) => {
+    let payload: Record<string, unknown> | undefined;
+    if (editingId === item.id) {
+      try {
+        payload = JSON.parse(editText);
+      } catch {
+        setEditError("Payload is not valid JSON");
+        return;
+      }
+    }
+
+    try {
+      setBusyId(item.id!);
+      await syncService.retryFailed(item.id!, payload);
+      setEditingId(null);
+      await loadItems();
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDiscard = async (item: PendingOperation) => {
+    if (!confirm("Discard this item? It will not be saved to your account.")) return;
+    await syncService.discardFailed(item.id!);
+    if (editingId === item.id) setEditingId(null);
+    await loadItems();
+  };
+
+  const handleClaim = async () => {
+    try {
+      setClaiming(true);
+      await syncService.claimUnclaimed();
+      await loadItems();
+    } catch (err: any) {
+      alert(err.message || "Failed to claim items");
+    } finally {
+      setClaiming(false);
+    }
+  };
+
+  const handleDiscardUnclaimed = async () => {
+    if (!confirm("Discard these items? They will not be saved to any account.")) return;
+    await syncService.discardUnclaimed();
+    await loadItems();
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([JSON.stringify(items, null, 2)], { type: "application/json" });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `fitforge-sync-issues-${new Date().toISOString().split("T")[0]}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const formatTime = (timestamp: number) =>
+    new Date(timestamp).toLocaleString("en-US", { month: "short", day: "numeric", hour: "numeric", minute: "2-digit" });
+
+  if (loading) {
+    return (
+      <PageLayout title="Sync Issues" showBackButton>
+        <div className="flex items-center justify-center py-20">
+          <div className="text-gold-500 text-sm">Loading...</div>
+        </div>
+      </PageLayout>
+    );
+  }
+
+  return (
+    <PageLayout
+      title="Sync Issues"
+      showBackButton
+      rightAction={
+        items.length > 0 && (
+          <button
+            onClick={handleExport}
+            className="px-2.5 py-1.5 bg-white/5 border border-white/10 text-white text-[10px] md:text-sm font-medium rounded-lg"
+          >
+            Export
+          </button>
+        )
+      }
+    >
+      {unclaimed.length > 0 && (
+        <div className="bg-white/5 rounded-2xl border border-gold-500/30 overflow-hidden mb-4">
+          <div className="p-4">
+            <p className="text-white font-medium text-sm mb-1">
+              {unclaimed.length} unsent item{unclaimed.length > 1 ? "s" : ""} from an earlier sign-in
+            </p>
+            <p className="text-gray-500 text-xs mb-2">
+              These were saved on this device before it kept accounts apart, so they may belong to someone else.
+              They are only sent once you confirm they are yours.
+            </p>
+            <ul className="space-y-0.5">
+              {unclaimed.map((item) => (
+                <li key={item.id} className="text-gray-400 text-xs">
+                  {ACTION_LABELS[item.action]} {KIND_LABELS[item.kind].toLowerCase()} · {formatTime(item.timestamp)}
+                </li>
+              ))}
+            </ul>
+          </div>
+          <div className="flex border-t border-white/5 divide-x divide-white/5">
+            <button
+              onClick={handleClaim}
+              disabled={claiming}
+              className="flex-1 py-3 text-gold-500 text-xs font-medium active:bg-white/5 disabled:opacity-50"
+            >
+              {claiming ? "Sending..." : "They're mine"}
+            </button>
+            <button
+              onClick={handleDiscardUnclaimed}
+              disabled={claiming}
+              className="flex-1 py-3 text-red-400 text-xs font-medium active:bg-white/5 disabled:opacity-50"
+            >
+              Discard
+            </button>
+          </div>
+        </div>
+      )}
+
+      {items.length === 0 ? (
+        unclaimed.length === 0 && (
+          <div className="text-center py-16">
+            <div className="w-16 h-16 mx-auto rounded-full bg-white/5 flex items-center justify-center mb-4">
+              <span className="text-3xl">✅</span>
+            </div>
+            <h2 className="text-white font-semibold text-lg mb-2">All Synced</h2>
+            <p className="text-gray-500 text-sm">Nothing is waiting for your attention</p>
+          </div>
+        )
+      ) : (
+        <>
+          <p className="text-gray-500 text-xs mb-4">
+            These items were saved on this device but could not be sent to your account.
+            Fix and retry them, or discard them.
+          </p>
+          <div className="space-y-3">
+            {items.map((item) => {
+              const rejected = isPermanentFailure(item.errorStatus);
+              const isEditing = editingId === item.id;
+
+              return (
+                <div key={item.id} className="bg-white/5 rounded-2xl border border-white/5 overflow-hidden">
+                  <div className="p-4">
+                    <div className="flex items-center justify-between mb-2">
+                      <p className="text-white font-medium text-sm">
+                        {ACTION_LABELS[item.action]} {KIND_LABELS[item.kind].toLowerCase()}
+                      </p>
+                      <span
+                        className={`px-2 py-0.5 rounded-full text-[10px] font-medium ${
+                          rejected ? "bg-red-500/20 text-red-400" : "bg-yellow-500/20 text-yellow-400"
+                        }`}
+                      >
+                        {rejected ? "Rejected" : `Failed ${item.retryCount}×`}
+                      </span>
+                    </div>
+                    <p className="text-gray-500 text-xs mb-2">Saved {formatTime(item.timestamp)}</p>
+                    {item.error && (
+                      <p className="p-2 bg-red-500/10 border border-red-500/20 rounded-lg text-red-400 text-xs break-words">
+                        {item.errorStatus ? `${item.errorStatus}: ` : ""}
+                        {item.error}
+                      </p>
+                    )}
+                  </div>
+
+                  {isEditing && (
+                    <div className="px-4 pb-4">
+                      <textarea
+                        value={editText}
+                        onChange={(e) => setEditText(e.target.value)}
+                        rows={8}
+                        className="w-full p-3 bg-black/40 border border-white/10 rounded-xl text-white text-xs font-mono focus:outline-none focus:border-gold-500/50"
+                      />
+                      {editError && <p className="text-red-400 text-xs mt-1">{editError}</p>}
+                    </div>
+                  )}
+
+                  <div className="flex border-t border-white/5 divide-x divide-white/5">
+                    {item.action !== "delete" && (
+                      <button
+                        onClick={() => (isEditing ? setEditingId(null) : handleEdit(item))}
+                        className="flex-1 py-3 text-gray-300 text-xs font-medium active:bg-white/5"
+                      >
+                        {isEditing ? "Cancel Edit" : "Edit"}
+                      </button>
+                    )}
+                    <button
+                      onClick={() => handleRetry(item)}
+                      disabled={busyId === item.id}
+                      className="flex-1 py-3 text-gold-500 text-xs font-medium active:bg-white/5 disabled:opacity-50"
+                    >
+                      {busyId === item.id ? "Retrying..." : "Retry"}
+                    </button>
+                    <button
+                      onClick={() => handleDiscard(item)}
+                      className="flex-1 py-3 text-red-400 text-xs font-medium active:bg-white/5"
+                    >
+                      Discard
+                    </button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </>
+      )}
+    </PageLayout>
+  );
+}
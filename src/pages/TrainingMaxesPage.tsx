@@ -0,0 +1,397 @@
+import { useState, useEffect } from "react";
+import { useNavigate } from "react-router-dom";
+import {
+  trainingMaxesApi,
+  exercisesApi,
+  analyticsApi,
+  usersApi,
+  type Exercise,
+  type TrainingMax,
+  type TrainingMaxSave,
+} from "../services/api";
+import {
+  DEFAULT_CYCLE_WEEKS,
+  DEFAULT_INCREMENT_KG,
+  DEFAULT_TM_PERCENT,
+  effectiveTrainingMax,
+  trainingMaxFromEstimate,
+} from "../services/trainingMaxes";
+import { toISODate } from "../services/dates";
+import { PageLayout } from "../components/PageLayout";
+import { ExerciseSelector } from "../components/ExerciseSelector";
+
+interface EditingMax {
+  exercise: Exercise;
+  form: TrainingMaxSave;
+}
+
+export function TrainingMaxesPage() {
+  const [trainingMaxes, setTrainingMaxes] = useState<TrainingMax[]>([]);
+  const [exercises, setExercises] = useState<Record<string, Exercise>>({});
+  const navigate = useNavigate();
+  const [loadIncrement, setLoadIncrement] = useState("");
+  const [hasEquipment, setHasEquipment] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [selectingExercise, setSelectingExercise] = useState(false);
+  const [editing, setEditing] = useState<EditingMax | null>(null);
+
+  useEffect(() => {
+    loadData();
+  }, []);
+
+  const loadData = async () => {
+    try {
+      setError(null);
+      const [maxes, exerciseList, profile] = await Promise.all([
+        trainingMaxesApi.list(),
+        exercisesApi.list(),
+        usersApi.getMe(),
+      ]);
+      setTrainingMaxes(maxes.data);
+      setExercises(Object.fromEntries(exerciseList.data.map((e) => [e.id, e])));
+      setLoadIncrement(profile.load_increment_kg?.toString() ?? "");
+      setHasEquipment(!!profile.equipment_profile);
+    } catch (err: any) {
+      setError(err.response?.data?.detail || err.message || "Failed to load training maxes");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSaveIncrement = async () => {
+    const value = loadIncrement ? parseFloat(loadIncrement) : null;
+    try {
+      await usersApi.updateMe({ load_increment_kg: value && value > 0 ? value : null });
+    } catch (err: any) {
+      alert(err.response?.data?.detail || err.message || "Failed to save load increment");
+    }
+  };
+
+  const handleEdit = (exercise: Exercise, existing?: TrainingMax) => {
+    setEditing({
+      exercise,
+      form: existing
+        ? {
+            weight_kg: existing.weight_kg,
+            increment_kg: existing.increment_kg,
+            cycle_weeks: existing.cycle_weeks,
+            cycle_started_on: existing.cycle_started_on,
+            source: existing.source,
+          }
+        : {
+            weight_kg: 0,
+            increment_kg: DEFAULT_INCREMENT_KG,
+            cycle_weeks: DEFAULT_CYCLE_WEEKS,
+            cycle_started_on: toISODate(new Date()),
+            source: "manual",
+          },
+    });
+  };
+
+  const handleSave = async (exerciseId: string, form: TrainingMaxSave) => {
+    try {
+      await trainingMaxesApi.save(exerciseId, form);
+      setEditing(null);
+      await loadData();
+    } catch (err: any) {
+      alert(err.response?.data?.detail || err.message || "Failed to save training max");
+    }
+  };
+
+  // Carry the bumped max over as the start of a fresh cycle from today
+  const handleNewCycle = async (trainingMax: TrainingMax) => {
+    const { weight_kg } = effectiveTrainingMax(trainingMax);
+    await handleSave(trainingMax.exercise_id, {
+      weight_kg,
+      increment_kg: trainingMax.increment_kg,
+      cycle_weeks: trainingMax.cycle_weeks,
+      cycle_started_on: toISODate(new Date()),
+      source: trainingMax.source,
+    });
+  };
+
+  const handleDelete = async (trainingMax: TrainingMax) => {
+    if (!confirm("Remove this training max?")) return;
+    try {
+      await trainingMaxesApi.delete(trainingMax.exercise_id);
+      await loadData();
+    } catch (err: any) {
+      alert(err.response?.data?.detail || err.message || "Failed to remove training max");
+    }
+  };
+
+  const formatDate = (date: Date) => date.toLocaleDateString("en-US", { month: "short", day: "numeric" });
+
+  if (loading) {
+    return (
+      <PageLayout title="Training Maxes" showBackButton>
+        <div className="flex items-center justify-center py-20">
+          <div className="text-gold-500 text-sm">Loading...</div>
+        </div>
+      </PageLayout>
+    );
+  }
+
+  return (
+    <PageLayout
+      title="Training Maxes"
+      showBackButton
+      rightAction={
+        <button
+          onClick={() => setSelectingExercise(true)}
+          className="w-9 h-9 rounded-full bg-gold-500 flex items-center justify-center active:opacity-80 active:scale-95 transition-all"
+        >
+          <svg className="w-5 h-5 text-black" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+          </svg>
+        </button>
+      }
+    >
+      {error && <p className="text-red-400 text-sm mb-4">{error}</p>}
+
+      {/* Load increment, until an equipment profile takes over */}
+      {hasEquipment ? (
+        <button
+          onClick={() => navigate("/equipment")}
+          className="w-full bg-white/5 rounded-2xl border border-white/5 p-4 mb-4 flex items-center justify-between"
+        >
+          <div className="text-left">
+            <p className="text-white font-semibold text-sm">Rounded to your equipment</p>
+            <p className="text-gray-500 text-xs">Percentage targets use the bars and plates you have</p>
+          </div>
+          <span className="text-gold-500">→</span>
+        </button>
+      ) : (
+        <div className="bg-white/5 rounded-2xl border border-white/5 p-4 mb-4">
+          <label className="block text-white font-semibold text-sm mb-1">Smallest load jump (kg)</label>
+          <p className="text-gray-500 text-xs mb-3">
+            Percentage targets are rounded to this. With 1.25kg as your lightest plates, that's 2.5kg.{" "}
+            <button onClick={() => navigate("/equipment")} className="text-gold-500">
+              Set up your equipment
+            </button>{" "}
+            to round to exactly what you can load.
+          </p>
+          <input
+            type="number"
+            min="0"
+            step="0.25"
+            value={loadIncrement}
+            onChange={(e) => setLoadIncrement(e.target.value)}
+            onBlur={handleSaveIncrement}
+            placeholder="2.5"
+            className="w-full h-11 px-4 bg-black/40 border border-white/10 rounded-xl text-white text-sm focus:outline-none focus:border-gold-500/50"
+          />
+        </div>
+      )}
+
+      {trainingMaxes.length === 0 ? (
+        <div className="text-center py-12">
+          <div className="w-12 h-12 mx-auto rounded-full bg-white/5 flex items-center justify-center mb-3">
+            <span className="text-xl">🏋️</span>
+          </div>
+          <p className="text-gray-400 text-sm mb-1">No training maxes yet</p>
+          <p className="text-gray-500 text-xs mb-4">Add one to program lifts as a percentage, e.g. 75% × 5</p>
+          <button
+            onClick={() => setSelectingExercise(true)}
+            className="py-3 px-6 bg-gradient-to-r from-gold-600 to-gold-500 text-black font-semibold text-sm rounded-xl active:opacity-80 active:scale-95 transition-all"
+          >
+            Add Training Max
+          </button>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {trainingMaxes.map((trainingMax) => {
+            const exercise = exercises[trainingMax.exercise_id];
+            const effective = effectiveTrainingMax(trainingMax);
+
+            return (
+              <div key={trainingMax.exercise_id} className="bg-white/5 rounded-2xl border border-white/5 overflow-hidden">
+                <div className="p-4">
+                  <div className="flex items-center justify-between mb-1">
+                    <p className="text-white font-medium text-sm">{exercise?.name ?? "Unknown exercise"}</p>
+                    <p className="text-gold-500 font-bold text-lg">{effective.weight_kg}kg</p>
+                  </div>
+                  <p className="text-gray-500 text-xs">
+                    Cycle {effective.cycle} · +{trainingMax.increment_kg}kg every {trainingMax.cycle_weeks} weeks · next on{" "}
+                    {formatDate(effective.next_bump_on)}
+                    {trainingMax.source === "estimated" && " · from estimated 1RM"}
+                  </p>
+                </div>
+                <div className="flex border-t border-white/5 divide-x divide-white/5">
+                  <button
+                    onClick={() => exercise && handleEdit(exercise, trainingMax)}
+                    className="flex-1 py-3 text-gray-300 text-xs font-medium active:bg-white/5"
+                  >
+                    Edit
+                  </button>
+                  <button
+                    onClick={() => handleNewCycle(trainingMax)}
+                    className="flex-1 py-3 text-gold-500 text-xs font-medium active:bg-white/5"
+                  >
+                    New Cycle
+                  </button>
+                  <button
+                    onClick={() => handleDelete(trainingMax)}
+                    className="flex-1 py-3 text-red-400 text-xs font-medium active:bg-white/5"
+                  >
+                    Remove
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {selectingExercise && (
+        <ExerciseSelector
+          onSelect={(exercise) => {
+            setSelectingExercise(false);
+            handleEdit(exercise, trainingMaxes.find((tm) => tm.exercise_id === exercise.id));
+          }}
+          onClose={() => setSelectingExercise(false)}
+        />
+      )}
+
+      {editing && (
+        <TrainingMaxModal
+          editing={editing}
+          loadIncrement={loadIncrement ? parseFloat(loadIncrement) : undefined}
+          onSave={(form) => handleSave(editing.exercise.id, form)}
+          onClose={() => setEditing(null)}
+        />
+      )}
+    </PageLayout>
+  );
+}
+
+function TrainingMaxModal({
+  editing,
+  loadIncrement,
+  onSave,
+  onClose,
+}: {
+  editing: EditingMax;
+  loadIncrement?: number;
+  onSave: (form: TrainingMaxSave) => void;
+  onClose: () => void;
+}) {
+  const [form, setForm] = useState(editing.form);
+  const [estimating, setEstimating] = useState(false);
+  const [estimateError, setEstimateError] = useState<string | null>(null);
+
+  const handleUseEstimate = async () => {
+    try {
+      setEstimating(true);
+      setEstimateError(null);
+      const { current_1rm } = await analyticsApi.getOneRepMax(editing.exercise.id);
+      if (!current_1rm) {
+        setEstimateError("Log a few sets of this exercise first");
+        return;
+      }
+      setForm({ ...form, weight_kg: trainingMaxFromEstimate(current_1rm, loadIncrement), source: "estimated" });
+    } catch (err: any) {
+      setEstimateError(err.message || "Failed to load the estimated 1RM");
+    } finally {
+      setEstimating(false);
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSave(form);
+  };
+
+  const inputClass =
+    "w-full h-11 px-4 bg-black/40 border border-white/10 rounded-xl text-white text-sm focus:outline-none focus:border-gold-500/50";
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-end md:items-center justify-center bg-black/80 backdrop-blur-sm">
+      <div className="glass-card rounded-t-3xl md:rounded-3xl w-full max-w-md max-h-[90vh] flex flex-col">
+        <div className="p-4 border-b border-white/5 flex justify-between items-center">
+          <h2 className="text-white font-semibold text-base">{editing.exercise.name}</h2>
+          <button onClick={onClose} className="text-gray-400 active:text-white">
+            <svg className="w-6 h-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="flex-1 overflow-y-auto p-4 space-y-4">
+          <div>
+            <label className="block text-xs text-gray-400 mb-2">Training max (kg)</label>
+            <input
+              type="number"
+              min="0"
+              step="0.5"
+              value={form.weight_kg || ""}
+              onChange={(e) => setForm({ ...form, weight_kg: parseFloat(e.target.value) || 0, source: "manual" })}
+              className={inputClass}
+              required
+            />
+            <button
+              type="button"
+              onClick={handleUseEstimate}
+              disabled={estimating}
+              className="mt-2 text-gold-500 text-xs font-medium disabled:opacity-50"
+            >
+              {estimating ? "Loading..." : `Use ${DEFAULT_TM_PERCENT}% of estimated 1RM`}
+            </button>
+            {estimateError && <p className="text-red-400 text-xs mt-1">{estimateError}</p>}
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-xs text-gray-400 mb-2">Increase per cycle (kg)</label>
+              <input
+                type="number"
+                min="0"
+                step="0.5"
+                value={form.increment_kg}
+                onChange={(e) => setForm({ ...form, increment_kg: parseFloat(e.target.value) || 0 })}
+                className={inputClass}
+                required
+              />
+            </div>
+            <div>
+              <label className="block text-xs text-gray-400 mb-2">Cycle length (weeks)</label>
+              <input
+                type="number"
+                min="1"
+                value={form.cycle_weeks}
+                onChange={(e) => setForm({ ...form, cycle_weeks: parseInt(e.target.value) || 1 })}
+                className={inputClass}
+                required
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-xs text-gray-400 mb-2">Cycle started on</label>
+            <input
+              type="date"
+              value={form.cycle_started_on}
+              onChange={(e) => setForm({ ...form, cycle_started_on: e.target.value })}
+              className={inputClass}
+              required
+            />
+          </div>
+
+          <div className="flex gap-3 pt-2 pb-4">
+            <button type="button" onClick={onClose} className="flex-1 h-11 bg-white/5 border border-white/10 text-white rounded-xl text-sm font-medium active:bg-white/10">
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={form.weight_kg <= 0}
+              className="flex-1 h-11 bg-gradient-to-r from-gold-600 to-gold-500 text-black rounded-xl text-sm font-semibold active:opacity-80 disabled:opacity-50"
+            >
+              Save
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
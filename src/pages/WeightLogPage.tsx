@@ -1,23 +1,16 @@
 import { useState, useEffect } from "react";
-import { weightLogsApi } from "../services/api";
+import { weightLogsApi, type WeightLog } from "../services/api";
 import { PageLayout } from "../components/PageLayout";
-
-interface WeightLog {
-  id: string;
-  weight_kg: number;
-  logged_date: string;
-  time_of_day?: string;
-  notes?: string;
-  created_at: string;
-}
+import { useUnits } from "../hooks/useUnits";
 
 export function WeightLogPage() {
+  const units = useUnits();
   const [logs, setLogs] = useState<WeightLog[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [showAddForm, setShowAddForm] = useState(false);
   const [formData, setFormData] = useState({
-    weight_kg: "",
+    weight: "", // In the user's unit
     logged_date: new Date().toISOString().split("T")[0],
     time_of_day: "morning" as "morning" | "afternoon" | "evening",
     notes: "",
@@ -33,7 +26,7 @@ export function WeightLogPage() {
       setLoading(true);
       setError(null);
       const response = await weightLogsApi.list();
-      setLogs(response.data || []);
+      setLogs(response.data);
     } catch (err: any) {
       setError(err.response?.data?.detail || err.message || "Failed to load logs");
     } finally {
@@ -43,18 +36,18 @@ export function WeightLogPage() {
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!formData.weight_kg) return;
+    if (!formData.weight) return;
 
     try {
       setSubmitting(true);
       await weightLogsApi.create({
-        weight_kg: parseFloat(formData.weight_kg),
+        weight_kg: units.toKg(parseFloat(formData.weight)),
         logged_date: formData.logged_date,
         time_of_day: formData.time_of_day,
         notes: formData.notes || null,
       });
       setFormData({
-        weight_kg: "",
+        weight: "",
         logged_date: new Date().toISOString().split("T")[0],
         time_of_day: "morning",
         notes: "",
@@ -125,12 +118,12 @@ export function WeightLogPage() {
           </div>
           <form onSubmit={handleSubmit} className="p-4 space-y-4">
             <div>
-              <label className="block text-gray-400 text-xs mb-2">Weight (kg)</label>
+              <label className="block text-gray-400 text-xs mb-2">Weight ({units.weightUnit})</label>
               <input
                 type="number"
                 step="0.1"
-                value={formData.weight_kg}
-                onChange={(e) => setFormData({ ...formData, weight_kg: e.target.value })}
+                value={formData.weight}
+                onChange={(e) => setFormData({ ...formData, weight: e.target.value })}
                 className="w-full h-12 px-4 bg-black/40 border border-white/10 rounded-xl text-white text-sm placeholder-gray-500 focus:outline-none focus:border-gold-500/50"
                 placeholder="Enter weight"
                 required
@@ -218,7 +211,7 @@ export function WeightLogPage() {
                 <span className="text-lg">{getTimeIcon(log.time_of_day || "morning")}</span>
               </div>
               <div className="flex-1 min-w-0">
-                <p className="text-white font-bold text-lg">{log.weight_kg} kg</p>
+                <p className="text-white font-bold text-lg">{units.formatWeight(log.weight_kg)}</p>
                 <p className="text-gray-500 text-xs">{formatDate(log.logged_date)}</p>
                 {log.notes && (
                   <p className="text-gray-600 text-xs truncate">{log.notes}</p>
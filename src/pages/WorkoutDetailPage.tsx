@@ -17,7 +17,19 @@ import {
   useSortable,
 } from "@dnd-kit/sortable";
 import { CSS } from "@dnd-kit/utilities";
-import { workoutsApi, exercisesApi, type WorkoutExercise, type Exercise } from "../services/api";
+import {
+  workoutsApi,
+  exercisesApi,
+  type WorkoutExercise,
+  type WorkoutDetail,
+  type Exercise,
+  type ExerciseGroupType,
+  type SetPrescription,
+  type SetType,
+} from "../services/api";
+import { generateClientId } from "../services/offline";
+import { GROUP_TYPE_LABELS, defaultGroupType, toBlocks, type ExerciseBlock } from "../services/exerciseGroups";
+import { SET_TYPE_LABELS, getPrescriptions } from "../services/prescriptions";
 import { PageLayout } from "../components/PageLayout";
 
 function SortableExerciseItem({
@@ -101,12 +113,95 @@ function SortableExerciseItem({
   );
 }
 
+// A superset / circuit, dragged as one block; its members can be reordered inside it
+function SortableExerciseGroup({
+  block,
+  onReorder,
+  onChange,
+  onUngroup,
+  renderExercise,
+}: {
+  block: ExerciseBlock<WorkoutExercise> & { group: NonNullable<ExerciseBlock<WorkoutExercise>["group"]> };
+  onReorder: (exercises: WorkoutExercise[]) => void;
+  onChange: (updates: { group_type?: ExerciseGroupType; group_rounds?: number }) => void;
+  onUngroup: () => void;
+  renderExercise: (exercise: WorkoutExercise) => React.ReactNode;
+}) {
+  const { attributes, listeners, setNodeRef, transform, transition, isDragging } = useSortable({ id: block.id });
+  const sensors = useSensors(
+    useSensor(PointerSensor),
+    useSensor(KeyboardSensor, {
+      coordinateGetter: sortableKeyboardCoordinates,
+    })
+  );
+
+  const style = {
+    transform: CSS.Transform.toString(transform),
+    transition,
+    opacity: isDragging ? 0.5 : 1,
+  };
+
+  const handleDragEnd = (event: DragEndEvent) => {
+    const { active, over } = event;
+    if (!over || active.id === over.id) return;
+    const oldIndex = block.exercises.findIndex((e) => e.id === active.id);
+    const newIndex = block.exercises.findIndex((e) => e.id === over.id);
+    onReorder(arrayMove(block.exercises, oldIndex, newIndex));
+  };
+
+  return (
+    <div ref={setNodeRef} style={style} className="rounded-2xl border border-violet-500/30 bg-violet-500/5 p-2">
+      <div className="flex items-center gap-2 px-2 py-1.5 mb-2">
+        <button {...attributes} {...listeners} className="text-gray-500 active:text-gold-500">
+          <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 8h16M4 16h16" />
+          </svg>
+        </button>
+        <select
+          value={block.group.type}
+          onChange={(e) => onChange({ group_type: e.target.value as ExerciseGroupType })}
+          className="bg-transparent text-violet-400 text-xs font-semibold focus:outline-none"
+        >
+          {(Object.keys(GROUP_TYPE_LABELS) as ExerciseGroupType[]).map((type) => (
+            <option key={type} value={type} className="bg-black">
+              {GROUP_TYPE_LABELS[type]} {block.group.letter}
+            </option>
+          ))}
+        </select>
+        <div className="flex items-center gap-1 ml-auto text-xs text-gray-400">
+          <button
+            onClick={() => onChange({ group_rounds: Math.max(1, block.group.rounds - 1) })}
+            className="w-6 h-6 rounded-md bg-white/5 active:bg-white/10"
+          >
+            −
+          </button>
+          <span className="w-16 text-center">{block.group.rounds} rounds</span>
+          <button
+            onClick={() => onChange({ group_rounds: block.group.rounds + 1 })}
+            className="w-6 h-6 rounded-md bg-white/5 active:bg-white/10"
+          >
+            +
+          </button>
+        </div>
+        <button onClick={onUngroup} className="text-gray-500 text-xs font-medium active:text-white">
+          Ungroup
+        </button>
+      </div>
+      <DndContext sensors={sensors} collisionDetection={closestCenter} onDragEnd={handleDragEnd}>
+        <SortableContext items={block.exercises.map((e) => e.id)} strategy={verticalListSortingStrategy}>
+          <div className="space-y-2">{block.exercises.map(renderExercise)}</div>
+        </SortableContext>
+      </DndContext>
+    </div>
+  );
+}
+
 export function WorkoutDetailPage() {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
   const [searchParams, setSearchParams] = useSearchParams();
 
-  const [workout, setWorkout] = useState<any>(null);
+  const [workout, setWorkout] = useState<WorkoutDetail | null>(null);
   const [exercises, setExercises] = useState<WorkoutExercise[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -149,14 +244,24 @@ export function WorkoutDetailPage() {
     }
   };
 
+  const blocks = toBlocks(exercises);
+
+  // Blocks move as a unit, so a group's members stay together
   const handleDragEnd = async (event: DragEndEvent) => {
     const { active, over } = event;
     if (!over || active.id === over.id) return;
 
-    const oldIndex = exercises.findIndex((e) => e.id === active.id);
-    const newIndex = exercises.findIndex((e) => e.id === over.id);
+    const oldIndex = blocks.findIndex((b) => b.id === active.id);
+    const newIndex = blocks.findIndex((b) => b.id === over.id);
 
-    const newExercises = arrayMove(exercises, oldIndex, newIndex);
+    await saveOrder(arrayMove(blocks, oldIndex, newIndex).flatMap((b) => b.exercises));
+  };
+
+  const handleReorderGroup = async (groupId: string, members: WorkoutExercise[]) => {
+    await saveOrder(blocks.flatMap((b) => (b.id === groupId ? members : b.exercises)));
+  };
+
+  const saveOrder = async (newExercises: WorkoutExercise[]) => {
     setExercises(newExercises);
 
     try {
@@ -189,8 +294,7 @@ export function WorkoutDetailPage() {
       setAddingExercise(true);
       
       // Fetch exercise details for optimistic update
-      const allExercises = await exercisesApi.list();
-      const exerciseData = allExercises.data?.find((e: Exercise) => e.id === exerciseId);
+      const exerciseData = await exercisesApi.get(exerciseId);
       
       if (exerciseData) {
         // Create optimistic exercise entry
@@ -285,6 +389,60 @@ export function WorkoutDetailPage() {
     }
   };
 
+  // Save grouping fields on several exercises, showing the result straight away
+  const saveGrouping = async (
+    updates: Array<{ exercise: WorkoutExercise; group_id: string | null; group_type: ExerciseGroupType | null; group_rounds: number | null }>
+  ) => {
+    setExercises(
+      exercises.map((e) => {
+        const update = updates.find((u) => u.exercise.id === e.id);
+        return update ? { ...e, group_id: update.group_id, group_type: update.group_type, group_rounds: update.group_rounds } : e;
+      })
+    );
+
+    try {
+      await Promise.all(
+        updates.map(({ exercise, ...grouping }) => workoutsApi.updateExercise(id!, exercise.id, grouping))
+      );
+    } catch (err: any) {
+      alert(err.message || "Failed to update group");
+    }
+    await loadWorkout();
+  };
+
+  // Join a block with the one below it (starting a superset, or growing a group)
+  const handleGroupWithNext = async (blockIndex: number) => {
+    const [first, second] = [blocks[blockIndex], blocks[blockIndex + 1]];
+    const members = [...first.exercises, ...second.exercises];
+    const groupId = first.group ? first.id : generateClientId();
+    const groupType = defaultGroupType(members.length, first.group?.type);
+    const rounds = first.group?.rounds ?? Math.max(...members.map((e) => e.target_sets));
+
+    await saveGrouping(
+      members.map((exercise) => ({ exercise, group_id: groupId, group_type: groupType, group_rounds: rounds }))
+    );
+  };
+
+  const handleChangeGroup = async (
+    block: ExerciseBlock<WorkoutExercise>,
+    changes: { group_type?: ExerciseGroupType; group_rounds?: number }
+  ) => {
+    await saveGrouping(
+      block.exercises.map((exercise) => ({
+        exercise,
+        group_id: block.id,
+        group_type: changes.group_type ?? block.group!.type,
+        group_rounds: changes.group_rounds ?? block.group!.rounds,
+      }))
+    );
+  };
+
+  const handleUngroup = async (block: ExerciseBlock<WorkoutExercise>) => {
+    await saveGrouping(
+      block.exercises.map((exercise) => ({ exercise, group_id: null, group_type: null, group_rounds: null }))
+    );
+  };
+
   const handleUpdateExercise = async (exerciseId: string, updates: any) => {
     try {
       await workoutsApi.updateExercise(id!, exerciseId, updates);
@@ -376,19 +534,48 @@ export function WorkoutDetailPage() {
               onDragEnd={handleDragEnd}
             >
               <SortableContext
-                items={exercises.map((e) => e.id)}
+                items={blocks.map((b) => b.id)}
                 strategy={verticalListSortingStrategy}
               >
                 <div className="space-y-3">
-                  {exercises.map((exercise) => (
-                    <SortableExerciseItem
-                      key={exercise.id}
-                      exercise={exercise}
-                      onEdit={() => setEditingExercise(exercise)}
-                      onDelete={() => handleDeleteExercise(exercise.id)}
-                      isOptimistic={exercise.id.startsWith('temp-')}
-                    />
-                  ))}
+                  {blocks.map((block, index) => {
+                    const renderExercise = (exercise: WorkoutExercise) => (
+                      <SortableExerciseItem
+                        key={exercise.id}
+                        exercise={exercise}
+                        onEdit={() => setEditingExercise(exercise)}
+                        onDelete={() => handleDeleteExercise(exercise.id)}
+                        isOptimistic={exercise.id.startsWith('temp-')}
+                      />
+                    );
+                    const next = blocks[index + 1];
+                    const canGroupWithNext =
+                      next && ![...block.exercises, ...next.exercises].some((e) => e.id.startsWith("temp-"));
+
+                    return (
+                      <div key={block.id}>
+                        {block.group ? (
+                          <SortableExerciseGroup
+                            block={{ ...block, group: block.group }}
+                            onReorder={(members) => handleReorderGroup(block.id, members)}
+                            onChange={(changes) => handleChangeGroup(block, changes)}
+                            onUngroup={() => handleUngroup(block)}
+                            renderExercise={renderExercise}
+                          />
+                        ) : (
+                          renderExercise(block.exercises[0])
+                        )}
+                        {canGroupWithNext && (
+                          <button
+                            onClick={() => handleGroupWithNext(index)}
+                            className="w-full pt-2 text-gray-500 text-[11px] font-medium active:text-violet-400"
+                          >
+                            ⛓ {block.group ? `Add next to ${GROUP_TYPE_LABELS[block.group.type].toLowerCase()}` : "Superset with next"}
+                          </button>
+                        )}
+                      </div>
+                    );
+                  })}
                 </div>
               </SortableContext>
             </DndContext>
@@ -424,11 +611,39 @@ function ExerciseEditModal({
     target_rpe: exercise.target_rpe,
     rest_seconds: exercise.rest_seconds,
     notes: exercise.notes || "",
+    auto_warmup: exercise.auto_warmup ?? false,
+    target_percent_tm: exercise.target_percent_tm ?? null,
   });
+  // Per-set prescriptions; null while every set just follows the targets above
+  const [prescriptions, setPrescriptions] = useState<SetPrescription[] | null>(
+    exercise.set_prescriptions?.length ? exercise.set_prescriptions : null
+  );
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    onSave(formData);
+    onSave({
+      ...formData,
+      set_prescriptions: prescriptions,
+      target_sets: prescriptions
+        ? Math.max(1, prescriptions.filter((p) => p.type !== "warmup").length)
+        : formData.target_sets,
+    });
+  };
+
+  const updatePrescription = (index: number, changes: Partial<SetPrescription>) => {
+    setPrescriptions((current) => current!.map((p, i) => (i === index ? { ...p, ...changes } : p)));
+  };
+
+  // One top set followed by back-offs, the usual reason to prescribe per set
+  const applyTopSetPreset = () => {
+    setPrescriptions([
+      { type: "top", reps: formData.target_reps_min, rpe: 8 },
+      ...Array.from({ length: Math.max(1, formData.target_sets - 1) }, () => ({
+        type: "backoff" as const,
+        reps: formData.target_reps_max,
+        backoff_percent: 10,
+      })),
+    ]);
   };
 
   return (
@@ -495,6 +710,88 @@ function ExerciseEditModal({
             </div>
           </div>
 
+          {!prescriptions && (
+            <div>
+              <label className="block text-xs text-gray-400 mb-2">Load (% of training max, optional)</label>
+              <input
+                type="number"
+                min="0"
+                max="150"
+                step="2.5"
+                value={formData.target_percent_tm ?? ""}
+                onChange={(e) =>
+                  setFormData({ ...formData, target_percent_tm: e.target.value ? parseFloat(e.target.value) : null })
+                }
+                className="w-full h-11 px-4 bg-black/40 border border-white/10 rounded-xl text-white text-sm focus:outline-none focus:border-gold-500/50"
+                placeholder="e.g. 75"
+              />
+            </div>
+          )}
+
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <label className="text-xs text-gray-400">Per-set prescription</label>
+              <button
+                type="button"
+                onClick={() => setPrescriptions(prescriptions ? null : getPrescriptions(formData))}
+                className="text-gold-500 text-xs font-medium"
+              >
+                {prescriptions ? "Use targets above" : "Customize sets"}
+              </button>
+            </div>
+
+            {prescriptions && (
+              <div className="space-y-2">
+                {prescriptions.map((prescription, index) => (
+                  <PrescriptionRow
+                    key={index}
+                    prescription={prescription}
+                    onChange={(changes) => updatePrescription(index, changes)}
+                    onRemove={() => setPrescriptions(prescriptions.filter((_, i) => i !== index))}
+                  />
+                ))}
+                <div className="flex gap-2">
+                  <button
+                    type="button"
+                    onClick={() =>
+                      setPrescriptions([
+                        ...prescriptions,
+                        prescriptions[prescriptions.length - 1] ?? { type: "working", reps: formData.target_reps_min, rpe: formData.target_rpe },
+                      ])
+                    }
+                    className="flex-1 h-9 bg-white/5 border border-white/10 text-white rounded-lg text-xs font-medium active:bg-white/10"
+                  >
+                    + Add set
+                  </button>
+                  <button
+                    type="button"
+                    onClick={applyTopSetPreset}
+                    className="flex-1 h-9 bg-white/5 border border-white/10 text-white rounded-lg text-xs font-medium active:bg-white/10"
+                  >
+                    Top set + back-offs
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => setPrescriptions(FIVE_THREE_ONE_WEEK)}
+                    className="flex-1 h-9 bg-white/5 border border-white/10 text-white rounded-lg text-xs font-medium active:bg-white/10"
+                  >
+                    5/3/1
+                  </button>
+                </div>
+              </div>
+            )}
+
+            <label className="flex items-center gap-2 mt-3 text-xs text-gray-400">
+              <input
+                type="checkbox"
+                checked={formData.auto_warmup}
+                onChange={(e) => setFormData({ ...formData, auto_warmup: e.target.checked })}
+                className="accent-gold-500"
+              />
+              Add warm-up sets ramping up to the working weight
+            </label>
+          </div>
+
           <div>
             <label className="block text-xs text-gray-400 mb-2">Rest (seconds)</label>
             <input
@@ -531,3 +828,99 @@ function ExerciseEditModal({
     </div>
   );
 }
+
+// First week of a 5/3/1 cycle: 65/75/85% of the training max for 5, 5 and 5+
+const FIVE_THREE_ONE_WEEK: SetPrescription[] = [65, 75, 85].map((percent) => ({
+  type: "working",
+  reps: 5,
+  percent_tm: percent,
+}));
+
+const LOAD_MODE_DEFAULTS: Record<string, number> = { rpe: 8, percent: 75, training_max: 75, backoff: 10 };
+
+// One prescribed set: its type, reps and either an RPE, a %1RM load or (for back-offs) a drop from the top set
+function PrescriptionRow({
+  prescription,
+  onChange,
+  onRemove,
+}: {
+  prescription: SetPrescription;
+  onChange: (changes: Partial<SetPrescription>) => void;
+  onRemove: () => void;
+}) {
+  const inputClass =
+    "w-full h-9 px-2 bg-black/40 border border-white/10 rounded-lg text-white text-xs focus:outline-none focus:border-gold-500/50";
+  const loadMode =
+    prescription.backoff_percent !== undefined
+      ? "backoff"
+      : prescription.percent_tm !== undefined
+      ? "training_max"
+      : prescription.percent_1rm !== undefined
+      ? "percent"
+      : "rpe";
+  const loadValue = {
+    backoff: prescription.backoff_percent,
+    training_max: prescription.percent_tm,
+    percent: prescription.percent_1rm,
+    rpe: prescription.rpe,
+  }[loadMode];
+
+  const setLoad = (mode: string, value?: number) => {
+    onChange({
+      rpe: mode === "rpe" ? value : undefined,
+      percent_1rm: mode === "percent" ? value : undefined,
+      percent_tm: mode === "training_max" ? value : undefined,
+      backoff_percent: mode === "backoff" ? value : undefined,
+    });
+  };
+
+  return (
+    <div className="grid grid-cols-[1.2fr_0.7fr_1fr_0.7fr_auto] gap-1.5 items-center">
+      <select
+        value={prescription.type}
+        onChange={(e) => onChange({ type: e.target.value as SetType })}
+        className={inputClass}
+      >
+        {(Object.keys(SET_TYPE_LABELS) as SetType[]).map((type) => (
+          <option key={type} value={type} className="bg-black">
+            {SET_TYPE_LABELS[type]}
+          </option>
+        ))}
+      </select>
+      <input
+        type="number"
+        min="1"
+        value={prescription.reps}
+        onChange={(e) => onChange({ reps: parseInt(e.target.value) || 1 })}
+        className={inputClass}
+        aria-label="Reps"
+      />
+      <select
+        value={loadMode}
+        onChange={(e) => setLoad(e.target.value, LOAD_MODE_DEFAULTS[e.target.value])}
+        className={inputClass}
+      >
+        <option value="rpe" className="bg-black">RPE</option>
+        <option value="percent" className="bg-black">% 1RM</option>
+        <option value="training_max" className="bg-black">% TM</option>
+        {prescription.type === "backoff" && (
+          <option value="backoff" className="bg-black">% below top</option>
+        )}
+      </select>
+      <input
+        type="number"
+        min="0"
+        step="0.5"
+        value={loadValue ?? ""}
+        onChange={(e) =>
+          setLoad(loadMode, e.target.value === "" && loadMode === "rpe" ? undefined : parseFloat(e.target.value) || 0)
+        }
+        className={inputClass}
+        aria-label="Load"
+      />
+      <button type="button" onClick={onRemove} className="px-1.5 text-red-400 text-sm">
+        ×
+      </button>
+    </div>
+  );
+}
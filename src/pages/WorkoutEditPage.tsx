@@ -1,6 +1,6 @@
 import { useState, useEffect } from "react";
 import { useParams, useNavigate, useSearchParams } from "react-router-dom";
-import { workoutsApi, programsApi } from "../services/api";
+import { workoutsApi, programsApi, type ProgramDetail } from "../services/api";
 import { PageLayout } from "../components/PageLayout";
 
 export function WorkoutEditPage() {
@@ -17,7 +17,7 @@ export function WorkoutEditPage() {
     estimated_duration_minutes: 60,
   });
 
-  const [program, setProgram] = useState<any>(null);
+  const [program, setProgram] = useState<ProgramDetail | null>(null);
   const [loading, setLoading] = useState(!isNew);
   const [saving, setSaving] = useState(false);
   const [error, setError] = useState<string | null>(null);
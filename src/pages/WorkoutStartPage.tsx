@@ -1,6 +1,8 @@
 import { useState, useEffect } from "react";
 import { useNavigate } from "react-router-dom";
-import { programsApi, sessionsApi, type Program, type Workout } from "../services/api";
+import { programsApi, sessionsApi, workoutsApi, type Program, type Workout } from "../services/api";
+import { queryCache } from "../services/queryCache";
+import { programCalendar, type ProgramPosition } from "../services/periodization";
 import { PageLayout } from "../components/PageLayout";
 import { LastSessionSummary } from "../components/LastSessionSummary";
 
@@ -12,37 +14,62 @@ export function WorkoutStartPage() {
   const navigate = useNavigate();
   const [programs, setPrograms] = useState<ProgramWithWorkouts[]>([]);
   const [activeProgram, setActiveProgram] = useState<ProgramWithWorkouts | null>(null);
+  const [position, setPosition] = useState<ProgramPosition | null>(null);
+  const [expandedProgramId, setExpandedProgramId] = useState<string | null>(null);
+  const [loadingProgramId, setLoadingProgramId] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [startingWorkout, setStartingWorkout] = useState<string | null>(null);
 
   useEffect(() => {
     loadPrograms();
+    // Pick up fresh data when a stale list is revalidated or a program is edited elsewhere
+    return queryCache.subscribe("/programs", () => {
+      loadPrograms(false);
+    });
   }, []);
 
-  const loadPrograms = async () => {
+  const loadPrograms = async (showLoading = true) => {
     try {
-      setLoading(true);
+      if (showLoading) setLoading(true);
       setError(null);
       const response = await programsApi.list();
-      const programsList = response.data || [];
-      
-      const programsWithWorkouts = await Promise.all(
-        programsList.map(async (p: Program) => {
-          try {
-            const programDetail = await programsApi.get(p.id);
-            return { ...p, workouts: programDetail.workouts || [] };
-          } catch {
-            return { ...p, workouts: [] };
-          }
-        })
-      );
-      
-      setPrograms(programsWithWorkouts);
-      
-      const active = programsWithWorkouts.find((p) => p.is_active);
+      const programsList: ProgramWithWorkouts[] = response.data || [];
+
+      // Only the active program's workouts are needed up front; the rest load when expanded
+      const active = programsList.find((p) => p.is_active);
       if (active) {
-        setActiveProgram(active);
+        try {
+          const programDetail = await programsApi.get(active.id);
+          active.workouts = programDetail.workouts || [];
+        } catch {
+          active.workouts = [];
+        }
+      }
+
+      setPrograms((previous) =>
+        programsList.map((p) => (p.workouts ? p : { ...p, workouts: previous.find((old) => old.id === p.id)?.workouts }))
+      );
+      setActiveProgram(active ?? null);
+
+      if (active?.workouts?.length) {
+        // Work out which week and day of the active program comes next from its completed sessions
+        try {
+          // Sessions from before a dated program's start can't move its position
+          const sessions = await sessionsApi.listAll({ since: active.start_date });
+          setPosition(programCalendar(active, active.workouts, sessions).position);
+        } catch {
+          setPosition(null);
+        }
+      } else {
+        setPosition(null);
+      }
+
+      if (active && navigator.onLine) {
+        // Warm the offline cache so the active program's workouts can be started without signal
+        active.workouts?.forEach((workout: Workout) => {
+          workoutsApi.get(workout.id).catch(() => {});
+        });
       }
     } catch (err: any) {
       setError(err.message || "Failed to load programs");
@@ -51,6 +78,27 @@ export function WorkoutStartPage() {
     }
   };
 
+  const handleToggleProgram = async (program: ProgramWithWorkouts) => {
+    if (expandedProgramId === program.id) {
+      setExpandedProgramId(null);
+      return;
+    }
+    setExpandedProgramId(program.id);
+    if (program.workouts) return;
+
+    try {
+      setLoadingProgramId(program.id);
+      const programDetail = await programsApi.get(program.id);
+      setPrograms((previous) =>
+        previous.map((p) => (p.id === program.id ? { ...p, workouts: programDetail.workouts || [] } : p))
+      );
+    } catch {
+      setPrograms((previous) => previous.map((p) => (p.id === program.id ? { ...p, workouts: [] } : p)));
+    } finally {
+      setLoadingProgramId(null);
+    }
+  };
+
   const handleStartWorkout = async (workoutId: string) => {
     try {
       setStartingWorkout(workoutId);
@@ -102,12 +150,30 @@ export function WorkoutStartPage() {
                 <p className="text-white font-semibold text-sm">Suggested Workout</p>
                 <p className="text-gray-500 text-xs">{activeProgram.name}</p>
               </div>
+              {position && (
+                <div className="text-right">
+                  <p className="text-gold-500 text-xs font-semibold">
+                    {position.finished
+                      ? "Program complete"
+                      : position.workout
+                      ? `Week ${position.week}, Day ${position.workout.day_number}`
+                      : `Week ${position.week} done`}
+                  </p>
+                  {position.plan && !position.finished && (
+                    <p className={`text-[10px] ${position.plan.is_deload ? "text-sky-400" : "text-gray-500"}`}>
+                      {position.plan.is_deload
+                        ? "Deload week"
+                        : `${position.plan.volume_percent}% volume · ${position.plan.intensity_percent}% intensity`}
+                    </p>
+                  )}
+                </div>
+              )}
             </div>
           </div>
           
           <div className="divide-y divide-white/5">
             {activeProgram.workouts.map((workout) => (
-              <div key={workout.id}>
+              <div key={workout.id} className={workout.id === position?.workout?.id ? "bg-gold-500/5" : ""}>
                 <button
                   onClick={() => handleStartWorkout(workout.id)}
                   disabled={startingWorkout === workout.id}
@@ -117,7 +183,14 @@ export function WorkoutStartPage() {
                     <span className="text-white font-bold text-sm">D{workout.day_number}</span>
                   </div>
                   <div className="flex-1 text-left">
-                    <p className="text-white font-medium text-sm">{workout.name}</p>
+                    <p className="text-white font-medium text-sm">
+                      {workout.name}
+                      {workout.id === position?.workout?.id && (
+                        <span className="ml-2 px-2 py-0.5 bg-gold-500/20 text-gold-500 rounded-full text-[10px] font-medium">
+                          Up next
+                        </span>
+                      )}
+                    </p>
                     <div className="flex gap-2 text-gray-500 text-xs">
                       <span>{workout.exercise_count || 0} exercises</span>
                       {workout.estimated_duration_minutes && (
@@ -164,50 +237,64 @@ export function WorkoutStartPage() {
         </div>
         
         <div className="divide-y divide-white/5">
-          {programs.map((program) => (
-            <div key={program.id} className="p-4">
-              <div className="flex items-center justify-between mb-3">
-                <div className="flex items-center gap-2">
-                  <p className="text-white font-medium text-sm">{program.name}</p>
-                  {program.is_active && (
-                    <span className="px-2 py-0.5 bg-gold-500/20 text-gold-500 rounded-full text-[10px] font-medium">
-                      Active
-                    </span>
-                  )}
-                </div>
-              </div>
-              
-              {program.workouts && program.workouts.length > 0 ? (
-                <div className="space-y-2">
-                  {program.workouts.map((workout) => (
+          {programs.map((program) => {
+            const isExpanded = program.id === expandedProgramId || program.id === activeProgram?.id;
+
+            return (
+              <div key={program.id} className="p-4">
+                <button
+                  onClick={() => handleToggleProgram(program)}
+                  className={`w-full flex items-center justify-between ${isExpanded ? "mb-3" : ""}`}
+                >
+                  <div className="flex items-center gap-2">
+                    <p className="text-white font-medium text-sm">{program.name}</p>
+                    {program.is_active && (
+                      <span className="px-2 py-0.5 bg-gold-500/20 text-gold-500 rounded-full text-[10px] font-medium">
+                        Active
+                      </span>
+                    )}
+                  </div>
+                  <span className="text-gray-500 text-xs">
+                    {program.workout_count !== undefined && `${program.workout_count} workouts `}
+                    {isExpanded ? "▲" : "▼"}
+                  </span>
+                </button>
+
+                {isExpanded &&
+                  (loadingProgramId === program.id ? (
+                    <p className="text-gray-500 text-xs">Loading...</p>
+                  ) : program.workouts && program.workouts.length > 0 ? (
+                    <div className="space-y-2">
+                      {program.workouts.map((workout) => (
+                        <button
+                          key={workout.id}
+                          onClick={() => handleStartWorkout(workout.id)}
+                          disabled={startingWorkout === workout.id}
+                          className="w-full p-3 bg-black/30 rounded-xl flex items-center justify-between active:bg-black/50 transition-colors disabled:opacity-50"
+                        >
+                          <div className="flex items-center gap-3">
+                            <div className="w-8 h-8 rounded-lg bg-white/5 flex items-center justify-center text-gray-400 text-xs font-medium">
+                              D{workout.day_number}
+                            </div>
+                            <span className="text-gray-300 text-sm">{workout.name}</span>
+                          </div>
+                          <span className="text-gold-500 text-xs font-medium">
+                            {startingWorkout === workout.id ? "..." : "Start"}
+                          </span>
+                        </button>
+                      ))}
+                    </div>
+                  ) : (
                     <button
-                      key={workout.id}
-                      onClick={() => handleStartWorkout(workout.id)}
-                      disabled={startingWorkout === workout.id}
-                      className="w-full p-3 bg-black/30 rounded-xl flex items-center justify-between active:bg-black/50 transition-colors disabled:opacity-50"
+                      onClick={() => navigate(`/programs/${program.id}`)}
+                      className="text-gold-500 text-xs"
                     >
-                      <div className="flex items-center gap-3">
-                        <div className="w-8 h-8 rounded-lg bg-white/5 flex items-center justify-center text-gray-400 text-xs font-medium">
-                          D{workout.day_number}
-                        </div>
-                        <span className="text-gray-300 text-sm">{workout.name}</span>
-                      </div>
-                      <span className="text-gold-500 text-xs font-medium">
-                        {startingWorkout === workout.id ? "..." : "Start"}
-                      </span>
+                      Add workouts →
                     </button>
                   ))}
-                </div>
-              ) : (
-                <button
-                  onClick={() => navigate(`/programs/${program.id}`)}
-                  className="text-gold-500 text-xs"
-                >
-                  Add workouts →
-                </button>
-              )}
-            </div>
-          ))}
+              </div>
+            );
+          })}
         </div>
       </div>
 
@@ -0,0 +1,321 @@
+import { analyticsApi, sessionsApi, setsApi, usersApi, weightLogsApi } from "./api";
+import type { Exercise, PersonalRecord, Set, UserProfile, WeightLog } from "./schemas";
+import { createZip, toCsv } from "./files";
+import { loadTypeOf } from "./loadTypes";
+import { formatSetResult, trackingModeOf } from "./trackingModes";
+import { unitsFor } from "./units";
+
+// Everything the account holds, gathered client-side for a data export
+// - the zip has one CSV per entity, keyed by id so they join back together, plus the whole thing as JSON
+// - the training log is a printable HTML page of the sessions in a date range
+// Sessions come from the paginated session list and their sets from one request per session,
+// so a long history takes a while; progress is reported as each session is fetched
+
+export const EXPORT_FORMAT = "fitforge-account";
+export const EXPORT_VERSION = 1;
+
+export const ALL_TIME_DAYS = 36500; // Weight logs are listed by how many days back to go
+
+export interface ExportedSession {
+  id: string;
+  workout_id?: string;
+  workout_name?: string;
+  session_date?: string;
+  completed_at?: string;
+  sets: Set[];
+}
+
+export interface AccountData {
+  format: typeof EXPORT_FORMAT;
+  version: number;
+  exported_at: string;
+  profile: UserProfile;
+  exercises: Exercise[]; // Every exercise the sets refer to
+  sessions: ExportedSession[];
+  weight_logs: WeightLog[];
+  personal_records: PersonalRecord[];
+}
+
+export interface ExportProgress {
+  stage: string;
+  done: number;
+  total: number;
+}
+
+export interface ExportRange {
+  from?: string; // ISO dates, inclusive
+  to?: string;
+}
+
+function inRange(date: string | undefined, range: ExportRange): boolean {
+  if (!date) return !range.from && !range.to;
+  const day = date.slice(0, 10);
+  return (!range.from || day >= range.from) && (!range.to || day <= range.to);
+}
+
+// Gather the account's data; a range limits the sessions fetched (weight logs and PRs are always included)
+// Stops with an error if shouldStop returns true between sessions
+export async function collectAccountData(
+  onProgress: (progress: ExportProgress) => void,
+  options: { range?: ExportRange; shouldStop?: () => boolean } = {}
+): Promise<AccountData> {
+  const range = options.range ?? {};
+  const profile = await usersApi.getMe();
+  const listed = (
+    await sessionsApi.listAll({
+      since: range.from,
+      onPage: (done) => onProgress({ stage: "Listing sessions", done, total: 0 }),
+    })
+  ).filter((session) => inRange(session.session_date, range));
+
+  const exercises = new Map<string, Exercise>();
+  const sessions: ExportedSession[] = [];
+  for (const [index, session] of listed.entries()) {
+    if (options.shouldStop?.()) throw new Error("Export cancelled");
+    onProgress({ stage: "Fetching sets", done: index, total: listed.length });
+
+    const sessionSets = await setsApi.getBySession(session.id);
+    const sets: Set[] = [];
+    for (const group of sessionSets.exercises) {
+      if (group.exercise) exercises.set(group.exercise.id, group.exercise);
+      // Strip the embedded exercise; it goes in its own table
+      sets.push(...group.sets.map(({ exercise, ...set }) => set));
+    }
+    sessions.push({ ...session, sets: sets.sort((a, b) => a.completed_at.localeCompare(b.completed_at)) });
+  }
+
+  onProgress({ stage: "Fetching weight logs and records", done: listed.length, total: listed.length });
+  const [weightLogs, personalRecords] = await Promise.all([
+    weightLogsApi.list(ALL_TIME_DAYS),
+    analyticsApi.getPersonalRecords(),
+  ]);
+
+  return {
+    format: EXPORT_FORMAT,
+    version: EXPORT_VERSION,
+    exported_at: new Date().toISOString(),
+    profile,
+    exercises: [...exercises.values()].sort((a, b) => a.name.localeCompare(b.name)),
+    sessions: sessions.sort((a, b) => (a.session_date ?? "").localeCompare(b.session_date ?? "")),
+    weight_logs: weightLogs.data,
+    personal_records: personalRecords,
+  };
+}
+
+// The export as a zip: a CSV per entity and the full JSON
+export function accountZip(data: AccountData): Uint8Array<ArrayBuffer> {
+  const { profile } = data;
+  const profileCsv = toCsv(
+    [
+      "id",
+      "email",
+      "name",
+      "height_cm",
+      "current_weight_kg",
+      "body_fat_percent",
+      "date_of_birth",
+      "gender",
+      "unit_preference",
+      "created_at",
+    ],
+    [
+      [
+        profile.id,
+        profile.email,
+        profile.name,
+        profile.height_cm,
+        profile.current_weight_kg,
+        profile.body_fat_percent,
+        profile.date_of_birth,
+        profile.gender,
+        profile.unit_preference,
+        profile.created_at,
+      ],
+    ]
+  );
+
+  const exercisesCsv = toCsv(
+    [
+      "id",
+      "name",
+      "muscle_group",
+      "equipment",
+      "load_type",
+      "tracking_mode",
+      "is_compound",
+      "is_unilateral",
+      "is_custom",
+    ],
+    data.exercises.map((e) => [
+      e.id,
+      e.name,
+      e.muscle_group.name,
+      e.equipment,
+      loadTypeOf(e),
+      trackingModeOf(e),
+      e.is_compound,
+      e.is_unilateral,
+      e.is_custom,
+    ])
+  );
+
+  const sessionsCsv = toCsv(
+    ["id", "workout_id", "workout_name", "session_date", "completed_at", "set_count"],
+    data.sessions.map((session) => [
+      session.id,
+      session.workout_id,
+      session.workout_name,
+      session.session_date,
+      session.completed_at,
+      session.sets.length,
+    ])
+  );
+
+  const setsCsv = toCsv(
+    [
+      "id",
+      "session_id",
+      "exercise_id",
+      "set_number",
+      "weight_kg",
+      "bodyweight_kg",
+      "reps",
+      "duration_seconds",
+      "distance_m",
+      "calories",
+      "rpe",
+      "is_warmup",
+      "is_failure",
+      "is_dropset",
+      "rest_seconds",
+      "notes",
+      "completed_at",
+    ],
+    data.sessions.flatMap((session) =>
+      session.sets.map((set) => [
+        set.id,
+        session.id,
+        set.exercise_id,
+        set.set_number,
+        set.weight_kg,
+        set.bodyweight_kg,
+        set.reps,
+        set.duration_seconds,
+        set.distance_m,
+        set.calories,
+        set.rpe,
+        set.is_warmup,
+        set.is_failure,
+        set.is_dropset,
+        set.rest_seconds,
+        set.notes,
+        set.completed_at,
+      ])
+    )
+  );
+
+  const weightLogsCsv = toCsv(
+    ["id", "logged_date", "time_of_day", "weight_kg", "notes"],
+    data.weight_logs.map((log) => [log.id, log.logged_date, log.time_of_day, log.weight_kg, log.notes])
+  );
+
+  const recordsCsv = toCsv(
+    ["exercise_id", "exercise_name", "muscle_group", "estimated_1rm", "best_weight", "best_reps", "date_achieved"],
+    data.personal_records.map((record) => [
+      record.exercise_id,
+      record.exercise_name,
+      record.muscle_group,
+      record.estimated_1rm,
+      record.best_weight,
+      record.best_reps,
+      record.date_achieved,
+    ])
+  );
+
+  return createZip([
+    { name: "profile.csv", content: profileCsv },
+    { name: "exercises.csv", content: exercisesCsv },
+    { name: "sessions.csv", content: sessionsCsv },
+    { name: "sets.csv", content: setsCsv },
+    { name: "weight_logs.csv", content: weightLogsCsv },
+    { name: "personal_records.csv", content: recordsCsv },
+    { name: "fitforge-data.json", content: JSON.stringify(data, null, 2) },
+  ]);
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`);
+}
+
+function formatDate(date: string | undefined): string {
+  if (!date) return "Undated";
+  return new Date(`${date.slice(0, 10)}T00:00:00`).toLocaleDateString("en-US", {
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+  });
+}
+
+// A standalone HTML page of the sessions, one block per session with its sets grouped by exercise
+export function trainingLogHtml(data: AccountData, range: ExportRange): string {
+  const exercises = new Map(data.exercises.map((exercise) => [exercise.id, exercise]));
+  const sessions = data.sessions.filter((session) => inRange(session.session_date, range));
+  const units = unitsFor("metric");
+  const title = `Training log${range.from ? ` from ${formatDate(range.from)}` : ""}${
+    range.to ? ` to ${formatDate(range.to)}` : ""
+  }`;
+
+  const sessionBlocks = sessions.map((session) => {
+    const byExercise = new Map<string, Set[]>();
+    session.sets.forEach((set) => byExercise.set(set.exercise_id, [...(byExercise.get(set.exercise_id) ?? []), set]));
+    const volume = session.sets
+      .filter((set) => !set.is_warmup)
+      .reduce((sum, set) => sum + set.weight_kg * set.reps, 0);
+
+    const rows = [...byExercise.entries()].map(([exerciseId, sets]) => {
+      const exercise = exercises.get(exerciseId);
+      const mode = exercise ? trackingModeOf(exercise) : "reps";
+      const loadType = exercise ? loadTypeOf(exercise) : "external";
+      const setText = sets
+        .map((set) => {
+          const marks = [set.is_warmup && "W", set.is_failure && "F", set.is_dropset && "D"].filter(Boolean);
+          const rpe = set.rpe ? ` @${set.rpe}` : "";
+          return `${formatSetResult(mode, loadType, set, units)}${rpe}${marks.length ? ` (${marks.join("")})` : ""}`;
+        })
+        .join(", ");
+      return `<tr><td>${escapeHtml(exercise?.name ?? "Unknown exercise")}</td><td>${setText}</td></tr>`;
+    });
+
+    return `<section>
+  <h2>${formatDate(session.session_date)} — ${escapeHtml(session.workout_name ?? "Workout")}</h2>
+  <p class="meta">${session.sets.length} sets · ${Math.round(volume).toLocaleString()} kg volume</p>
+  ${rows.length ? `<table>${rows.join("")}</table>` : `<p class="meta">No sets logged</p>`}
+</section>`;
+  });
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>
+  body { font-family: system-ui, sans-serif; color: #111; margin: 2rem; font-size: 12px; }
+  h1 { font-size: 18px; margin: 0 0 0.25rem; }
+  h2 { font-size: 14px; margin: 0 0 0.25rem; }
+  section { break-inside: avoid; border-top: 1px solid #ccc; padding: 0.75rem 0; }
+  table { border-collapse: collapse; width: 100%; }
+  td { padding: 2px 8px 2px 0; vertical-align: top; }
+  td:first-child { width: 30%; font-weight: 600; }
+  .meta { color: #666; margin: 0 0 0.5rem; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(title)}</h1>
+<p class="meta">${escapeHtml(data.profile.name || data.profile.email)} · ${sessions.length} sessions ·
+W warm-up, F to failure, D drop set</p>
+${sessionBlocks.join("\n") || "<p>No sessions in this range.</p>"}
+</body>
+</html>
+`;
+}
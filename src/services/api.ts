@@ -1,17 +1,196 @@
-import axios from "axios";
+import axios, { type AxiosRequestConfig } from "axios";
+import { isAuthRetryableFetchError, type Session as AuthSession } from "@supabase/supabase-js";
 import { supabase } from "../lib/supabase";
-import { offlineService } from "./offline";
+import { offlineService, isLocalSessionId, generateClientId, type PendingOperation } from "./offline";
+import { queryCache } from "./queryCache";
+import { s, parseWith, type Schema } from "./schema";
+import {
+  type Exercise,
+  programSchema,
+  programListSchema,
+  programDetailSchema,
+  programCreateSchema,
+  programUpdateSchema,
+  workoutSchema,
+  workoutDetailSchema,
+  workoutCreateSchema,
+  workoutUpdateSchema,
+  workoutExerciseSchema,
+  workoutExerciseCreateSchema,
+  workoutExerciseUpdateSchema,
+  exerciseSchema,
+  exerciseListSchema,
+  exerciseCreateSchema,
+  muscleGroupListSchema,
+  sessionSchema,
+  sessionListSchema,
+  sessionCompleteSchema,
+  sessionCompletedSchema,
+  lastSessionSchema,
+  sessionImportSchema,
+  sessionImportResultSchema,
+  setSchema,
+  setCreateSchema,
+  setUpdateSchema,
+  sessionSetsSchema,
+  exerciseHistorySchema,
+  weightLogSchema,
+  weightLogListSchema,
+  weightLogCreateSchema,
+  weightLogUpdateSchema,
+  recentExerciseListSchema,
+  volumePerMuscleGroupSchema,
+  oneRepMaxSchema,
+  trainingMaxSchema,
+  trainingMaxListSchema,
+  trainingMaxSaveSchema,
+  oneRepMaxHistorySchema,
+  workoutConsistencySchema,
+  weightTrendSchema,
+  personalRecordListSchema,
+  progressiveOverloadSuggestionSchema,
+  dashboardStatsSchema,
+  userProfileSchema,
+  userProfileUpdateSchema,
+  bmrTdeeSchema,
+  type ProgramCreate,
+  type ProgramDetail,
+  type WorkoutCreate,
+  type WorkoutDetail,
+  type WorkoutExerciseCreate,
+  type ExerciseCreate,
+  type Session,
+  type SessionListItem,
+  type SessionComplete,
+  type ImportedSession,
+  type Set,
+  type SetCreate,
+  type SessionSets,
+  type WeightLog,
+  type WeightLogCreate,
+  type WeightLogUpdate,
+  type PersonalRecord,
+  type UserProfileUpdate,
+  type ActivityLevel,
+  type TrainingMaxSave,
+} from "./schemas";
 
 const API_URL = import.meta.env.VITE_API_URL || "https://fitforge-tacking-backend.onrender.com";
 
 // Check if online
 const isOnline = () => navigator.onLine;
 
+// Thrown for a request rejected with 401 when the session could not be refreshed
+export class SessionExpiredError extends Error {
+  status = 401;
+
+  constructor() {
+    super("Your session has expired. Sign in again to save to your account.");
+    this.name = "SessionExpiredError";
+  }
+}
+
+// Check if a request could not be made: the server could not be reached, or the session
+// expired and could not be refreshed. Writes that fail this way are queued offline.
+const isUnreachable = (error: any) =>
+  error?.code === "ERR_NETWORK" || error instanceof SessionExpiredError || !isOnline();
+
+// Request config carrying a client-generated idempotency key, so a retried write is applied once
+const withIdempotencyKey = (clientId: string) => ({
+  headers: { "Idempotency-Key": clientId },
+});
+
+// Check a request body against its schema before it is sent or queued,
+// so bad input is caught here rather than after it has been queued offline
+const checkBody = <T>(schema: Schema<T>, body: T): T => parseWith(schema, body, "request body");
+
 // Create axios instance with auth interceptor
 export const api = axios.create({
   baseURL: `${API_URL}/api/v1`,
 });
 
+// Session expiry
+// When the token cannot be refreshed the app keeps running on the offline queue and asks the
+// same account to sign in again, instead of signing out and leaving the current page
+export interface ExpiredAccount {
+  userId: string;
+  email?: string;
+}
+
+let sessionExpired = false;
+let signingOut = false; // The next end of session was asked for by the user
+let signedInEmail: string | undefined;
+let sessionExpiryListeners: Array<(expired: boolean) => void> = [];
+
+const setSessionExpired = (expired: boolean) => {
+  if (sessionExpired === expired) return;
+  sessionExpired = expired;
+  sessionExpiryListeners.forEach((cb) => cb(expired));
+};
+
+export const sessionExpiry = {
+  isExpired: () => sessionExpired,
+
+  // The account that has to sign in again
+  getAccount: (): ExpiredAccount | null =>
+    sessionExpired && signedInUserId ? { userId: signedInUserId, email: signedInEmail } : null,
+
+  onChange: (callback: (expired: boolean) => void) => {
+    sessionExpiryListeners.push(callback);
+    return () => {
+      sessionExpiryListeners = sessionExpiryListeners.filter((cb) => cb !== callback);
+    };
+  },
+
+  // Called before signing out on purpose, so the session ending is not taken for an expiry
+  beginSignOut: () => {
+    signingOut = true;
+    if (!sessionExpired) return;
+    setSessionExpired(false);
+    applySession(null);
+  },
+};
+
+// Scope the offline queue to the signed-in account and keep the service worker's
+// copy of the access token current for background sync
+let signedInUserId: string | null = null;
+const applySession = (session: AuthSession | null) => {
+  const userId = session?.user.id ?? null;
+  signedInEmail = session?.user.email;
+  if (session && sessionExpired) {
+    setSessionExpired(false);
+    // Send whatever was queued while signed out
+    setTimeout(syncPendingItems, 0);
+  }
+  if (userId !== signedInUserId) {
+    // Responses cached in memory belong to the previous account
+    signedInUserId = userId;
+    queryCache.reset();
+  }
+  offlineService
+    .setCurrentUser(userId)
+    .then(() => syncService.notifyStatusChange())
+    .catch((err) => console.warn("[Sync] Failed to switch offline queue account:", err));
+  offlineService
+    .saveSyncCredentials(
+      session?.access_token && userId
+        ? { apiUrl: `${API_URL}/api/v1`, accessToken: session.access_token, expiresAt: session.expires_at, userId }
+        : null
+    )
+    .catch((err) => console.warn("[Sync] Failed to store background sync credentials:", err));
+};
+
+supabase.auth.onAuthStateChange((_event, session) => {
+  if (!session && signedInUserId && !signingOut) {
+    // The session ended without the user signing out (the refresh token expired or was revoked):
+    // keep the account's queue and cache in place until it signs in again
+    setSessionExpired(true);
+    return;
+  }
+  if (!session) signingOut = false;
+  applySession(session);
+});
+
 // Add auth token to requests
 api.interceptors.request.use(async (config) => {
   const { data: { session } } = await supabase.auth.getSession();
@@ -24,6 +203,77 @@ api.interceptors.request.use(async (config) => {
   return config;
 });
 
+// Cached queries a write can change, by the kind of row it writes
+const AFFECTED_QUERIES = {
+  program: ["/programs"],
+  exercise: ["/exercises"],
+  session: ["/sessions", "/sets", "/analytics"],
+  set: ["/sets", "/sessions", "/analytics"],
+  weightLog: ["/weight-logs", "/analytics"],
+  user: ["/users"],
+  trainingMax: ["/training-maxes"],
+};
+type Resource = keyof typeof AFFECTED_QUERIES;
+
+const invalidate = (resource: Resource) => queryCache.invalidate(AFFECTED_QUERIES[resource]);
+
+// Cached responses are stored per account, so reads wait until the saved session is known
+const accountReady = supabase.auth
+  .getSession()
+  .then(({ data: { session } }) => offlineService.setCurrentUser(session?.user.id ?? null))
+  .catch((err) => console.warn("[API] Failed to load the saved session:", err));
+
+// GET an endpoint through the query cache and check the response against its schema
+// If the server cannot be reached, the last known response is used even after a write expired it
+// The query cache only asks when it wants fresh data, so the request skips the service worker's cached copy
+const getJson = async <T>(url: string, schema: Schema<T>): Promise<T> => {
+  await accountReady;
+  return queryCache.fetch(
+    url,
+    async () => {
+      const { data } = await api.get(url, { adapter: "fetch", fetchOptions: { cache: "no-store" } });
+      return parseWith(schema, data, `GET ${url}`);
+    },
+    schema,
+    { canServeExpired: isUnreachable }
+  );
+};
+
+// Send a body to an endpoint and check the response against its schema
+const sendJson = async <T>(
+  method: "post" | "put" | "patch",
+  url: string,
+  body: unknown,
+  schema: Schema<T>,
+  options: { invalidates?: Resource; config?: AxiosRequestConfig } = {}
+): Promise<T> => {
+  const { data } = await api[method](url, body, options.config);
+  const parsed = parseWith(schema, data, `${method.toUpperCase()} ${url}`);
+  if (options.invalidates) await invalidate(options.invalidates);
+  return parsed;
+};
+
+// Delete a row and expire the cached queries that showed it
+const sendDelete = async (url: string, invalidates: Resource) => {
+  await api.delete(url);
+  await invalidate(invalidates);
+};
+
+// Refresh the session once for every burst of 401s
+let refreshing: Promise<string | null> | null = null;
+const refreshAccessToken = () => {
+  refreshing ??= supabase.auth
+    .refreshSession()
+    .then(({ data, error }) => {
+      if (error && isAuthRetryableFetchError(error)) throw Object.assign(error, { code: "ERR_NETWORK" });
+      return data.session?.access_token ?? null;
+    })
+    .finally(() => {
+      refreshing = null;
+    });
+  return refreshing;
+};
+
 // Handle errors and offline detection
 api.interceptors.response.use(
   (response) => response,
@@ -34,36 +284,136 @@ api.interceptors.response.use(
     if (!isOnline() || error.code === "ERR_NETWORK") {
       console.log("[API] Offline detected, request will be queued");
     }
-    
-    // Don't auto-redirect on 401 - let the page handle it
-    // The ProtectedRoute will redirect if there's no session
+
+    // The token expired: refresh it and replay the request once
+    const config = error.config;
+    if (error.response?.status === 401 && config && !config._retried) {
+      if (sessionExpired) return Promise.reject(new SessionExpiredError());
+      const accessToken = await refreshAccessToken();
+      if (!accessToken) {
+        console.warn("[API] Session could not be refreshed");
+        setSessionExpired(true);
+        return Promise.reject(new SessionExpiredError());
+      }
+      config._retried = true;
+      config.headers.Authorization = `Bearer ${accessToken}`;
+      return api(config);
+    }
+
     return Promise.reject(error);
   }
 );
 
 // Sync status
+export interface SyncStatus {
+  isSyncing: boolean; // true while any tab is syncing
+  pendingCount: number;
+  failedCount: number; // Dead-lettered items waiting for the user on the Sync issues page
+  unclaimedCount: number; // Items queued before accounts were kept apart, waiting to be claimed or discarded
+  progress?: { done: number; total: number };
+}
+
 let isSyncing = false;
-let syncStatusListeners: Array<(status: { isSyncing: boolean; pendingCount: number }) => void> = [];
+let syncProgress: SyncStatus["progress"];
+let syncStatusListeners: Array<(status: SyncStatus) => void> = [];
+
+// Tabs share one IndexedDB queue: a Web Lock makes sure only one of them drains it at a
+// time, and a BroadcastChannel lets every tab show the syncing tab's progress
+const SYNC_LOCK_NAME = "fitforge-sync";
+const SYNC_LEADER_LOCK_NAME = "fitforge-sync-leader";
+const syncChannel = typeof BroadcastChannel !== "undefined" ? new BroadcastChannel("fitforge-sync") : null;
+let remoteStatus: SyncStatus | null = null; // Last status broadcast by another tab
+
+type SyncChannelMessage =
+  | { type: "status"; status: SyncStatus }
+  | { type: "itemSynced"; item: SyncedItem };
+
+// Emitted when a queued item reaches the server, so optimistic rows (keyed by clientId) can be swapped for server rows
+export interface SyncedItem {
+  type: "set" | "session" | "weightLog";
+  clientId: string;
+  serverId?: string;
+  data?: any;
+}
+let itemSyncedListeners: Array<(item: SyncedItem) => void> = [];
 
 export const syncService = {
   // Get sync status
-  getStatus: async () => {
+  getStatus: async (): Promise<SyncStatus> => {
     const pendingCount = await offlineService.getPendingCount();
-    return { isSyncing, pendingCount };
+    const failedCount = await offlineService.getDeadLetterCount();
+    const unclaimedCount = await offlineService.getUnclaimedCount();
+    if (isSyncing) {
+      return { isSyncing, pendingCount, failedCount, unclaimedCount, progress: syncProgress };
+    }
+    return {
+      isSyncing: !!remoteStatus?.isSyncing,
+      pendingCount,
+      failedCount,
+      unclaimedCount,
+      progress: remoteStatus?.isSyncing ? remoteStatus.progress : undefined,
+    };
   },
 
   // Subscribe to sync status changes
-  onStatusChange: (callback: (status: { isSyncing: boolean; pendingCount: number }) => void) => {
+  onStatusChange: (callback: (status: SyncStatus) => void) => {
     syncStatusListeners.push(callback);
     return () => {
       syncStatusListeners = syncStatusListeners.filter(cb => cb !== callback);
     };
   },
 
-  // Notify listeners of status change
+  // Notify listeners of status change (in this tab and, via the channel, every other tab)
   notifyStatusChange: async () => {
     const status = await syncService.getStatus();
     syncStatusListeners.forEach(cb => cb(status));
+    syncChannel?.postMessage({ type: "status", status } satisfies SyncChannelMessage);
+  },
+
+  // Subscribe to individual queued items being synced
+  onItemSynced: (callback: (item: SyncedItem) => void) => {
+    itemSyncedListeners.push(callback);
+    return () => {
+      itemSyncedListeners = itemSyncedListeners.filter(cb => cb !== callback);
+    };
+  },
+
+  // Notify listeners that a queued item was synced
+  notifyItemSynced: (item: SyncedItem) => {
+    itemSyncedListeners.forEach(cb => cb(item));
+    syncChannel?.postMessage({ type: "itemSynced", item } satisfies SyncChannelMessage);
+  },
+
+  // Get items that could not be synced
+  getFailedItems: () => offlineService.getDeadLetters(),
+
+  // Re-queue a failed item (optionally with an edited payload) and try it now
+  retryFailed: async (id: number, payload?: Record<string, unknown>) => {
+    await offlineService.retryDeadLetter(id, payload);
+    await syncService.notifyStatusChange();
+    return syncService.sync();
+  },
+
+  // Throw away a failed item
+  discardFailed: async (id: number) => {
+    await offlineService.discardDeadLetter(id);
+    await syncService.notifyStatusChange();
+  },
+
+  // Get items queued on this device before accounts were kept apart
+  getUnclaimedItems: () => offlineService.getUnclaimedItems(),
+
+  // The signed-in user confirmed the unclaimed items are theirs; send them
+  claimUnclaimed: async () => {
+    await offlineService.claimUnownedItems();
+    await syncService.notifyStatusChange();
+    return syncService.sync();
+  },
+
+  // Throw the unclaimed items away
+  discardUnclaimed: async () => {
+    await offlineService.discardUnownedItems();
+    await syncService.notifyStatusChange();
   },
 
   // Manual sync trigger
@@ -73,62 +423,117 @@ export const syncService = {
   },
 };
 
-// Sync pending items when online (with conflict resolution and retry logic)
+// Send one queued operation to the server, returning the server id of anything it created
+const sendOperation = async (op: PendingOperation): Promise<string | undefined> => {
+  const config = withIdempotencyKey(op.clientId);
+
+  switch (op.kind) {
+    case "set": {
+      if (op.action === "create") {
+        const created = await sendJson("post", "/sets", op.setData, setSchema, { config });
+        syncService.notifyItemSynced({ type: "set", clientId: op.clientId, serverId: created.id, data: created });
+        return created.id;
+      }
+      if (op.action === "update") {
+        await api.patch(`/sets/${op.targetId}`, op.updates, config);
+      } else {
+        await deleteIgnoringMissing(`/sets/${op.targetId}`, config);
+      }
+      return;
+    }
+    case "session": {
+      if (op.action === "start") {
+        const created = await sendJson("post", "/sessions/start", op.data, sessionSchema, { config });
+        await offlineService.reconcileSession(op.sessionId, created.id);
+        syncService.notifyItemSynced({ type: "session", clientId: op.clientId, serverId: created.id, data: created });
+        return created.id;
+      }
+      await api.post(`/sessions/${op.sessionId}/complete`, op.data, config);
+      syncService.notifyItemSynced({ type: "session", clientId: op.clientId, serverId: op.sessionId });
+      return;
+    }
+    case "weightLog": {
+      if (op.action === "create") {
+        const created = await sendJson("post", "/weight-logs", op.weightData, weightLogSchema, { config });
+        syncService.notifyItemSynced({ type: "weightLog", clientId: op.clientId, serverId: created.id, data: created });
+        return created.id;
+      }
+      if (op.action === "update") {
+        await api.put(`/weight-logs/${op.targetId}`, op.updates, config);
+      } else {
+        await deleteIgnoringMissing(`/weight-logs/${op.targetId}`, config);
+      }
+      return;
+    }
+  }
+};
+
+// A replayed delete of a row that is already gone has done its job
+const deleteIgnoringMissing = async (url: string, config: ReturnType<typeof withIdempotencyKey>) => {
+  try {
+    await api.delete(url, config);
+  } catch (error: any) {
+    if (error.response?.status !== 404) throw error;
+  }
+};
+
+// Sync pending items when online, unless another tab already is
 const syncPendingItems = async () => {
-  if (!isOnline() || isSyncing) return;
+  if (!isOnline() || isSyncing || sessionExpired) return;
+
+  if (!("locks" in navigator)) {
+    return drainQueue();
+  }
+
+  await navigator.locks.request(SYNC_LOCK_NAME, { ifAvailable: true }, async (lock) => {
+    // Another tab holds the lock; its progress arrives over the channel
+    if (!lock) return;
+    // Whoever held the lock before us is done, even if its last broadcast was lost
+    remoteStatus = null;
+    await drainQueue();
+  });
+};
 
+// Replay the operation log (with conflict resolution and retry logic)
+// Operations are replayed in log order; one that depends on an unacknowledged
+// operation (e.g. a set whose session has not been created yet) waits for a later pass
+const drainQueue = async () => {
   isSyncing = true;
+  syncProgress = { done: 0, total: await offlineService.getPendingCount() };
   await syncService.notifyStatusChange();
 
   try {
-    // Sync pending sets (sorted by timestamp for conflict resolution)
-    const pendingSets = await offlineService.getPendingSets();
-    pendingSets.sort((a, b) => a.timestamp - b.timestamp); // Oldest first
-    
-    for (const pending of pendingSets) {
-      try {
-        // Last-write-wins: use the timestamp from the offline item
-        const response = await api.post("/sets", pending.setData);
-        await offlineService.markSetSynced(pending.id!);
-        console.log("[Sync] Synced set:", pending.id);
-      } catch (err: any) {
-        const errorMsg = err.response?.data?.detail || err.message || "Unknown error";
-        console.error("[Sync] Failed to sync set:", errorMsg);
-        await offlineService.markSetFailed(pending.id!, errorMsg);
-      }
-    }
+    const attempted = new globalThis.Set<number>();
+    let progressed = true;
 
-    // Sync pending sessions (sorted by timestamp)
-    const pendingSessions = await offlineService.getPendingSessions();
-    pendingSessions.sort((a, b) => a.timestamp - b.timestamp);
-    
-    for (const pending of pendingSessions) {
-      try {
-        if (pending.action === "complete") {
-          await api.post(`/sessions/${pending.sessionId}/complete`, pending.data);
-          await offlineService.markSessionSynced(pending.id!);
-          console.log("[Sync] Synced session:", pending.id);
-        }
-      } catch (err: any) {
-        const errorMsg = err.response?.data?.detail || err.message || "Unknown error";
-        console.error("[Sync] Failed to sync session:", errorMsg);
-        await offlineService.markSessionFailed(pending.id!, errorMsg);
-      }
-    }
+    // Each pass may unblock dependants of the operations it acknowledged
+    while (progressed && isOnline() && !sessionExpired) {
+      progressed = false;
+      const ready = (await offlineService.getReadyOperations()).filter((op) => !attempted.has(op.id!));
 
-    // Sync pending weight logs (sorted by timestamp)
-    const pendingWeightLogs = await offlineService.getPendingWeightLogs();
-    pendingWeightLogs.sort((a, b) => a.timestamp - b.timestamp);
-    
-    for (const pending of pendingWeightLogs) {
-      try {
-        await api.post("/weight-logs", pending.weightData);
-        await offlineService.markWeightLogSynced(pending.id!);
-        console.log("[Sync] Synced weight log:", pending.id);
-      } catch (err: any) {
-        const errorMsg = err.response?.data?.detail || err.message || "Unknown error";
-        console.error("[Sync] Failed to sync weight log:", errorMsg);
-        await offlineService.markWeightLogFailed(pending.id!, errorMsg);
+      for (const queued of ready) {
+        attempted.add(queued.id!);
+        // Send the operation as it is now, and stop edits being folded into it while it is on its way
+        const op = await offlineService.markSending(queued.id!);
+        if (!op) continue;
+        try {
+          const serverId = await sendOperation(op);
+          await offlineService.markSynced(op.id!, serverId);
+          await invalidate(op.kind);
+          progressed = true;
+        } catch (err: any) {
+          // Not the operation's fault; it is sent once the account signs in again
+          if (err instanceof SessionExpiredError) {
+            await offlineService.releaseSending(op.id!);
+            break;
+          }
+          const detail = err.response?.data?.detail;
+          const errorMsg = (typeof detail === "string" ? detail : detail && JSON.stringify(detail)) || err.message || "Unknown error";
+          console.error(`[Sync] Failed to sync ${op.kind} ${op.action}:`, errorMsg);
+          await offlineService.markFailed(op.id!, errorMsg, err.response?.status);
+        }
+        syncProgress = { done: attempted.size, total: Math.max(syncProgress?.total ?? 0, attempted.size) };
+        await syncService.notifyStatusChange();
       }
     }
 
@@ -138,6 +543,7 @@ const syncPendingItems = async () => {
     console.error("[Sync] Error syncing pending items:", err);
   } finally {
     isSyncing = false;
+    syncProgress = undefined;
     await syncService.notifyStatusChange();
   }
 };
@@ -156,157 +562,216 @@ if (typeof window !== "undefined") {
   }
   
   // Periodic sync check (every 30 seconds when online)
-  setInterval(() => {
-    if (isOnline() && !isSyncing) {
-      syncPendingItems();
-    }
-  }, 30000);
-}
-
-// Types
-export interface Program {
-  id: string;
-  name: string;
-  description?: string;
-  type: "push_pull_legs" | "upper_lower" | "full_body" | "bro_split" | "custom";
-  days_per_week: number;
-  start_date?: string;
-  end_date?: string;
-  is_active: boolean;
-  workout_count?: number;
-  created_at: string;
-  updated_at: string;
-}
-
-export interface ProgramCreate {
-  name: string;
-  description?: string;
-  type: "push_pull_legs" | "upper_lower" | "full_body" | "bro_split" | "custom";
-  days_per_week: number;
-  start_date?: string;
-  is_active?: boolean;
-}
+  const startPeriodicSync = () =>
+    setInterval(() => {
+      if (isOnline() && !isSyncing) {
+        syncPendingItems();
+      }
+    }, 30000);
 
-export interface Workout {
-  id: string;
-  program_id: string;
-  name: string;
-  day_number: number;
-  notes?: string;
-  estimated_duration_minutes?: number;
-  exercise_count?: number;
-}
+  // Only the leader tab polls; the lock passes to another tab when the leader closes
+  if ("locks" in navigator) {
+    navigator.locks.request(SYNC_LEADER_LOCK_NAME, () => {
+      startPeriodicSync();
+      return new Promise<never>(() => {});
+    });
+  } else {
+    startPeriodicSync();
+  }
 
-export interface Exercise {
-  id: string;
-  name: string;
-  muscle_group: {
-    id: string;
-    name: string;
-  };
-  secondary_muscle_group?: {
-    id: string;
-    name: string;
-  };
-  equipment: string;
-  is_compound: boolean;
-  is_unilateral: boolean;
-  instructions?: string;
-  is_custom: boolean;
-}
+  // Results of a background sync run by the service worker
+  navigator.serviceWorker?.addEventListener("message", async (event: MessageEvent) => {
+    if (event.data?.type !== "sync-complete") return;
+    // The worker also replays edits and deletes, which it does not report item by item
+    await Promise.all((["set", "session", "weightLog"] as const).map((kind) => invalidate(kind)));
+    (event.data.items as SyncedItem[]).forEach((item) => itemSyncedListeners.forEach(cb => cb(item)));
+    const status = await syncService.getStatus();
+    syncStatusListeners.forEach(cb => cb(status));
+  });
 
-export interface WorkoutExercise {
-  id: string;
-  workout_id: string;
-  exercise_id: string;
-  exercise?: Exercise;
-  order_index: number;
-  target_sets: number;
-  target_reps_min: number;
-  target_reps_max: number;
-  target_rpe: number;
-  rest_seconds: number;
-  notes?: string;
+  // Mirror status and synced items from other tabs
+  syncChannel?.addEventListener("message", async (event: MessageEvent<SyncChannelMessage>) => {
+    const message = event.data;
+    if (message.type === "status") {
+      remoteStatus = message.status;
+      const status = await syncService.getStatus();
+      syncStatusListeners.forEach(cb => cb(status));
+    } else if (message.type === "itemSynced") {
+      itemSyncedListeners.forEach(cb => cb(message.item));
+    }
+  });
 }
 
-export interface MuscleGroup {
-  id: string;
-  name: string;
-  display_order: number;
-}
+// Types
+export type {
+  Program,
+  ProgramCreate,
+  ProgramDetail,
+  ProgramType,
+  ProgramWeek,
+  Workout,
+  WorkoutCreate,
+  WorkoutDetail,
+  Exercise,
+  ExerciseCreate,
+  LoadType,
+  TrackingMode,
+  WorkoutExercise,
+  WorkoutExerciseCreate,
+  ExerciseGroupType,
+  SetType,
+  SetPrescription,
+  TrainingMax,
+  TrainingMaxSave,
+  MuscleGroup,
+  Session,
+  SessionListItem,
+  ExerciseInSession,
+  LastSession,
+  ImportedSession,
+  ImportedSet,
+  SessionImportResult,
+  Set,
+  SetCreate,
+  SessionSets,
+  ExerciseHistory,
+  WeightLog,
+  RecentExercise,
+  VolumePerMuscleGroup,
+  OneRepMax,
+  OneRepMaxHistory,
+  WorkoutConsistency,
+  WeightTrend,
+  PersonalRecord,
+  ProgressiveOverloadSuggestion,
+  DashboardStats,
+  UserProfile,
+  UserProfileUpdate,
+  EquipmentProfile,
+  ActivityLevel,
+  BmrTdee,
+} from "./schemas";
 
 // Programs API
 export const programsApi = {
   list: async (isActive?: boolean) => {
     const params = new URLSearchParams();
     if (isActive !== undefined) params.append("is_active", String(isActive));
-    const { data } = await api.get(`/programs?${params}`);
-    return data;
+    try {
+      const data = await getJson(`/programs?${params}`, programListSchema);
+      await offlineService.cachePrograms(data.data);
+      return data;
+    } catch (error: any) {
+      // If network error, fall back to the last cached programs
+      if (isUnreachable(error)) {
+        const cached = await offlineService.getCachedPrograms();
+        if (cached.length > 0) {
+          return {
+            data: isActive === undefined ? cached : cached.filter((p) => p.is_active === isActive),
+          };
+        }
+      }
+      throw error;
+    }
   },
 
-  get: async (id: string) => {
-    const { data } = await api.get(`/programs/${id}`);
-    return data;
+  get: async (id: string): Promise<ProgramDetail> => {
+    try {
+      const data = await getJson(`/programs/${id}`, programDetailSchema);
+      await offlineService.cacheProgram(data);
+      return data;
+    } catch (error: any) {
+      if (isUnreachable(error)) {
+        const cached = await offlineService.getCachedProgram(id);
+        if (cached) return cached;
+      }
+      throw error;
+    }
   },
 
   create: async (program: ProgramCreate) => {
-    const { data } = await api.post("/programs", program);
-    return data;
+    return sendJson("post", "/programs", checkBody(programCreateSchema, program), programSchema, {
+      invalidates: "program",
+    });
   },
 
   update: async (id: string, updates: Partial<ProgramCreate>) => {
-    const { data } = await api.patch(`/programs/${id}`, updates);
-    return data;
+    return sendJson("patch", `/programs/${id}`, checkBody(programUpdateSchema, updates), programSchema, {
+      invalidates: "program",
+    });
   },
 
   delete: async (id: string) => {
-    await api.delete(`/programs/${id}`);
+    await sendDelete(`/programs/${id}`, "program");
   },
 
   clone: async (id: string, name: string, startDate?: string) => {
-    const { data } = await api.post(`/programs/${id}/clone`, { name, start_date: startDate });
-    return data;
+    return sendJson("post", `/programs/${id}/clone`, { name, start_date: startDate }, programSchema, {
+      invalidates: "program",
+    });
   },
 };
 
 // Workouts API
 export const workoutsApi = {
-  create: async (workout: { program_id: string; name: string; day_number: number; notes?: string; estimated_duration_minutes?: number }) => {
-    const { data } = await api.post("/programs/workouts", workout);
-    return data;
+  create: async (workout: WorkoutCreate) => {
+    return sendJson("post", "/programs/workouts", checkBody(workoutCreateSchema, workout), workoutSchema, {
+      invalidates: "program",
+    });
   },
 
-  get: async (id: string) => {
-    const { data } = await api.get(`/programs/workouts/${id}`);
-    return data;
+  get: async (id: string): Promise<WorkoutDetail> => {
+    try {
+      const data = await getJson(`/programs/workouts/${id}`, workoutDetailSchema);
+      await offlineService.cacheWorkout(data);
+      return data;
+    } catch (error: any) {
+      if (isUnreachable(error)) {
+        const cached = await offlineService.getCachedWorkout(id);
+        if (cached) return cached;
+      }
+      throw error;
+    }
   },
 
-  update: async (id: string, updates: Partial<{ name: string; day_number: number; notes?: string; estimated_duration_minutes?: number }>) => {
-    const { data } = await api.patch(`/programs/workouts/${id}`, updates);
-    return data;
+  update: async (id: string, updates: Partial<Omit<WorkoutCreate, "program_id">>) => {
+    return sendJson("patch", `/programs/workouts/${id}`, checkBody(workoutUpdateSchema, updates), workoutSchema, {
+      invalidates: "program",
+    });
   },
 
   delete: async (id: string) => {
-    await api.delete(`/programs/workouts/${id}`);
+    await sendDelete(`/programs/workouts/${id}`, "program");
   },
 
-  addExercise: async (workoutId: string, exercise: { exercise_id: string; order_index: number; target_sets: number; target_reps_min: number; target_reps_max: number; target_rpe: number; rest_seconds: number; notes?: string }) => {
-    const { data } = await api.post(`/programs/workouts/${workoutId}/exercises`, exercise);
-    return data;
+  addExercise: async (workoutId: string, exercise: WorkoutExerciseCreate) => {
+    return sendJson(
+      "post",
+      `/programs/workouts/${workoutId}/exercises`,
+      checkBody(workoutExerciseCreateSchema, exercise),
+      workoutExerciseSchema,
+      { invalidates: "program" }
+    );
   },
 
-  updateExercise: async (workoutId: string, exerciseId: string, updates: Partial<{ order_index: number; target_sets: number; target_reps_min: number; target_reps_max: number; target_rpe: number; rest_seconds: number; notes?: string }>) => {
-    const { data } = await api.patch(`/programs/workouts/${workoutId}/exercises/${exerciseId}`, updates);
-    return data;
+  updateExercise: async (workoutId: string, exerciseId: string, updates: Partial<WorkoutExerciseCreate>) => {
+    return sendJson(
+      "patch",
+      `/programs/workouts/${workoutId}/exercises/${exerciseId}`,
+      checkBody(workoutExerciseUpdateSchema, updates),
+      workoutExerciseSchema,
+      { invalidates: "program" }
+    );
   },
 
   removeExercise: async (workoutId: string, exerciseId: string) => {
-    await api.delete(`/programs/workouts/${workoutId}/exercises/${exerciseId}`);
+    await sendDelete(`/programs/workouts/${workoutId}/exercises/${exerciseId}`, "program");
   },
 
   reorderExercises: async (workoutId: string, exerciseOrder: string[]) => {
-    const { data } = await api.patch(`/programs/workouts/${workoutId}/reorder`, { exercise_order: exerciseOrder });
-    return data;
+    return sendJson("patch", `/programs/workouts/${workoutId}/reorder`, { exercise_order: exerciseOrder }, s.unknown(), {
+      invalidates: "program",
+    });
   },
 };
 
@@ -318,124 +783,126 @@ export const exercisesApi = {
     if (filters?.equipment) params.append("equipment", filters.equipment);
     if (filters?.is_compound !== undefined) params.append("is_compound", String(filters.is_compound));
     if (filters?.search) params.append("search", filters.search);
-    const { data } = await api.get(`/exercises?${params}`);
-    return data;
+    return getJson(`/exercises?${params}`, exerciseListSchema);
+  },
+
+  // One exercise, taken from any list already loaded before asking the server
+  get: async (id: string): Promise<Exercise | undefined> => {
+    for (const list of queryCache.peek("/exercises?") as Array<{ data: Exercise[] }>) {
+      const match = list.data.find((exercise) => exercise.id === id);
+      if (match) return match;
+    }
+    try {
+      return await getJson(`/exercises/${id}`, exerciseSchema);
+    } catch (error: any) {
+      // Older backends have no single-exercise endpoint
+      if (error.response?.status !== 404 && error.response?.status !== 405) throw error;
+      const { data } = await exercisesApi.list();
+      return data.find((exercise) => exercise.id === id);
+    }
   },
 
   getMuscleGroups: async () => {
-    const { data } = await api.get("/exercises/muscle-groups");
-    return data;
+    return getJson("/exercises/muscle-groups", muscleGroupListSchema);
   },
 
-  create: async (exercise: { name: string; muscle_group_id: string; secondary_muscle_group_id?: string; equipment: string; is_compound?: boolean; is_unilateral?: boolean; instructions?: string }) => {
-    const { data } = await api.post("/exercises", exercise);
-    return data;
+  create: async (exercise: ExerciseCreate) => {
+    return sendJson("post", "/exercises", checkBody(exerciseCreateSchema, exercise), exerciseSchema, {
+      invalidates: "exercise",
+    });
   },
 };
 
 // Sessions API
-export interface Session {
-  id: string;
-  workout_id: string;
-  workout_name: string;
-  session_date: string;
-  started_at: string;
-  completed_at?: string;
-  duration_minutes?: number;
-  overall_rpe?: number;
-  notes?: string;
-  exercises: ExerciseInSession[];
-  summary?: {
-    total_sets: number;
-    total_volume: number;
-    prs_achieved: number;
-  };
-}
+const SESSION_PAGE_SIZE = 50; // Sessions asked for per request when listing all of them
 
-export interface ExerciseInSession {
-  id: string;
-  exercise: Exercise;
-  target_sets: number;
-  target_reps_min: number;
-  target_reps_max: number;
-  target_rpe: number;
-  rest_seconds: number;
-  last_session?: {
-    date: string;
-    sets: Array<{ weight_kg: number; reps: number; rpe?: number }>;
-  };
-}
+export const sessionsApi = {
+  start: async (workoutId: string): Promise<Session> => {
+    if (!isOnline()) {
+      // Start the session from the locally cached workout
+      return offlineService.startLocalSession(workoutId);
+    }
 
-export interface Set {
-  id: string;
-  user_id: string;
-  workout_exercise_id: string;
-  exercise_id: string;
-  exercise?: Exercise;
-  session_date: string;
-  set_number: number;
-  weight_kg: number;
-  reps: number;
-  rpe?: number;
-  is_warmup: boolean;
-  is_failure: boolean;
-  is_dropset: boolean;
-  rest_seconds?: number;
-  notes?: string;
-  completed_at: string;
-  created_at: string;
-}
+    try {
+      const data = await sendJson("post", "/sessions/start", { workout_id: workoutId }, sessionSchema, {
+        invalidates: "session",
+      });
+      await offlineService.cacheSession(data);
+      return data;
+    } catch (error: any) {
+      if (isUnreachable(error)) {
+        return offlineService.startLocalSession(workoutId);
+      }
+      throw error;
+    }
+  },
 
-export interface SetCreate {
-  workout_exercise_id: string;
-  exercise_id: string;
-  session_date: string;
-  set_number?: number;
-  weight_kg: number;
-  reps: number;
-  rpe?: number;
-  is_warmup?: boolean;
-  is_failure?: boolean;
-  is_dropset?: boolean;
-  rest_seconds?: number;
-  notes?: string;
-}
+  get: async (sessionId: string): Promise<Session> => {
+    const resolvedId = await offlineService.resolveSessionId(sessionId);
 
-export const sessionsApi = {
-  start: async (workoutId: string) => {
-    const { data } = await api.post("/sessions/start", { workout_id: workoutId });
-    return data;
-  },
+    if (isOnline() && !isLocalSessionId(resolvedId)) {
+      try {
+        const data = await getJson(`/sessions/${resolvedId}`, sessionSchema);
+        await offlineService.cacheSession(data);
+        return data;
+      } catch (error: any) {
+        if (!isUnreachable(error)) throw error;
+      }
+    }
 
-  get: async (sessionId: string) => {
-    const { data } = await api.get(`/sessions/${sessionId}`);
-    return data;
+    // Offline or locally started: build the session from the device copy
+    const local = await offlineService.getLocalSession(sessionId);
+    if (!local) {
+      throw new Error("Session is not available offline");
+    }
+    const pendingSets = await offlineService.getSessionSets(sessionId);
+    const { serverId: _serverId, isLocal: _isLocal, cachedAt: _cachedAt, userId: _userId, ...session } = local;
+    return {
+      ...session,
+      id: sessionId,
+      summary: local.isLocal
+        ? {
+            total_sets: pendingSets.length,
+            total_volume: pendingSets.reduce((sum, p) => sum + p.setData.weight_kg * p.setData.reps, 0),
+            prs_achieved: 0,
+          }
+        : local.summary,
+    };
   },
 
-  complete: async (sessionId: string, data: { overall_rpe?: number; notes?: string }) => {
-    if (!isOnline()) {
-      // Save offline
-      await offlineService.saveSessionOffline(sessionId, "complete", data);
+  complete: async (sessionId: string, completion: SessionComplete) => {
+    const data = checkBody(sessionCompleteSchema, completion);
+    const resolvedId = await offlineService.resolveSessionId(sessionId);
+    const clientId = generateClientId();
+    const completeOffline = async () => {
+      // Queue against the resolved id; a local id is rewritten once the session start syncs
+      await offlineService.saveSessionOffline(resolvedId, "complete", data, clientId);
+      const completedAt = new Date().toISOString();
+      await offlineService.updateLocalSession(sessionId, { ...data, completed_at: completedAt });
       // Return mock response
       return {
         id: sessionId,
         ...data,
-        completed_at: new Date().toISOString(),
+        completed_at: completedAt,
       };
+    };
+
+    if (!isOnline() || isLocalSessionId(resolvedId)) {
+      return completeOffline();
     }
 
     try {
-      const { data: response } = await api.post(`/sessions/${sessionId}/complete`, data);
-      return response;
+      return await sendJson(
+        "post",
+        `/sessions/${resolvedId}/complete`,
+        data,
+        sessionCompletedSchema,
+        { invalidates: "session", config: withIdempotencyKey(clientId) }
+      );
     } catch (error: any) {
       // If network error, save offline
-      if (error.code === "ERR_NETWORK" || !isOnline()) {
-        await offlineService.saveSessionOffline(sessionId, "complete", data);
-        return {
-          id: sessionId,
-          ...data,
-          completed_at: new Date().toISOString(),
-        };
+      if (isUnreachable(error)) {
+        return completeOffline();
       }
       throw error;
     }
@@ -445,180 +912,318 @@ export const sessionsApi = {
     const params = new URLSearchParams();
     params.append("limit", String(limit));
     params.append("offset", String(offset));
-    const { data } = await api.get(`/sessions?${params}`);
-    return data;
+    return getJson(`/sessions?${params}`, sessionListSchema);
+  },
+
+  // Every session, paging through the newest-first list until a short page says there are no more.
+  // With `since` ("YYYY-MM-DD") paging stops once a page reaches sessions dated before it
+  listAll: async ({ since, onPage }: { since?: string; onPage?: (loaded: number) => void } = {}) => {
+    const sessions: SessionListItem[] = [];
+    for (let offset = 0; ; offset += SESSION_PAGE_SIZE) {
+      const page = await sessionsApi.list(SESSION_PAGE_SIZE, offset);
+      sessions.push(...page.data);
+      onPage?.(sessions.length);
+      if (page.data.length < SESSION_PAGE_SIZE) return sessions;
+      const oldest = page.data[page.data.length - 1].session_date;
+      if (since && oldest && oldest.slice(0, 10) < since.slice(0, 10)) return sessions;
+    }
   },
 
   getLastWorkoutSession: async (workoutId: string) => {
-    const { data } = await api.get(`/sessions/workout/${workoutId}/last`);
-    return data;
+    return getJson(`/sessions/workout/${workoutId}/last`, lastSessionSchema);
+  },
+
+  // Bulk-create past sessions with their sets; the batch key makes a resent batch a no-op
+  importHistory: async (source: string, sessions: ImportedSession[], batchKey: string) => {
+    return sendJson(
+      "post",
+      "/sessions/import",
+      checkBody(sessionImportSchema, { source, sessions }),
+      sessionImportResultSchema,
+      { invalidates: "session", config: withIdempotencyKey(batchKey) }
+    );
   },
 };
 
 // Analytics API
 export const analyticsApi = {
   getVolumePerMuscleGroup: async (days: number = 7) => {
-    const { data } = await api.get(`/analytics/volume-per-muscle-group?days=${days}`);
-    return data;
+    return getJson(`/analytics/volume-per-muscle-group?days=${days}`, volumePerMuscleGroupSchema);
   },
   
   getOneRepMax: async (exerciseId: string) => {
-    const { data } = await api.get(`/analytics/one-rep-max/${exerciseId}`);
-    return data;
+    return getJson(`/analytics/one-rep-max/${exerciseId}`, oneRepMaxSchema);
   },
   
   getOneRepMaxHistory: async (exerciseId: string, days: number = 90) => {
-    const { data } = await api.get(`/analytics/one-rep-max/${exerciseId}/history?days=${days}`);
-    return data;
+    return getJson(`/analytics/one-rep-max/${exerciseId}/history?days=${days}`, oneRepMaxHistorySchema);
   },
   
   getRecentExercises: async (limit: number = 10, days: number = 30) => {
-    const { data } = await api.get(`/analytics/recent-exercises?limit=${limit}&days=${days}`);
-    return data;
+    return getJson(`/analytics/recent-exercises?limit=${limit}&days=${days}`, recentExerciseListSchema);
   },
   
   getWorkoutConsistency: async (days: number = 90) => {
-    const { data } = await api.get(`/analytics/workout-consistency?days=${days}`);
-    return data;
+    return getJson(`/analytics/workout-consistency?days=${days}`, workoutConsistencySchema);
   },
   
   getWeightTrend: async (days: number = 90) => {
-    const { data } = await api.get(`/analytics/weight-trend?days=${days}`);
-    return data;
+    return getJson(`/analytics/weight-trend?days=${days}`, weightTrendSchema);
   },
   
-  getPersonalRecords: async (sortBy: string = "date") => {
-    const { data } = await api.get(`/analytics/personal-records?sort_by=${sortBy}`);
-    return data;
+  getPersonalRecords: async (sortBy: string = "date"): Promise<PersonalRecord[]> => {
+    const data = await getJson(`/analytics/personal-records?sort_by=${sortBy}`, personalRecordListSchema);
+    return Array.isArray(data) ? data : data.records;
   },
   
   getProgressiveOverloadSuggestion: async (exerciseId: string) => {
-    const { data } = await api.get(`/analytics/progressive-overload/${exerciseId}`);
-    return data;
+    return getJson(`/analytics/progressive-overload/${exerciseId}`, progressiveOverloadSuggestionSchema);
   },
   
   getDashboardStats: async () => {
-    const { data } = await api.get("/analytics/dashboard-stats");
-    return data;
+    return getJson("/analytics/dashboard-stats", dashboardStatsSchema);
+  },
+};
+
+// Users API
+export const usersApi = {
+  getMe: async () => {
+    return getJson("/users/me", userProfileSchema);
+  },
+
+  updateMe: async (updates: UserProfileUpdate) => {
+    return sendJson("patch", "/users/me", checkBody(userProfileUpdateSchema, updates), s.unknown(), {
+      invalidates: "user",
+    });
+  },
+
+  getBmrTdee: async (activityLevel: ActivityLevel) => {
+    return getJson(`/users/bmr-tdee?activity_level=${activityLevel}`, bmrTdeeSchema);
+  },
+};
+
+// Training maxes API
+export const trainingMaxesApi = {
+  list: async () => {
+    return getJson("/training-maxes", trainingMaxListSchema);
+  },
+
+  save: async (exerciseId: string, trainingMax: TrainingMaxSave) => {
+    return sendJson("put", `/training-maxes/${exerciseId}`, checkBody(trainingMaxSaveSchema, trainingMax), trainingMaxSchema, {
+      invalidates: "trainingMax",
+    });
+  },
+
+  delete: async (exerciseId: string) => {
+    await sendDelete(`/training-maxes/${exerciseId}`, "trainingMax");
   },
 };
 
 export const weightLogsApi = {
-  create: async (logData: {
-    weight_kg: number;
-    logged_date: string;
-    time_of_day: string;
-    notes?: string | null;
-  }) => {
-    if (!isOnline()) {
+  create: async (log: WeightLogCreate): Promise<WeightLog> => {
+    const logData = checkBody(weightLogCreateSchema, log);
+    const clientId = generateClientId();
+    const saveOffline = async () => {
       // Save offline - convert null to undefined for notes
       const offlineData = {
         ...logData,
         notes: logData.notes ?? undefined,
       };
-      await offlineService.saveWeightLogOffline(offlineData);
-      // Return mock response for immediate UI feedback
+      await offlineService.saveWeightLogOffline(offlineData, clientId);
+      // Return mock response for immediate UI feedback, keyed by the client id
       return {
-        id: `temp-${Date.now()}`,
-        ...logData,
+        id: clientId,
+        client_id: clientId,
+        ...offlineData,
         created_at: new Date().toISOString(),
       };
+    };
+
+    if (!isOnline()) {
+      return saveOffline();
     }
 
     try {
-      const { data } = await api.post("/weight-logs", logData);
-      return data;
+      return await sendJson("post", "/weight-logs", logData, weightLogSchema, {
+        invalidates: "weightLog",
+        config: withIdempotencyKey(clientId),
+      });
     } catch (error: any) {
-      // If network error, save offline - convert null to undefined for notes
-      if (error.code === "ERR_NETWORK" || !isOnline()) {
-        const offlineData = {
-          ...logData,
-          notes: logData.notes ?? undefined,
-        };
-        await offlineService.saveWeightLogOffline(offlineData);
-        return {
-          id: `temp-${Date.now()}`,
-          ...logData,
-          created_at: new Date().toISOString(),
-        };
+      // If network error, save offline under the same key in case the request reached the server
+      if (isUnreachable(error)) {
+        return saveOffline();
       }
       throw error;
     }
   },
   
   list: async (days: number = 30) => {
-    const { data } = await api.get(`/weight-logs?days=${days}`);
-    return data;
+    return getJson(`/weight-logs?days=${days}`, weightLogListSchema);
   },
   
-  update: async (id: string, logData: {
-    weight_kg?: number;
-    logged_date?: string;
-    time_of_day?: string;
-    notes?: string | null;
-  }) => {
-    const { data } = await api.put(`/weight-logs/${id}`, logData);
-    return data;
+  update: async (id: string, updates: WeightLogUpdate) => {
+    const logData = checkBody(weightLogUpdateSchema, updates);
+    const saveOffline = async () => {
+      const updates = { ...logData, notes: logData.notes ?? undefined };
+      await offlineService.queueChange("weightLog", "update", id, updates);
+      const queued = await offlineService.getQueuedCreate(id);
+      return { id, ...(queued?.kind === "weightLog" ? queued.weightData : {}), ...logData };
+    };
+
+    // Edits to a log that has not reached the server yet are folded into its queued create
+    if (!isOnline() || (await offlineService.getQueuedCreate(id))) {
+      return saveOffline();
+    }
+
+    try {
+      const serverId = await offlineService.resolveCreatedId(id);
+      return await sendJson("put", `/weight-logs/${serverId}`, logData, weightLogSchema, { invalidates: "weightLog" });
+    } catch (error: any) {
+      if (isUnreachable(error)) {
+        return saveOffline();
+      }
+      throw error;
+    }
   },
   
   delete: async (id: string) => {
-    await api.delete(`/weight-logs/${id}`);
+    if (!isOnline() || (await offlineService.getQueuedCreate(id))) {
+      await offlineService.queueChange("weightLog", "delete", id);
+      return;
+    }
+
+    try {
+      await sendDelete(`/weight-logs/${await offlineService.resolveCreatedId(id)}`, "weightLog");
+    } catch (error: any) {
+      if (isUnreachable(error)) {
+        await offlineService.queueChange("weightLog", "delete", id);
+        return;
+      }
+      throw error;
+    }
   },
 };
 
+// A queued set in the shape the server returns, for showing it before it syncs
+const toOptimisticSet = (clientId: string, set: SetCreate, loggedAt: number, setNumber?: number): Set & { client_id: string } => ({
+  id: clientId,
+  client_id: clientId,
+  user_id: "",
+  ...set,
+  set_number: setNumber ?? set.set_number ?? 0,
+  is_warmup: set.is_warmup ?? false,
+  is_failure: set.is_failure ?? false,
+  is_dropset: set.is_dropset ?? false,
+  completed_at: new Date(loggedAt).toISOString(),
+  created_at: new Date(loggedAt).toISOString(),
+});
+
 export const setsApi = {
-  create: async (set: SetCreate) => {
-    if (!isOnline()) {
-      // Save offline
-      await offlineService.saveSetOffline(set);
-      // Return a mock response for immediate UI feedback
-      return {
-        id: `offline-${Date.now()}`,
-        ...set,
-        completed_at: new Date().toISOString(),
-        created_at: new Date().toISOString(),
-      };
+  create: async (newSet: SetCreate, sessionId?: string): Promise<Set> => {
+    const set = checkBody(setCreateSchema, newSet);
+    const clientId = generateClientId();
+    // Sets logged in a session that only exists on the device wait for the session to sync
+    const resolvedSessionId = sessionId ? await offlineService.resolveSessionId(sessionId) : undefined;
+    const saveOffline = async () => {
+      await offlineService.saveSetOffline(set, resolvedSessionId, clientId);
+      // Return a mock response for immediate UI feedback, keyed by the client id
+      return toOptimisticSet(clientId, set, Date.now());
+    };
+
+    if (!isOnline() || (resolvedSessionId && isLocalSessionId(resolvedSessionId))) {
+      return saveOffline();
     }
 
     try {
-      const { data } = await api.post("/sets", set);
-      return data;
+      return await sendJson("post", "/sets", set, setSchema, {
+        invalidates: "set",
+        config: withIdempotencyKey(clientId),
+      });
     } catch (error: any) {
-      // If network error, save offline
-      if (error.code === "ERR_NETWORK" || !isOnline()) {
-        await offlineService.saveSetOffline(set);
-        return {
-          id: `offline-${Date.now()}`,
-          ...set,
-          completed_at: new Date().toISOString(),
-          created_at: new Date().toISOString(),
-        };
+      // If network error, save offline under the same key in case the request reached the server
+      if (isUnreachable(error)) {
+        return saveOffline();
       }
       throw error;
     }
   },
 
+  // Not used by any screen yet, so the response is passed through unchecked
   getPrevious: async (exerciseId: string) => {
-    const { data } = await api.get(`/sets/exercise/${exerciseId}/previous`);
-    return data;
+    return getJson(`/sets/exercise/${exerciseId}/previous`, s.unknown());
   },
 
   getExerciseHistory: async (exerciseId: string, days: number = 30) => {
-    const { data } = await api.get(`/sets/exercise/${exerciseId}/history?days=${days}`);
-    return data;
+    return getJson(`/sets/exercise/${exerciseId}/history?days=${days}`, exerciseHistorySchema);
   },
 
-  getBySession: async (sessionId: string) => {
-    const { data } = await api.get(`/sets/session/${sessionId}`);
-    return data;
+  getBySession: async (sessionId: string): Promise<SessionSets> => {
+    const resolvedId = await offlineService.resolveSessionId(sessionId);
+
+    if (isOnline() && !isLocalSessionId(resolvedId)) {
+      try {
+        return await getJson(`/sets/session/${resolvedId}`, sessionSetsSchema);
+      } catch (error: any) {
+        if (!isUnreachable(error)) throw error;
+      }
+    }
+
+    // Offline: group the sets queued for this session by exercise
+    const local = await offlineService.getLocalSession(sessionId);
+    const pendingSets = await offlineService.getSessionSets(sessionId);
+    const exercises: SessionSets["exercises"] = [];
+    for (const pending of pendingSets) {
+      let group = exercises.find((ex) => ex.exercise?.id === pending.setData.exercise_id);
+      if (!group) {
+        const sessionExercise = local?.exercises.find((ex) => ex.exercise.id === pending.setData.exercise_id);
+        group = { exercise: sessionExercise?.exercise, sets: [] };
+        exercises.push(group);
+      }
+      group.sets.push(
+        toOptimisticSet(pending.clientId, pending.setData, pending.timestamp, pending.setData.set_number || group.sets.length + 1)
+      );
+    }
+    return { session_id: sessionId, exercises };
   },
 
-  update: async (setId: string, updates: Partial<SetCreate>) => {
-    const { data } = await api.patch(`/sets/${setId}`, updates);
-    return data;
+  update: async (setId: string, changes: Partial<SetCreate>) => {
+    const updates = checkBody(setUpdateSchema, changes);
+    const saveOffline = async () => {
+      await offlineService.queueChange("set", "update", setId, updates);
+      const queued = await offlineService.getQueuedCreate(setId);
+      return { id: setId, ...(queued?.kind === "set" ? queued.setData : {}), ...updates };
+    };
+
+    // Edits to a set that has not reached the server yet are folded into its queued create
+    if (!isOnline() || (await offlineService.getQueuedCreate(setId))) {
+      return saveOffline();
+    }
+
+    try {
+      const serverId = await offlineService.resolveCreatedId(setId);
+      return await sendJson("patch", `/sets/${serverId}`, updates, setSchema, { invalidates: "set" });
+    } catch (error: any) {
+      if (isUnreachable(error)) {
+        return saveOffline();
+      }
+      throw error;
+    }
   },
 
   delete: async (setId: string) => {
-    await api.delete(`/sets/${setId}`);
+    if (!isOnline() || (await offlineService.getQueuedCreate(setId))) {
+      await offlineService.queueChange("set", "delete", setId);
+      return;
+    }
+
+    try {
+      await sendDelete(`/sets/${await offlineService.resolveCreatedId(setId)}`, "set");
+    } catch (error: any) {
+      if (isUnreachable(error)) {
+        await offlineService.queueChange("set", "delete", setId);
+        return;
+      }
+      throw error;
+    }
   },
 };
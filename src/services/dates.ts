@@ -0,0 +1,29 @@
+// Calendar dates: ISO "YYYY-MM-DD" strings are read as local midnight, and day arithmetic counts
+// calendar days rather than 24-hour spans, so a daylight saving change can't move a result by a day
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// "2024-05-01" (or the date part of a longer ISO timestamp) as local midnight on that day
+export function parseISODate(isoDate: string): Date {
+  return new Date(`${isoDate.slice(0, 10)}T00:00:00`);
+}
+
+// A date's local calendar day as "YYYY-MM-DD"
+export function toISODate(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+// Whole calendar days from one date to another, by their local dates
+export function daysBetween(from: Date, to: Date): number {
+  const utcDay = (date: Date) => Date.UTC(date.getFullYear(), date.getMonth(), date.getDate());
+  return Math.round((utcDay(to) - utcDay(from)) / DAY_MS);
+}
+
+// The same local time a number of calendar days later
+export function addDays(date: Date, days: number): Date {
+  const result = new Date(date);
+  result.setDate(result.getDate() + days);
+  return result;
+}
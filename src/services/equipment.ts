@@ -0,0 +1,135 @@
+import type { EquipmentProfile, UserProfile } from "./schemas";
+import { roundWeight } from "./prescriptions";
+import { unitsFor } from "./units";
+
+// Turns any weight into one the user can actually load, from their equipment profile:
+// - barbells: the bar plus matching plates on each side, limited to the pairs they own
+// - dumbbells: fixed steps up to the heaviest pair
+// - machines and cables: the stack's pin steps
+// Without a profile, loads fall back to the single load increment stored before profiles existed,
+// or to whole 5lb jumps for imperial users who set neither
+
+export interface PlateBreakdown {
+  bar_kg: number;
+  per_side: number[]; // Heaviest first
+  total_kg: number; // What the bar and plates add up to
+  remainder_kg: number; // Asked-for weight the plates can't make up (negative when below the bar)
+}
+
+export const DEFAULT_EQUIPMENT_PROFILE: EquipmentProfile = {
+  bar_weights_kg: [20, 15],
+  plates: [
+    { weight_kg: 25, pairs: 4 },
+    { weight_kg: 20, pairs: 2 },
+    { weight_kg: 15, pairs: 2 },
+    { weight_kg: 10, pairs: 2 },
+    { weight_kg: 5, pairs: 2 },
+    { weight_kg: 2.5, pairs: 2 },
+    { weight_kg: 1.25, pairs: 2 },
+  ],
+  dumbbell_step_kg: 2,
+  dumbbell_max_kg: 50,
+  machine_step_kg: 5,
+};
+
+const MACHINE_EQUIPMENT = ["machine", "cable"];
+
+const key = (kg: number) => Math.round(kg * 1000) / 1000;
+
+// Fewer plates is quicker to load; between equal counts, heavier plates first (25 + 15 rather than 20 + 20)
+function isBetterLoading(candidate: number[], current: number[]): boolean {
+  if (candidate.length !== current.length) return candidate.length < current.length;
+  const differ = candidate.findIndex((plate, i) => plate !== current[i]);
+  return differ !== -1 && candidate[differ] > current[differ];
+}
+
+// Every per-side load the plates can make, with the plates making it, heaviest first
+// Kept per profile object, as it is asked for on every render of the set logger
+const sideLoadsCache = new WeakMap<EquipmentProfile, Map<number, number[]>>();
+function sideLoads(profile: EquipmentProfile): Map<number, number[]> {
+  const cached = sideLoadsCache.get(profile);
+  if (cached) return cached;
+
+  let loads = new Map<number, number[]>([[0, []]]);
+  const plates = [...profile.plates].filter((p) => p.weight_kg > 0).sort((a, b) => b.weight_kg - a.weight_kg);
+  for (const plate of plates) {
+    const next = new Map(loads);
+    for (const [load, combination] of loads) {
+      for (let count = 1; count <= plate.pairs; count++) {
+        const total = key(load + plate.weight_kg * count);
+        const candidate = [...combination, ...Array(count).fill(plate.weight_kg)];
+        const current = next.get(total);
+        if (!current || isBetterLoading(candidate, current)) next.set(total, candidate);
+      }
+    }
+    loads = next;
+  }
+  sideLoadsCache.set(profile, loads);
+  return loads;
+}
+
+export function defaultBar(profile: EquipmentProfile): number {
+  return profile.bar_weights_kg[0] ?? 20;
+}
+
+// The plates to put on each side of the bar for a weight, as close as the plates allow without going over
+export function plateBreakdown(
+  totalKg: number,
+  profile: EquipmentProfile,
+  barKg: number = defaultBar(profile)
+): PlateBreakdown {
+  const target = (totalKg - barKg) / 2;
+  let best = 0;
+  for (const load of sideLoads(profile).keys()) {
+    if (load <= target + 0.001 && load > best) best = load;
+  }
+  const perSide = sideLoads(profile).get(best) ?? [];
+  const total = key(barKg + best * 2);
+  return { bar_kg: barKg, per_side: perSide, total_kg: total, remainder_kg: key(totalKg - total) };
+}
+
+// The loadable barbell weight nearest to a weight
+function nearestBarbellLoad(kg: number, profile: EquipmentProfile, barKg: number): number {
+  let nearest = barKg;
+  for (const load of sideLoads(profile).keys()) {
+    const total = barKg + load * 2;
+    if (Math.abs(total - kg) < Math.abs(nearest - kg)) nearest = total;
+  }
+  return key(nearest);
+}
+
+// The smallest change in load the equipment allows, e.g. for the set logger's +/- buttons
+export function loadStep(profile: EquipmentProfile, equipment?: string): number {
+  if (equipment === "dumbbell") return profile.dumbbell_step_kg;
+  if (equipment && MACHINE_EQUIPMENT.includes(equipment)) return profile.machine_step_kg;
+  const lightest = Math.min(...profile.plates.filter((p) => p.pairs > 0).map((p) => p.weight_kg));
+  return isFinite(lightest) ? lightest * 2 : 2.5;
+}
+
+// A weight rounded to what the equipment for an exercise can make
+export function roundToEquipment(kg: number, profile: EquipmentProfile, equipment?: string, barKg?: number): number {
+  if (equipment === "barbell") return nearestBarbellLoad(kg, profile, barKg ?? defaultBar(profile));
+  if (equipment === "dumbbell") {
+    const rounded = roundWeight(kg, profile.dumbbell_step_kg);
+    return Math.min(profile.dumbbell_max_kg, Math.max(profile.dumbbell_step_kg, rounded));
+  }
+  return Math.max(0, roundWeight(kg, loadStep(profile, equipment)));
+}
+
+// The rounding a user's loads get for an exercise's equipment
+export function loadRounder(profile: UserProfile | null | undefined, equipment?: string): (kg: number) => number {
+  const equipmentProfile = profile?.equipment_profile;
+  if (equipmentProfile) return (kg) => roundToEquipment(kg, equipmentProfile, equipment);
+  const increment = profile?.load_increment_kg ?? undefined;
+  if (increment === undefined && profile?.unit_preference === "imperial") {
+    const units = unitsFor("imperial");
+    return (kg) => units.toKg(roundWeight(units.fromKg(kg), units.weightStep));
+  }
+  return (kg) => roundWeight(kg, increment);
+}
+
+// The smallest load jump for a user, from their plates or the increment they set before
+export function loadIncrementFor(profile: UserProfile | null | undefined): number | undefined {
+  if (profile?.equipment_profile) return loadStep(profile.equipment_profile, "barbell");
+  return profile?.load_increment_kg ?? undefined;
+}
@@ -0,0 +1,86 @@
+import type { ExerciseGroupType } from "./schemas";
+
+// Grouping of a workout's exercises into blocks (supersets, giant sets and circuits)
+// Members of a group share a group_id and are stored next to each other in order_index order;
+// every other exercise is a block of its own.
+
+interface Groupable {
+  id: string;
+  target_sets: number;
+  group_id?: string | null;
+  group_type?: ExerciseGroupType | null;
+  group_rounds?: number | null;
+}
+
+export interface ExerciseBlock<T extends Groupable> {
+  id: string; // The group id, or the exercise id for a lone exercise
+  group?: { type: ExerciseGroupType; rounds: number; letter: string };
+  exercises: T[];
+}
+
+export const GROUP_TYPE_LABELS: Record<ExerciseGroupType, string> = {
+  superset: "Superset",
+  giant_set: "Giant Set",
+  circuit: "Circuit",
+};
+
+// Type a group gets when it is formed or resized, unless it was made a circuit on purpose
+export function defaultGroupType(size: number, current?: ExerciseGroupType | null): ExerciseGroupType {
+  if (current === "circuit") return current;
+  return size > 2 ? "giant_set" : "superset";
+}
+
+// Split an ordered exercise list into blocks; groups are lettered A, B, C... in order
+export function toBlocks<T extends Groupable>(exercises: T[]): ExerciseBlock<T>[] {
+  const blocks: ExerciseBlock<T>[] = [];
+  for (const exercise of exercises) {
+    const last = blocks[blocks.length - 1];
+    if (exercise.group_id && last?.id === exercise.group_id) {
+      last.exercises.push(exercise);
+    } else {
+      blocks.push({ id: exercise.group_id || exercise.id, exercises: [exercise] });
+    }
+  }
+
+  let groupCount = 0;
+  for (const block of blocks) {
+    // A group left with one member (e.g. after a removal) is just an exercise
+    if (block.exercises.length < 2) {
+      block.id = block.exercises[0].id;
+      continue;
+    }
+    const [first] = block.exercises;
+    block.group = {
+      type: first.group_type || defaultGroupType(block.exercises.length),
+      rounds: first.group_rounds || Math.max(...block.exercises.map((e) => e.target_sets)),
+      letter: String.fromCharCode(65 + (groupCount++ % 26)),
+    };
+  }
+  return blocks;
+}
+
+// Where to go after a set of the exercise at `index`, given the sets logged per exercise so far.
+// Inside a group the next member comes up, and the rest timer only runs once a round is done.
+export function nextAfterSet<T extends Groupable>(
+  exercises: T[],
+  index: number,
+  setsLogged: (exercise: T) => number,
+  isSkipped: (exercise: T) => boolean = () => false
+): { index: number; rest: boolean } {
+  const block = toBlocks(exercises).find((b) => b.exercises.includes(exercises[index]));
+  if (!block?.group) return { index, rest: true };
+
+  const members = block.exercises.filter((e) => !isSkipped(e) || e === exercises[index]);
+  const position = members.indexOf(exercises[index]);
+  if (position < members.length - 1) {
+    return { index: exercises.indexOf(members[position + 1]), rest: false };
+  }
+
+  // End of the round: back to the top, or on to the next block once every round is done
+  const roundsDone = Math.min(...members.map(setsLogged));
+  if (roundsDone < block.group.rounds) {
+    return { index: exercises.indexOf(members[0]), rest: true };
+  }
+  const after = exercises.indexOf(block.exercises[block.exercises.length - 1]) + 1;
+  return { index: after < exercises.length ? after : index, rest: true };
+}
@@ -0,0 +1,316 @@
+import { weightLogsApi } from "./api";
+import type { Set, WeightLog, WeightLogCreate } from "./schemas";
+import { ALL_TIME_DAYS, type ExportedSession } from "./accountExport";
+import { formatDistance, formatDuration } from "./trackingModes";
+import { toISODate } from "./dates";
+import { KG_PER_LB, unitsFor } from "./units";
+
+// Files health platforms can take in, since the app can't write to them directly
+// - sessions as TCX workouts (Garmin's Training Center format, read by Strava, Google Fit importers and most
+//   health sync apps); each set is listed in the lap notes as strength sets have no track points
+// - body weight as HealthKit export XML or Open mHealth body-weight JSON
+// The reverse direction reads body weight back from Apple Health, Open mHealth and Google Fit (Takeout) exports
+
+export type WeightExportFormat = "healthkit" | "openmhealth";
+export type WeightImportSource = "healthkit" | "openmhealth" | "googlefit";
+
+export const WEIGHT_IMPORT_SOURCE_LABELS: Record<WeightImportSource, string> = {
+  healthkit: "Apple Health",
+  openmhealth: "Open mHealth",
+  googlefit: "Google Fit",
+};
+
+const SOURCE_NAME = "FitForge";
+
+type TimeOfDay = "morning" | "afternoon" | "evening";
+
+// Weight logs only record the part of the day; exports place them at a typical hour
+const TIME_OF_DAY_HOURS: Record<TimeOfDay, number> = { morning: 8, afternoon: 13, evening: 19 };
+
+function timeOfDay(date: Date): TimeOfDay {
+  const hour = date.getHours();
+  return hour < 12 ? "morning" : hour < 17 ? "afternoon" : "evening";
+}
+
+function logTime(log: Pick<WeightLog, "logged_date" | "time_of_day">): Date {
+  const hour = TIME_OF_DAY_HOURS[log.time_of_day as TimeOfDay] ?? TIME_OF_DAY_HOURS.morning;
+  return new Date(`${log.logged_date}T${String(hour).padStart(2, "0")}:00:00`);
+}
+
+function escapeXml(text: string): string {
+  return text.replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`);
+}
+
+// Local time with its UTC offset, as HealthKit writes dates: 2024-05-01 08:00:00 +0200
+function healthKitDate(date: Date): string {
+  const pad = (n: number) => String(Math.abs(n)).padStart(2, "0");
+  const offset = -date.getTimezoneOffset();
+  const zone = `${offset >= 0 ? "+" : "-"}${pad(Math.trunc(offset / 60))}${pad(offset % 60)}`;
+  return `${toISODate(date)} ${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())} ${zone}`;
+}
+
+// Workouts
+
+// When a session ran: from its first set to its completion (or last set)
+function sessionSpan(session: ExportedSession): { start: Date; end: Date } | null {
+  const times = session.sets.map((set) => new Date(set.completed_at).getTime()).filter((t) => !isNaN(t));
+  if (session.completed_at) times.push(new Date(session.completed_at).getTime());
+  if (times.length === 0) return null;
+  const start = Math.min(...times);
+  // A session with a single timestamp still lasted a while; count at least a minute
+  const end = Math.max(Math.max(...times), start + 60 * 1000);
+  return { start: new Date(start), end: new Date(end) };
+}
+
+function setLine(set: Set, exerciseNames: Map<string, string>): string {
+  const name = exerciseNames.get(set.exercise_id) ?? "Exercise";
+  const kind = set.is_warmup ? " (warm-up)" : set.is_dropset ? " (drop set)" : "";
+  // Timed, distance and calorie sets log no reps; list what they measured instead
+  const result =
+    set.reps > 0
+      ? `${set.weight_kg} kg x ${set.reps}`
+      : [
+          set.weight_kg > 0 && `${set.weight_kg} kg`,
+          set.distance_m && formatDistance(set.distance_m, unitsFor("metric")),
+          set.duration_seconds && formatDuration(set.duration_seconds),
+          set.calories && `${set.calories} cal`,
+        ]
+          .filter(Boolean)
+          .join(" / ");
+  return `${name}: ${result}${set.rpe ? ` @ RPE ${set.rpe}` : ""}${kind}`;
+}
+
+// Sessions as one TCX file, an Activity per session
+export function sessionsToTcx(sessions: ExportedSession[], exerciseNames: Map<string, string>): string {
+  const activities = sessions.flatMap((session) => {
+    const span = sessionSpan(session);
+    if (!span) return [];
+    const seconds = Math.round((span.end.getTime() - span.start.getTime()) / 1000);
+    const distance = session.sets.reduce((sum, set) => sum + (set.distance_m ?? 0), 0);
+    const calories = session.sets.reduce((sum, set) => sum + (set.calories ?? 0), 0);
+    const notes = [session.workout_name ?? "Strength training", ...session.sets.map((s) => setLine(s, exerciseNames))];
+    return [
+      `    <Activity Sport="Other">
+      <Id>${span.start.toISOString()}</Id>
+      <Lap StartTime="${span.start.toISOString()}">
+        <TotalTimeSeconds>${seconds}</TotalTimeSeconds>
+        <DistanceMeters>${Math.round(distance)}</DistanceMeters>
+        <Calories>${Math.round(calories)}</Calories>
+        <Intensity>Active</Intensity>
+        <TriggerMethod>Manual</TriggerMethod>
+      </Lap>
+      <Notes>${escapeXml(notes.join("\n"))}</Notes>
+    </Activity>`,
+    ];
+  });
+
+  // The schema's Application_t needs Build, LangID and PartNumber as well as Name; strict importers check
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<TrainingCenterDatabase xmlns="http://www.garmin.com/xmlschemas/TrainingCenterDatabase/v2">
+  <Activities>
+${activities.join("\n")}
+  </Activities>
+  <Author xsi:type="Application_t" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">
+    <Name>${SOURCE_NAME}</Name>
+    <Build>
+      <Version>
+        <VersionMajor>1</VersionMajor>
+        <VersionMinor>0</VersionMinor>
+      </Version>
+    </Build>
+    <LangID>en</LangID>
+    <PartNumber>000-00000-00</PartNumber>
+  </Author>
+</TrainingCenterDatabase>
+`;
+}
+
+// Body weight export
+
+export function weightLogsToHealthKitXml(logs: WeightLog[]): string {
+  const records = logs.map((log) => {
+    const date = healthKitDate(logTime(log));
+    const attributes = [
+      `type="HKQuantityTypeIdentifierBodyMass"`,
+      `sourceName="${SOURCE_NAME}"`,
+      `unit="kg"`,
+      `creationDate="${date}"`,
+      `startDate="${date}"`,
+      `endDate="${date}"`,
+      `value="${log.weight_kg}"`,
+    ];
+    return `  <Record ${attributes.join(" ")}/>`;
+  });
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<HealthData locale="en_US">
+  <ExportDate value="${healthKitDate(new Date())}"/>
+${records.join("\n")}
+</HealthData>
+`;
+}
+
+// One Open mHealth data point (header + body) per log, using the omh:body-weight schema
+export function weightLogsToOpenMHealth(logs: WeightLog[]): string {
+  const points = logs.map((log) => ({
+    header: {
+      id: log.id,
+      creation_date_time: log.created_at,
+      schema_id: { namespace: "omh", name: "body-weight", version: "2.0" },
+      source_name: SOURCE_NAME,
+    },
+    body: {
+      body_weight: { value: log.weight_kg, unit: "kg" },
+      effective_time_frame: { date_time: logTime(log).toISOString() },
+      ...(log.notes ? { user_notes: log.notes } : {}),
+    },
+  }));
+  return JSON.stringify(points, null, 2);
+}
+
+// Body weight import
+
+export interface WeightReading {
+  weightKg: number;
+  at: Date;
+}
+
+export interface WeightImportPlan {
+  source: WeightImportSource;
+  toCreate: WeightLogCreate[];
+  duplicates: number; // Already logged for that day and time of day
+  unreadable: number; // Entries without a usable weight or date
+}
+
+function toKg(value: number, unit: string | undefined): number {
+  const kg = unit?.toLowerCase().startsWith("lb") ? value * KG_PER_LB : value;
+  return Math.round(kg * 100) / 100;
+}
+
+// "2024-05-01 08:00:00 +0200" as a Date
+function parseHealthKitDate(value: string): Date {
+  const match = value.match(/^(\d{4}-\d{2}-\d{2}) (\d{2}:\d{2}:\d{2}) ([+-]\d{2})(\d{2})$/);
+  return new Date(match ? `${match[1]}T${match[2]}${match[3]}:${match[4]}` : value);
+}
+
+// Apple Health's export.xml can run to hundreds of megabytes, so the body mass records are picked out
+// with a pattern instead of building a DOM of the whole file
+function readHealthKit(text: string): WeightReading[] {
+  const readings: WeightReading[] = [];
+  for (const [tag] of text.matchAll(/<Record\b[^>]*?type="HKQuantityTypeIdentifierBodyMass"[^>]*>/g)) {
+    const attributes = Object.fromEntries([...tag.matchAll(/(\w+)="([^"]*)"/g)].map(([, key, value]) => [key, value]));
+    readings.push({
+      weightKg: toKg(Number(attributes.value), attributes.unit),
+      at: parseHealthKitDate(attributes.startDate ?? ""),
+    });
+  }
+  return readings;
+}
+
+// Parsed JSON is walked with these rather than trusted to have any particular shape
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+const field = (value: unknown, key: string): unknown => (isObject(value) ? value[key] : undefined);
+const first = (value: unknown): unknown => (Array.isArray(value) ? value[0] : undefined);
+const asString = (value: unknown): string | undefined => (typeof value === "string" ? value : undefined);
+
+function readOpenMHealth(data: unknown): WeightReading[] {
+  const list = Array.isArray(data) ? data : field(data, "data");
+  const points: unknown[] = Array.isArray(list) ? list : [data];
+  return points
+    .map((point) => field(point, "body") ?? point)
+    .filter((body) => isObject(field(body, "body_weight")))
+    .map((body) => {
+      const weight = field(body, "body_weight");
+      const frame = field(body, "effective_time_frame");
+      const interval = field(frame, "time_interval");
+      const time = asString(field(frame, "date_time")) ?? asString(field(interval, "start_date_time"));
+      return {
+        weightKg: toKg(Number(field(weight, "value")), asString(field(weight, "unit"))),
+        at: new Date(time ?? ""),
+      };
+    });
+}
+
+const GOOGLE_FIT_POINT_KEYS = ["Data Points", "dataPoints", "point"];
+
+// Google Takeout's Fit data: { "Data Points": [{ startTimeNanos, fitValue: [{ value: { fpVal } }] }] } in kg
+function readGoogleFit(data: unknown): WeightReading[] {
+  const list = GOOGLE_FIT_POINT_KEYS.map((key) => field(data, key)).find((value) => value !== undefined);
+  const points: unknown[] = Array.isArray(list) ? list : [];
+  return points
+    .filter((point) => (asString(field(point, "dataTypeName")) ?? "com.google.weight").includes("weight"))
+    .map((point) => {
+      const fpVal =
+        field(field(first(field(point, "fitValue")), "value"), "fpVal") ?? field(first(field(point, "value")), "fpVal");
+      return {
+        weightKg: toKg(Number(fpVal), "kg"),
+        at: new Date(Number(field(point, "startTimeNanos")) / 1e6),
+      };
+    });
+}
+
+// A reading with a weight and a date that can be logged
+function isReadable(reading: WeightReading): boolean {
+  return reading.weightKg > 0 && !isNaN(reading.at.getTime());
+}
+
+// Body weight readings from an export file, and which app it came from
+export function parseWeightFile(text: string): { source: WeightImportSource; readings: WeightReading[] } {
+  if (text.includes("<HealthData")) return { source: "healthkit", readings: readHealthKit(text) };
+
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("Not an Apple Health export.xml or a JSON export");
+  }
+  const source: WeightImportSource =
+    isObject(data) && GOOGLE_FIT_POINT_KEYS.some((key) => key in data) ? "googlefit" : "openmhealth";
+  const readings = source === "googlefit" ? readGoogleFit(data) : readOpenMHealth(data);
+  if (!readings.some(isReadable)) throw new Error("No body weight readings found in this file");
+  return { source, readings };
+}
+
+// Weight logs to create for the readings: one per day and time of day, skipping slots already logged
+// When a file has several readings for one slot, the first is kept
+export function planWeightImport(
+  source: WeightImportSource,
+  readings: WeightReading[],
+  existing: WeightLog[]
+): WeightImportPlan {
+  const slotKey = (date: string, time: string | undefined) => `${date}|${time ?? "morning"}`;
+  const taken = new globalThis.Set(existing.map((log) => slotKey(log.logged_date, log.time_of_day)));
+  const toCreate: WeightLogCreate[] = [];
+  let duplicates = 0;
+  let unreadable = 0;
+
+  const sorted = [...readings].sort((a, b) => a.at.getTime() - b.at.getTime());
+  for (const reading of sorted) {
+    if (!isReadable(reading)) {
+      unreadable++;
+      continue;
+    }
+    const log = { weight_kg: reading.weightKg, logged_date: toISODate(reading.at), time_of_day: timeOfDay(reading.at) };
+    const key = slotKey(log.logged_date, log.time_of_day);
+    if (taken.has(key)) {
+      duplicates++;
+      continue;
+    }
+    taken.add(key);
+    toCreate.push({ ...log, notes: `Imported from ${WEIGHT_IMPORT_SOURCE_LABELS[source]}` });
+  }
+  return { source, toCreate, duplicates, unreadable };
+}
+
+// Every weight log on the account, to check an import against
+export async function allWeightLogs(): Promise<WeightLog[]> {
+  return (await weightLogsApi.list(ALL_TIME_DAYS)).data;
+}
+
+// Create the planned logs one at a time; offline they queue like any other weight log
+export async function applyWeightImport(plan: WeightImportPlan, onProgress: (done: number) => void): Promise<void> {
+  for (const [index, log] of plan.toCreate.entries()) {
+    await weightLogsApi.create(log);
+    onProgress(index + 1);
+  }
+}
@@ -0,0 +1,436 @@
+import type { Exercise, ImportedSession } from "./schemas";
+import { exercisesApi, sessionsApi } from "./api";
+import { offlineService, generateClientId, type HistoryImport } from "./offline";
+import { parseCsvRecords } from "./files";
+import { toISODate } from "./dates";
+import { KG_PER_LB } from "./units";
+
+// Workout history exported from other apps (Strong, Hevy, FitNotes), turned into FitForge sessions
+// 1. parse: each app's CSV becomes the same rows - one per set, in the unit it was logged in
+// 2. map: every exercise name is matched to the library (fuzzy, then checked by the user)
+// 3. build: rows are grouped into sessions and split into batches
+// 4. run: batches are sent one at a time; progress is stored on the device, so a failed or
+//    interrupted import carries on from the first batch the server has not acknowledged
+
+export type HistorySource = "strong" | "hevy" | "fitnotes";
+export type WeightUnit = "kg" | "lb";
+
+export interface HistoryRow {
+  sessionKey: string; // Rows of one session share this
+  workoutName: string;
+  startedAt: Date;
+  durationMinutes?: number;
+  sessionNotes?: string;
+  exerciseName: string;
+  weight: number;
+  unit?: WeightUnit; // Unknown when the file doesn't say
+  reps: number;
+  rpe?: number;
+  isWarmup: boolean;
+  isFailure: boolean;
+  isDropset: boolean;
+  notes?: string;
+}
+
+export interface ParsedHistory {
+  source: HistorySource;
+  rows: HistoryRow[];
+  skippedRows: number; // Cardio, timed or empty rows
+  needsUnit: boolean; // Some weights have no unit and need the user to say which
+}
+
+export type ExerciseMapping =
+  | { kind: "exercise"; exerciseId: string }
+  | { kind: "create"; muscleGroupId?: string; equipment: string }
+  | { kind: "skip" };
+
+export interface MatchSuggestion {
+  exercise: Exercise;
+  score: number; // 0-1
+}
+
+export const HISTORY_SOURCE_LABELS: Record<HistorySource, string> = {
+  strong: "Strong",
+  hevy: "Hevy",
+  fitnotes: "FitNotes",
+};
+
+export const AUTO_MATCH_SCORE = 0.75;
+const SESSIONS_PER_BATCH = 25;
+const DEFAULT_SESSION_MINUTES = 60;
+
+const MONTHS = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+
+function toNumber(value: string | undefined): number {
+  if (!value) return NaN;
+  return parseFloat(value.replace(",", "."));
+}
+
+function optionalNumber(value: string | undefined): number | undefined {
+  const number = toNumber(value);
+  return Number.isNaN(number) ? undefined : number;
+}
+
+// "2023-04-01 18:05:00", "2023-04-01" or "18 Jan 2024, 07:05"
+function parseDateTime(value: string): Date | null {
+  const iso = value.match(/^(\d{4})-(\d{2})-(\d{2})(?:[ T](\d{1,2}):(\d{2})(?::(\d{2}))?)?/);
+  if (iso) {
+    const [, year, month, day, hour = "0", minute = "0", second = "0"] = iso;
+    return new Date(+year, +month - 1, +day, +hour, +minute, +second);
+  }
+  const named = value.match(/^(\d{1,2}) ([A-Za-z]{3})\w* (\d{4}),? (\d{1,2}):(\d{2})/);
+  if (named) {
+    const [, day, monthName, year, hour, minute] = named;
+    const month = MONTHS.indexOf(monthName.toLowerCase());
+    if (month !== -1) return new Date(+year, month, +day, +hour, +minute);
+  }
+  const parsed = new Date(value);
+  return Number.isNaN(parsed.getTime()) ? null : parsed;
+}
+
+// Strong writes durations as "1h 5m", "45m" or "3600" (seconds, in newer exports)
+function parseDuration(value: string | undefined): number | undefined {
+  if (!value) return undefined;
+  if (/^\d+$/.test(value)) return Math.round(parseInt(value) / 60);
+  const hours = value.match(/(\d+)\s*h/)?.[1];
+  const minutes = value.match(/(\d+)\s*m/)?.[1];
+  if (!hours && !minutes) return undefined;
+  return parseInt(hours ?? "0") * 60 + parseInt(minutes ?? "0");
+}
+
+function unitFrom(value: string | undefined): WeightUnit | undefined {
+  const unit = value?.toLowerCase();
+  if (!unit) return undefined;
+  if (unit.startsWith("lb")) return "lb";
+  if (unit.startsWith("kg")) return "kg";
+  return undefined;
+}
+
+function detectSource(headers: string[]): HistorySource | null {
+  const has = (...names: string[]) => names.every((name) => headers.includes(name));
+  if (has("exercise_title", "start_time")) return "hevy";
+  if (has("exercise name", "set order")) return "strong";
+  if (has("date", "exercise", "category")) return "fitnotes";
+  return null;
+}
+
+function parseStrong(records: Array<Record<string, string>>): Omit<ParsedHistory, "source" | "needsUnit"> {
+  const rows: HistoryRow[] = [];
+  let skippedRows = 0;
+  for (const record of records) {
+    const startedAt = parseDateTime(record["date"]);
+    const reps = toNumber(record["reps"]);
+    if (!startedAt || !record["exercise name"] || !(reps > 0)) {
+      skippedRows++;
+      continue;
+    }
+    // Set Order is a number, or W (warm-up), D (drop set) or F (failure)
+    const order = (record["set order"] ?? "").toUpperCase();
+    rows.push({
+      sessionKey: `${record["date"]}:${record["workout name"]}`,
+      workoutName: record["workout name"] || "Workout",
+      startedAt,
+      durationMinutes: parseDuration(record["duration"] || record["workout duration"]),
+      sessionNotes: record["workout notes"] || undefined,
+      exerciseName: record["exercise name"],
+      weight: toNumber(record["weight"]) || 0,
+      unit: unitFrom(record["weight unit"]),
+      reps,
+      rpe: optionalNumber(record["rpe"]),
+      isWarmup: order === "W",
+      isFailure: order === "F",
+      isDropset: order === "D",
+      notes: record["notes"] || undefined,
+    });
+  }
+  return { rows, skippedRows };
+}
+
+function parseHevy(records: Array<Record<string, string>>): Omit<ParsedHistory, "source" | "needsUnit"> {
+  const rows: HistoryRow[] = [];
+  let skippedRows = 0;
+  for (const record of records) {
+    const startedAt = parseDateTime(record["start_time"]);
+    const endedAt = record["end_time"] ? parseDateTime(record["end_time"]) : null;
+    const reps = toNumber(record["reps"]);
+    if (!startedAt || !record["exercise_title"] || !(reps > 0)) {
+      skippedRows++;
+      continue;
+    }
+    const inPounds = "weight_lbs" in record;
+    const setType = record["set_type"]?.toLowerCase();
+    rows.push({
+      sessionKey: `${record["start_time"]}:${record["title"]}`,
+      workoutName: record["title"] || "Workout",
+      startedAt,
+      durationMinutes: endedAt ? Math.round((endedAt.getTime() - startedAt.getTime()) / 60000) : undefined,
+      sessionNotes: record["description"] || undefined,
+      exerciseName: record["exercise_title"],
+      weight: toNumber(inPounds ? record["weight_lbs"] : record["weight_kg"]) || 0,
+      unit: inPounds ? "lb" : "kg",
+      reps,
+      rpe: optionalNumber(record["rpe"]),
+      isWarmup: setType === "warmup",
+      isFailure: setType === "failure",
+      isDropset: setType === "dropset",
+      notes: record["exercise_notes"] || undefined,
+    });
+  }
+  return { rows, skippedRows };
+}
+
+// FitNotes has no workouts, only days; a day's sets become one session named after its categories
+function parseFitNotes(records: Array<Record<string, string>>): Omit<ParsedHistory, "source" | "needsUnit"> {
+  const rows: HistoryRow[] = [];
+  let skippedRows = 0;
+  const categories = new Map<string, string[]>();
+
+  for (const record of records) {
+    const startedAt = parseDateTime(record["date"]);
+    const reps = toNumber(record["reps"]);
+    if (!startedAt || !record["exercise"] || !(reps > 0)) {
+      skippedRows++;
+      continue;
+    }
+    const weightColumn = ["weight (kgs)", "weight (kg)", "weight (lbs)", "weight (lb)", "weight"].find(
+      (column) => column in record
+    );
+    const unit = weightColumn?.includes("lb")
+      ? "lb"
+      : weightColumn?.includes("kg")
+      ? "kg"
+      : unitFrom(record["weight unit"]);
+    const day = record["date"];
+    const dayCategories = categories.get(day) ?? [];
+    if (record["category"] && !dayCategories.includes(record["category"])) dayCategories.push(record["category"]);
+    categories.set(day, dayCategories);
+
+    rows.push({
+      sessionKey: day,
+      workoutName: "",
+      startedAt,
+      exerciseName: record["exercise"],
+      weight: toNumber(weightColumn && record[weightColumn]) || 0,
+      unit,
+      reps,
+      isWarmup: false,
+      isFailure: false,
+      isDropset: false,
+      notes: record["comment"] || undefined,
+    });
+  }
+  rows.forEach((row) => (row.workoutName = categories.get(row.sessionKey)?.join(" & ") || "Workout"));
+  return { rows, skippedRows };
+}
+
+// Read an export from any of the supported apps
+export function parseHistoryFile(text: string): ParsedHistory {
+  const records = parseCsvRecords(text);
+  if (records.length === 0) throw new Error("The file has no rows");
+
+  const source = detectSource(Object.keys(records[0]));
+  if (!source) throw new Error("This doesn't look like a Strong, Hevy or FitNotes export");
+
+  const parsed =
+    source === "strong" ? parseStrong(records) : source === "hevy" ? parseHevy(records) : parseFitNotes(records);
+  if (parsed.rows.length === 0) throw new Error("No weight and reps sets were found in the file");
+  return { source, ...parsed, needsUnit: parsed.rows.some((row) => !row.unit) };
+}
+
+// Matching exercise names across apps
+
+const SYNONYMS: Record<string, string> = {
+  db: "dumbbell",
+  dumbbells: "dumbbell",
+  bb: "barbell",
+  kb: "kettlebell",
+  ohp: "overhead press",
+  rdl: "romanian deadlift",
+  bw: "bodyweight",
+  pulldown: "pull down",
+  pullup: "pull up",
+  chinup: "chin up",
+  pushup: "push up",
+  situp: "sit up",
+};
+const STOP_WORDS = new Set(["the", "a", "with", "on", "and", "of"]);
+
+function tokens(name: string): Set<string> {
+  const words = name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .split(" ")
+    .flatMap((word) => (SYNONYMS[word] ?? word).split(" "))
+    .filter((word) => word && !STOP_WORDS.has(word))
+    // Plurals match singulars ("curls" = "curl"), but not words ending in ss ("press")
+    .map((word) => (word.length > 3 && word.endsWith("s") && !word.endsWith("ss") ? word.slice(0, -1) : word));
+  return new Set(words);
+}
+
+function similarity(a: Set<string>, b: Set<string>): number {
+  const shared = [...a].filter((word) => b.has(word)).length;
+  return shared / (a.size + b.size - shared || 1);
+}
+
+// Library exercises most like a name, best first
+export function suggestMatches(name: string, library: Exercise[], limit: number = 3): MatchSuggestion[] {
+  const wanted = tokens(name);
+  return library
+    .map((exercise) => ({ exercise, score: similarity(wanted, tokens(exercise.name)) }))
+    .filter((match) => match.score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+}
+
+// A first guess at the mapping of every exercise in the file: confident matches are taken, the rest are new
+export function initialMappings(rows: HistoryRow[], library: Exercise[]): Record<string, ExerciseMapping> {
+  const mappings: Record<string, ExerciseMapping> = {};
+  for (const name of new Set(rows.map((row) => row.exerciseName))) {
+    const [best] = suggestMatches(name, library, 1);
+    mappings[name] =
+      best && best.score >= AUTO_MATCH_SCORE
+        ? { kind: "exercise", exerciseId: best.exercise.id }
+        : { kind: "create", equipment: "other" };
+  }
+  return mappings;
+}
+
+export function toKg(weight: number, unit: WeightUnit): number {
+  return unit === "lb" ? Math.round(weight * KG_PER_LB * 100) / 100 : weight;
+}
+
+// Sessions ready to send, in date order, from rows whose exercises are all mapped to library ids
+export function buildSessions(
+  parsed: ParsedHistory,
+  exerciseIds: Record<string, string | undefined>,
+  defaultUnit: WeightUnit
+): ImportedSession[] {
+  const sessions = new Map<string, ImportedSession>();
+  const setCounts = new Map<string, number>();
+
+  for (const row of parsed.rows) {
+    const exerciseId = exerciseIds[row.exerciseName];
+    if (!exerciseId) continue;
+
+    let session = sessions.get(row.sessionKey);
+    if (!session) {
+      const minutes = row.durationMinutes ?? DEFAULT_SESSION_MINUTES;
+      session = {
+        import_key: `${parsed.source}:${row.sessionKey}`,
+        workout_name: row.workoutName,
+        session_date: toISODate(row.startedAt),
+        started_at: row.startedAt.toISOString(),
+        completed_at: new Date(row.startedAt.getTime() + minutes * 60000).toISOString(),
+        duration_minutes: row.durationMinutes,
+        notes: row.sessionNotes,
+        sets: [],
+      };
+      sessions.set(row.sessionKey, session);
+    }
+
+    const countKey = `${row.sessionKey}|${exerciseId}`;
+    const setNumber = (setCounts.get(countKey) ?? 0) + 1;
+    setCounts.set(countKey, setNumber);
+    session.sets.push({
+      exercise_id: exerciseId,
+      set_number: setNumber,
+      weight_kg: toKg(row.weight, row.unit ?? defaultUnit),
+      reps: row.reps,
+      rpe: row.rpe,
+      is_warmup: row.isWarmup,
+      is_failure: row.isFailure,
+      is_dropset: row.isDropset,
+      notes: row.notes,
+    });
+  }
+
+  return [...sessions.values()].sort((a, b) => a.started_at.localeCompare(b.started_at));
+}
+
+// Create the custom exercises the mapping asks for; returns the library id of every mapped name
+// Each exercise is reported as it is created, so a retry after a failure doesn't create it twice
+export async function resolveExercises(
+  mappings: Record<string, ExerciseMapping>,
+  callbacks: { onProgress?: (message: string) => void; onCreated?: (name: string, exercise: Exercise) => void } = {}
+): Promise<Record<string, string | undefined>> {
+  const ids: Record<string, string | undefined> = {};
+  for (const [name, mapping] of Object.entries(mappings)) {
+    if (mapping.kind === "exercise") {
+      ids[name] = mapping.exerciseId;
+    } else if (mapping.kind === "create") {
+      if (!mapping.muscleGroupId) throw new Error(`Choose a muscle group for ${name}`);
+      callbacks.onProgress?.(`Creating ${name}...`);
+      const exercise = await exercisesApi.create({
+        name,
+        muscle_group_id: mapping.muscleGroupId,
+        equipment: mapping.equipment,
+      });
+      callbacks.onCreated?.(name, exercise);
+      ids[name] = exercise.id;
+    }
+  }
+  return ids;
+}
+
+// Store a new import on the device, split into batches
+export async function startHistoryImport(
+  source: HistorySource,
+  fileName: string,
+  sessions: ImportedSession[]
+): Promise<HistoryImport> {
+  const batches: ImportedSession[][] = [];
+  for (let i = 0; i < sessions.length; i += SESSIONS_PER_BATCH) {
+    batches.push(sessions.slice(i, i + SESSIONS_PER_BATCH));
+  }
+  const stored = await offlineService.saveHistoryImport({
+    id: generateClientId(),
+    source,
+    fileName,
+    createdAt: Date.now(),
+    batches,
+    nextBatch: 0,
+    imported: 0,
+    skipped: 0,
+  });
+  if (!stored) throw new Error("Sign in to import history");
+  return stored;
+}
+
+// Send the batches not yet acknowledged, recording progress after each one
+// Stops at the first failure (kept on the import for the next attempt) or when asked to
+export async function runHistoryImport(
+  historyImport: HistoryImport,
+  onProgress: (historyImport: HistoryImport) => void,
+  shouldStop: () => boolean = () => false
+): Promise<HistoryImport> {
+  let current = { ...historyImport, error: undefined };
+  while (current.nextBatch < current.batches.length && !shouldStop()) {
+    const index = current.nextBatch;
+    try {
+      const result = await sessionsApi.importHistory(current.source, current.batches[index], `${current.id}:${index}`);
+      current = {
+        ...current,
+        nextBatch: index + 1,
+        imported: current.imported + result.imported,
+        skipped: current.skipped + result.skipped,
+      };
+    } catch (err: any) {
+      current = { ...current, error: err.message || "Import failed" };
+      await offlineService.updateHistoryImport(current.id, { error: current.error });
+      onProgress(current);
+      throw err;
+    }
+    await offlineService.updateHistoryImport(current.id, {
+      nextBatch: current.nextBatch,
+      imported: current.imported,
+      skipped: current.skipped,
+      error: undefined,
+    });
+    onProgress(current);
+  }
+
+  if (current.nextBatch >= current.batches.length) {
+    await offlineService.deleteHistoryImport(current.id);
+  }
+  return current;
+}
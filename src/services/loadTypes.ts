@@ -0,0 +1,99 @@
+import type { Exercise, LoadType } from "./schemas";
+import { usersApi, weightLogsApi } from "./api";
+import type { Units } from "./units";
+
+// Sets of bodyweight exercises store the load actually moved in weight_kg (body weight, plus anything added,
+// less any assistance), so volume and 1RM count pull-ups and dips like any other lift.
+// bodyweight_kg keeps the body weight it was worked out from, so the added or assisting weight the user
+// entered can be read back. Sets without it (logged before load types, or with no body weight known)
+// hold what was entered.
+
+export const LOAD_TYPES: LoadType[] = ["external", "bodyweight", "bodyweight_plus", "assisted"];
+
+export const LOAD_TYPE_LABELS: Record<LoadType, string> = {
+  external: "Weight",
+  bodyweight: "Bodyweight",
+  bodyweight_plus: "Bodyweight + added",
+  assisted: "Assisted",
+};
+
+// What the logger asks for, by load type
+export const LOAD_INPUT_LABELS: Record<LoadType, string> = {
+  external: "Weight",
+  bodyweight: "Bodyweight",
+  bodyweight_plus: "Added weight",
+  assisted: "Assistance",
+};
+
+// A new exercise's load type, from its equipment
+export function defaultLoadType(equipment: string): LoadType {
+  return equipment === "bodyweight" ? "bodyweight" : "external";
+}
+
+// Exercises from before load types count bodyweight equipment as bodyweight
+export function loadTypeOf(exercise: Pick<Exercise, "equipment" | "load_type">): LoadType {
+  return exercise.load_type ?? defaultLoadType(exercise.equipment);
+}
+
+export function countsBodyweight(loadType: LoadType): boolean {
+  return loadType !== "external";
+}
+
+const round = (kg: number) => Math.round(kg * 100) / 100;
+
+// The load moved for what was entered: the weight itself, or body weight with it added or taken off
+// Without a body weight, added weight still counts and the rest can't
+export function effectiveLoad(loadType: LoadType, enteredKg: number, bodyweightKg: number | null): number {
+  switch (loadType) {
+    case "external":
+      return enteredKg;
+    case "bodyweight":
+      return round(bodyweightKg ?? 0);
+    case "bodyweight_plus":
+      return round((bodyweightKg ?? 0) + enteredKg);
+    case "assisted":
+      return bodyweightKg === null ? 0 : round(Math.max(0, bodyweightKg - enteredKg));
+  }
+}
+
+// What was entered for a logged set: the inverse of effectiveLoad
+export function enteredLoad(loadType: LoadType, set: { weight_kg: number; bodyweight_kg?: number | null }): number {
+  const bodyweight = set.bodyweight_kg;
+  if (bodyweight === null || bodyweight === undefined) return loadType === "bodyweight" ? 0 : set.weight_kg;
+  switch (loadType) {
+    case "external":
+      return set.weight_kg;
+    case "bodyweight":
+      return 0;
+    case "bodyweight_plus":
+      return round(Math.max(0, set.weight_kg - bodyweight));
+    case "assisted":
+      return round(Math.max(0, bodyweight - set.weight_kg));
+  }
+}
+
+// A set's load as the user thinks of it: "80 kg", "BW", "BW + 10 kg", "BW − 20 kg"
+export function formatLoad(
+  loadType: LoadType,
+  set: { weight_kg: number; bodyweight_kg?: number | null },
+  units: Units
+): string {
+  if (loadType === "external") return units.formatWeight(set.weight_kg, { decimals: 1 });
+  const entered = enteredLoad(loadType, set);
+  if (loadType === "bodyweight" || entered === 0) return "BW";
+  return `BW ${loadType === "assisted" ? "−" : "+"} ${units.formatWeight(entered, { decimals: 1 })}`;
+}
+
+// The user's body weight for bodyweight sets: their latest weight log, else the weight on their profile
+export async function latestBodyweight(): Promise<number | null> {
+  try {
+    const logs = (await weightLogsApi.list(365)).data;
+    const latest = [...logs].sort(
+      (a, b) => b.logged_date.localeCompare(a.logged_date) || b.created_at.localeCompare(a.created_at)
+    )[0];
+    if (latest) return latest.weight_kg;
+    return (await usersApi.getMe()).current_weight_kg ?? null;
+  } catch {
+    return null;
+  }
+}
@@ -1,47 +1,160 @@
 import Dexie, { Table } from "dexie";
-import { type SetCreate } from "./api";
+import {
+  type SetCreate,
+  type Program,
+  type Workout,
+  type WorkoutExercise,
+  type Session,
+  type ExerciseInSession,
+  type ImportedSession,
+} from "./api";
 
-export interface PendingSet {
-  id?: number;
-  setData: SetCreate;
+// Fields shared by every entry in the offline operation log
+interface PendingOperationBase {
+  id?: number; // Auto-incremented, gives the log its order
+  clientId: string; // Stable idempotency key, also used as the optimistic row id
+  dependsOn: string[]; // Client ids of operations that must be acknowledged first
   timestamp: number;
   synced: boolean;
   retryCount: number;
   lastRetryAt?: number;
   error?: string;
+  serverId?: string; // Id assigned by the server once a create has synced
+  syncedAt?: number;
+  errorStatus?: number; // HTTP status of the last failure, if the server answered
+  deadLetteredAt?: number; // Set once the item is given up on and needs the user's attention
+  userId?: string; // Account the operation was queued by; only that account's session sends it
+  sendingAt?: number; // Set while a tab or the service worker is sending it; later edits queue behind it
+}
+
+// Edits and deletes; targetId is the server id, or the client id of a create still being sent
+type PendingChange = PendingSetChange | PendingWeightLogChange;
+
+export interface PendingSet extends PendingOperationBase {
+  kind: "set";
+  action: "create";
+  setData: SetCreate;
+  sessionId?: string; // Session the set was logged in (local or server id)
+}
+
+// Edit or delete of a set that already exists on the server
+export interface PendingSetChange extends PendingOperationBase {
+  kind: "set";
+  action: "update" | "delete";
+  targetId: string; // Server id of the set (a create's client id until that create lands)
+  updates?: Partial<SetCreate>;
 }
 
-export interface PendingSession {
-  id?: number;
+export interface PendingSession extends PendingOperationBase {
+  kind: "session";
   sessionId: string;
-  action: "complete";
-  data: { overall_rpe?: number; notes?: string };
-  timestamp: number;
-  synced: boolean;
-  retryCount: number;
-  lastRetryAt?: number;
-  error?: string;
+  action: "start" | "complete";
+  data: {
+    overall_rpe?: number;
+    notes?: string;
+    workout_id?: string;
+    session_date?: string;
+    started_at?: string;
+  };
 }
 
-export interface PendingWeightLog {
-  id?: number;
+export interface PendingWeightLog extends PendingOperationBase {
+  kind: "weightLog";
+  action: "create";
   weightData: {
     weight_kg: number;
     logged_date: string;
     time_of_day?: string;
     notes?: string;
   };
-  timestamp: number;
-  synced: boolean;
-  retryCount: number;
-  lastRetryAt?: number;
-  error?: string;
+}
+
+// Edit or delete of a weight log that already exists on the server
+export interface PendingWeightLogChange extends PendingOperationBase {
+  kind: "weightLog";
+  action: "update" | "delete";
+  targetId: string; // Server id of the weight log (a create's client id until that create lands)
+  updates?: Partial<PendingWeightLog["weightData"]>;
+}
+
+export type PendingOperation =
+  | PendingSet
+  | PendingSetChange
+  | PendingSession
+  | PendingWeightLog
+  | PendingWeightLogChange;
+
+// An operation as handed to the log, before it is stamped with queue bookkeeping
+type QueueFields = "dependsOn" | "timestamp" | "synced" | "retryCount" | "userId";
+export type NewPendingOperation =
+  | Omit<PendingSet, QueueFields>
+  | Omit<PendingSetChange, QueueFields>
+  | Omit<PendingSession, QueueFields>
+  | Omit<PendingWeightLog, QueueFields>
+  | Omit<PendingWeightLogChange, QueueFields>;
+
+// Local copies of server data so a session can be run without a connection
+export interface CachedProgram extends Program {
+  workouts?: Workout[];
+  cachedAt: number;
+}
+
+export interface CachedWorkout extends Workout {
+  cachedAt: number;
+}
+
+export interface CachedWorkoutExercise extends WorkoutExercise {
+  cachedAt: number;
+}
+
+// What the service worker needs to replay the queue while no page is open
+export interface SyncCredentials {
+  key: "auth";
+  apiUrl: string; // Base URL including /api/v1
+  accessToken: string;
+  expiresAt?: number; // Epoch seconds, as reported by Supabase
+  userId: string; // Only this account's operations are sent with the token
+}
+
+// Last known response of a GET, so pages open instantly and offline
+export interface CachedQuery {
+  id: string; // `${userId}:${key}`
+  key: string; // Request path including the query string
+  userId: string;
+  data: unknown;
+  fetchedAt: number;
+}
+
+// A history import in progress, kept so it can carry on after a failure or a reload
+export interface HistoryImport {
+  id: string;
+  userId: string;
+  source: string; // App the file came from, e.g. "strong"
+  fileName: string;
+  createdAt: number;
+  batches: ImportedSession[][];
+  nextBatch: number; // Index of the first batch not yet acknowledged by the server
+  imported: number;
+  skipped: number;
+  error?: string; // Why the last attempt stopped
+}
+
+export interface LocalSession extends Session {
+  serverId?: string; // Set once a locally started session has been created on the server
+  isLocal: boolean; // true when the session was started offline
+  cachedAt: number;
+  userId?: string; // Account the session belongs to
 }
 
 class FitnessTrackerDB extends Dexie {
-  pendingSets!: Table<PendingSet>;
-  pendingSessions!: Table<PendingSession>;
-  pendingWeightLogs!: Table<PendingWeightLog>;
+  operations!: Table<PendingOperation>;
+  programs!: Table<CachedProgram>;
+  workouts!: Table<CachedWorkout>;
+  workoutExercises!: Table<CachedWorkoutExercise>;
+  sessions!: Table<LocalSession>;
+  syncConfig!: Table<SyncCredentials>;
+  queries!: Table<CachedQuery>;
+  historyImports!: Table<HistoryImport>;
 
   constructor() {
     super("FitnessTrackerDB");
@@ -55,22 +168,94 @@ class FitnessTrackerDB extends Dexie {
       pendingWeightLogs: "++id, timestamp, synced, retryCount",
     }).upgrade(async (tx) => {
       // Migrate existing data to include retryCount
-      await tx.table("pendingSets").toCollection().modify((set: PendingSet) => {
+      await tx.table("pendingSets").toCollection().modify((set: { retryCount?: number }) => {
         if (set.retryCount === undefined) {
           set.retryCount = 0;
         }
       });
-      await tx.table("pendingSessions").toCollection().modify((session: PendingSession) => {
+      await tx.table("pendingSessions").toCollection().modify((session: { retryCount?: number }) => {
         if (session.retryCount === undefined) {
           session.retryCount = 0;
         }
       });
     });
+    this.version(3).stores({
+      pendingSets: "++id, timestamp, synced, retryCount, sessionId",
+      pendingSessions: "++id, sessionId, timestamp, synced, retryCount",
+      pendingWeightLogs: "++id, timestamp, synced, retryCount",
+      programs: "id, is_active",
+      workouts: "id, program_id",
+      workoutExercises: "id, workout_id, order_index",
+      sessions: "id, serverId, workout_id, session_date",
+    });
+    this.version(4).stores({
+      pendingSets: "++id, &clientId, timestamp, synced, retryCount, sessionId",
+      pendingSessions: "++id, &clientId, sessionId, timestamp, synced, retryCount",
+      pendingWeightLogs: "++id, &clientId, timestamp, synced, retryCount",
+    }).upgrade(async (tx) => {
+      // Give queued items created before idempotency keys a stable key
+      for (const table of ["pendingSets", "pendingSessions", "pendingWeightLogs"]) {
+        await tx.table(table).toCollection().modify((item: { clientId?: string }) => {
+          if (!item.clientId) {
+            item.clientId = generateClientId();
+          }
+        });
+      }
+    });
+    this.version(5).stores({
+      operations: "++id, &clientId, kind, sessionId, synced, timestamp",
+    }).upgrade(async (tx) => {
+      // Merge the per-type queues into a single log ordered by timestamp
+      const sets = await tx.table("pendingSets").toArray();
+      const sessions = await tx.table("pendingSessions").toArray();
+      const weightLogs = await tx.table("pendingWeightLogs").toArray();
+      const merged = [
+        ...sets.map((item) => ({ ...item, kind: "set", action: "create" })),
+        ...sessions.map((item) => ({ ...item, kind: "session" })),
+        ...weightLogs.map((item) => ({ ...item, kind: "weightLog", action: "create" })),
+      ].sort((a, b) => a.timestamp - b.timestamp);
+
+      const operations: PendingOperation[] = [];
+      for (const { id: _id, ...item } of merged) {
+        const operation = { ...item, dependsOn: [] } as PendingOperation;
+        operation.dependsOn = getDependencies(operation, operations);
+        operations.push(operation);
+      }
+      await tx.table("operations").bulkAdd(operations);
+    });
+    this.version(6).stores({
+      pendingSets: null,
+      pendingSessions: null,
+      pendingWeightLogs: null,
+    });
+    // Read directly (without Dexie) by src/sw.js - keep table and field names in step
+    this.version(7).stores({
+      syncConfig: "key",
+    });
+    // Items queued before scoping have no userId; they wait until a signed-in user claims or discards them
+    this.version(8).stores({
+      operations: "++id, &clientId, kind, sessionId, synced, timestamp, userId",
+      sessions: "id, serverId, workout_id, session_date, userId",
+    });
+    this.version(9).stores({
+      queries: "id, userId",
+    });
+    this.version(10).stores({
+      historyImports: "id, userId",
+    });
   }
 }
 
 const db = new FitnessTrackerDB();
 
+// Account whose data the app is currently showing (kept in step with the Supabase session by api.ts)
+let currentUserId: string | null = null;
+
+// Check if a queued operation or stored session belongs to the signed-in account
+function isOwnedByCurrentUser(item: { userId?: string }): boolean {
+  return currentUserId !== null && item.userId === currentUserId;
+}
+
 // Calculate exponential backoff delay
 function getBackoffDelay(retryCount: number): number {
   // Exponential backoff: 1s, 2s, 4s, 8s, 16s, max 60s
@@ -80,9 +265,123 @@ function getBackoffDelay(retryCount: number): number {
   return delay;
 }
 
+// Generate a client-side unique id
+export function generateClientId(): string {
+  if (typeof crypto !== "undefined" && typeof crypto.randomUUID === "function") {
+    return crypto.randomUUID();
+  }
+  // Fallback for non-secure contexts (RFC 4122 v4 layout)
+  return "xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx".replace(/[xy]/g, (c) => {
+    const r = (Math.random() * 16) | 0;
+    const v = c === "x" ? r : (r & 0x3) | 0x8;
+    return v.toString(16);
+  });
+}
+
+const LOCAL_SESSION_PREFIX = "local-";
+
+// Check if a session id was generated on this device
+export function isLocalSessionId(sessionId: string): boolean {
+  return sessionId.startsWith(LOCAL_SESSION_PREFIX);
+}
+
+// Map a workout template exercise to the shape used by an active session
+function toExerciseInSession(we: WorkoutExercise): ExerciseInSession {
+  return {
+    id: we.id,
+    exercise: we.exercise!,
+    target_sets: we.target_sets,
+    target_reps_min: we.target_reps_min,
+    target_reps_max: we.target_reps_max,
+    target_rpe: we.target_rpe,
+    rest_seconds: we.rest_seconds,
+    group_id: we.group_id,
+    group_type: we.group_type,
+    group_rounds: we.group_rounds,
+    set_prescriptions: we.set_prescriptions,
+    auto_warmup: we.auto_warmup,
+  };
+}
+
+function todayISODate(): string {
+  const now = new Date();
+  const month = String(now.getMonth() + 1).padStart(2, "0");
+  const day = String(now.getDate()).padStart(2, "0");
+  return `${now.getFullYear()}-${month}-${day}`;
+}
+
+export const BACKGROUND_SYNC_TAG = "fitforge-sync";
+
+// Ask the service worker to flush the queue once connectivity returns, even if the app is closed
+function requestBackgroundSync(): void {
+  if (typeof navigator === "undefined" || !("serviceWorker" in navigator)) return;
+  navigator.serviceWorker.ready
+    .then((registration) => {
+      if ("sync" in registration) {
+        return (registration as ServiceWorkerRegistration & {
+          sync: { register(tag: string): Promise<void> };
+        }).sync.register(BACKGROUND_SYNC_TAG);
+      }
+    })
+    .catch((err) => console.warn("[Offline] Background sync unavailable:", err));
+}
+
+// Ask the service worker to drop the API responses it cached for an account
+export async function purgeApiCache(userId: string): Promise<void> {
+  if (typeof navigator === "undefined" || !("serviceWorker" in navigator)) return;
+  const registration = await navigator.serviceWorker.getRegistration();
+  registration?.active?.postMessage({ type: "PURGE_API_CACHE", userId });
+}
+
+// Operations that belong to a workout session
+function hasSession(operation: PendingOperation): operation is PendingSet | PendingSession {
+  return operation.kind === "session" || (operation.kind === "set" && operation.action === "create");
+}
+
+// Work out which earlier, still unsynced operations a new operation has to wait for:
+// - a set waits for its session to be started and for the set logged before it
+// - completing a session waits for the start and every set logged in it
+// - an edit or delete queued while its row's create was being sent waits for that create
+// Other edits and deletes target rows that already exist on the server, so they wait for nothing
+function getDependencies(operation: PendingOperation, queued: PendingOperation[]): string[] {
+  if (operation.action === "update" || operation.action === "delete") {
+    const create = queued.find((item) => !item.synced && item.clientId === operation.targetId);
+    return create ? [create.clientId] : [];
+  }
+  if (!hasSession(operation) || !operation.sessionId) return [];
+  const sessionId = operation.sessionId;
+  const related = queued.filter(hasSession).filter((item) => !item.synced && item.sessionId === sessionId);
+  const start = related.find((item) => item.kind === "session" && item.action === "start");
+  const sets = related.filter((item) => item.kind === "set");
+
+  if (operation.kind === "set") {
+    const previousSet = sets[sets.length - 1];
+    return [start, previousSet].filter((item) => item !== undefined).map((item) => item.clientId);
+  }
+  if (operation.action === "complete") {
+    return [start, ...sets].filter((item) => item !== undefined).map((item) => item.clientId);
+  }
+  return [];
+}
+
+// The request body an operation sends (deletes have none)
+export function getOperationPayload(op: PendingOperation): Record<string, unknown> | undefined {
+  if (op.kind === "session") return op.data;
+  if (op.action === "create") return op.kind === "set" ? { ...op.setData } : { ...op.weightData };
+  return op.updates;
+}
+
+const MAX_RETRIES = 10;
+
+// A 4xx means the server rejected the payload itself, so sending it again will not help.
+// Timeouts and rate limiting are the exception.
+export function isPermanentFailure(status?: number): boolean {
+  return status !== undefined && status >= 400 && status < 500 && status !== 408 && status !== 429;
+}
+
 // Check if item should be retried
 function shouldRetry(retryCount: number, lastRetryAt?: number): boolean {
-  if (retryCount >= 10) return false; // Max 10 retries
+  if (retryCount >= MAX_RETRIES) return false;
   if (!lastRetryAt) return true; // Never retried
   
   const delay = getBackoffDelay(retryCount);
@@ -90,125 +389,281 @@ function shouldRetry(retryCount: number, lastRetryAt?: number): boolean {
 }
 
 export const offlineService = {
-  // Save set offline
-  async saveSetOffline(setData: SetCreate): Promise<number> {
-    const id = await db.pendingSets.add({
-      setData,
-      timestamp: Date.now(),
-      synced: false,
-      retryCount: 0,
+  // Switch the account the queue and session cache are scoped to (null when signed out)
+  // Items left over from before scoping are not given to whoever signs in: on a shared device they may be
+  // someone else's, so they wait until the user claims or discards them (see getUnclaimedItems)
+  async setCurrentUser(userId: string | null): Promise<void> {
+    currentUserId = userId;
+  },
+
+  // Unsynced operations queued before the queue was scoped to accounts, oldest first
+  async getUnclaimedItems(): Promise<PendingOperation[]> {
+    return (await db.operations.orderBy("id").toArray()).filter((op) => !op.synced && !op.userId);
+  },
+
+  async getUnclaimedCount(): Promise<number> {
+    return db.operations.filter((op) => !op.synced && !op.userId).count();
+  },
+
+  // The signed-in user confirmed the unclaimed items are theirs: they and their local sessions join the queue
+  async claimUnownedItems(): Promise<void> {
+    const userId = currentUserId;
+    if (!userId) throw new Error("Sign in to claim these items");
+    await db.transaction("rw", db.operations, db.sessions, async () => {
+      await db.operations.filter((op) => !op.userId).modify({ userId });
+      await db.sessions.filter((session) => !session.userId).modify({ userId });
+    });
+  },
+
+  // The unclaimed items aren't the signed-in user's: drop them and the local sessions they were logged in
+  async discardUnownedItems(): Promise<void> {
+    await db.transaction("rw", db.operations, db.sessions, async () => {
+      await db.operations.filter((op) => !op.userId).delete();
+      await db.sessions.filter((session) => !session.userId).delete();
+    });
+  },
+
+  // Remove the signed-in account's cached server data from the device
+  // Unsynced operations and the locally started sessions they point at are kept for the next sign-in
+  async clearUserData(): Promise<void> {
+    await db.transaction("rw", [db.programs, db.workouts, db.workoutExercises, db.sessions, db.syncConfig, db.queries], async () => {
+      if (currentUserId) await db.queries.where("userId").equals(currentUserId).delete();
+      await db.programs.clear();
+      await db.workouts.clear();
+      await db.workoutExercises.clear();
+      await db.sessions.filter((session) => !session.isLocal).delete();
+      await db.syncConfig.delete("auth");
+    });
+    currentUserId = null;
+  },
+
+  // Append an operation to the log (an operation already queued under the same client id is not duplicated)
+  async enqueue(operation: NewPendingOperation): Promise<number> {
+    const id = await db.transaction("rw", db.operations, async () => {
+      const existing = await db.operations.where("clientId").equals(operation.clientId).first();
+      if (existing) return existing.id!;
+      const queued = await db.operations.orderBy("id").toArray();
+      const entry: PendingOperation = {
+        ...operation,
+        dependsOn: [],
+        timestamp: Date.now(),
+        synced: false,
+        retryCount: 0,
+        userId: currentUserId ?? undefined,
+      };
+      entry.dependsOn = getDependencies(entry, queued);
+      return (await db.operations.add(entry)) as number;
     });
-    return id as number;
+    requestBackgroundSync();
+    return id;
+  },
+
+  // Save set offline
+  async saveSetOffline(setData: SetCreate, sessionId?: string, clientId: string = generateClientId()): Promise<number> {
+    return this.enqueue({ kind: "set", action: "create", clientId, setData, sessionId });
   },
 
   // Save session action offline
   async saveSessionOffline(
     sessionId: string,
-    action: "complete",
-    data: { overall_rpe?: number; notes?: string }
+    action: "start" | "complete",
+    data: PendingSession["data"],
+    clientId: string = generateClientId()
   ): Promise<number> {
-    const id = await db.pendingSessions.add({
-      sessionId,
-      action,
-      data,
-      timestamp: Date.now(),
-      synced: false,
-      retryCount: 0,
-    });
-    return id as number;
+    return this.enqueue({ kind: "session", action, clientId, sessionId, data });
   },
 
   // Save weight log offline
-  async saveWeightLogOffline(weightData: {
-    weight_kg: number;
-    logged_date: string;
-    time_of_day?: string;
-    notes?: string;
-  }): Promise<number> {
-    const id = await db.pendingWeightLogs.add({
-      weightData,
-      timestamp: Date.now(),
-      synced: false,
-      retryCount: 0,
+  async saveWeightLogOffline(weightData: PendingWeightLog["weightData"], clientId: string = generateClientId()): Promise<number> {
+    return this.enqueue({ kind: "weightLog", action: "create", clientId, weightData });
+  },
+
+  // Queue an edit or delete of a set or weight log
+  // The target may be a server id or the client id of a queued create: a create that hasn't been
+  // picked up for sending absorbs later edits and disappears on delete, so it is never sent at all.
+  // One already on its way can't be changed, so the edit is queued against it and sent once it lands
+  async queueChange(
+    kind: "set" | "weightLog",
+    action: "update" | "delete",
+    targetId: string,
+    updates?: Record<string, unknown>
+  ): Promise<void> {
+    await db.transaction("rw", db.operations, async () => {
+      const create = await db.operations.where("clientId").equals(targetId).first();
+      let serverId = targetId;
+
+      if (create && create.kind === kind && create.action === "create") {
+        if (!create.synced && !create.sendingAt) {
+          // Edits queued while an earlier attempt was on its way; a later edit has to follow them
+          const queuedAgainst = await db.operations
+            .filter((op) => !op.synced && "targetId" in op && op.targetId === create.clientId)
+            .toArray();
+          if (action === "delete") {
+            await db.operations.bulkDelete([create.id!, ...queuedAgainst.map((op) => op.id!)]);
+            return;
+          }
+          if (queuedAgainst.length === 0) {
+            if (create.kind === "set") {
+              await db.operations.put({ ...create, setData: { ...create.setData, ...updates } });
+            } else if (create.kind === "weightLog") {
+              await db.operations.put({ ...create, weightData: { ...create.weightData, ...updates } });
+            }
+            return;
+          }
+        }
+        if (create.synced) {
+          if (!create.serverId) {
+            throw new Error("Synced item has no server id");
+          }
+          serverId = create.serverId;
+        }
+      }
+
+      // Fold into an edit already queued for the same row
+      const queued = (await db.operations.where("kind").equals(kind).toArray()).filter(
+        (op): op is PendingChange =>
+          !op.synced && op.action !== "create" && "targetId" in op && op.targetId === serverId
+      );
+      if (queued.some((op) => op.action === "delete")) return;
+
+      if (action === "update") {
+        const pendingUpdate = queued.find((op) => op.action === "update");
+        if (pendingUpdate) {
+          await db.operations.put({ ...pendingUpdate, updates: { ...pendingUpdate.updates, ...updates } });
+          return;
+        }
+      } else {
+        // A delete supersedes any edit still waiting to be sent
+        await db.operations.bulkDelete(queued.map((op) => op.id!));
+      }
+
+      await this.enqueue({
+        kind,
+        action,
+        clientId: generateClientId(),
+        targetId: serverId,
+        updates,
+      } as NewPendingOperation);
     });
-    return id as number;
   },
 
-  // Get pending sets (ready for retry)
-  async getPendingSets(): Promise<PendingSet[]> {
-    const all = await db.pendingSets.filter(set => !set.synced).toArray();
-    return all.filter(item => shouldRetry(item.retryCount, item.lastRetryAt));
+  // Get the signed-in user's create that is still waiting to be sent, by its client id
+  async getQueuedCreate(clientId: string): Promise<PendingSet | PendingWeightLog | undefined> {
+    const op = await db.operations.where("clientId").equals(clientId).first();
+    if (op && (op.kind === "set" || op.kind === "weightLog") && op.action === "create" && !op.synced && isOwnedByCurrentUser(op)) {
+      return op as PendingSet | PendingWeightLog;
+    }
+    return undefined;
   },
 
-  // Get pending sessions (ready for retry)
-  async getPendingSessions(): Promise<PendingSession[]> {
-    const all = await db.pendingSessions.filter(session => !session.synced).toArray();
-    return all.filter(item => shouldRetry(item.retryCount, item.lastRetryAt));
+  // Resolve the client id of a synced create to its server id (returns the input if unknown or not yet synced)
+  async resolveCreatedId(clientId: string): Promise<string> {
+    const op = await db.operations.where("clientId").equals(clientId).first();
+    return (op?.action === "create" && op.synced && op.serverId) || clientId;
   },
 
-  // Get pending weight logs (ready for retry)
-  async getPendingWeightLogs(): Promise<PendingWeightLog[]> {
-    const all = await db.pendingWeightLogs.filter(log => !log.synced).toArray();
-    return all.filter(item => shouldRetry(item.retryCount, item.lastRetryAt));
+  // Get operations that can be sent now, in log order
+  // An operation is ready when its backoff has elapsed and everything it depends on is acknowledged
+  async getReadyOperations(): Promise<PendingOperation[]> {
+    const unsynced = (await db.operations.orderBy("id").toArray()).filter((op) => !op.synced && isOwnedByCurrentUser(op));
+    const waiting = new Set(unsynced.map((op) => op.clientId));
+    return unsynced.filter((op) =>
+      !op.deadLetteredAt &&
+      shouldRetry(op.retryCount, op.lastRetryAt) &&
+      op.dependsOn.every((clientId) => !waiting.has(clientId))
+    );
   },
 
-  // Mark set as synced
-  async markSetSynced(id: number): Promise<void> {
-    await db.pendingSets.update(id, { synced: true });
+  // Claim an operation for sending, returning it as it is now (edits may have been folded in since it was read)
+  // Returns undefined when it has been synced or deleted in the meantime
+  async markSending(id: number): Promise<PendingOperation | undefined> {
+    return db.transaction("rw", db.operations, async () => {
+      const op = await db.operations.get(id);
+      if (!op || op.synced) return undefined;
+      const sending = { ...op, sendingAt: Date.now() };
+      await db.operations.put(sending);
+      return sending;
+    });
   },
 
-  // Mark session as synced
-  async markSessionSynced(id: number): Promise<void> {
-    await db.pendingSessions.update(id, { synced: true });
+  // Hand an operation back unsent, e.g. when the session expired before it could go
+  async releaseSending(id: number): Promise<void> {
+    await db.operations.update(id, { sendingAt: undefined });
   },
 
-  // Mark weight log as synced
-  async markWeightLogSynced(id: number): Promise<void> {
-    await db.pendingWeightLogs.update(id, { synced: true });
+  // Mark operation as synced (creates remember the server id so later edits can find it)
+  // Edits queued against a create while it was being sent are pointed at the new server id
+  async markSynced(id: number, serverId?: string): Promise<void> {
+    await db.transaction("rw", db.operations, async () => {
+      const op = await db.operations.get(id);
+      if (!op) return;
+      await db.operations.update(id, { synced: true, syncedAt: Date.now(), serverId, sendingAt: undefined });
+      if (!serverId) return;
+      await db.operations
+        .filter((item) => !item.synced && "targetId" in item && item.targetId === op.clientId)
+        .modify((item) => {
+          (item as PendingChange).targetId = serverId;
+        });
+    });
   },
 
-  // Mark set as failed (increment retry count)
-  async markSetFailed(id: number, error: string): Promise<void> {
-    const item = await db.pendingSets.get(id);
+  // Mark operation as failed
+  // Validation rejects are dead-lettered straight away; other failures back off until MAX_RETRIES
+  async markFailed(id: number, error: string, status?: number): Promise<void> {
+    const item = await db.operations.get(id);
     if (item) {
-      await db.pendingSets.update(id, {
-        retryCount: item.retryCount + 1,
-        lastRetryAt: Date.now(),
+      const retryCount = item.retryCount + 1;
+      const now = Date.now();
+      await db.operations.update(id, {
+        retryCount,
+        lastRetryAt: now,
         error,
+        errorStatus: status,
+        deadLetteredAt: isPermanentFailure(status) || retryCount >= MAX_RETRIES ? now : undefined,
+        sendingAt: undefined,
       });
     }
   },
 
-  // Mark session as failed (increment retry count)
-  async markSessionFailed(id: number, error: string): Promise<void> {
-    const item = await db.pendingSessions.get(id);
-    if (item) {
-      await db.pendingSessions.update(id, {
-        retryCount: item.retryCount + 1,
-        lastRetryAt: Date.now(),
-        error,
-      });
-    }
+  // Get operations that have been given up on, oldest first
+  async getDeadLetters(): Promise<PendingOperation[]> {
+    const operations = await db.operations.orderBy("id").toArray();
+    return operations.filter((op) => !op.synced && op.deadLetteredAt && isOwnedByCurrentUser(op));
   },
 
-  // Mark weight log as failed (increment retry count)
-  async markWeightLogFailed(id: number, error: string): Promise<void> {
-    const item = await db.pendingWeightLogs.get(id);
-    if (item) {
-      await db.pendingWeightLogs.update(id, {
-        retryCount: item.retryCount + 1,
-        lastRetryAt: Date.now(),
-        error,
-      });
+  // Get number of operations needing attention
+  async getDeadLetterCount(): Promise<number> {
+    return db.operations.filter(op => !op.synced && !!op.deadLetteredAt && isOwnedByCurrentUser(op)).count();
+  },
+
+  // Put a dead-lettered operation back in the queue, optionally with a corrected payload
+  async retryDeadLetter(id: number, payload?: Record<string, unknown>): Promise<void> {
+    const item = await db.operations.get(id);
+    if (!item) return;
+    const updated = { ...item, retryCount: 0, lastRetryAt: undefined, deadLetteredAt: undefined, error: undefined, errorStatus: undefined };
+    if (payload) {
+      if (updated.kind === "set" && updated.action === "create") updated.setData = payload as unknown as SetCreate;
+      else if (updated.kind === "weightLog" && updated.action === "create") updated.weightData = payload as unknown as PendingWeightLog["weightData"];
+      else if (updated.kind === "session") updated.data = payload;
+      else updated.updates = payload;
     }
+    await db.operations.put(updated);
   },
 
-  // Get pending count
+  // Drop a dead-lettered operation; anything waiting on it is released
+  // Edits queued against a discarded create have nothing left to change and go with it
+  async discardDeadLetter(id: number): Promise<void> {
+    await db.transaction("rw", db.operations, async () => {
+      const op = await db.operations.get(id);
+      if (!op) return;
+      await db.operations.delete(id);
+      await db.operations.filter((item) => !item.synced && "targetId" in item && item.targetId === op.clientId).delete();
+    });
+  },
+
+  // Get pending count (items still being retried; dead letters are counted separately)
   async getPendingCount(): Promise<number> {
-    const sets = await this.getPendingSets();
-    const sessions = await this.getPendingSessions();
-    const weightLogs = await this.getPendingWeightLogs();
-    return sets.length + sessions.length + weightLogs.length;
+    return db.operations.filter(op => !op.synced && !op.deadLetteredAt && isOwnedByCurrentUser(op)).count();
   },
 
   // Get all pending items (for status display)
@@ -217,17 +672,243 @@ export const offlineService = {
     sessions: PendingSession[];
     weightLogs: PendingWeightLog[];
   }> {
-    const sets = await db.pendingSets.filter(set => !set.synced).toArray();
-    const sessions = await db.pendingSessions.filter(session => !session.synced).toArray();
-    const weightLogs = await db.pendingWeightLogs.filter(log => !log.synced).toArray();
-    return { sets, sessions, weightLogs };
+    const operations = await db.operations.filter(op => !op.synced && isOwnedByCurrentUser(op)).toArray();
+    return {
+      sets: operations.filter((op): op is PendingSet => op.kind === "set" && op.action === "create"),
+      sessions: operations.filter((op): op is PendingSession => op.kind === "session"),
+      weightLogs: operations.filter((op): op is PendingWeightLog => op.kind === "weightLog" && op.action === "create"),
+    };
+  },
+
+  // Store (or clear) the credentials the service worker uses for background sync
+  async saveSyncCredentials(credentials: Omit<SyncCredentials, "key"> | null): Promise<void> {
+    if (credentials) {
+      await db.syncConfig.put({ key: "auth", ...credentials });
+    } else {
+      await db.syncConfig.delete("auth");
+    }
+  },
+
+  // Cache program list entries
+  async cachePrograms(programs: Program[]): Promise<void> {
+    const cachedAt = Date.now();
+    await db.transaction("rw", db.programs, async () => {
+      for (const program of programs) {
+        const existing = await db.programs.get(program.id);
+        await db.programs.put({ ...existing, ...program, cachedAt });
+      }
+    });
+  },
+
+  // Cache a program with its workouts
+  async cacheProgram(program: Program & { workouts?: Workout[] }): Promise<void> {
+    const cachedAt = Date.now();
+    await db.transaction("rw", db.programs, db.workouts, async () => {
+      await db.programs.put({ ...program, cachedAt });
+      for (const workout of program.workouts || []) {
+        const existing = await db.workouts.get(workout.id);
+        await db.workouts.put({ ...existing, ...workout, program_id: program.id, cachedAt });
+      }
+    });
+  },
+
+  // Cache a workout with its exercises (replaces previously cached exercises)
+  async cacheWorkout(workout: Workout & { exercises?: WorkoutExercise[] }): Promise<void> {
+    const cachedAt = Date.now();
+    const { exercises, ...workoutData } = workout;
+    await db.transaction("rw", db.workouts, db.workoutExercises, async () => {
+      await db.workouts.put({ ...workoutData, cachedAt });
+      if (exercises) {
+        await db.workoutExercises.where("workout_id").equals(workout.id).delete();
+        await db.workoutExercises.bulkPut(
+          exercises.map((we) => ({ ...we, workout_id: workout.id, cachedAt }))
+        );
+      }
+    });
+  },
+
+  // Get cached programs
+  async getCachedPrograms(): Promise<CachedProgram[]> {
+    return db.programs.toArray();
+  },
+
+  // Get a cached program with its cached workouts
+  async getCachedProgram(programId: string): Promise<CachedProgram | undefined> {
+    const program = await db.programs.get(programId);
+    if (!program) return undefined;
+    const workouts = await db.workouts.where("program_id").equals(programId).toArray();
+    workouts.sort((a, b) => a.day_number - b.day_number);
+    return { ...program, workouts: workouts.length > 0 ? workouts : program.workouts };
+  },
+
+  // Get a cached workout with its cached exercises
+  async getCachedWorkout(workoutId: string): Promise<(CachedWorkout & { exercises: WorkoutExercise[] }) | undefined> {
+    const workout = await db.workouts.get(workoutId);
+    if (!workout) return undefined;
+    const exercises = await db.workoutExercises.where("workout_id").equals(workoutId).sortBy("order_index");
+    return { ...workout, exercises };
+  },
+
+  // Cache a session loaded from the server
+  async cacheSession(session: Session): Promise<void> {
+    const existing = await db.sessions.get(session.id);
+    await db.sessions.put({
+      ...existing,
+      ...session,
+      isLocal: false,
+      cachedAt: Date.now(),
+      userId: currentUserId ?? undefined,
+    });
+  },
+
+  // Start a session entirely on the device
+  // Uses the cached workout template, falling back to the exercises of the last cached session
+  async startLocalSession(workoutId: string): Promise<LocalSession> {
+    const workout = await this.getCachedWorkout(workoutId);
+    let exercises: ExerciseInSession[] = (workout?.exercises || [])
+      .filter((we) => we.exercise)
+      .map(toExerciseInSession);
+
+    let workoutName = workout?.name;
+    if (exercises.length === 0) {
+      const previous = (await db.sessions.where("workout_id").equals(workoutId).toArray()).filter(isOwnedByCurrentUser);
+      previous.sort((a, b) => b.started_at.localeCompare(a.started_at));
+      if (previous[0]) {
+        exercises = previous[0].exercises.map(({ last_session: _lastSession, ...ex }) => ex);
+        workoutName = workoutName || previous[0].workout_name;
+      }
+    }
+
+    if (!workoutName) {
+      throw new Error("This workout is not available offline yet. Open it once while online.");
+    }
+
+    const clientId = generateClientId();
+    const startedAt = new Date().toISOString();
+    const session: LocalSession = {
+      id: `${LOCAL_SESSION_PREFIX}${clientId}`,
+      workout_id: workoutId,
+      workout_name: workoutName,
+      session_date: todayISODate(),
+      started_at: startedAt,
+      exercises,
+      isLocal: true,
+      cachedAt: Date.now(),
+      userId: currentUserId ?? undefined,
+    };
+
+    await db.transaction("rw", db.sessions, db.operations, async () => {
+      await db.sessions.add(session);
+      await this.saveSessionOffline(session.id, "start", {
+        workout_id: workoutId,
+        session_date: session.session_date,
+        started_at: startedAt,
+      }, clientId);
+    });
+    return session;
+  },
+
+  // Get a session stored on the device, by local or server id
+  async getLocalSession(sessionId: string): Promise<LocalSession | undefined> {
+    const session = (await db.sessions.get(sessionId)) ?? (await db.sessions.where("serverId").equals(sessionId).first());
+    return session && isOwnedByCurrentUser(session) ? session : undefined;
+  },
+
+  // Update a session stored on the device
+  async updateLocalSession(sessionId: string, updates: Partial<LocalSession>): Promise<void> {
+    const session = await this.getLocalSession(sessionId);
+    if (session) {
+      await db.sessions.update(session.id, updates);
+    }
+  },
+
+  // Resolve a local session id to its server id (returns the input if unknown or not yet synced)
+  async resolveSessionId(sessionId: string): Promise<string> {
+    if (!isLocalSessionId(sessionId)) return sessionId;
+    const session = await db.sessions.get(sessionId);
+    return session?.serverId || sessionId;
+  },
+
+  // Point a locally started session and everything queued against it at the server id
+  async reconcileSession(localId: string, serverId: string): Promise<void> {
+    await db.transaction("rw", db.sessions, db.operations, async () => {
+      await db.sessions.update(localId, { serverId });
+      await db.operations
+        .where("sessionId")
+        .equals(localId)
+        .and((op) => !(op.kind === "session" && op.action === "start"))
+        .modify((op) => {
+          if (hasSession(op)) op.sessionId = serverId;
+        });
+    });
+  },
+
+  // Get unsynced sets logged in a session (local or server id)
+  async getSessionSets(sessionId: string): Promise<PendingSet[]> {
+    const ids = [sessionId];
+    const session = await this.getLocalSession(sessionId);
+    if (session) {
+      ids.push(session.id);
+      if (session.serverId) ids.push(session.serverId);
+    }
+    const operations = await db.operations.where("sessionId").anyOf(ids).toArray();
+    return operations
+      .filter((op): op is PendingSet => op.kind === "set" && op.action === "create" && !op.synced && isOwnedByCurrentUser(op))
+      .sort((a, b) => a.timestamp - b.timestamp);
+  },
+
+  // Get the stored response of a GET for the signed-in account
+  async getCachedQuery(key: string): Promise<CachedQuery | undefined> {
+    if (!currentUserId) return undefined;
+    return db.queries.get(`${currentUserId}:${key}`);
+  },
+
+  // Store the response of a GET for the signed-in account
+  async putCachedQuery(key: string, data: unknown, fetchedAt: number): Promise<void> {
+    if (!currentUserId) return;
+    await db.queries.put({ id: `${currentUserId}:${key}`, key, userId: currentUserId, data, fetchedAt });
+  },
+
+  // Mark the signed-in account's stored responses under any of the prefixes as out of date
+  // They are kept so they can still be shown offline
+  async expireCachedQueries(prefixes: string[]): Promise<void> {
+    if (!currentUserId) return;
+    await db.queries
+      .where("userId")
+      .equals(currentUserId)
+      .filter((query) => prefixes.some((prefix) => query.key.startsWith(prefix)))
+      .modify({ fetchedAt: 0 });
+  },
+
+  // Unfinished history imports of the signed-in account, newest first
+  async getHistoryImports(): Promise<HistoryImport[]> {
+    if (!currentUserId) return [];
+    const imports = await db.historyImports.where("userId").equals(currentUserId).toArray();
+    return imports.sort((a, b) => b.createdAt - a.createdAt);
+  },
+
+  async saveHistoryImport(historyImport: Omit<HistoryImport, "userId">): Promise<HistoryImport | undefined> {
+    if (!currentUserId) return undefined;
+    const stored = { ...historyImport, userId: currentUserId };
+    await db.historyImports.put(stored);
+    return stored;
+  },
+
+  async updateHistoryImport(id: string, changes: Partial<HistoryImport>): Promise<void> {
+    await db.historyImports.update(id, changes);
+  },
+
+  async deleteHistoryImport(id: string): Promise<void> {
+    await db.historyImports.delete(id);
   },
 
   // Clear synced items (cleanup)
+  // Synced creates are kept for a day so edits made against their optimistic id still resolve
   async clearSyncedItems(): Promise<void> {
-    await db.pendingSets.filter(set => set.synced).delete();
-    await db.pendingSessions.filter(session => session.synced).delete();
-    await db.pendingWeightLogs.filter(log => log.synced).delete();
+    const cutoff = Date.now() - 24 * 60 * 60 * 1000;
+    await db.operations
+      .filter(op => op.synced && (op.action !== "create" || (op.syncedAt ?? 0) < cutoff))
+      .delete();
   },
 };
 
@@ -0,0 +1,196 @@
+import type { Program, ProgramWeek, Workout } from "./schemas";
+import { daysBetween, parseISODate } from "./dates";
+
+// Where a periodized program stands: which week each session counted towards, what the next workout is,
+// and the week plans the generator lays out
+// - with a start date, weeks follow the calendar from that date
+// - without one, a week ends once every workout has been done (or one comes round again)
+
+export interface WeekGeneratorOptions {
+  blocks: number; // Mesocycles
+  weeksPerBlock: number; // Including the deload week
+  volumeRampPercent: number; // Added to volume each week of a block
+  intensityRampPercent: number; // Added to intensity each week of a block
+  deload: boolean; // End each block with a deload week
+}
+
+export type DayStatus = "done" | "next" | "missed" | "upcoming";
+
+export interface CalendarDay {
+  workout: Workout;
+  sessionId?: string;
+  status: DayStatus;
+}
+
+export interface CalendarWeek {
+  week: number;
+  plan?: ProgramWeek;
+  days: CalendarDay[];
+}
+
+export interface ProgramPosition {
+  week: number;
+  workout: Workout | null; // Null once this week's workouts are all done
+  plan?: ProgramWeek;
+  finished: boolean; // Past the last planned week
+}
+
+// Sessions only need enough to place them in the program
+export interface SessionRef {
+  id: string;
+  workout_id?: string;
+  session_date?: string;
+  completed_at?: string;
+}
+
+export const DEFAULT_WEEK_OPTIONS: WeekGeneratorOptions = {
+  blocks: 1,
+  weeksPerBlock: 4,
+  volumeRampPercent: 10,
+  intensityRampPercent: 2.5,
+  deload: true,
+};
+
+const DELOAD_VOLUME_PERCENT = 50;
+const DELOAD_INTENSITY_PERCENT = 90;
+
+// 1-based week of a date counted from the program's start date
+function weekOn(startDate: string, date: Date): number {
+  const days = daysBetween(parseISODate(startDate), date);
+  return Math.max(1, Math.floor(days / 7) + 1);
+}
+
+function byDay(workouts: Workout[]): Workout[] {
+  return [...workouts].sort((a, b) => a.day_number - b.day_number);
+}
+
+// Week plans ramping up through each block, each block ending in a deload when asked for
+export function generateWeeks(options: WeekGeneratorOptions): ProgramWeek[] {
+  const weeks: ProgramWeek[] = [];
+  for (let block = 0; block < options.blocks; block++) {
+    for (let index = 0; index < options.weeksPerBlock; index++) {
+      const isDeload = options.deload && options.weeksPerBlock > 1 && index === options.weeksPerBlock - 1;
+      weeks.push({
+        week: weeks.length + 1,
+        block: options.blocks > 1 ? `Block ${block + 1}` : null,
+        volume_percent: isDeload ? DELOAD_VOLUME_PERCENT : 100 + index * options.volumeRampPercent,
+        intensity_percent: isDeload ? DELOAD_INTENSITY_PERCENT : 100 + index * options.intensityRampPercent,
+        is_deload: isDeload,
+      });
+    }
+  }
+  return weeks;
+}
+
+export function weekPlan(program: Program, week: number): ProgramWeek | undefined {
+  return program.weeks?.find((w) => w.week === week);
+}
+
+export function totalWeeks(program: Program): number | undefined {
+  if (program.weeks?.length) return program.weeks.length;
+  if (program.start_date && program.end_date) return weekOn(program.start_date, parseISODate(program.end_date));
+  return undefined;
+}
+
+// The week each of the program's sessions counts towards
+function assignWeeks(program: Program, workouts: Workout[], sessions: SessionRef[]): Map<string, number> {
+  const workoutIds = new Set(workouts.map((w) => w.id));
+  const relevant = sessions
+    .filter((s) => s.workout_id && workoutIds.has(s.workout_id) && s.session_date)
+    .filter((s) => !program.start_date || s.session_date!.slice(0, 10) >= program.start_date.slice(0, 10))
+    .sort(
+      (a, b) =>
+        a.session_date!.localeCompare(b.session_date!) || (a.completed_at ?? "").localeCompare(b.completed_at ?? "")
+    );
+
+  const weeks = new Map<string, number>();
+  if (program.start_date) {
+    relevant.forEach((s) => weeks.set(s.id, weekOn(program.start_date!, parseISODate(s.session_date!))));
+    return weeks;
+  }
+
+  let week = 1;
+  let doneThisWeek = new Set<string>();
+  for (const s of relevant) {
+    if (doneThisWeek.has(s.workout_id!) || doneThisWeek.size >= workoutIds.size) {
+      week++;
+      doneThisWeek = new Set();
+    }
+    doneThisWeek.add(s.workout_id!);
+    weeks.set(s.id, week);
+  }
+  return weeks;
+}
+
+// Every week of the program with what was done in it, and the workout to do next
+export function programCalendar(
+  program: Program,
+  workouts: Workout[],
+  sessions: SessionRef[],
+  today: Date = new Date()
+): { weeks: CalendarWeek[]; position: ProgramPosition } {
+  const ordered = byDay(workouts);
+  const completed = sessions.filter((s) => s.completed_at);
+  const assigned = assignWeeks(program, workouts, completed);
+
+  const doneByWeek = new Map<number, Map<string, string>>();
+  completed.forEach((s) => {
+    const week = assigned.get(s.id);
+    if (week === undefined) return;
+    if (!doneByWeek.has(week)) doneByWeek.set(week, new Map());
+    doneByWeek.get(week)!.set(s.workout_id!, s.id);
+  });
+
+  let currentWeek: number;
+  if (program.start_date) {
+    currentWeek = weekOn(program.start_date, today);
+  } else {
+    currentWeek = Math.max(1, ...assigned.values());
+    if (ordered.length > 0 && (doneByWeek.get(currentWeek)?.size ?? 0) >= ordered.length) currentWeek++;
+  }
+  const doneNow = doneByWeek.get(currentWeek);
+  const nextWorkout = ordered.find((w) => !doneNow?.has(w.id)) ?? null;
+
+  const total = totalWeeks(program);
+  const shownWeeks = total ?? Math.max(currentWeek, ...doneByWeek.keys());
+  const weeks: CalendarWeek[] = Array.from({ length: shownWeeks }, (_, i) => {
+    const week = i + 1;
+    const done = doneByWeek.get(week);
+    return {
+      week,
+      plan: weekPlan(program, week),
+      days: ordered.map((workout) => {
+        const sessionId = done?.get(workout.id);
+        const status: DayStatus = sessionId
+          ? "done"
+          : week < currentWeek
+          ? "missed"
+          : week === currentWeek && workout.id === nextWorkout?.id
+          ? "next"
+          : "upcoming";
+        return { workout, sessionId, status };
+      }),
+    };
+  });
+
+  return {
+    weeks,
+    position: {
+      week: currentWeek,
+      workout: nextWorkout,
+      plan: weekPlan(program, currentWeek),
+      finished: total !== undefined && currentWeek > total,
+    },
+  };
+}
+
+// The week a session in progress counts towards
+export function sessionWeek(
+  program: Program,
+  workouts: Workout[],
+  sessions: SessionRef[],
+  session: SessionRef
+): number | undefined {
+  const others = sessions.filter((s) => s.completed_at && s.id !== session.id);
+  return assignWeeks(program, workouts, [...others, session]).get(session.id);
+}
@@ -0,0 +1,161 @@
+import type { SetPrescription, SetType } from "./schemas";
+
+// Turns an exercise's set prescriptions into concrete sets for the active workout:
+// loads from %1RM or %TM, back-offs from the top set actually lifted, and a generated warm-up ramp,
+// all rounded to what the user can load
+
+interface Prescribable {
+  target_sets: number;
+  target_reps_min: number;
+  target_rpe: number;
+  rest_seconds: number;
+  set_prescriptions?: SetPrescription[] | null;
+  auto_warmup?: boolean;
+  target_percent_tm?: number | null;
+}
+
+export interface PlannedSet {
+  type: SetType;
+  reps: number;
+  rpe?: number;
+  weight_kg?: number; // Unknown until there is a working weight to work from
+  rest_seconds: number;
+}
+
+export interface PlanContext {
+  oneRepMax?: number | null;
+  trainingMax?: number; // In effect for the current cycle
+  loadIncrement?: number; // Smallest jump the user can load
+  round?: (kg: number) => number; // Rounds to what the exercise's equipment can make; takes over from loadIncrement
+  barWeight?: number; // Where a warm-up ramp starts, for barbell lifts
+  lastWorkingWeight?: number; // Heaviest set of the last session
+  logged: Array<{ weight_kg: number; is_warmup?: boolean }>; // Sets of the exercise logged so far this session, in order
+  week?: { volume_percent: number; intensity_percent: number }; // Program week being trained, if periodized
+}
+
+export const SET_TYPE_LABELS: Record<SetType, string> = {
+  warmup: "Warm-up",
+  working: "Working",
+  top: "Top set",
+  backoff: "Back-off",
+};
+
+const WEIGHT_INCREMENT = 2.5;
+const BAR_WEIGHT = 20;
+const WARMUP_REST_SECONDS = 60;
+const DEFAULT_BACKOFF_PERCENT = 10;
+
+// Percentage of the working weight and reps for each warm-up step; the first step is the empty bar
+const WARMUP_STEPS: Array<[number, number]> = [
+  [0, 10],
+  [0.4, 5],
+  [0.6, 3],
+  [0.8, 2],
+];
+
+export function roundWeight(kg: number, increment: number = WEIGHT_INCREMENT): number {
+  const step = increment > 0 ? increment : WEIGHT_INCREMENT;
+  // Avoid float noise such as 72.50000000000001
+  return Math.round(Math.round(kg / step) * step * 1000) / 1000;
+}
+
+// The sets an exercise is prescribed, falling back to its flat targets
+export function getPrescriptions(exercise: Prescribable): SetPrescription[] {
+  if (exercise.set_prescriptions?.length) return exercise.set_prescriptions;
+  return Array.from({ length: exercise.target_sets }, () => ({
+    type: "working" as const,
+    reps: exercise.target_reps_min,
+    rpe: exercise.target_rpe,
+    percent_tm: exercise.target_percent_tm ?? undefined,
+  }));
+}
+
+// Warm-up sets ramping up to a working weight, skipping steps lighter than the bar
+export function warmupRamp(
+  workingWeight: number,
+  round: (kg: number) => number = roundWeight,
+  barWeight: number = BAR_WEIGHT
+): Array<{ weight_kg: number; reps: number }> {
+  const ramp: Array<{ weight_kg: number; reps: number }> = [];
+  for (const [fraction, reps] of WARMUP_STEPS) {
+    const weight = fraction === 0 ? barWeight : round(workingWeight * fraction);
+    if (weight < barWeight || weight >= workingWeight) continue;
+    if (ramp.some((step) => step.weight_kg === weight)) continue;
+    ramp.push({ weight_kg: weight, reps });
+  }
+  return ramp;
+}
+
+// Scale the number of non-warm-up sets by the week's volume, dropping sets from the end or repeating the last one
+function scaleVolume(prescriptions: SetPrescription[], volumePercent: number): SetPrescription[] {
+  const warmups = prescriptions.filter((p) => p.type === "warmup");
+  const work = prescriptions.filter((p) => p.type !== "warmup");
+  if (work.length === 0) return prescriptions;
+
+  const count = Math.max(1, Math.round((work.length * volumePercent) / 100));
+  const scaled = work.slice(0, count);
+  while (scaled.length < count) scaled.push(work[work.length - 1]);
+  return [...warmups, ...scaled];
+}
+
+// Every set of an exercise with its target load, reps and rest
+export function planSets(exercise: Prescribable, context: PlanContext): PlannedSet[] {
+  const week = context.week;
+  const prescriptions = week ? scaleVolume(getPrescriptions(exercise), week.volume_percent) : getPrescriptions(exercise);
+  const round = context.round ?? ((kg: number) => roundWeight(kg, context.loadIncrement));
+  const intensity = (week?.intensity_percent ?? 100) / 100;
+  const loadFor = (prescription: SetPrescription) => {
+    if (prescription.percent_tm && context.trainingMax) {
+      return round((context.trainingMax * prescription.percent_tm * intensity) / 100);
+    }
+    if (prescription.percent_1rm && context.oneRepMax) {
+      return round((context.oneRepMax * prescription.percent_1rm * intensity) / 100);
+    }
+    return undefined;
+  };
+
+  // Last session's weight already carries the previous week's ramp, so only a lighter week scales it
+  const lastWeight =
+    context.lastWorkingWeight && intensity < 1
+      ? round(context.lastWorkingWeight * intensity)
+      : context.lastWorkingWeight;
+  const firstWorkSet = prescriptions.find((p) => p.type !== "warmup");
+  const workingWeight = (firstWorkSet && loadFor(firstWorkSet)) ?? lastWeight;
+
+  const sets: PlannedSet[] = [];
+  if (exercise.auto_warmup && workingWeight) {
+    warmupRamp(workingWeight, round, context.barWeight).forEach((step) =>
+      sets.push({ type: "warmup", ...step, rest_seconds: WARMUP_REST_SECONDS })
+    );
+  }
+
+  // Logged sets are matched to prescriptions by role: the nth work set logged is the nth work set prescribed,
+  // however many warm-ups were logged or generated before it
+  const loggedWork = context.logged.filter((set) => !set.is_warmup);
+  let workSetIndex = 0;
+  let topSetWeight: number | undefined;
+  for (const prescription of prescriptions) {
+    let weight = loadFor(prescription);
+    if (prescription.type === "backoff" && weight === undefined) {
+      const base = topSetWeight ?? workingWeight;
+      const percent = prescription.backoff_percent ?? DEFAULT_BACKOFF_PERCENT;
+      weight = base ? round(base * (1 - percent / 100)) : undefined;
+    } else if (prescription.type !== "warmup") {
+      weight ??= workingWeight;
+    }
+
+    if (prescription.type === "top") {
+      // Back-offs follow what was actually lifted on the top set
+      topSetWeight = loggedWork[workSetIndex]?.weight_kg ?? weight;
+    }
+    if (prescription.type !== "warmup") workSetIndex++;
+    sets.push({
+      type: prescription.type,
+      reps: prescription.reps,
+      rpe: prescription.rpe,
+      weight_kg: weight,
+      rest_seconds: prescription.rest_seconds ?? exercise.rest_seconds,
+    });
+  }
+  return sets;
+}
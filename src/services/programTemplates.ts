@@ -0,0 +1,361 @@
+import type { Exercise, ProgramType, WorkoutExerciseCreate } from "./schemas";
+
+// Builds the workouts of a built-in split from the exercise library
+// Each day is a list of slots (a muscle and whether it wants a compound lift); every slot is filled with
+// the best-matching exercise the user has the equipment for, not repeating one already in the program
+// unless nothing else fits. Repeated days (e.g. the second Push of a 6-day PPL) pick the next-best choices.
+
+export type ExperienceLevel = "beginner" | "intermediate" | "advanced";
+export type SplitType = Exclude<ProgramType, "custom">;
+
+export interface TemplateOptions {
+  type: SplitType;
+  daysPerWeek: number;
+  equipment: string[];
+  level: ExperienceLevel;
+}
+
+export type Targets = Omit<WorkoutExerciseCreate, "exercise_id" | "order_index">;
+
+export interface GeneratedExercise extends Targets {
+  exercise: Exercise;
+  alternatives: Exercise[]; // Other exercises that fit the slot, best first
+}
+
+export interface GeneratedWorkout {
+  name: string;
+  day_number: number;
+  exercises: GeneratedExercise[];
+  unfilled: string[]; // Slots nothing in the library fitted
+}
+
+type Muscle =
+  | "chest"
+  | "back"
+  | "shoulders"
+  | "biceps"
+  | "triceps"
+  | "quads"
+  | "hamstrings"
+  | "glutes"
+  | "calves"
+  | "core";
+
+interface Slot {
+  muscle: Muscle;
+  compound: boolean;
+}
+
+interface DayTemplate {
+  name: string;
+  slots: Slot[];
+}
+
+export const EXPERIENCE_LEVELS: Array<{ value: ExperienceLevel; label: string }> = [
+  { value: "beginner", label: "Beginner" },
+  { value: "intermediate", label: "Intermediate" },
+  { value: "advanced", label: "Advanced" },
+];
+
+// Muscle group names differ between libraries, so slots match on any of these
+const MUSCLE_KEYWORDS: Record<Muscle, string[]> = {
+  chest: ["chest", "pec"],
+  back: ["back", "lat", "trap"],
+  shoulders: ["shoulder", "delt"],
+  biceps: ["bicep"],
+  triceps: ["tricep"],
+  quads: ["quad", "leg"],
+  hamstrings: ["hamstring", "leg"],
+  glutes: ["glute", "leg"],
+  calves: ["calf", "calves"],
+  core: ["core", "abs", "abdominal", "oblique"],
+};
+
+// Most productive equipment first, for when several exercises fit a slot
+const EQUIPMENT_PREFERENCE = ["barbell", "dumbbell", "machine", "cable", "bodyweight", "kettlebell", "resistance_band"];
+
+const LEVEL_SETTINGS: Record<ExperienceLevel, { maxExercises: number; sets: number; rpe: number }> = {
+  beginner: { maxExercises: 5, sets: 3, rpe: 7 },
+  intermediate: { maxExercises: 6, sets: 3, rpe: 8 },
+  advanced: { maxExercises: 7, sets: 4, rpe: 8.5 },
+};
+
+const compound = (muscle: Muscle): Slot => ({ muscle, compound: true });
+const isolation = (muscle: Muscle): Slot => ({ muscle, compound: false });
+
+// Slots in order of priority; lower levels drop them from the end
+const PUSH: DayTemplate = {
+  name: "Push",
+  slots: [
+    compound("chest"),
+    compound("shoulders"),
+    compound("chest"),
+    isolation("triceps"),
+    isolation("shoulders"),
+    isolation("chest"),
+    isolation("triceps"),
+  ],
+};
+const PULL: DayTemplate = {
+  name: "Pull",
+  slots: [
+    compound("back"),
+    compound("back"),
+    isolation("biceps"),
+    isolation("back"),
+    isolation("shoulders"),
+    isolation("biceps"),
+    isolation("core"),
+  ],
+};
+const LEGS: DayTemplate = {
+  name: "Legs",
+  slots: [
+    compound("quads"),
+    compound("hamstrings"),
+    compound("glutes"),
+    isolation("quads"),
+    isolation("hamstrings"),
+    isolation("calves"),
+    isolation("core"),
+  ],
+};
+const UPPER: DayTemplate = {
+  name: "Upper",
+  slots: [
+    compound("chest"),
+    compound("back"),
+    compound("shoulders"),
+    compound("back"),
+    isolation("biceps"),
+    isolation("triceps"),
+    isolation("shoulders"),
+  ],
+};
+const LOWER: DayTemplate = {
+  name: "Lower",
+  slots: [
+    compound("quads"),
+    compound("hamstrings"),
+    compound("glutes"),
+    isolation("quads"),
+    isolation("hamstrings"),
+    isolation("calves"),
+    isolation("core"),
+  ],
+};
+const FULL_BODY: DayTemplate = {
+  name: "Full Body",
+  slots: [
+    compound("quads"),
+    compound("chest"),
+    compound("back"),
+    compound("hamstrings"),
+    compound("shoulders"),
+    isolation("biceps"),
+    isolation("core"),
+  ],
+};
+
+const CHEST: DayTemplate = {
+  name: "Chest",
+  slots: [
+    compound("chest"),
+    compound("chest"),
+    compound("chest"),
+    isolation("chest"),
+    isolation("chest"),
+    isolation("core"),
+  ],
+};
+const BACK: DayTemplate = {
+  name: "Back",
+  slots: [
+    compound("back"),
+    compound("back"),
+    compound("back"),
+    isolation("back"),
+    isolation("back"),
+    isolation("core"),
+  ],
+};
+const SHOULDERS: DayTemplate = {
+  name: "Shoulders",
+  slots: [
+    compound("shoulders"),
+    compound("shoulders"),
+    isolation("shoulders"),
+    isolation("shoulders"),
+    isolation("back"),
+    isolation("core"),
+  ],
+};
+const ARMS: DayTemplate = {
+  name: "Arms",
+  slots: [
+    compound("triceps"),
+    isolation("biceps"),
+    isolation("triceps"),
+    isolation("biceps"),
+    isolation("triceps"),
+    isolation("biceps"),
+  ],
+};
+const CHEST_TRICEPS: DayTemplate = {
+  name: "Chest & Triceps",
+  slots: [
+    compound("chest"),
+    compound("chest"),
+    isolation("chest"),
+    isolation("triceps"),
+    isolation("triceps"),
+    isolation("chest"),
+  ],
+};
+const BACK_BICEPS: DayTemplate = {
+  name: "Back & Biceps",
+  slots: [
+    compound("back"),
+    compound("back"),
+    isolation("back"),
+    isolation("biceps"),
+    isolation("biceps"),
+    isolation("back"),
+  ],
+};
+const LEGS_SHOULDERS: DayTemplate = {
+  name: "Legs & Shoulders",
+  slots: [
+    compound("quads"),
+    compound("shoulders"),
+    compound("hamstrings"),
+    isolation("shoulders"),
+    isolation("calves"),
+    isolation("shoulders"),
+  ],
+};
+const SHOULDERS_ARMS: DayTemplate = {
+  name: "Shoulders & Arms",
+  slots: [
+    compound("shoulders"),
+    isolation("shoulders"),
+    isolation("biceps"),
+    isolation("triceps"),
+    isolation("shoulders"),
+    isolation("biceps"),
+    isolation("triceps"),
+  ],
+};
+
+// Bro splits fold muscles together when there are fewer days than body parts
+const BRO_SPLIT_DAYS: Record<number, DayTemplate[]> = {
+  1: [FULL_BODY],
+  2: [UPPER, LOWER],
+  3: [CHEST_TRICEPS, BACK_BICEPS, LEGS_SHOULDERS],
+  4: [CHEST, BACK, SHOULDERS_ARMS, LEGS],
+  5: [CHEST, BACK, SHOULDERS, ARMS, LEGS],
+};
+
+const SPLIT_DAYS: Record<Exclude<SplitType, "bro_split">, DayTemplate[]> = {
+  push_pull_legs: [PUSH, PULL, LEGS],
+  upper_lower: [UPPER, LOWER],
+  full_body: [FULL_BODY],
+};
+
+// The days of a split for a number of training days, cycling through it (Push, Pull, Legs, Push...)
+// A day that comes round more than once a week is lettered (Push A, Push B) and varies its exercises
+function splitDays(
+  type: SplitType,
+  daysPerWeek: number
+): Array<{ template: DayTemplate; name: string; variant: number }> {
+  const days = Math.min(7, Math.max(1, daysPerWeek));
+  const rotation = type === "bro_split" ? BRO_SPLIT_DAYS[Math.min(days, 5)] : SPLIT_DAYS[type];
+  const repeats = days > rotation.length;
+
+  return Array.from({ length: days }, (_, i) => {
+    const template = rotation[i % rotation.length];
+    const variant = Math.floor(i / rotation.length);
+    const letter = String.fromCharCode(65 + variant);
+    return { template, variant, name: repeats ? `${template.name} ${letter}` : template.name };
+  });
+}
+
+function matchesMuscle(exercise: Exercise, muscle: Muscle): boolean {
+  const name = exercise.muscle_group?.name.toLowerCase() ?? "";
+  return MUSCLE_KEYWORDS[muscle].some((keyword) => name.includes(keyword));
+}
+
+function equipmentRank(exercise: Exercise): number {
+  const rank = EQUIPMENT_PREFERENCE.indexOf(exercise.equipment);
+  return rank === -1 ? EQUIPMENT_PREFERENCE.length : rank;
+}
+
+// Exercises that fit a slot, best first: right kind of movement, then preferred equipment, then name
+function candidatesFor(slot: Slot, library: Exercise[]): Exercise[] {
+  return library
+    .filter((exercise) => matchesMuscle(exercise, slot.muscle))
+    .sort(
+      (a, b) =>
+        Number(b.is_compound === slot.compound) - Number(a.is_compound === slot.compound) ||
+        equipmentRank(a) - equipmentRank(b) ||
+        a.name.localeCompare(b.name)
+    );
+}
+
+// Sets, reps, effort and rest for a slot at an experience level
+export function slotTargets(isCompound: boolean, level: ExperienceLevel): Targets {
+  const settings = LEVEL_SETTINGS[level];
+  if (isCompound) {
+    return {
+      target_sets: settings.sets + (level === "beginner" ? 0 : 1),
+      target_reps_min: level === "beginner" ? 8 : 5,
+      target_reps_max: level === "beginner" ? 10 : 8,
+      target_rpe: settings.rpe,
+      rest_seconds: level === "beginner" ? 120 : 180,
+    };
+  }
+  return {
+    target_sets: settings.sets,
+    target_reps_min: 10,
+    target_reps_max: 15,
+    target_rpe: settings.rpe,
+    rest_seconds: 90,
+  };
+}
+
+// Workouts for a split, filled from the exercises available with the given equipment
+export function generateProgram(options: TemplateOptions, library: Exercise[]): GeneratedWorkout[] {
+  const available = library.filter(
+    (exercise) => exercise.equipment === "bodyweight" || options.equipment.includes(exercise.equipment)
+  );
+  const settings = LEVEL_SETTINGS[options.level];
+  const usedInProgram = new Set<string>();
+
+  return splitDays(options.type, options.daysPerWeek).map(({ template, name, variant }, index) => {
+    const usedToday = new Set<string>();
+    const exercises: GeneratedExercise[] = [];
+    const unfilled: string[] = [];
+
+    for (const slot of template.slots.slice(0, settings.maxExercises)) {
+      const candidates = candidatesFor(slot, available).filter((exercise) => !usedToday.has(exercise.id));
+      if (candidates.length === 0) {
+        unfilled.push(`${slot.compound ? "Compound" : "Isolation"} ${slot.muscle}`);
+        continue;
+      }
+      // Prefer something not yet in the program; a repeated day starts further down the list
+      const fresh = candidates.filter((exercise) => !usedInProgram.has(exercise.id));
+      const pool = fresh.length > 0 ? fresh : candidates;
+      const pick = pool[Math.min(variant, pool.length - 1)];
+
+      usedToday.add(pick.id);
+      usedInProgram.add(pick.id);
+      exercises.push({
+        exercise: pick,
+        alternatives: candidates.filter((exercise) => exercise.id !== pick.id),
+        ...slotTargets(pick.is_compound, options.level),
+      });
+    }
+
+    return { name, day_number: index + 1, exercises, unfilled };
+  });
+}
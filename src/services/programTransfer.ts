@@ -0,0 +1,357 @@
+import { s, parseWith, type Infer } from "./schema";
+import {
+  exerciseGroupTypeSchema,
+  programTypeSchema,
+  programWeekSchema,
+  setPrescriptionSchema,
+  type Exercise,
+  type MuscleGroup,
+  type Program,
+} from "./schemas";
+import { exercisesApi, programsApi, workoutsApi } from "./api";
+import { defaultGroupType } from "./exerciseGroups";
+import { parseCsvRecords, toCsv } from "./files";
+
+// Programs as portable files, for moving them between accounts or sharing them
+// - JSON carries everything (set prescriptions, week plans) and is versioned
+// - CSV is one row per exercise, for editing in a spreadsheet; it has no prescriptions or week plans
+// Exercises travel by name and are matched to the importing account's library, or created as custom exercises
+
+export const PROGRAM_FILE_FORMAT = "fitforge-program";
+export const PROGRAM_FILE_VERSION = 1;
+
+const portableExerciseSchema = s.object({
+  name: s.string(),
+  muscle_group: s.optional(s.string()),
+  equipment: s.optional(s.string()),
+  is_compound: s.optional(s.boolean()),
+  target_sets: s.number(),
+  target_reps_min: s.number(),
+  target_reps_max: s.number(),
+  target_rpe: s.number(),
+  rest_seconds: s.number(),
+  notes: s.optional(s.string()),
+  group_id: s.optional(s.nullable(s.string())),
+  group_type: s.optional(s.nullable(exerciseGroupTypeSchema)),
+  group_rounds: s.optional(s.nullable(s.number())),
+  set_prescriptions: s.optional(s.nullable(s.array(setPrescriptionSchema))),
+  auto_warmup: s.optional(s.boolean()),
+  target_percent_tm: s.optional(s.nullable(s.number())),
+});
+export type PortableExercise = Infer<typeof portableExerciseSchema>;
+
+const portableWorkoutSchema = s.object({
+  name: s.string(),
+  day_number: s.number(),
+  notes: s.optional(s.string()),
+  estimated_duration_minutes: s.optional(s.number()),
+  exercises: s.array(portableExerciseSchema),
+});
+export type PortableWorkout = Infer<typeof portableWorkoutSchema>;
+
+const programFileSchema = s.object({
+  format: s.enum([PROGRAM_FILE_FORMAT]),
+  version: s.number(),
+  exported_at: s.optional(s.string()),
+  program: s.object({
+    name: s.string(),
+    description: s.optional(s.string()),
+    type: programTypeSchema,
+    days_per_week: s.number(),
+    weeks: s.optional(s.nullable(s.array(programWeekSchema))),
+  }),
+  workouts: s.array(portableWorkoutSchema),
+});
+export type ProgramFile = Infer<typeof programFileSchema>;
+
+const CSV_HEADER = [
+  "program",
+  "type",
+  "days_per_week",
+  "workout",
+  "day",
+  "exercise",
+  "muscle_group",
+  "equipment",
+  "sets",
+  "reps_min",
+  "reps_max",
+  "rpe",
+  "rest_seconds",
+  "group",
+  "notes",
+];
+
+export interface ImportExercise {
+  source: PortableExercise;
+  match?: Exercise; // Library exercise with the same name
+  muscleGroupId?: string; // For a custom exercise created in its place
+}
+
+export interface ImportPlan {
+  file: ProgramFile;
+  name: string; // Renamed when the account already has a program by that name
+  workouts: Array<{ source: PortableWorkout; exercises: ImportExercise[] }>;
+  warnings: string[];
+}
+
+// Names compare without case, punctuation or spacing ("Bench Press (Barbell)" = "bench press barbell")
+function normalizeName(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+// Group letters (A, B...) for the CSV, by order of appearance in each workout
+function groupLetters(workout: PortableWorkout): Map<string, string> {
+  const letters = new Map<string, string>();
+  workout.exercises.forEach((ex) => {
+    if (ex.group_id && !letters.has(ex.group_id)) letters.set(ex.group_id, String.fromCharCode(65 + letters.size));
+  });
+  return letters;
+}
+
+// Everything needed to recreate a program, read from the server
+export async function exportProgram(programId: string): Promise<ProgramFile> {
+  const program = await programsApi.get(programId);
+  const workouts: PortableWorkout[] = [];
+
+  for (const workout of [...(program.workouts || [])].sort((a, b) => a.day_number - b.day_number)) {
+    const detail = await workoutsApi.get(workout.id);
+    const exercises: PortableExercise[] = [];
+    for (const we of [...(detail.exercises || [])].sort((a, b) => a.order_index - b.order_index)) {
+      const exercise = we.exercise ?? (await exercisesApi.get(we.exercise_id));
+      if (!exercise) continue;
+      exercises.push({
+        name: exercise.name,
+        muscle_group: exercise.muscle_group?.name,
+        equipment: exercise.equipment,
+        is_compound: exercise.is_compound,
+        target_sets: we.target_sets,
+        target_reps_min: we.target_reps_min,
+        target_reps_max: we.target_reps_max,
+        target_rpe: we.target_rpe,
+        rest_seconds: we.rest_seconds,
+        notes: we.notes,
+        group_id: we.group_id,
+        group_type: we.group_type,
+        group_rounds: we.group_rounds,
+        set_prescriptions: we.set_prescriptions,
+        auto_warmup: we.auto_warmup,
+        target_percent_tm: we.target_percent_tm,
+      });
+    }
+    workouts.push({
+      name: detail.name,
+      day_number: detail.day_number,
+      notes: detail.notes,
+      estimated_duration_minutes: detail.estimated_duration_minutes,
+      exercises,
+    });
+  }
+
+  return {
+    format: PROGRAM_FILE_FORMAT,
+    version: PROGRAM_FILE_VERSION,
+    exported_at: new Date().toISOString(),
+    program: {
+      name: program.name,
+      description: program.description,
+      type: program.type,
+      days_per_week: program.days_per_week,
+      weeks: program.weeks,
+    },
+    workouts,
+  };
+}
+
+export function programToJson(file: ProgramFile): string {
+  return JSON.stringify(file, null, 2);
+}
+
+export function programToCsv(file: ProgramFile): string {
+  const rows = file.workouts.flatMap((workout) => {
+    const letters = groupLetters(workout);
+    return workout.exercises.map((ex) => [
+      file.program.name,
+      file.program.type,
+      file.program.days_per_week,
+      workout.name,
+      workout.day_number,
+      ex.name,
+      ex.muscle_group,
+      ex.equipment,
+      ex.target_sets,
+      ex.target_reps_min,
+      ex.target_reps_max,
+      ex.target_rpe,
+      ex.rest_seconds,
+      ex.group_id ? letters.get(ex.group_id) : "",
+      ex.notes,
+    ]);
+  });
+  return toCsv(CSV_HEADER, rows);
+}
+
+function csvNumber(value: string, field: string, line: number): number {
+  const number = parseFloat(value);
+  if (Number.isNaN(number)) throw new Error(`Row ${line}: "${field}" should be a number, got "${value}"`);
+  return number;
+}
+
+function programFromCsv(text: string): ProgramFile {
+  const records = parseCsvRecords(text);
+  if (records.length === 0) throw new Error("The CSV file has no rows");
+  const missing = ["workout", "exercise", "sets", "reps_min"].filter((column) => !(column in records[0]));
+  if (missing.length > 0) throw new Error(`The CSV file is missing the ${missing.join(", ")} column(s)`);
+
+  const workouts = new Map<string, PortableWorkout>();
+  records.forEach((record, i) => {
+    const line = i + 2; // Header is line 1
+    const key = `${record.day}|${record.workout}`;
+    if (!workouts.has(key)) {
+      workouts.set(key, {
+        name: record.workout,
+        day_number: record.day ? csvNumber(record.day, "day", line) : workouts.size + 1,
+        exercises: [],
+      });
+    }
+    const repsMin = csvNumber(record.reps_min, "reps_min", line);
+    workouts.get(key)!.exercises.push({
+      name: record.exercise,
+      muscle_group: record.muscle_group || undefined,
+      equipment: record.equipment || undefined,
+      target_sets: csvNumber(record.sets, "sets", line),
+      target_reps_min: repsMin,
+      target_reps_max: record.reps_max ? csvNumber(record.reps_max, "reps_max", line) : repsMin,
+      target_rpe: record.rpe ? csvNumber(record.rpe, "rpe", line) : 8,
+      rest_seconds: record.rest_seconds ? csvNumber(record.rest_seconds, "rest_seconds", line) : 90,
+      notes: record.notes || undefined,
+      group_id: record.group || null,
+    });
+  });
+
+  // Rows sharing a group letter in a workout become a superset (or giant set, from three)
+  workouts.forEach((workout) => {
+    workout.exercises.forEach((ex) => {
+      if (!ex.group_id) return;
+      const size = workout.exercises.filter((other) => other.group_id === ex.group_id).length;
+      if (size < 2) ex.group_id = null;
+      else ex.group_type = defaultGroupType(size);
+    });
+  });
+
+  const first = records[0];
+  const type = programTypeSchema.parse(first.type || "custom", "type");
+  return {
+    format: PROGRAM_FILE_FORMAT,
+    version: PROGRAM_FILE_VERSION,
+    program: {
+      name: first.program || "Imported Program",
+      type,
+      days_per_week: first.days_per_week ? csvNumber(first.days_per_week, "days_per_week", 2) : workouts.size,
+    },
+    workouts: [...workouts.values()].sort((a, b) => a.day_number - b.day_number),
+  };
+}
+
+// Read an exported program, as JSON or CSV
+export function parseProgramFile(text: string, filename: string): ProgramFile {
+  if (filename.toLowerCase().endsWith(".csv")) return programFromCsv(text);
+
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("The file is not valid JSON");
+  }
+  const file = parseWith(programFileSchema, data, "the program file");
+  if (file.version > PROGRAM_FILE_VERSION) {
+    throw new Error("This file was exported by a newer version of FitForge; update the app to import it");
+  }
+  return file;
+}
+
+// What importing a file would do, without saving anything
+export function planImport(
+  file: ProgramFile,
+  library: Exercise[],
+  muscleGroups: MuscleGroup[],
+  existingPrograms: Program[]
+): ImportPlan {
+  const byName = new Map(library.map((exercise) => [normalizeName(exercise.name), exercise]));
+  const groupByName = new Map(muscleGroups.map((group) => [normalizeName(group.name), group]));
+  const warnings: string[] = [];
+
+  const workouts = file.workouts.map((workout) => ({
+    source: workout,
+    exercises: workout.exercises.map((source): ImportExercise => {
+      const match = byName.get(normalizeName(source.name));
+      if (match) return { source, match };
+      const group = source.muscle_group ? groupByName.get(normalizeName(source.muscle_group)) : undefined;
+      return { source, muscleGroupId: group?.id };
+    }),
+  }));
+
+  const dayNumbers = file.workouts.map((w) => w.day_number);
+  if (new Set(dayNumbers).size !== dayNumbers.length) warnings.push("Several workouts share a day number");
+  if (file.workouts.length === 0) warnings.push("The program has no workouts");
+
+  const taken = new Set(existingPrograms.map((p) => p.name.toLowerCase()));
+  let name = file.program.name;
+  for (let n = 2; taken.has(name.toLowerCase()); n++) {
+    name = `${file.program.name} (${n})`;
+  }
+
+  return { file, name, workouts, warnings };
+}
+
+// Exercises an import would create, one per name
+export function exercisesToCreate(plan: ImportPlan): ImportExercise[] {
+  const seen = new Set<string>();
+  return plan.workouts
+    .flatMap((workout) => workout.exercises)
+    .filter((ex) => {
+      if (ex.match) return false;
+      const key = normalizeName(ex.source.name);
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+}
+
+// Save an import plan: custom exercises first, then the program, its workouts and their exercises
+export async function applyImport(plan: ImportPlan, onProgress?: (message: string) => void): Promise<Program> {
+  const created = new Map<string, Exercise>();
+  for (const ex of exercisesToCreate(plan)) {
+    if (!ex.muscleGroupId) throw new Error(`Choose a muscle group for ${ex.source.name}`);
+    onProgress?.(`Creating ${ex.source.name}...`);
+    const exercise = await exercisesApi.create({
+      name: ex.source.name,
+      muscle_group_id: ex.muscleGroupId,
+      equipment: ex.source.equipment || "other",
+      is_compound: ex.source.is_compound,
+    });
+    created.set(normalizeName(ex.source.name), exercise);
+  }
+
+  onProgress?.("Creating program...");
+  const { program: source } = plan.file;
+  const program = await programsApi.create({
+    name: plan.name,
+    description: source.description,
+    type: source.type,
+    days_per_week: source.days_per_week,
+    weeks: source.weeks,
+  });
+
+  for (const workout of plan.workouts) {
+    onProgress?.(`Creating ${workout.source.name}...`);
+    const { exercises: _exercises, ...fields } = workout.source;
+    const savedWorkout = await workoutsApi.create({ program_id: program.id, ...fields });
+    for (const [index, ex] of workout.exercises.entries()) {
+      const { name: _name, muscle_group: _group, equipment: _equipment, is_compound: _compound, ...targets } = ex.source;
+      const exercise = ex.match ?? created.get(normalizeName(ex.source.name))!;
+      await workoutsApi.addExercise(savedWorkout.id, { exercise_id: exercise.id, order_index: index, ...targets });
+    }
+  }
+  return program;
+}
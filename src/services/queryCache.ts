@@ -0,0 +1,147 @@
+import { offlineService } from "./offline";
+import { SchemaError, type Schema } from "./schema";
+
+// In-app cache of GET responses, keyed by request path
+// - a fresh entry is returned without a request
+// - a stale entry is returned at once and refreshed in the background (stale-while-revalidate)
+// - concurrent requests for the same key share one network call
+// - mutations expire the keys they affect; an expired entry is only served when the network fails,
+//   and a response to a request sent before the mutation is not kept, as it may predate the change
+// Entries are persisted per account in IndexedDB, so the last known data survives reloads and offline starts
+
+interface CacheEntry {
+  data: unknown;
+  fetchedAt: number; // 0 once expired by a mutation
+}
+
+export interface QueryOptions {
+  staleTime?: number; // How long a response is served without revalidating
+  canServeExpired?: (error: unknown) => boolean; // Errors that fall back to an expired entry
+}
+
+const DEFAULT_STALE_TIME = 30 * 1000;
+
+const entries = new Map<string, CacheEntry>();
+const inFlight = new Map<string, Promise<unknown>>();
+let listeners: Array<{ prefix: string; callback: (key: string) => void }> = [];
+let generation = 0; // Bumped on reset, so responses for a previous account are dropped
+let invalidations = 0; // Counts invalidate calls; requests note the count they started at
+const invalidatedAt = new Map<string, number>(); // Prefix -> count at its latest invalidation
+
+// Whether a key has been invalidated since a request for it started at the given count
+function invalidatedSince(key: string, startedAt: number): boolean {
+  return [...invalidatedAt].some(([prefix, at]) => at > startedAt && key.startsWith(prefix));
+}
+
+function notify(key: string) {
+  listeners.filter((listener) => key.startsWith(listener.prefix)).forEach((listener) => listener.callback(key));
+}
+
+// Load an entry from memory, or from IndexedDB the first time a key is asked for
+async function getEntry<T>(key: string, schema: Schema<T>): Promise<CacheEntry | undefined> {
+  const cached = entries.get(key);
+  if (cached) return cached;
+
+  const stored = await offlineService.getCachedQuery(key).catch(() => undefined);
+  if (!stored) return undefined;
+  try {
+    // Stored by an older version of the app; drop it if the shape has changed since
+    const entry = { data: schema.parse(stored.data, ""), fetchedAt: stored.fetchedAt };
+    if (!entries.has(key)) entries.set(key, entry);
+    return entries.get(key);
+  } catch (error) {
+    if (error instanceof SchemaError) return undefined;
+    throw error;
+  }
+}
+
+// Run the request for a key, sharing it with anyone else asking for the same key meanwhile
+function load<T>(key: string, fetcher: () => Promise<T>): Promise<T> {
+  const pending = inFlight.get(key);
+  if (pending) return pending as Promise<T>;
+
+  const startedIn = generation;
+  const startedAt = invalidations;
+  const request = fetcher()
+    .then(async (data) => {
+      if (startedIn !== generation || invalidatedSince(key, startedAt)) return data;
+      const fetchedAt = Date.now();
+      entries.set(key, { data, fetchedAt });
+      await offlineService
+        .putCachedQuery(key, data, fetchedAt)
+        .catch((err) => console.warn("[Cache] Failed to persist", key, err));
+      return data;
+    })
+    .finally(() => {
+      if (inFlight.get(key) === request) inFlight.delete(key);
+    });
+  inFlight.set(key, request);
+  return request;
+}
+
+export const queryCache = {
+  // Get a response through the cache
+  async fetch<T>(key: string, fetcher: () => Promise<T>, schema: Schema<T>, options: QueryOptions = {}): Promise<T> {
+    const { staleTime = DEFAULT_STALE_TIME, canServeExpired = () => false } = options;
+    const entry = await getEntry(key, schema);
+
+    if (entry && entry.fetchedAt > 0) {
+      if (Date.now() - entry.fetchedAt >= staleTime && navigator.onLine) {
+        // Whoever is showing the stale data is told when the fresh copy lands
+        load(key, fetcher)
+          .then(() => notify(key))
+          .catch((err) => console.warn("[Cache] Background refresh failed:", key, err));
+      }
+      return entry.data as T;
+    }
+
+    try {
+      return await load(key, fetcher);
+    } catch (error) {
+      if (entry && canServeExpired(error)) return entry.data as T;
+      throw error;
+    }
+  },
+
+  // Data already cached in memory for keys under a prefix (e.g. every loaded exercise list)
+  peek(prefix: string): unknown[] {
+    return [...entries.entries()].filter(([key]) => key.startsWith(prefix)).map(([, entry]) => entry.data);
+  },
+
+  // Expire every entry under the prefixes, so the next read goes to the server
+  // Requests already in flight for them are let go, so the next read doesn't join a pre-mutation response
+  async invalidate(prefixes: string[]): Promise<void> {
+    invalidations++;
+    prefixes.forEach((prefix) => invalidatedAt.set(prefix, invalidations));
+    const abandoned = [...inFlight.keys()].filter((key) => prefixes.some((prefix) => key.startsWith(prefix)));
+    abandoned.forEach((key) => inFlight.delete(key));
+    const expired: string[] = [];
+    entries.forEach((entry, key) => {
+      if (prefixes.some((prefix) => key.startsWith(prefix))) {
+        entry.fetchedAt = 0;
+        expired.push(key);
+      }
+    });
+    await offlineService
+      .expireCachedQueries(prefixes)
+      .catch((err) => console.warn("[Cache] Failed to expire stored queries:", err));
+    // Whoever is waiting on an abandoned request is told to read again, even if nothing was cached yet
+    new Set([...expired, ...abandoned]).forEach(notify);
+  },
+
+  // Subscribe to entries under a prefix being refreshed or expired
+  subscribe(prefix: string, callback: (key: string) => void) {
+    const listener = { prefix, callback };
+    listeners.push(listener);
+    return () => {
+      listeners = listeners.filter((l) => l !== listener);
+    };
+  },
+
+  // Forget everything held in memory (the signed-in account changed)
+  reset() {
+    generation++;
+    entries.clear();
+    inFlight.clear();
+  },
+};
@@ -0,0 +1,154 @@
+// Small runtime schemas for API payloads
+// A schema checks an unknown value and doubles as its static type (Infer<typeof schema>),
+// so an endpoint's shape is written once and a backend change fails loudly at the boundary.
+
+export interface Schema<T> {
+  parse: (value: unknown, path: string) => T;
+  description: string;
+  isOptional?: boolean;
+  isNullable?: boolean;
+}
+
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+// Thrown when a payload does not match its schema
+export class SchemaError extends Error {
+  path: string;
+
+  constructor(path: string, expected: string, received: unknown) {
+    super(`${path || "value"} should be ${expected} but was ${describeValue(received)}`);
+    this.name = "SchemaError";
+    this.path = path;
+  }
+}
+
+function describeValue(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "an array";
+  if (typeof value === "string") return `"${value.length > 40 ? `${value.slice(0, 40)}…` : value}"`;
+  if (typeof value === "object") return "an object";
+  return String(value);
+}
+
+function joinPath(path: string, key: string | number): string {
+  if (typeof key === "number") return `${path}[${key}]`;
+  return path ? `${path}.${key}` : key;
+}
+
+function primitive<T>(description: string, check: (value: unknown) => boolean): Schema<T> {
+  return {
+    description,
+    parse: (value, path) => {
+      if (!check(value)) throw new SchemaError(path, description, value);
+      return value as T;
+    },
+  };
+}
+
+type OptionalKeys<Shape> = {
+  [K in keyof Shape]: Shape[K] extends { isOptional: true } ? K : never;
+}[keyof Shape];
+
+type Simplify<T> = { [K in keyof T]: T[K] } & {};
+
+type ObjectType<Shape extends Record<string, Schema<unknown>>> = Simplify<
+  { [K in Exclude<keyof Shape, OptionalKeys<Shape>>]: Infer<Shape[K]> } & {
+    [K in OptionalKeys<Shape>]?: Infer<Shape[K]>;
+  }
+>;
+
+export const s = {
+  string: () => primitive<string>("a string", (value) => typeof value === "string"),
+
+  number: () =>
+    primitive<number>("a number", (value) => typeof value === "number" && Number.isFinite(value)),
+
+  boolean: () => primitive<boolean>("a boolean", (value) => typeof value === "boolean"),
+
+  // One of a fixed set of strings
+  enum: <const T extends readonly string[]>(values: T): Schema<T[number]> =>
+    primitive<T[number]>(`one of ${values.join(", ")}`, (value) => values.includes(value as string)),
+
+  // Any value, passed through as is (for payloads the app never looks inside)
+  unknown: (): Schema<unknown> => ({ description: "anything", parse: (value) => value }),
+
+  array: <T>(item: Schema<T>): Schema<T[]> => ({
+    description: `a list of ${item.description}`,
+    parse: (value, path) => {
+      if (!Array.isArray(value)) throw new SchemaError(path, "a list", value);
+      return value.map((entry, index) => item.parse(entry, joinPath(path, index)));
+    },
+  }),
+
+  // Fields not in the shape are kept, so additions on the server are not lost
+  object: <Shape extends Record<string, Schema<unknown>>>(shape: Shape): Schema<ObjectType<Shape>> & { shape: Shape } => ({
+    shape,
+    description: "an object",
+    parse: (value, path) => {
+      if (typeof value !== "object" || value === null || Array.isArray(value)) {
+        throw new SchemaError(path, "an object", value);
+      }
+      const result: Record<string, unknown> = { ...value };
+      for (const [key, schema] of Object.entries(shape)) {
+        const parsed = schema.parse((value as Record<string, unknown>)[key], joinPath(path, key));
+        if (parsed === undefined) delete result[key];
+        else result[key] = parsed;
+      }
+      return result as ObjectType<Shape>;
+    },
+  }),
+
+  // May be missing; a null is read as missing too unless the inner schema is nullable
+  optional: <T>(inner: Schema<T>): Schema<T | undefined> & { isOptional: true } => ({
+    description: `${inner.description} (optional)`,
+    isOptional: true,
+    parse: (value, path) => {
+      if (value === undefined) return undefined;
+      if (value === null) return inner.isNullable ? inner.parse(value, path) : undefined;
+      return inner.parse(value, path);
+    },
+  }),
+
+  // Always present, but may be null
+  nullable: <T>(inner: Schema<T>): Schema<T | null> => ({
+    description: `${inner.description} or null`,
+    isNullable: true,
+    parse: (value, path) => (value === null ? null : inner.parse(value, path)),
+  }),
+
+  // The same object with every field optional (for PATCH-style updates)
+  // Fields that are optional already are kept as they are, so a null sent to clear a nullable field survives
+  partial: <Shape extends Record<string, Schema<unknown>>>(
+    schema: Schema<ObjectType<Shape>> & { shape: Shape }
+  ): Schema<Partial<ObjectType<Shape>>> =>
+    s.object(
+      Object.fromEntries(
+        Object.entries(schema.shape).map(([key, field]) => [key, field.isOptional ? field : s.optional(field)])
+      )
+    ) as Schema<Partial<ObjectType<Shape>>>,
+
+  // The first schema that accepts the value wins
+  union: <A, B>(first: Schema<A>, second: Schema<B>): Schema<A | B> => ({
+    description: `${first.description} or ${second.description}`,
+    parse: (value, path) => {
+      try {
+        return first.parse(value, path);
+      } catch (error) {
+        if (!(error instanceof SchemaError)) throw error;
+        return second.parse(value, path);
+      }
+    },
+  }),
+};
+
+// Parse a value, naming where it came from in the error (e.g. "GET /users/me")
+export function parseWith<T>(schema: Schema<T>, value: unknown, context: string): T {
+  try {
+    return schema.parse(value, "");
+  } catch (error) {
+    if (error instanceof SchemaError) {
+      error.message = `Unexpected data from ${context}: ${error.message}`;
+    }
+    throw error;
+  }
+}
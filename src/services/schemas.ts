@@ -0,0 +1,710 @@
+import { s, type Infer, type Schema } from "./schema";
+
+// Request and response shapes of the FitForge API
+// Each endpoint in api.ts validates against these, and the exported types are derived from them
+
+// Most list endpoints wrap their rows in { data: [...] }
+const listOf = <T>(item: Schema<T>) => s.object({ data: s.array(item) });
+
+// Exercises
+const muscleGroupRefSchema = s.object({
+  id: s.string(),
+  name: s.string(),
+});
+
+// What a set's weight is made of: a plain external load, the lifter's body weight, body weight with
+// weight added, or body weight less a machine's or band's assistance
+export const loadTypeSchema = s.enum(["external", "bodyweight", "bodyweight_plus", "assisted"]);
+export type LoadType = Infer<typeof loadTypeSchema>;
+
+// What a set of an exercise records besides (or instead of) weight × reps:
+// holds, carries, sled pushes, runs and rowing intervals
+export const trackingModeSchema = s.enum(["reps", "time", "distance", "weight_distance", "weight_time", "calories"]);
+export type TrackingMode = Infer<typeof trackingModeSchema>;
+
+// The measurements of a set that aren't weight × reps; reps is 0 on sets that don't count them
+const setMetricFields = {
+  duration_seconds: s.optional(s.nullable(s.number())),
+  distance_m: s.optional(s.nullable(s.number())),
+  calories: s.optional(s.nullable(s.number())),
+};
+
+export const exerciseSchema = s.object({
+  id: s.string(),
+  name: s.string(),
+  muscle_group: muscleGroupRefSchema,
+  secondary_muscle_group: s.optional(muscleGroupRefSchema),
+  equipment: s.string(),
+  load_type: s.optional(s.nullable(loadTypeSchema)), // Missing on exercises from before load types
+  tracking_mode: s.optional(s.nullable(trackingModeSchema)), // Missing means weight × reps
+  is_compound: s.boolean(),
+  is_unilateral: s.boolean(),
+  instructions: s.optional(s.string()),
+  is_custom: s.boolean(),
+});
+export type Exercise = Infer<typeof exerciseSchema>;
+
+export const muscleGroupSchema = s.object({
+  id: s.string(),
+  name: s.string(),
+  display_order: s.number(),
+});
+export type MuscleGroup = Infer<typeof muscleGroupSchema>;
+
+export const exerciseListSchema = listOf(exerciseSchema);
+export const muscleGroupListSchema = listOf(muscleGroupSchema);
+
+export const exerciseCreateSchema = s.object({
+  name: s.string(),
+  muscle_group_id: s.string(),
+  secondary_muscle_group_id: s.optional(s.string()),
+  equipment: s.string(),
+  load_type: s.optional(loadTypeSchema),
+  tracking_mode: s.optional(trackingModeSchema),
+  is_compound: s.optional(s.boolean()),
+  is_unilateral: s.optional(s.boolean()),
+  instructions: s.optional(s.string()),
+});
+export type ExerciseCreate = Infer<typeof exerciseCreateSchema>;
+
+// Programs and workouts
+export const programTypeSchema = s.enum(["push_pull_legs", "upper_lower", "full_body", "bro_split", "custom"]);
+export type ProgramType = Infer<typeof programTypeSchema>;
+
+// One week of a periodized program. The workouts stay the same every week; the week scales
+// how many working sets they get and how heavy they are, relative to the template.
+export const programWeekSchema = s.object({
+  week: s.number(), // 1-based
+  block: s.optional(s.nullable(s.string())), // Mesocycle the week belongs to, e.g. "Accumulation"
+  volume_percent: s.number(),
+  intensity_percent: s.number(),
+  is_deload: s.boolean(),
+});
+export type ProgramWeek = Infer<typeof programWeekSchema>;
+
+export const programSchema = s.object({
+  id: s.string(),
+  name: s.string(),
+  description: s.optional(s.string()),
+  type: programTypeSchema,
+  days_per_week: s.number(),
+  start_date: s.optional(s.string()),
+  end_date: s.optional(s.string()),
+  is_active: s.boolean(),
+  workout_count: s.optional(s.number()),
+  weeks: s.optional(s.nullable(s.array(programWeekSchema))),
+  created_at: s.string(),
+  updated_at: s.string(),
+});
+export type Program = Infer<typeof programSchema>;
+
+export const programCreateSchema = s.object({
+  name: s.string(),
+  description: s.optional(s.string()),
+  type: programTypeSchema,
+  days_per_week: s.number(),
+  start_date: s.optional(s.string()),
+  is_active: s.optional(s.boolean()),
+  weeks: s.optional(s.nullable(s.array(programWeekSchema))),
+});
+export type ProgramCreate = Infer<typeof programCreateSchema>;
+
+export const programUpdateSchema = s.partial(programCreateSchema);
+
+export const workoutSchema = s.object({
+  id: s.string(),
+  program_id: s.string(),
+  name: s.string(),
+  day_number: s.number(),
+  notes: s.optional(s.string()),
+  estimated_duration_minutes: s.optional(s.number()),
+  exercise_count: s.optional(s.number()),
+});
+export type Workout = Infer<typeof workoutSchema>;
+
+const workoutFields = {
+  name: s.string(),
+  day_number: s.number(),
+  notes: s.optional(s.string()),
+  estimated_duration_minutes: s.optional(s.number()),
+};
+
+export const workoutCreateSchema = s.object({
+  program_id: s.string(),
+  ...workoutFields,
+});
+export type WorkoutCreate = Infer<typeof workoutCreateSchema>;
+
+export const workoutUpdateSchema = s.partial(s.object(workoutFields));
+
+// Exercises done back to back as one block: a superset (two), a giant set (three or more)
+// or a circuit. Members share a group_id and sit next to each other in the workout.
+export const exerciseGroupTypeSchema = s.enum(["superset", "giant_set", "circuit"]);
+export type ExerciseGroupType = Infer<typeof exerciseGroupTypeSchema>;
+
+const exerciseGroupFields = {
+  group_id: s.optional(s.nullable(s.string())),
+  group_type: s.optional(s.nullable(exerciseGroupTypeSchema)),
+  group_rounds: s.optional(s.nullable(s.number())), // Rounds through the block; defaults to the target sets
+};
+
+// How each set of an exercise is meant to go (e.g. a top set @RPE 8, then back-offs at -10%)
+// Without prescriptions every set follows target_sets / target_reps_min / target_rpe.
+export const setTypeSchema = s.enum(["warmup", "working", "top", "backoff"]);
+export type SetType = Infer<typeof setTypeSchema>;
+
+export const setPrescriptionSchema = s.object({
+  type: setTypeSchema,
+  reps: s.number(),
+  rpe: s.optional(s.number()),
+  percent_1rm: s.optional(s.number()), // Load as a percentage of the estimated 1RM
+  percent_tm: s.optional(s.number()), // Load as a percentage of the exercise's training max
+  backoff_percent: s.optional(s.number()), // Back-off sets: how far below the top set
+  rest_seconds: s.optional(s.number()),
+});
+export type SetPrescription = Infer<typeof setPrescriptionSchema>;
+
+const setPrescriptionFields = {
+  set_prescriptions: s.optional(s.nullable(s.array(setPrescriptionSchema))),
+  auto_warmup: s.optional(s.boolean()), // Ramp up to the first working set with generated warm-ups
+  target_percent_tm: s.optional(s.nullable(s.number())), // Working sets at a percentage of the training max
+};
+
+export const workoutExerciseSchema = s.object({
+  id: s.string(),
+  workout_id: s.string(),
+  exercise_id: s.string(),
+  exercise: s.optional(exerciseSchema),
+  order_index: s.number(),
+  target_sets: s.number(),
+  target_reps_min: s.number(),
+  target_reps_max: s.number(),
+  target_rpe: s.number(),
+  rest_seconds: s.number(),
+  notes: s.optional(s.string()),
+  ...exerciseGroupFields,
+  ...setPrescriptionFields,
+});
+export type WorkoutExercise = Infer<typeof workoutExerciseSchema>;
+
+export const workoutExerciseCreateSchema = s.object({
+  exercise_id: s.string(),
+  order_index: s.number(),
+  target_sets: s.number(),
+  target_reps_min: s.number(),
+  target_reps_max: s.number(),
+  target_rpe: s.number(),
+  rest_seconds: s.number(),
+  notes: s.optional(s.string()),
+  ...exerciseGroupFields,
+  ...setPrescriptionFields,
+});
+export type WorkoutExerciseCreate = Infer<typeof workoutExerciseCreateSchema>;
+
+export const workoutExerciseUpdateSchema = s.partial(workoutExerciseCreateSchema);
+
+export const programDetailSchema = s.object({
+  ...programSchema.shape,
+  workouts: s.optional(s.array(workoutSchema)),
+});
+export type ProgramDetail = Infer<typeof programDetailSchema>;
+
+export const workoutDetailSchema = s.object({
+  ...workoutSchema.shape,
+  exercises: s.optional(s.array(workoutExerciseSchema)),
+});
+export type WorkoutDetail = Infer<typeof workoutDetailSchema>;
+
+export const programListSchema = listOf(programSchema);
+
+// Sessions
+const setSummarySchema = s.object({
+  weight_kg: s.number(),
+  bodyweight_kg: s.optional(s.nullable(s.number())),
+  reps: s.number(),
+  rpe: s.optional(s.number()),
+  ...setMetricFields,
+});
+
+export const exerciseInSessionSchema = s.object({
+  id: s.string(),
+  exercise: exerciseSchema,
+  target_sets: s.number(),
+  target_reps_min: s.number(),
+  target_reps_max: s.number(),
+  target_rpe: s.number(),
+  rest_seconds: s.number(),
+  ...exerciseGroupFields,
+  ...setPrescriptionFields,
+  last_session: s.optional(
+    s.object({
+      date: s.string(),
+      sets: s.array(setSummarySchema),
+    })
+  ),
+});
+export type ExerciseInSession = Infer<typeof exerciseInSessionSchema>;
+
+export const sessionSchema = s.object({
+  id: s.string(),
+  workout_id: s.string(),
+  workout_name: s.string(),
+  session_date: s.string(),
+  started_at: s.string(),
+  completed_at: s.optional(s.string()),
+  duration_minutes: s.optional(s.number()),
+  overall_rpe: s.optional(s.number()),
+  notes: s.optional(s.string()),
+  exercises: s.array(exerciseInSessionSchema),
+  summary: s.optional(
+    s.object({
+      total_sets: s.number(),
+      total_volume: s.number(),
+      prs_achieved: s.number(),
+    })
+  ),
+});
+export type Session = Infer<typeof sessionSchema>;
+
+export const sessionListSchema = listOf(
+  s.object({
+    id: s.string(),
+    workout_id: s.optional(s.string()),
+    workout_name: s.optional(s.string()),
+    session_date: s.optional(s.string()),
+    completed_at: s.optional(s.string()),
+  })
+);
+export type SessionListItem = Infer<typeof sessionListSchema>["data"][number];
+
+export const sessionCompleteSchema = s.object({
+  overall_rpe: s.optional(s.number()),
+  notes: s.optional(s.string()),
+});
+export type SessionComplete = Infer<typeof sessionCompleteSchema>;
+
+export const sessionCompletedSchema = s.object({
+  id: s.string(),
+  completed_at: s.optional(s.string()),
+});
+
+const lastSessionSetSchema = s.object({
+  set_number: s.number(),
+  weight_kg: s.number(),
+  reps: s.number(),
+  rpe: s.nullable(s.number()),
+  is_warmup: s.boolean(),
+});
+
+export const lastSessionSchema = s.object({
+  found: s.boolean(),
+  workout_name: s.string(),
+  session_date: s.optional(s.string()),
+  completed_at: s.optional(s.string()),
+  duration_minutes: s.optional(s.number()),
+  overall_rpe: s.optional(s.number()),
+  total_sets: s.optional(s.number()),
+  total_volume: s.optional(s.number()),
+  exercises: s.optional(
+    s.array(
+      s.object({
+        exercise_id: s.string(),
+        exercise_name: s.string(),
+        muscle_group: s.nullable(s.string()),
+        total_sets: s.number(),
+        sets: s.array(lastSessionSetSchema),
+      })
+    )
+  ),
+  message: s.optional(s.string()),
+});
+export type LastSession = Infer<typeof lastSessionSchema>;
+
+// Past sessions brought in from another app, sent in batches
+// The server skips any session whose import_key it has seen, so a batch can be sent again safely
+export const importedSetSchema = s.object({
+  exercise_id: s.string(),
+  set_number: s.number(),
+  weight_kg: s.number(),
+  reps: s.number(),
+  rpe: s.optional(s.number()),
+  is_warmup: s.optional(s.boolean()),
+  is_failure: s.optional(s.boolean()),
+  is_dropset: s.optional(s.boolean()),
+  notes: s.optional(s.string()),
+});
+export type ImportedSet = Infer<typeof importedSetSchema>;
+
+export const importedSessionSchema = s.object({
+  import_key: s.string(), // Stable per source session, e.g. "strong:2023-04-01 18:05:00:Push Day"
+  workout_name: s.string(),
+  session_date: s.string(),
+  started_at: s.string(),
+  completed_at: s.string(),
+  duration_minutes: s.optional(s.number()),
+  notes: s.optional(s.string()),
+  sets: s.array(importedSetSchema),
+});
+export type ImportedSession = Infer<typeof importedSessionSchema>;
+
+export const sessionImportSchema = s.object({
+  source: s.string(),
+  sessions: s.array(importedSessionSchema),
+});
+
+export const sessionImportResultSchema = s.object({
+  imported: s.number(),
+  skipped: s.number(), // Already imported earlier
+});
+export type SessionImportResult = Infer<typeof sessionImportResultSchema>;
+
+// Sets
+export const setSchema = s.object({
+  id: s.string(),
+  user_id: s.string(),
+  workout_exercise_id: s.string(),
+  exercise_id: s.string(),
+  exercise: s.optional(exerciseSchema),
+  session_date: s.string(),
+  set_number: s.number(),
+  weight_kg: s.number(), // The load moved, body weight included for bodyweight exercises
+  bodyweight_kg: s.optional(s.nullable(s.number())), // Body weight the load was worked out from, if it counts
+  reps: s.number(),
+  ...setMetricFields,
+  rpe: s.optional(s.number()),
+  is_warmup: s.boolean(),
+  is_failure: s.boolean(),
+  is_dropset: s.boolean(),
+  rest_seconds: s.optional(s.number()),
+  notes: s.optional(s.string()),
+  completed_at: s.string(),
+  created_at: s.string(),
+});
+export type Set = Infer<typeof setSchema>;
+
+export const setCreateSchema = s.object({
+  workout_exercise_id: s.string(),
+  exercise_id: s.string(),
+  session_date: s.string(),
+  set_number: s.optional(s.number()),
+  weight_kg: s.number(),
+  bodyweight_kg: s.optional(s.nullable(s.number())),
+  reps: s.number(),
+  ...setMetricFields,
+  rpe: s.optional(s.number()),
+  is_warmup: s.optional(s.boolean()),
+  is_failure: s.optional(s.boolean()),
+  is_dropset: s.optional(s.boolean()),
+  rest_seconds: s.optional(s.number()),
+  notes: s.optional(s.string()),
+});
+export type SetCreate = Infer<typeof setCreateSchema>;
+
+export const setUpdateSchema = s.partial(setCreateSchema);
+
+export const sessionSetsSchema = s.object({
+  session_id: s.string(),
+  exercises: s.array(
+    s.object({
+      exercise: s.optional(exerciseSchema),
+      sets: s.array(setSchema),
+    })
+  ),
+});
+export type SessionSets = Infer<typeof sessionSetsSchema>;
+
+export const exerciseHistorySchema = s.object({
+  exercise_id: s.string(),
+  period_days: s.number(),
+  total_sessions: s.number(),
+  sessions: s.array(
+    s.object({
+      date: s.string(),
+      sets: s.array(
+        s.object({
+          set_number: s.number(),
+          weight_kg: s.number(),
+          reps: s.number(),
+          ...setMetricFields,
+          rpe: s.nullable(s.number()),
+          is_warmup: s.boolean(),
+          is_failure: s.boolean(),
+          is_dropset: s.boolean(),
+        })
+      ),
+      working_sets: s.number(),
+      total_volume: s.number(),
+      max_weight: s.number(),
+      max_reps: s.number(),
+    })
+  ),
+  best_volume: s.number(),
+  best_weight: s.number(),
+});
+export type ExerciseHistory = Infer<typeof exerciseHistorySchema>;
+
+// Weight logs
+export const weightLogSchema = s.object({
+  id: s.string(),
+  weight_kg: s.number(),
+  logged_date: s.string(),
+  time_of_day: s.optional(s.string()),
+  notes: s.optional(s.string()),
+  created_at: s.string(),
+});
+export type WeightLog = Infer<typeof weightLogSchema>;
+
+export const weightLogListSchema = listOf(weightLogSchema);
+
+export const weightLogCreateSchema = s.object({
+  weight_kg: s.number(),
+  logged_date: s.string(),
+  time_of_day: s.string(),
+  notes: s.optional(s.nullable(s.string())),
+});
+export type WeightLogCreate = Infer<typeof weightLogCreateSchema>;
+
+export const weightLogUpdateSchema = s.partial(weightLogCreateSchema);
+export type WeightLogUpdate = Infer<typeof weightLogUpdateSchema>;
+
+// Analytics
+export const recentExerciseSchema = s.object({
+  exercise_id: s.string(),
+  exercise: s.object({
+    id: s.string(),
+    name: s.string(),
+    muscle_group: s.optional(muscleGroupRefSchema),
+    equipment: s.string(),
+    is_compound: s.optional(s.boolean()),
+  }),
+  last_session_date: s.string(),
+  set_count: s.number(),
+});
+export type RecentExercise = Infer<typeof recentExerciseSchema>;
+
+export const recentExerciseListSchema = listOf(recentExerciseSchema);
+
+export const volumePerMuscleGroupSchema = s.object({
+  period_days: s.number(),
+  start_date: s.string(),
+  end_date: s.string(),
+  data: s.array(
+    s.object({
+      muscle_group_id: s.string(),
+      muscle_group_name: s.string(),
+      total_volume: s.number(),
+      set_count: s.number(),
+      exercise_count: s.number(),
+    })
+  ),
+});
+export type VolumePerMuscleGroup = Infer<typeof volumePerMuscleGroupSchema>;
+
+export const oneRepMaxSchema = s.object({
+  current_1rm: s.nullable(s.number()),
+  pr_1rm: s.nullable(s.number()),
+  pr_date: s.nullable(s.string()),
+  previous_1rm: s.nullable(s.number()),
+  previous_date: s.nullable(s.string()),
+  trend: s.nullable(s.enum(["up", "down", "same", "new"])),
+});
+export type OneRepMax = Infer<typeof oneRepMaxSchema>;
+
+export const oneRepMaxHistorySchema = s.object({
+  exercise_id: s.string(),
+  exercise_name: s.string(),
+  period_days: s.number(),
+  start_date: s.string(),
+  end_date: s.string(),
+  data: s.array(
+    s.object({
+      date: s.string(),
+      estimated_1rm: s.number(),
+      weight_kg: s.number(),
+      reps: s.number(),
+    })
+  ),
+  trend: s.nullable(s.enum(["improving", "maintaining", "declining"])),
+  trend_percentage: s.nullable(s.number()),
+});
+export type OneRepMaxHistory = Infer<typeof oneRepMaxHistorySchema>;
+
+export const workoutConsistencySchema = s.object({
+  period_days: s.number(),
+  start_date: s.string(),
+  end_date: s.string(),
+  days: s.array(
+    s.object({
+      date: s.string(),
+      workout_count: s.number(),
+      total_volume: s.number(),
+      session_ids: s.array(s.string()),
+    })
+  ),
+  current_streak: s.number(),
+  longest_streak: s.number(),
+  weekly_average: s.number(),
+  total_workouts: s.number(),
+});
+export type WorkoutConsistency = Infer<typeof workoutConsistencySchema>;
+
+export const weightTrendSchema = s.object({
+  period_days: s.number(),
+  start_date: s.string(),
+  end_date: s.string(),
+  data: s.array(
+    s.object({
+      date: s.string(),
+      weight_kg: s.number(),
+      moving_average: s.nullable(s.number()),
+    })
+  ),
+  start_weight: s.nullable(s.number()),
+  current_weight: s.nullable(s.number()),
+  weight_change: s.nullable(s.number()),
+  rate_of_change_kg_per_week: s.nullable(s.number()),
+  goal_weight: s.nullable(s.number()),
+});
+export type WeightTrend = Infer<typeof weightTrendSchema>;
+
+export const personalRecordSchema = s.object({
+  exercise_id: s.string(),
+  exercise_name: s.string(),
+  muscle_group: s.string(),
+  estimated_1rm: s.number(),
+  best_weight: s.number(),
+  best_reps: s.number(),
+  // Bests for exercises tracked by time, distance or calories; absent for weight × reps
+  tracking_mode: s.optional(s.nullable(trackingModeSchema)),
+  longest_duration_seconds: s.optional(s.nullable(s.number())),
+  longest_distance_m: s.optional(s.nullable(s.number())),
+  best_pace_seconds_per_km: s.optional(s.nullable(s.number())),
+  most_calories: s.optional(s.nullable(s.number())),
+  date_achieved: s.string(),
+  is_new_pr: s.boolean(),
+});
+export type PersonalRecord = Infer<typeof personalRecordSchema>;
+
+// Returned either as a bare list or wrapped in { records: [...] }
+export const personalRecordListSchema = s.union(
+  s.array(personalRecordSchema),
+  s.object({ records: s.array(personalRecordSchema) })
+);
+
+export const progressiveOverloadSuggestionSchema = s.object({
+  recommendation: s.enum(["increase_weight", "increase_reps", "maintain", "deload"]),
+  confidence: s.enum(["needs_more_data", "confident"]),
+  reasoning: s.string(),
+  suggested_weight_kg: s.nullable(s.number()),
+  suggested_reps: s.nullable(s.number()),
+  current_avg_weight: s.nullable(s.number()),
+  current_avg_reps: s.nullable(s.number()),
+  current_avg_rpe: s.nullable(s.number()),
+  session_count: s.number(),
+});
+export type ProgressiveOverloadSuggestion = Infer<typeof progressiveOverloadSuggestionSchema>;
+
+export const dashboardStatsSchema = s.object({
+  total_workouts: s.number(),
+  total_volume_kg: s.number(),
+  current_streak_days: s.number(),
+  total_prs: s.number(),
+});
+export type DashboardStats = Infer<typeof dashboardStatsSchema>;
+
+// Training maxes
+// The weight percentage-based programs (e.g. 5/3/1) are written against, per exercise.
+// It goes up by increment_kg at the start of every cycle of cycle_weeks.
+export const trainingMaxSchema = s.object({
+  exercise_id: s.string(),
+  weight_kg: s.number(), // At the start of the current cycle
+  increment_kg: s.number(),
+  cycle_weeks: s.number(),
+  cycle_started_on: s.string(),
+  source: s.enum(["manual", "estimated"]), // Typed in, or taken from the estimated 1RM
+  updated_at: s.optional(s.string()),
+});
+export type TrainingMax = Infer<typeof trainingMaxSchema>;
+
+export const trainingMaxListSchema = listOf(trainingMaxSchema);
+
+export const trainingMaxSaveSchema = s.object({
+  weight_kg: s.number(),
+  increment_kg: s.number(),
+  cycle_weeks: s.number(),
+  cycle_started_on: s.string(),
+  source: trainingMaxSchema.shape.source,
+});
+export type TrainingMaxSave = Infer<typeof trainingMaxSaveSchema>;
+
+// Users
+const unitPreferenceSchema = s.enum(["metric", "imperial"]);
+
+// What the user can load: loads are rounded to these and barbell weights broken down into plates
+export const equipmentProfileSchema = s.object({
+  bar_weights_kg: s.array(s.number()), // The first is the bar used unless another is picked
+  plates: s.array(s.object({ weight_kg: s.number(), pairs: s.number() })),
+  dumbbell_step_kg: s.number(),
+  dumbbell_max_kg: s.number(),
+  machine_step_kg: s.number(), // Pin-loaded stacks and cable columns
+});
+export type EquipmentProfile = Infer<typeof equipmentProfileSchema>;
+
+export const userProfileSchema = s.object({
+  id: s.string(),
+  email: s.string(),
+  name: s.nullable(s.string()),
+  height_cm: s.nullable(s.number()),
+  current_weight_kg: s.nullable(s.number()),
+  body_fat_percent: s.nullable(s.number()),
+  bmr: s.nullable(s.number()),
+  date_of_birth: s.nullable(s.string()),
+  gender: s.nullable(s.string()),
+  unit_preference: unitPreferenceSchema,
+  load_increment_kg: s.optional(s.nullable(s.number())), // Smallest jump the user can load (two of their lightest plates)
+  equipment_profile: s.optional(s.nullable(equipmentProfileSchema)), // Takes over from load_increment_kg once set
+  created_at: s.string(),
+  updated_at: s.string(),
+});
+export type UserProfile = Infer<typeof userProfileSchema>;
+
+export const userProfileUpdateSchema = s.object({
+  name: s.optional(s.nullable(s.string())),
+  height_cm: s.optional(s.nullable(s.number())),
+  current_weight_kg: s.optional(s.nullable(s.number())),
+  body_fat_percent: s.optional(s.nullable(s.number())),
+  date_of_birth: s.optional(s.nullable(s.string())),
+  gender: s.optional(s.nullable(s.string())),
+  unit_preference: s.optional(unitPreferenceSchema),
+  load_increment_kg: s.optional(s.nullable(s.number())),
+  equipment_profile: s.optional(s.nullable(equipmentProfileSchema)),
+});
+export type UserProfileUpdate = Infer<typeof userProfileUpdateSchema>;
+
+export const activityLevelSchema = s.enum([
+  "sedentary",
+  "lightly_active",
+  "moderately_active",
+  "very_active",
+  "extremely_active",
+]);
+export type ActivityLevel = Infer<typeof activityLevelSchema>;
+
+export const bmrTdeeSchema = s.object({
+  bmr: s.number(),
+  tdee: s.object({
+    sedentary: s.number(),
+    lightly_active: s.number(),
+    moderately_active: s.number(),
+    very_active: s.number(),
+    extremely_active: s.number(),
+  }),
+  calorie_targets: s.object({
+    maintain: s.number(),
+    cut: s.number(),
+    bulk: s.number(),
+  }),
+  activity_level_used: activityLevelSchema,
+  primary_tdee: s.number(),
+});
+export type BmrTdee = Infer<typeof bmrTdeeSchema>;
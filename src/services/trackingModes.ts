@@ -0,0 +1,202 @@
+import type { Exercise, LoadType, TrackingMode } from "./schemas";
+import { formatLoad } from "./loadTypes";
+import type { Units } from "./units";
+
+// What each exercise's sets measure, and how those measurements are entered, shown and compared:
+// - reps: weight × reps, the default
+// - time: a hold, e.g. a plank
+// - distance: a run or row, with an optional time for the pace
+// - weight_distance: a loaded carry or sled push
+// - weight_time: a loaded hold, e.g. a farmer's hold
+// - calories: a machine interval, with an optional time for the rate
+// Distance is stored in metres and time in seconds; sets that don't count reps store 0 reps
+
+export const TRACKING_MODES: TrackingMode[] = [
+  "reps",
+  "time",
+  "distance",
+  "weight_distance",
+  "weight_time",
+  "calories",
+];
+
+export const TRACKING_MODE_LABELS: Record<TrackingMode, string> = {
+  reps: "Weight × reps",
+  time: "Time",
+  distance: "Distance",
+  weight_distance: "Weight + distance",
+  weight_time: "Weight + time",
+  calories: "Calories",
+};
+
+export interface TrackedFields {
+  weight: boolean;
+  reps: boolean;
+  duration: boolean;
+  distance: boolean;
+  calories: boolean;
+}
+
+const FIELDS: Record<TrackingMode, TrackedFields> = {
+  reps: { weight: true, reps: true, duration: false, distance: false, calories: false },
+  time: { weight: false, reps: false, duration: true, distance: false, calories: false },
+  distance: { weight: false, reps: false, duration: true, distance: true, calories: false },
+  weight_distance: { weight: true, reps: false, duration: false, distance: true, calories: false },
+  weight_time: { weight: true, reps: false, duration: true, distance: false, calories: false },
+  calories: { weight: false, reps: false, duration: true, distance: false, calories: true },
+};
+
+export function trackingModeOf(exercise: Pick<Exercise, "tracking_mode">): TrackingMode {
+  return exercise.tracking_mode ?? "reps";
+}
+
+export function trackedFields(mode: TrackingMode): TrackedFields {
+  return FIELDS[mode];
+}
+
+export interface SetMetrics {
+  weight_kg: number;
+  bodyweight_kg?: number | null;
+  reps: number;
+  duration_seconds?: number | null;
+  distance_m?: number | null;
+  calories?: number | null;
+}
+
+// The measurement a set of the mode can't be logged without
+export function hasResult(mode: TrackingMode, set: Omit<SetMetrics, "weight_kg">): boolean {
+  switch (mode) {
+    case "reps":
+      return set.reps > 0;
+    case "time":
+    case "weight_time":
+      return (set.duration_seconds ?? 0) > 0;
+    case "distance":
+    case "weight_distance":
+      return (set.distance_m ?? 0) > 0;
+    case "calories":
+      return (set.calories ?? 0) > 0;
+  }
+}
+
+// Formatting
+
+// 45 -> "0:45", 3725 -> "1:02:05"
+export function formatDuration(seconds: number): string {
+  const total = Math.round(seconds);
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const secs = String(total % 60).padStart(2, "0");
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, "0")}:${secs}` : `${minutes}:${secs}`;
+}
+
+export interface DistanceUnit {
+  label: string;
+  metres: number;
+}
+
+const METRE_UNITS: DistanceUnit[] = [
+  { label: "m", metres: 1 },
+  { label: "km", metres: 1000 },
+];
+const IMPERIAL_DISTANCE_UNITS: DistanceUnit[] = [
+  { label: "yd", metres: 0.9144 },
+  { label: "mi", metres: 1609.344 },
+];
+
+// Short and long distance units in the user's system: for carries and for runs
+export function distanceUnits(units: Units): [DistanceUnit, DistanceUnit] {
+  const [short, long] = units.system === "imperial" ? IMPERIAL_DISTANCE_UNITS : METRE_UNITS;
+  return [short, long];
+}
+
+// Under a kilometre or mile in the short unit, otherwise in the long one
+export function formatDistance(metres: number, units: Units): string {
+  const [short, long] = distanceUnits(units);
+  if (metres < long.metres) return `${Math.round(metres / short.metres)} ${short.label}`;
+  return `${(metres / long.metres).toFixed(2)} ${long.label}`;
+}
+
+// Time per kilometre or mile
+export function formatPace(secondsPerKm: number, units: Units): string {
+  const [, long] = distanceUnits(units);
+  return `${formatDuration((secondsPerKm * long.metres) / 1000)} /${long.label}`;
+}
+
+export function paceOf(set: SetMetrics): number | null {
+  if (!set.distance_m || !set.duration_seconds) return null;
+  return set.duration_seconds / (set.distance_m / 1000);
+}
+
+// A set as it was done: "80 kg × 8", "1:30", "5.00 km in 25:00", "BW + 20 kg · 40 m", "15 cal in 1:00"
+export function formatSetResult(mode: TrackingMode, loadType: LoadType, set: SetMetrics, units: Units): string {
+  const load = formatLoad(loadType, set, units);
+  const duration = set.duration_seconds ? formatDuration(set.duration_seconds) : null;
+  switch (mode) {
+    case "reps":
+      return `${load} × ${set.reps}`;
+    case "time":
+      return duration ?? "–";
+    case "distance":
+      return `${formatDistance(set.distance_m ?? 0, units)}${duration ? ` in ${duration}` : ""}`;
+    case "weight_distance":
+      return `${load} · ${formatDistance(set.distance_m ?? 0, units)}`;
+    case "weight_time":
+      return `${load} · ${duration ?? "–"}`;
+    case "calories":
+      return `${set.calories ?? 0} cal${duration ? ` in ${duration}` : ""}`;
+  }
+}
+
+// Bests
+
+export interface PersonalBest {
+  label: string;
+  value: string;
+}
+
+const maxOf = (sets: SetMetrics[], value: (set: SetMetrics) => number | null | undefined) => {
+  const values = sets.map(value).filter((v): v is number => typeof v === "number" && v > 0);
+  return values.length > 0 ? Math.max(...values) : null;
+};
+
+// The headline bests of a mode other than weight × reps, from its sets: longest hold, farthest, best pace...
+export function personalBests(mode: TrackingMode, sets: SetMetrics[], units: Units): PersonalBest[] {
+  const bests: PersonalBest[] = [];
+  const add = (label: string, value: number | null, format: (value: number) => string) => {
+    if (value !== null) bests.push({ label, value: format(value) });
+  };
+  const weight = (kg: number) => units.formatWeight(kg, { decimals: 1 });
+  const distance = (m: number) => formatDistance(m, units);
+
+  switch (mode) {
+    case "reps":
+      break;
+    case "time":
+      add("Longest hold", maxOf(sets, (s) => s.duration_seconds), formatDuration);
+      break;
+    case "distance": {
+      add("Farthest", maxOf(sets, (s) => s.distance_m), distance);
+      const paces = sets.map(paceOf).filter((p): p is number => p !== null);
+      add("Best pace", paces.length > 0 ? Math.min(...paces) : null, (p) => formatPace(p, units));
+      break;
+    }
+    case "weight_distance":
+      add("Heaviest", maxOf(sets, (s) => s.weight_kg), weight);
+      add("Farthest", maxOf(sets, (s) => s.distance_m), distance);
+      break;
+    case "weight_time":
+      add("Heaviest", maxOf(sets, (s) => s.weight_kg), weight);
+      add("Longest", maxOf(sets, (s) => s.duration_seconds), formatDuration);
+      break;
+    case "calories":
+      add("Most calories", maxOf(sets, (s) => s.calories), (c) => `${c} cal`);
+      add(
+        "Best rate",
+        maxOf(sets, (s) => (s.calories && s.duration_seconds ? (s.calories / s.duration_seconds) * 60 : null)),
+        (rate) => `${rate.toFixed(1)} cal/min`
+      );
+      break;
+  }
+  return bests;
+}
@@ -0,0 +1,33 @@
+import type { TrainingMax } from "./schemas";
+import { roundWeight } from "./prescriptions";
+import { addDays, daysBetween, parseISODate } from "./dates";
+
+// Training max arithmetic: the stored max is the one at the start of the current cycle,
+// and it goes up by its increment every cycle_weeks without anything being written
+
+export const DEFAULT_TM_PERCENT = 90; // Training max as a share of the estimated 1RM
+export const DEFAULT_CYCLE_WEEKS = 4;
+export const DEFAULT_INCREMENT_KG = 2.5;
+
+export interface EffectiveTrainingMax {
+  weight_kg: number;
+  cycle: number; // 1 for the cycle the max was set in
+  next_bump_on: Date;
+}
+
+// The training max in effect on a date, with the cycles since it was set applied
+export function effectiveTrainingMax(trainingMax: TrainingMax, on: Date = new Date()): EffectiveTrainingMax {
+  const start = parseISODate(trainingMax.cycle_started_on);
+  const cycleDays = Math.max(1, trainingMax.cycle_weeks) * 7;
+  const cyclesDone = Math.max(0, Math.floor(daysBetween(start, on) / cycleDays));
+  return {
+    weight_kg: trainingMax.weight_kg + cyclesDone * trainingMax.increment_kg,
+    cycle: cyclesDone + 1,
+    next_bump_on: addDays(start, (cyclesDone + 1) * cycleDays),
+  };
+}
+
+// A training max derived from an estimated 1RM
+export function trainingMaxFromEstimate(oneRepMax: number, increment?: number): number {
+  return roundWeight((oneRepMax * DEFAULT_TM_PERCENT) / 100, increment);
+}
@@ -0,0 +1,63 @@
+// Unit conversion and formatting, driven by the profile's unit preference
+// Everything is stored in kg and cm; only inputs and displays are in the user's units.
+// Stored kg keep two decimals and pounds are shown to a tenth, so a typed 225 lb is stored as 102.06 kg
+// and shown as 225 lb again (two decimals of kg are within 0.02 lb).
+
+export type UnitSystem = "metric" | "imperial";
+
+export const KG_PER_LB = 0.45359237;
+export const CM_PER_IN = 2.54;
+
+const round = (value: number, decimals: number) => {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+};
+
+export interface Units {
+  system: UnitSystem;
+  weightUnit: "kg" | "lb";
+  lengthUnit: "cm" | "in";
+  weightStep: number; // The usual jump between loads, in the user's unit
+  weightSteps: number[]; // Quick adjustments offered next to a weight input
+  toKg: (weight: number) => number; // From the user's unit, for storing
+  fromKg: (kg: number) => number; // To the user's unit, for showing and editing
+  formatWeight: (kg: number | null | undefined, options?: { unit?: boolean; decimals?: number }) => string;
+  toCm: (length: number) => number;
+  fromCm: (cm: number) => number;
+  formatHeight: (cm: number | null | undefined) => string;
+}
+
+function formatNumber(value: number, decimals: number): string {
+  return round(value, decimals).toLocaleString("en-US", { maximumFractionDigits: decimals });
+}
+
+export function unitsFor(system: UnitSystem = "metric"): Units {
+  const imperial = system === "imperial";
+  const weightUnit = imperial ? "lb" : "kg";
+
+  const fromKg = (kg: number) => (imperial ? round(kg / KG_PER_LB, 1) : round(kg, 2));
+  const fromCm = (cm: number) => (imperial ? round(cm / CM_PER_IN, 1) : round(cm, 1));
+
+  return {
+    system,
+    weightUnit,
+    lengthUnit: imperial ? "in" : "cm",
+    weightStep: imperial ? 5 : 2.5,
+    weightSteps: imperial ? [-10, -5, 5, 10] : [-5, -1, 1, 5],
+    toKg: (weight) => round(imperial ? weight * KG_PER_LB : weight, 2),
+    fromKg,
+    formatWeight: (kg, options = {}) => {
+      if (kg === null || kg === undefined) return "–";
+      const text = formatNumber(fromKg(kg), options.decimals ?? (imperial ? 1 : 2));
+      return options.unit === false ? text : `${text} ${weightUnit}`;
+    },
+    toCm: (length) => round(imperial ? length * CM_PER_IN : length, 1),
+    fromCm,
+    formatHeight: (cm) => {
+      if (cm === null || cm === undefined) return "–";
+      if (!imperial) return `${formatNumber(cm, 1)} cm`;
+      const inches = Math.round(cm / CM_PER_IN);
+      return `${Math.floor(inches / 12)}′${inches % 12}″`;
+    },
+  };
+}
@@ -0,0 +1,449 @@
+// Service Worker for FitForge PWA
+// This is a template: vite.config.ts fills in the build version and the list of
+// hashed bundles at build time and emits the result as /sw.js
+const BUILD_VERSION = __BUILD_VERSION__;
+const PRECACHE_MANIFEST = __PRECACHE_MANIFEST__;
+
+const CACHE_PREFIX = 'fitforge-';
+const PRECACHE_NAME = `${CACHE_PREFIX}precache-${BUILD_VERSION}`;
+const RUNTIME_CACHE_NAME = `${CACHE_PREFIX}runtime`;
+// API responses are cached per account so one user never sees another's data on a shared device
+const API_CACHE_PREFIX = `${CACHE_PREFIX}api-user-`;
+
+// Read the account id (the JWT "sub" claim) from a request's bearer token
+function getUserId(request) {
+  const token = request.headers.get('Authorization')?.replace(/^Bearer\s+/i, '');
+  const payload = token?.split('.')[1];
+  if (!payload) return null;
+  try {
+    const json = atob(payload.replace(/-/g, '+').replace(/_/g, '/'));
+    return JSON.parse(json).sub || null;
+  } catch {
+    return null;
+  }
+}
+
+function getApiCacheName(userId) {
+  return `${API_CACHE_PREFIX}${userId}`;
+}
+
+// Install event - precache the app shell and every bundle of this build
+// If any file fails to download the install fails and the previous version stays active
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches.open(PRECACHE_NAME).then((cache) => {
+      console.log('[SW] Precaching', PRECACHE_MANIFEST.length, 'files for', BUILD_VERSION);
+      return cache.addAll(PRECACHE_MANIFEST);
+    })
+  );
+});
+
+// The page asks a waiting worker to take over once the user accepts the update,
+// and to drop an account's cached API responses when it signs out
+self.addEventListener('message', (event) => {
+  if (event.data?.type === 'SKIP_WAITING') {
+    self.skipWaiting();
+  } else if (event.data?.type === 'PURGE_API_CACHE' && event.data.userId) {
+    event.waitUntil(caches.delete(getApiCacheName(event.data.userId)));
+  }
+});
+
+// Activate event - clean up caches from previous builds
+// Only our own caches are touched, and only once this version is in control.
+// Per-account API caches survive updates so signed-in users keep their offline data
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then((cacheNames) => {
+        const current = [PRECACHE_NAME, RUNTIME_CACHE_NAME];
+        return Promise.all(
+          cacheNames.map((cacheName) => {
+            const isApiCache = cacheName.startsWith(API_CACHE_PREFIX);
+            if (cacheName.startsWith(CACHE_PREFIX) && !current.includes(cacheName) && !isApiCache) {
+              console.log('[SW] Deleting old cache:', cacheName);
+              return caches.delete(cacheName);
+            }
+          })
+        );
+      })
+      .then(() => self.clients.claim()) // Take control of all pages
+  );
+});
+
+// Stale-while-revalidate strategy for API GET requests, in the cache of the requesting account
+// Requests without a token are never cached
+async function staleWhileRevalidate(request) {
+  const userId = getUserId(request);
+  if (!userId) {
+    return fetch(request);
+  }
+  const cache = await caches.open(getApiCacheName(userId));
+  const cachedResponse = await cache.match(request);
+  
+  // Always try to fetch fresh data
+  const fetchPromise = fetch(request)
+    .then((response) => {
+      // Only cache successful GET responses
+      if (response.ok && request.method === 'GET') {
+        cache.put(request, response.clone());
+      }
+      return response;
+    })
+    .catch(() => {
+      // Network failed, return cached if available
+      if (cachedResponse) {
+        return cachedResponse;
+      }
+      throw new Error('Network failed and no cache available');
+    });
+  
+  // Return cached immediately if available, otherwise wait for network
+  return cachedResponse || fetchPromise;
+}
+
+// Network-first strategy for API GETs the app marks cache: 'no-store' (its query cache revalidating,
+// e.g. after a write), still falling back to the account's cached copy when the network fails
+async function revalidate(request) {
+  const userId = getUserId(request);
+  if (!userId) {
+    return fetch(request);
+  }
+  const cache = await caches.open(getApiCacheName(userId));
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      cache.put(request, response.clone());
+    }
+    return response;
+  } catch (error) {
+    const cachedResponse = await cache.match(request);
+    if (cachedResponse) {
+      return cachedResponse;
+    }
+    throw error;
+  }
+}
+
+// Network-first strategy for API POST/PUT/DELETE
+async function networkFirst(request) {
+  try {
+    const response = await fetch(request);
+    return response;
+  } catch (error) {
+    // Network failed - for mutations, we can't use cache
+    throw error;
+  }
+}
+
+// Fetch event - handle different strategies
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+  
+  // API requests
+  if (url.pathname.startsWith('/api/')) {
+    // GET requests: stale-while-revalidate, unless the app asked for fresh data
+    if (request.method === 'GET') {
+      event.respondWith(request.cache === 'no-store' ? revalidate(request) : staleWhileRevalidate(request));
+    } else {
+      // POST/PUT/DELETE: network-first (don't cache)
+      event.respondWith(networkFirst(request));
+    }
+    return;
+  }
+  
+  if (request.method !== 'GET') {
+    return;
+  }
+
+  // Hashed bundles never change, so serve them straight from the precache
+  if (url.origin === self.location.origin && url.pathname.startsWith('/assets/')) {
+    event.respondWith(
+      caches.match(request).then((cachedResponse) => cachedResponse || fetch(request))
+    );
+    return;
+  }
+
+  // App shell: network-first (always try to get fresh content)
+  event.respondWith(
+    fetch(request)
+      .then((response) => {
+        // Cache successful same-origin responses
+        if (response.ok && url.origin === self.location.origin) {
+          const responseToCache = response.clone();
+          caches.open(RUNTIME_CACHE_NAME)
+            .then((cache) => {
+              cache.put(request, responseToCache);
+            });
+        }
+        return response;
+      })
+      .catch(() => {
+        // Network failed, try cache
+        return caches.match(request).then((cachedResponse) => {
+          if (cachedResponse) {
+            return cachedResponse;
+          }
+          // SPA routes all render index.html
+          if (request.mode === 'navigate') {
+            return caches.match('/index.html');
+          }
+        });
+      })
+  );
+});
+
+// ---------------------------------------------------------------------------
+// Background Sync: flush the offline operation log written by the app
+// (src/services/offline.ts) when connectivity returns, even if no page is open.
+// Dexie stores its tables as plain object stores, so they are read with raw IndexedDB.
+// ---------------------------------------------------------------------------
+const DB_NAME = 'FitnessTrackerDB';
+const SYNC_TAG = 'fitforge-sync';
+const PERIODIC_SYNC_TAG = 'fitforge-periodic-sync';
+const SYNC_LOCK_NAME = 'fitforge-sync';
+const MAX_RETRIES = 10;
+
+self.addEventListener('sync', (event) => {
+  if (event.tag === SYNC_TAG) {
+    event.waitUntil(flushQueueWithLock());
+  }
+});
+
+self.addEventListener('periodicsync', (event) => {
+  if (event.tag === PERIODIC_SYNC_TAG) {
+    event.waitUntil(flushQueueWithLock());
+  }
+});
+
+// Share the app's lock so a tab and the worker never replay the same operation twice
+async function flushQueueWithLock() {
+  if (!self.navigator.locks) {
+    return flushQueue();
+  }
+  return self.navigator.locks.request(SYNC_LOCK_NAME, { ifAvailable: true }, async (lock) => {
+    if (!lock) return; // A tab is already syncing
+    return flushQueue();
+  });
+}
+
+function promisify(request) {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// Open the app database without creating it; resolves null if the app never created it
+function openDatabase() {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME);
+    let created = false;
+    request.onupgradeneeded = () => {
+      created = true;
+      request.transaction.abort();
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => (created ? resolve(null) : reject(request.error));
+  });
+}
+
+function getBackoffDelay(retryCount) {
+  return Math.min(1000 * Math.pow(2, retryCount), 60000);
+}
+
+function isPermanentFailure(status) {
+  return status >= 400 && status < 500 && status !== 408 && status !== 429;
+}
+
+// Same readiness rule as offlineService.getReadyOperations
+function getReadyOperations(operations) {
+  const unsynced = operations.filter((op) => !op.synced);
+  const waiting = new Set(unsynced.map((op) => op.clientId));
+  return unsynced.filter((op) =>
+    !op.deadLetteredAt &&
+    op.retryCount < MAX_RETRIES &&
+    (!op.lastRetryAt || Date.now() - op.lastRetryAt >= getBackoffDelay(op.retryCount)) &&
+    op.dependsOn.every((clientId) => !waiting.has(clientId))
+  );
+}
+
+// Map an operation to its request, mirroring sendOperation in src/services/api.ts
+function toRequest(op) {
+  if (op.kind === 'set') {
+    if (op.action === 'create') return { method: 'POST', path: '/sets', body: op.setData };
+    if (op.action === 'update') return { method: 'PATCH', path: `/sets/${op.targetId}`, body: op.updates };
+    return { method: 'DELETE', path: `/sets/${op.targetId}` };
+  }
+  if (op.kind === 'session') {
+    if (op.action === 'start') return { method: 'POST', path: '/sessions/start', body: op.data };
+    return { method: 'POST', path: `/sessions/${op.sessionId}/complete`, body: op.data };
+  }
+  if (op.action === 'create') return { method: 'POST', path: '/weight-logs', body: op.weightData };
+  if (op.action === 'update') return { method: 'PUT', path: `/weight-logs/${op.targetId}`, body: op.updates };
+  return { method: 'DELETE', path: `/weight-logs/${op.targetId}` };
+}
+
+// Claim an operation for sending and return it as it is now, mirroring offlineService.markSending
+// Returns null when it has been synced or deleted in the meantime
+async function claimOperation(db, id) {
+  const store = db.transaction('operations', 'readwrite').objectStore('operations');
+  const op = await promisify(store.get(id));
+  if (!op || op.synced) return null;
+  const sending = { ...op, sendingAt: Date.now() };
+  await promisify(store.put(sending));
+  return sending;
+}
+
+// Write only the status fields, keeping anything the app changed while the request was out
+async function updateOperation(db, id, fields) {
+  const store = db.transaction('operations', 'readwrite').objectStore('operations');
+  const op = await promisify(store.get(id));
+  if (op) {
+    await promisify(store.put({ ...op, ...fields }));
+  }
+}
+
+// Mark an operation as synced and point edits queued against it while it was sent at the server id,
+// mirroring offlineService.markSynced
+async function markSynced(db, id, serverId) {
+  const store = db.transaction('operations', 'readwrite').objectStore('operations');
+  const op = await promisify(store.get(id));
+  if (!op) return;
+  await promisify(store.put({ ...op, synced: true, syncedAt: Date.now(), serverId, sendingAt: undefined }));
+  if (!serverId) return;
+  const all = await promisify(store.getAll());
+  for (const item of all) {
+    if (!item.synced && item.targetId === op.clientId) {
+      await promisify(store.put({ ...item, targetId: serverId }));
+    }
+  }
+}
+
+// Point a locally started session and its queued operations at the server id
+async function reconcileSession(db, localId, serverId) {
+  const tx = db.transaction(['sessions', 'operations'], 'readwrite');
+  const sessions = tx.objectStore('sessions');
+  const session = await promisify(sessions.get(localId));
+  if (session) {
+    await promisify(sessions.put({ ...session, serverId }));
+  }
+  const operations = tx.objectStore('operations');
+  const all = await promisify(operations.getAll());
+  for (const op of all) {
+    const belongsToSession = op.kind === 'session' || (op.kind === 'set' && op.action === 'create');
+    const isStart = op.kind === 'session' && op.action === 'start';
+    if (belongsToSession && !isStart && op.sessionId === localId) {
+      await promisify(operations.put({ ...op, sessionId: serverId }));
+    }
+  }
+}
+
+async function notifyClients(message) {
+  const clients = await self.clients.matchAll({ includeUncontrolled: true, type: 'window' });
+  clients.forEach((client) => client.postMessage(message));
+}
+
+async function flushQueue() {
+  const db = await openDatabase();
+  if (!db) return;
+
+  try {
+    if (!db.objectStoreNames.contains('operations') || !db.objectStoreNames.contains('syncConfig')) return;
+
+    const auth = await promisify(db.transaction('syncConfig').objectStore('syncConfig').get('auth'));
+    if (!auth?.userId || (auth.expiresAt && auth.expiresAt * 1000 <= Date.now())) {
+      // No usable token: leave the queue for the app to sync after sign-in
+      console.log('[SW] Background sync skipped: no valid session');
+      return;
+    }
+
+    const synced = [];
+    let failed = 0;
+    let stopReason = null; // 'offline' or 'unauthorized'
+    const attempted = new Set();
+    let progressed = true;
+
+    while (progressed && !stopReason) {
+      progressed = false;
+      const all = await promisify(db.transaction('operations').objectStore('operations').getAll());
+      all.sort((a, b) => a.id - b.id);
+      // Only the signed-in account's operations may be sent with its token
+      const owned = all.filter((op) => op.userId === auth.userId);
+      const ready = getReadyOperations(owned).filter((op) => !attempted.has(op.id));
+
+      for (const queued of ready) {
+        attempted.add(queued.id);
+        // Send the operation as it is now, and stop the app folding edits into it while it is on its way
+        const op = await claimOperation(db, queued.id);
+        if (!op) continue;
+        const { method, path, body } = toRequest(op);
+        let response;
+        try {
+          response = await fetch(`${auth.apiUrl}${path}`, {
+            method,
+            headers: {
+              'Authorization': `Bearer ${auth.accessToken}`,
+              'Content-Type': 'application/json',
+              'Idempotency-Key': op.clientId,
+            },
+            body: body === undefined ? undefined : JSON.stringify(body),
+          });
+        } catch (error) {
+          // Still offline: stop and let the browser fire the sync event again later
+          await updateOperation(db, op.id, { sendingAt: undefined });
+          stopReason = 'offline';
+          break;
+        }
+
+        if (response.status === 401) {
+          // Token expired while the app was closed; the app will sync once it refreshes
+          await updateOperation(db, op.id, { sendingAt: undefined });
+          stopReason = 'unauthorized';
+          break;
+        }
+
+        const alreadyDeleted = method === 'DELETE' && response.status === 404;
+        if (response.ok || alreadyDeleted) {
+          const created = response.status === 204 || alreadyDeleted ? null : await response.json().catch(() => null);
+          if (op.kind === 'session' && op.action === 'start' && created?.id) {
+            await reconcileSession(db, op.sessionId, created.id);
+          }
+          const serverId = op.action === 'create' || op.action === 'start' ? created?.id : undefined;
+          await markSynced(db, op.id, serverId);
+          if (op.action === 'create' || op.action === 'start' || op.action === 'complete') {
+            synced.push({
+              type: op.kind,
+              clientId: op.clientId,
+              serverId: op.action === 'complete' ? op.sessionId : serverId,
+              data: created,
+            });
+          }
+          progressed = true;
+        } else {
+          const detail = await response.json().then((data) => data?.detail).catch(() => undefined);
+          const retryCount = op.retryCount + 1;
+          const now = Date.now();
+          await updateOperation(db, op.id, {
+            retryCount,
+            lastRetryAt: now,
+            error: (typeof detail === 'string' ? detail : detail && JSON.stringify(detail)) || `HTTP ${response.status}`,
+            errorStatus: response.status,
+            deadLetteredAt: isPermanentFailure(response.status) || retryCount >= MAX_RETRIES ? now : undefined,
+            sendingAt: undefined,
+          });
+          failed++;
+        }
+      }
+    }
+
+    console.log('[SW] Background sync finished:', synced.length, 'synced,', failed, 'failed');
+    await notifyClients({ type: 'sync-complete', synced: synced.length, failed, items: synced });
+
+    if (stopReason === 'offline') {
+      throw new Error('Background sync incomplete, will retry');
+    }
+  } finally {
+    db.close();
+  }
+}
@@ -1,8 +1,61 @@
-import { defineConfig } from "vite";
+import { createHash } from "node:crypto";
+import { readFileSync, readdirSync } from "node:fs";
+import { defineConfig, type Plugin } from "vite";
 import react from "@vitejs/plugin-react";
 
+const SERVICE_WORKER_TEMPLATE = "./src/sw.js";
+
+// Fill in the service worker template with the build version and files to precache
+function renderServiceWorker(version: string, manifest: string[]) {
+  return readFileSync(SERVICE_WORKER_TEMPLATE, "utf-8")
+    .replace("__BUILD_VERSION__", JSON.stringify(version))
+    .replace("__PRECACHE_MANIFEST__", JSON.stringify(manifest, null, 2));
+}
+
+// Emits /sw.js with a precache manifest of the real (hashed) build output.
+// The version is derived from the file list, so every deploy that changes a bundle
+// gets a new precache and the old one is cleaned up on activation.
+function serviceWorkerPlugin(): Plugin {
+  return {
+    name: "fitforge-service-worker",
+    enforce: "post", // Run after index.html has been emitted
+
+    // Dev server: serve the template with nothing to precache
+    configureServer(server) {
+      server.middlewares.use("/sw.js", (_req, res) => {
+        res.setHeader("Content-Type", "application/javascript");
+        res.end(renderServiceWorker("dev", []));
+      });
+    },
+
+    generateBundle(_options, bundle) {
+      const bundleFiles = Object.keys(bundle).filter((fileName) => !fileName.endsWith(".map"));
+      const publicFiles = readdirSync("public").filter((fileName) => fileName !== "sw.js");
+      const manifest = [
+        "/",
+        ...bundleFiles.map((fileName) => `/${fileName}`),
+        ...publicFiles.map((fileName) => `/${fileName}`),
+      ];
+
+      // index.html embeds the bundle hashes, so its content identifies the build
+      const html = bundle["index.html"];
+      const version = createHash("sha256")
+        .update(manifest.join("\n"))
+        .update(html && html.type === "asset" ? String(html.source) : "")
+        .digest("hex")
+        .slice(0, 12);
+
+      this.emitFile({
+        type: "asset",
+        fileName: "sw.js",
+        source: renderServiceWorker(version, manifest),
+      });
+    },
+  };
+}
+
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), serviceWorkerPlugin()],
   server: {
     port: 5173,
   },
@@ -16,4 +69,3 @@ export default defineConfig({
   },
   publicDir: "public",
 });
-